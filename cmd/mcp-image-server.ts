@@ -22,18 +22,34 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath, pathToFileURL } from 'url';
 import crypto from 'crypto';
+import { EditOp, CropOp, MaskOp, EditStackManager, activeOps } from '../src/editStack.js';
+import { AUTO_MASK_KINDS, VersionedEditStackSchema, EDIT_STACK_JSON_SCHEMA } from '../src/editStackSchema.js';
 import {
-  EditStack,
-  EditOp,
-  CropOp,
-  WhiteBalanceOp,
-  ExposureOp,
-  ContrastOp,
-  SaturationOp,
-  VibranceOp,
-} from '../src/editStack.js';
-import { applyColorOperations } from '../src/imageProcessing.js';
+  applyColorOperations,
+  applyColorOperationsFloat,
+  bakeLut,
+  fromFloatImage,
+  isColorOp,
+  loadOpLuts,
+  toFloatImage,
+  ColorOp,
+  BitDepth,
+} from '../src/imageProcessing.js';
+import { linearRgbToLab, srgbToLinear } from '../src/colorTemperature.js';
+import { formatCubeLut, MAX_LUT_SIZE } from '../src/lut.js';
+import { isMaskOp, rasterizeMask, rasterizeMasks } from '../src/masks.js';
+import { MIN_AUTO_MASK_COVERAGE, computeAutoMask, maskCoverage } from '../src/autoMask.js';
 import { computeHistogram } from '../src/histogram.js';
+import {
+  EXPORT_FORMATS,
+  EXPORT_EXTENSIONS,
+  ExportFormat,
+  HIGH_BIT_DEPTH_FORMATS,
+  LOSSLESS_FORMATS,
+  clampEffort,
+  extensionMatchesFormat,
+} from '../src/exportFormats.js';
+import { RESIZE_FITS, SHARPEN_AMOUNTS, SHARPEN_SETTINGS, resizeTarget } from '../src/exportRecipes.js';
 import { randomBytes } from 'crypto';
 import { rename } from 'fs/promises';
 
@@ -49,79 +65,64 @@ const RenderThumbnailArgsSchema = z.object({
   maxPx: z.number().int().positive().default(1024),
 });
 
-const EditOpSchema = z.discriminatedUnion('op', [
-  // Crop operation
-  z.object({
-    id: z.string(),
-    op: z.literal('crop'),
-    rectNorm: z.tuple([z.number(), z.number(), z.number(), z.number()]).optional(),
-    angleDeg: z.number().optional(),
-    aspect: z.string().optional(),
-  }),
-  // White balance operation
-  z.object({
-    id: z.string(),
-    op: z.literal('white_balance'),
-    method: z.enum(['gray_point', 'temp_tint']),
-    x: z.number().min(0).max(1).optional(),
-    y: z.number().min(0).max(1).optional(),
-    temp: z.number().min(-100).max(100).optional(),
-    tint: z.number().min(-100).max(100).optional(),
-  }),
-  // Exposure operation
-  z.object({
-    id: z.string(),
-    op: z.literal('exposure'),
-    ev: z.number().min(-3).max(3),
-  }),
-  // Contrast operation
-  z.object({
-    id: z.string(),
-    op: z.literal('contrast'),
-    amt: z.number().min(-100).max(100),
-  }),
-  // Saturation operation
-  z.object({
-    id: z.string(),
-    op: z.literal('saturation'),
-    amt: z.number().min(-100).max(100),
-  }),
-  // Vibrance operation
-  z.object({
-    id: z.string(),
-    op: z.literal('vibrance'),
-    amt: z.number().min(-100).max(100),
-  }),
-]);
-
 const RenderPreviewArgsSchema = z.object({
   uri: z.url(),
-  editStack: z.object({
-    version: z.literal(1),
-    baseUri: z.string(),
-    ops: z.array(EditOpSchema),
-  }),
+  editStack: VersionedEditStackSchema,
   maxPx: z.number().int().positive().default(1024),
   format: z.enum(['jpeg', 'png']).optional().default('jpeg'),
   quality: z.number().min(1).max(100).optional().default(60),
 });
 
+const RenderMaskOverlayArgsSchema = z.object({
+  uri: z.url(),
+  editStack: VersionedEditStackSchema,
+  maskId: z.string(),
+  view: z.enum(['overlay', 'mask']).default('overlay'),
+  maxPx: z.number().int().positive().default(1024),
+});
+
+// Strength of the red tint where a mask is fully painted
+const MASK_OVERLAY_OPACITY = 0.5;
+
+const ComputeAutoMaskArgsSchema = z.object({
+  uri: z.url(),
+  editStack: VersionedEditStackSchema,
+  kind: z.enum(AUTO_MASK_KINDS),
+});
+
+// Long side the image is decoded at to check that an automatic mask finds something (the mask
+// itself is computed on a smaller working copy)
+const AUTO_MASK_CHECK_PX = 1024;
+
 const ComputeAspectRectArgsSchema = z.object({
   width: z.number().positive(),
   height: z.number().positive(),
   aspect: z.string(),
 });
 
+const ResizeSpecSchema = z.discriminatedUnion('mode', [
+  z.object({ mode: z.literal('long_edge'), size: z.number().int().positive() }),
+  z.object({ mode: z.literal('short_edge'), size: z.number().int().positive() }),
+  z.object({
+    mode: z.literal('exact'),
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+    fit: z.enum(RESIZE_FITS).optional().default('cover'),
+  }),
+  z.object({ mode: z.literal('megapixels'), megapixels: z.number().positive() }),
+  z.object({ mode: z.literal('percent'), percent: z.number().positive() }),
+]);
+
 const CommitVersionArgsSchema = z.object({
   uri: z.url(),
-  editStack: z.object({
-    version: z.literal(1),
-    baseUri: z.string(),
-    ops: z.array(EditOpSchema),
-  }),
+  editStack: VersionedEditStackSchema,
   dstUri: z.url(),
-  format: z.enum(['jpeg', 'png']).optional().default('jpeg'),
+  format: z.enum(EXPORT_FORMATS).optional().default('jpeg'),
   quality: z.number().min(1).max(100).optional().default(90),
+  effort: z.number().int().min(0).max(9).optional(),
+  lossless: z.boolean().optional().default(false),
+  resize: ResizeSpecSchema.optional(),
+  sharpen: z.enum(SHARPEN_AMOUNTS).optional().default('none'),
   chromaSubsampling: z.enum(['4:4:4', '4:2:0']).optional().default('4:2:0'),
   stripExif: z.boolean().optional().default(true),
   colorProfile: z.enum(['srgb', 'displayp3']).optional().default('srgb'),
@@ -130,14 +131,18 @@ const CommitVersionArgsSchema = z.object({
 
 const ComputeHistogramArgsSchema = z.object({
   uri: z.url(),
-  editStack: z.object({
-    version: z.literal(1),
-    baseUri: z.string(),
-    ops: z.array(EditOpSchema),
-  }),
+  editStack: VersionedEditStackSchema,
   bins: z.number().int().positive().optional().default(64),
 });
 
+const BakeLutArgsSchema = z.object({
+  editStack: VersionedEditStackSchema,
+  dstUri: z.url(),
+  size: z.number().int().min(2).max(MAX_LUT_SIZE).optional().default(33),
+  title: z.string().optional(),
+  overwrite: z.boolean().optional().default(false),
+});
+
 const ImageStatsArgsSchema = z.object({
   uri: z.url(),
   maxPx: z.number().int().positive().optional().default(1024),
@@ -176,6 +181,76 @@ function validatePath(filePath: string): void {
   }
 }
 
+// LUT ops name files relative to the session root; resolve them and keep them inside it
+function resolveLutPaths(ops: EditOp[]): EditOp[] {
+  return ops.map((op) => {
+    if (op.op !== 'lut') return op;
+    const lutPath = path.resolve(root, op.path);
+    validatePath(lutPath);
+    return { ...op, path: lutPath };
+  });
+}
+
+// Split active ops into color ops (LUT paths resolved), geometry ops and the masks color ops reference
+function splitEditOps(ops: EditOp[]): { colorOps: ColorOp[]; geometryOps: CropOp[]; masks: MaskOp[] } {
+  const colorOps: ColorOp[] = [];
+  const geometryOps: CropOp[] = [];
+  const masks: MaskOp[] = [];
+
+  for (const op of resolveLutPaths(activeOps(ops))) {
+    if (isColorOp(op)) {
+      colorOps.push(op);
+    } else if (op.op === 'crop') {
+      geometryOps.push(op as CropOp);
+    } else if (isMaskOp(op)) {
+      masks.push(op);
+    }
+  }
+  return { colorOps, geometryOps, masks };
+}
+
+// Apply crop and rotate ops (crop first, then rotation) to a pipeline of the original image
+function applyGeometryOps(
+  pipeline: sharp.Sharp,
+  geometryOps: CropOp[],
+  originalWidth: number,
+  originalHeight: number
+): sharp.Sharp {
+  for (const op of geometryOps) {
+    // Apply crop first if rect is specified
+    if (op.rectNorm) {
+      const [x, y, w, h] = op.rectNorm;
+
+      // Convert normalized coordinates to pixels
+      const cropX = Math.round(x * originalWidth);
+      const cropY = Math.round(y * originalHeight);
+      const cropWidth = Math.round(w * originalWidth);
+      const cropHeight = Math.round(h * originalHeight);
+
+      // Validate and clamp crop region
+      const safeX = Math.max(0, Math.min(originalWidth - 1, cropX));
+      const safeY = Math.max(0, Math.min(originalHeight - 1, cropY));
+      const safeWidth = Math.max(1, Math.min(originalWidth - safeX, cropWidth));
+      const safeHeight = Math.max(1, Math.min(originalHeight - safeY, cropHeight));
+
+      pipeline = pipeline.extract({
+        left: safeX,
+        top: safeY,
+        width: safeWidth,
+        height: safeHeight,
+      });
+    }
+
+    // Apply rotation after crop if specified
+    if (op.angleDeg !== undefined && op.angleDeg !== 0) {
+      pipeline = pipeline.rotate(op.angleDeg, {
+        background: { r: 0, g: 0, b: 0, alpha: 0 },
+      });
+    }
+  }
+  return pipeline;
+}
+
 async function getMimeType(filePath: string): Promise<string> {
   try {
     // Prefer metadata-based detection for safety
@@ -221,38 +296,44 @@ async function getMimeType(filePath: string): Promise<string> {
   return mimeMap[ext] || 'application/octet-stream';
 }
 
-// Helper functions for image statistics
-
-function rgbToLab(r: number, g: number, b: number): { L: number; a: number; b: number } {
-  // Normalize RGB to [0, 1]
-  r = r / 255;
-  g = g / 255;
-  b = b / 255;
-
-  // Convert to linear RGB (remove gamma)
-  r = r > 0.04045 ? Math.pow((r + 0.055) / 1.055, 2.4) : r / 12.92;
-  g = g > 0.04045 ? Math.pow((g + 0.055) / 1.055, 2.4) : g / 12.92;
-  b = b > 0.04045 ? Math.pow((b + 0.055) / 1.055, 2.4) : b / 12.92;
+// Encoder availability per export format, probed once. Prebuilt libvips ships AV1 but
+// not HEVC for HEIF, and JPEG XL support is optional.
+const encoderSupport = new Map<ExportFormat, Promise<boolean>>();
 
-  // Convert to XYZ (D65 illuminant)
-  let x = r * 0.4124564 + g * 0.3575761 + b * 0.2419026;
-  let y = r * 0.2126729 + g * 0.7151522 + b * 0.0721750;
-  let z = r * 0.0193339 + g * 0.1191920 + b * 0.9503041;
-
-  // Normalize for D65 illuminant
-  x = x / 0.95047;
-  y = y / 1.00000;
-  z = z / 1.08883;
+function isEncoderAvailable(format: ExportFormat): Promise<boolean> {
+  let supported = encoderSupport.get(format);
+  if (!supported) {
+    supported = probeEncoder(format);
+    encoderSupport.set(format, supported);
+  }
+  return supported;
+}
 
-  // Convert to LAB
-  const fx = x > 0.008856 ? Math.pow(x, 1/3) : (7.787 * x + 16/116);
-  const fy = y > 0.008856 ? Math.pow(y, 1/3) : (7.787 * y + 16/116);
-  const fz = z > 0.008856 ? Math.pow(z, 1/3) : (7.787 * z + 16/116);
+async function probeEncoder(format: ExportFormat): Promise<boolean> {
+  if (format === 'jxl') {
+    return sharp.format.jxl?.output.buffer === true;
+  }
+  if (format === 'avif' || format === 'heif') {
+    if (sharp.format.heif?.output.buffer !== true) return false;
+    if (format === 'avif') return true;
+    try {
+      await sharp({ create: { width: 8, height: 8, channels: 3, background: '#808080' } })
+        .heif({ compression: 'hevc' })
+        .toBuffer();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
 
-  const L = 116 * fy - 16;
-  const a = 500 * (fx - fy);
-  const bStar = 200 * (fy - fz);
+// Helper functions for image statistics
 
+// Same conversion as the luminance and color range masks, so image_stats numbers can be used to
+// pick mask ranges
+function rgbToLab(r: number, g: number, b: number): { L: number; a: number; b: number } {
+  const [L, a, bStar] = linearRgbToLab(srgbToLinear(r / 255), srgbToLinear(g / 255), srgbToLinear(b / 255));
   return { L, a, b: bStar };
 }
 
@@ -513,32 +594,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: 'file:// URI to the image',
             },
             editStack: {
-              type: 'object',
+              ...EDIT_STACK_JSON_SCHEMA,
               description: 'Edit stack with operations to apply',
-              properties: {
-                version: { type: 'number' },
-                baseUri: { type: 'string' },
-                ops: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      id: { type: 'string' },
-                      op: { type: 'string' },
-                      rectNorm: {
-                        type: 'array',
-                        items: { type: 'number' },
-                        minItems: 4,
-                        maxItems: 4,
-                      },
-                      angleDeg: { type: 'number' },
-                      aspect: { type: 'string' },
-                    },
-                    required: ['id', 'op'],
-                  },
-                },
-              },
-              required: ['version', 'baseUri', 'ops'],
             },
             maxPx: {
               type: 'number',
@@ -549,6 +606,64 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ['uri', 'editStack'],
         },
       },
+      {
+        name: 'render_mask_overlay',
+        description:
+          'Render a PNG preview with edit operations applied and one mask of the stack tinted red, or the mask alone as grayscale',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            uri: {
+              type: 'string',
+              description: 'file:// URI to the image',
+            },
+            editStack: {
+              ...EDIT_STACK_JSON_SCHEMA,
+              description: 'Edit stack with operations to apply',
+            },
+            maskId: {
+              type: 'string',
+              description: 'Id of the mask op to show',
+            },
+            view: {
+              type: 'string',
+              enum: ['overlay', 'mask'],
+              description: 'overlay tints the edited preview; mask renders the mask itself (white = fully selected)',
+              default: 'overlay',
+            },
+            maxPx: {
+              type: 'number',
+              description: 'Maximum dimension in pixels for preview',
+              default: 1024,
+            },
+          },
+          required: ['uri', 'editStack', 'maskId'],
+        },
+      },
+      {
+        name: 'compute_auto_mask',
+        description:
+          'Find the sky, the subject or the background with classical computer vision and add it to the edit stack as a mask; returns the mask id for local adjustments and gradients',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            uri: {
+              type: 'string',
+              description: 'file:// URI to the image',
+            },
+            editStack: {
+              ...EDIT_STACK_JSON_SCHEMA,
+              description: 'Edit stack to add the mask to; an existing automatic mask of the same kind is reused',
+            },
+            kind: {
+              type: 'string',
+              enum: [...AUTO_MASK_KINDS],
+              description: 'Region to find',
+            },
+          },
+          required: ['uri', 'editStack', 'kind'],
+        },
+      },
       {
         name: 'compute_aspect_rect',
         description: 'Compute maximum inscribed rectangle for given aspect ratio',
@@ -573,7 +688,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: 'commit_version',
-        description: 'Render and write edited image to disk at full resolution',
+        description: 'Render and write edited image to disk at full resolution, optionally resized and sharpened for output',
         inputSchema: {
           type: 'object',
           properties: {
@@ -582,14 +697,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: 'Source file:// URI',
             },
             editStack: {
-              type: 'object',
+              ...EDIT_STACK_JSON_SCHEMA,
               description: 'Edit stack to apply',
-              properties: {
-                version: { type: 'number' },
-                baseUri: { type: 'string' },
-                ops: { type: 'array' },
-              },
-              required: ['version', 'baseUri', 'ops'],
             },
             dstUri: {
               type: 'string',
@@ -597,14 +706,49 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             format: {
               type: 'string',
-              enum: ['jpeg', 'png'],
+              enum: [...EXPORT_FORMATS],
               default: 'jpeg',
+              description:
+                'png16 and tiff are rendered and written at 16 bits per channel; heif (HEVC) and jxl depend on the libvips build',
             },
             quality: {
               type: 'number',
               minimum: 1,
               maximum: 100,
               default: 90,
+              description: 'Quality for jpeg, webp, avif, heif and jxl',
+            },
+            effort: {
+              type: 'number',
+              minimum: 0,
+              maximum: 9,
+              description: 'Encoder effort for webp (0-6), avif/heif (0-9) and jxl (1-9); higher is slower and smaller',
+            },
+            lossless: {
+              type: 'boolean',
+              default: false,
+              description: 'Lossless mode for webp, avif, heif and jxl',
+            },
+            resize: {
+              type: 'object',
+              description:
+                'Output size after crop/rotate: long_edge/short_edge (size), exact (width, height, fit), megapixels or percent. Never upscales.',
+              properties: {
+                mode: { type: 'string', enum: ['long_edge', 'short_edge', 'exact', 'megapixels', 'percent'] },
+                size: { type: 'number' },
+                width: { type: 'number' },
+                height: { type: 'number' },
+                fit: { type: 'string', enum: [...RESIZE_FITS], default: 'cover' },
+                megapixels: { type: 'number' },
+                percent: { type: 'number' },
+              },
+              required: ['mode'],
+            },
+            sharpen: {
+              type: 'string',
+              enum: [...SHARPEN_AMOUNTS],
+              default: 'none',
+              description: 'Output sharpening applied after resizing',
             },
             chromaSubsampling: {
               type: 'string',
@@ -639,14 +783,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: 'file:// URI to the image',
             },
             editStack: {
-              type: 'object',
+              ...EDIT_STACK_JSON_SCHEMA,
               description: 'Edit stack to apply before computing histogram',
-              properties: {
-                version: { type: 'number' },
-                baseUri: { type: 'string' },
-                ops: { type: 'array' },
-              },
-              required: ['version', 'baseUri', 'ops'],
             },
             bins: {
               type: 'number',
@@ -657,6 +795,40 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ['uri', 'editStack'],
         },
       },
+      {
+        name: 'bake_lut',
+        description:
+          'Sample the color ops of an edit stack into a .cube 3D LUT for video tools (crop, gray point white balance, local adjustments, gradients and masks are left out)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            editStack: {
+              ...EDIT_STACK_JSON_SCHEMA,
+              description: 'Edit stack whose color ops are baked',
+            },
+            dstUri: {
+              type: 'string',
+              description: 'Destination file:// URI ending in .cube',
+            },
+            size: {
+              type: 'number',
+              minimum: 2,
+              maximum: MAX_LUT_SIZE,
+              default: 33,
+              description: 'Grid points per axis (33 and 65 are common in Resolve)',
+            },
+            title: {
+              type: 'string',
+              description: 'TITLE line of the .cube file',
+            },
+            overwrite: {
+              type: 'boolean',
+              default: false,
+            },
+          },
+          required: ['editStack', 'dstUri'],
+        },
+      },
       {
         name: 'image_stats',
         description: 'Compute comprehensive image statistics for reference matching',
@@ -822,61 +994,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const originalHeight = metadata.height || 1;
 
       // Separate operations by type (color before geometry as per PRD)
-      const colorOps: Array<WhiteBalanceOp | ExposureOp | ContrastOp | SaturationOp | VibranceOp> = [];
-      const geometryOps: CropOp[] = [];
-
-      for (const op of editStack.ops) {
-        if (
-          op.op === 'white_balance' ||
-          op.op === 'exposure' ||
-          op.op === 'contrast' ||
-          op.op === 'saturation' ||
-          op.op === 'vibrance'
-        ) {
-          colorOps.push(op as WhiteBalanceOp | ExposureOp | ContrastOp | SaturationOp | VibranceOp);
-        } else if (op.op === 'crop') {
-          geometryOps.push(op as CropOp);
-        }
-      }
+      const { colorOps, geometryOps, masks } = splitEditOps(editStack.ops as EditOp[]);
 
       // Apply color operations first (white balance → exposure → contrast)
       if (colorOps.length > 0) {
-        pipeline = await applyColorOperations(pipeline, colorOps, metadata);
+        pipeline = await applyColorOperations(pipeline, colorOps, 8, masks);
       }
 
       // Then apply geometry operations (crop, rotate)
-      for (const op of geometryOps) {
-        // Apply crop first if rect is specified
-        if (op.rectNorm) {
-          const [x, y, w, h] = op.rectNorm;
-
-          // Convert normalized coordinates to pixels
-          const cropX = Math.round(x * originalWidth);
-          const cropY = Math.round(y * originalHeight);
-          const cropWidth = Math.round(w * originalWidth);
-          const cropHeight = Math.round(h * originalHeight);
-
-          // Validate and clamp crop region
-          const safeX = Math.max(0, Math.min(originalWidth - 1, cropX));
-          const safeY = Math.max(0, Math.min(originalHeight - 1, cropY));
-          const safeWidth = Math.max(1, Math.min(originalWidth - safeX, cropWidth));
-          const safeHeight = Math.max(1, Math.min(originalHeight - safeY, cropHeight));
-
-          pipeline = pipeline.extract({
-            left: safeX,
-            top: safeY,
-            width: safeWidth,
-            height: safeHeight,
-          });
-        }
-
-        // Apply rotation after crop if specified
-        if (op.angleDeg !== undefined && op.angleDeg !== 0) {
-          pipeline = pipeline.rotate(op.angleDeg, {
-            background: { r: 0, g: 0, b: 0, alpha: 0 },
-          });
-        }
-      }
+      pipeline = applyGeometryOps(pipeline, geometryOps, originalWidth, originalHeight);
 
       // Resize to preview size
       let previewPipeline = pipeline.resize(maxPx, maxPx, {
@@ -920,6 +1046,141 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
   }
 
+  if (name === 'render_mask_overlay') {
+    const { uri, editStack, maskId, view, maxPx } = RenderMaskOverlayArgsSchema.parse(args);
+
+    if (!uri.startsWith('file://')) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Only file:// URIs are supported');
+    }
+
+    const filePath = fileURLToPath(uri);
+    validatePath(filePath);
+
+    const stats = await fs.stat(filePath);
+    if (stats.size > MAX_FILE_SIZE) {
+      throw new McpError(ErrorCode.InvalidRequest, `File too large: ${stats.size} bytes (max ${MAX_FILE_SIZE})`);
+    }
+
+    const mimeType = await getMimeType(filePath);
+    if (!SUPPORTED_MIMES.has(mimeType)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Unsupported mime type: ${mimeType}`);
+    }
+
+    // Disabled masks can be shown too
+    const maskOp = (editStack.ops as EditOp[]).find((op): op is MaskOp => op.id === maskId && isMaskOp(op));
+    if (!maskOp) {
+      throw new McpError(ErrorCode.InvalidRequest, `No mask ${maskId} in the edit stack`);
+    }
+
+    try {
+      const { colorOps, geometryOps, masks } = splitEditOps(editStack.ops as EditOp[]);
+
+      // Luminance and color ranges select from the unedited pixels, as they do when the color
+      // operations run, so the rasters are taken before the ops edit the image in place
+      const image = await toFloatImage(sharp(filePath).rotate());
+      const { width, height } = image;
+      const rasters = rasterizeMasks(masks, width, height, image);
+      const mask = rasters.get(maskId) ?? rasterizeMask(maskOp, width, height, image);
+
+      let pipeline: sharp.Sharp;
+      if (view === 'mask') {
+        const gray = Buffer.alloc(mask.length);
+        for (let p = 0; p < mask.length; p++) gray[p] = Math.round(mask[p] * 255);
+        pipeline = sharp(gray, { raw: { width, height, channels: 1 } });
+      } else {
+        // Color operations on the same decode, then the tint at the resolution they ran at, so the
+        // mask lines up with the adjustments it limits
+        applyColorOperationsFloat(image, colorOps, await loadOpLuts(colorOps), rasters);
+        const { data, info } = await fromFloatImage(image).raw().toBuffer({ resolveWithObject: true });
+
+        for (let p = 0, i = 0; p < mask.length; p++, i += info.channels) {
+          const tint = mask[p] * MASK_OVERLAY_OPACITY;
+          if (tint === 0) continue;
+          data[i] = Math.round(data[i] + (255 - data[i]) * tint);
+          data[i + 1] = Math.round(data[i + 1] * (1 - tint));
+          data[i + 2] = Math.round(data[i + 2] * (1 - tint));
+        }
+        pipeline = sharp(data, { raw: { width, height, channels: info.channels } });
+      }
+
+      pipeline = applyGeometryOps(pipeline, geometryOps, width, height);
+      const overlay = await pipeline
+        .resize(maxPx, maxPx, {
+          fit: 'inside',
+          withoutEnlargement: true,
+        })
+        .png()
+        .toBuffer();
+
+      return {
+        content: [
+          {
+            type: 'image',
+            data: overlay.toString('base64'),
+            mimeType: 'image/png',
+          },
+        ],
+      };
+    } catch (error: any) {
+      throw new McpError(ErrorCode.InternalError, `Failed to render mask overlay: ${error.message}`);
+    }
+  }
+
+  if (name === 'compute_auto_mask') {
+    const { uri, editStack, kind } = ComputeAutoMaskArgsSchema.parse(args);
+
+    if (!uri.startsWith('file://')) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Only file:// URIs are supported');
+    }
+
+    const filePath = fileURLToPath(uri);
+    validatePath(filePath);
+
+    const stats = await fs.stat(filePath);
+    if (stats.size > MAX_FILE_SIZE) {
+      throw new McpError(ErrorCode.InvalidRequest, `File too large: ${stats.size} bytes (max ${MAX_FILE_SIZE})`);
+    }
+
+    const mimeType = await getMimeType(filePath);
+    if (!SUPPORTED_MIMES.has(mimeType)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Unsupported mime type: ${mimeType}`);
+    }
+
+    let coverage: number;
+    try {
+      // The mask op is evaluated again from the source pixels at render time; this checks that it
+      // selects something in this image
+      const pipeline = sharp(filePath)
+        .rotate()
+        .resize(AUTO_MASK_CHECK_PX, AUTO_MASK_CHECK_PX, { fit: 'inside', withoutEnlargement: true });
+      const source = await toFloatImage(pipeline);
+      coverage = maskCoverage(computeAutoMask(source, source.width, source.height, kind));
+    } catch (error: any) {
+      throw new McpError(ErrorCode.InternalError, `Failed to compute auto mask: ${error.message}`);
+    }
+    if (coverage < MIN_AUTO_MASK_COVERAGE) {
+      throw new McpError(ErrorCode.InvalidRequest, `No ${kind} found in the image`);
+    }
+
+    const manager = new EditStackManager(editStack.baseUri);
+    manager.restoreOps(editStack.ops as EditOp[]);
+    const maskId = manager.findAutoMask(kind) ?? manager.addMaskShape({ type: 'auto', mode: 'add', kind });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            maskId,
+            kind,
+            coverage: Math.round(coverage * 1000) / 1000,
+            editStack: manager.getStack(),
+          }),
+        },
+      ],
+    };
+  }
+
   if (name === 'compute_aspect_rect') {
     const { width, height, aspect } = ComputeAspectRectArgsSchema.parse(args);
 
@@ -978,8 +1239,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 
   if (name === 'commit_version') {
-    const { uri, editStack, dstUri, format, quality, chromaSubsampling, stripExif, colorProfile, overwrite } =
-      CommitVersionArgsSchema.parse(args);
+    const {
+      uri,
+      editStack,
+      dstUri,
+      format,
+      quality,
+      effort,
+      lossless,
+      resize,
+      sharpen,
+      chromaSubsampling,
+      stripExif,
+      colorProfile,
+      overwrite,
+    } = CommitVersionArgsSchema.parse(args);
 
     const startTime = Date.now();
 
@@ -1000,12 +1274,23 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     validatePath(srcPath);
     validatePath(dstPath);
 
-    // Warn on extension/format mismatch
-    const ext = path.extname(dstPath).toLowerCase();
-    if ((format === 'jpeg' && ext !== '.jpg' && ext !== '.jpeg') || (format === 'png' && ext !== '.png')) {
-      console.error(
-        `Warning: format '${format}' does not match extension '${ext}' in ${path.basename(dstPath)}; proceeding anyway.`
-      );
+    if (!(await isEncoderAvailable(format))) {
+      throw new McpError(ErrorCode.InvalidRequest, `Export format '${format}' is not supported by this libvips build`);
+    }
+
+    // 16-bit working mode for print deliverables
+    const bitDepth: BitDepth = HIGH_BIT_DEPTH_FORMATS.has(format) ? 16 : 8;
+
+    // Warn on extension/format mismatch (reported back to the caller as well)
+    const warnings: string[] = [];
+    if (!extensionMatchesFormat(dstPath, format)) {
+      const ext = path.extname(dstPath).toLowerCase() || '(none)';
+      const warning = `format '${format}' does not match extension '${ext}' in ${path.basename(dstPath)} (expected ${EXPORT_EXTENSIONS[format].join(' or ')})`;
+      console.error(`Warning: ${warning}; proceeding anyway.`);
+      warnings.push(warning);
+    }
+    if (lossless && !LOSSLESS_FORMATS.has(format)) {
+      warnings.push(`lossless is ignored for ${format}`);
     }
 
     // Check source file
@@ -1043,60 +1328,39 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const originalHeight = metadata.height || 1;
 
       // Separate operations by type (color before geometry as per PRD)
-      const colorOps: Array<WhiteBalanceOp | ExposureOp | ContrastOp | SaturationOp | VibranceOp> = [];
-      const geometryOps: CropOp[] = [];
-
-      for (const op of editStack.ops) {
-        if (
-          op.op === 'white_balance' ||
-          op.op === 'exposure' ||
-          op.op === 'contrast' ||
-          op.op === 'saturation' ||
-          op.op === 'vibrance'
-        ) {
-          colorOps.push(op as WhiteBalanceOp | ExposureOp | ContrastOp | SaturationOp | VibranceOp);
-        } else if (op.op === 'crop') {
-          geometryOps.push(op as CropOp);
-        }
-      }
+      const { colorOps, geometryOps, masks } = splitEditOps(editStack.ops as EditOp[]);
 
       // Apply color operations first (white balance → exposure → contrast)
       if (colorOps.length > 0) {
-        pipeline = await applyColorOperations(pipeline, colorOps, metadata);
+        pipeline = await applyColorOperations(pipeline, colorOps, bitDepth, masks);
       }
 
       // Then apply geometry operations (crop, rotate)
-      for (const op of geometryOps) {
-        // Apply crop first if rect is specified
-        if (op.rectNorm) {
-          const [x, y, w, h] = op.rectNorm;
-
-          // Convert normalized coordinates to pixels
-          const cropX = Math.round(x * originalWidth);
-          const cropY = Math.round(y * originalHeight);
-          const cropWidth = Math.round(w * originalWidth);
-          const cropHeight = Math.round(h * originalHeight);
-
-          // Validate and clamp crop region
-          const safeX = Math.max(0, Math.min(originalWidth - 1, cropX));
-          const safeY = Math.max(0, Math.min(originalHeight - 1, cropY));
-          const safeWidth = Math.max(1, Math.min(originalWidth - safeX, cropWidth));
-          const safeHeight = Math.max(1, Math.min(originalHeight - safeY, cropHeight));
-
-          pipeline = pipeline.extract({
-            left: safeX,
-            top: safeY,
-            width: safeWidth,
-            height: safeHeight,
-          });
-        }
+      pipeline = applyGeometryOps(pipeline, geometryOps, originalWidth, originalHeight);
+
+      // Resize the cropped/rotated result, then sharpen for the output size
+      if (resize) {
+        const { data, info } = await pipeline
+          .toColourspace(bitDepth === 16 ? 'rgb16' : 'srgb')
+          .raw({ depth: bitDepth === 16 ? 'ushort' : 'uchar' })
+          .toBuffer({ resolveWithObject: true });
+        const pixels = bitDepth === 16 ? new Uint16Array(data.buffer, data.byteOffset, data.length / 2) : data;
+        const target = resizeTarget(info.width, info.height, resize);
+
+        pipeline = sharp(pixels, {
+          raw: { width: info.width, height: info.height, channels: info.channels },
+        }).resize(Math.round(target.width), Math.round(target.height), {
+          fit: target.fit,
+          withoutEnlargement: true,
+        });
+      }
+      if (sharpen !== 'none') {
+        pipeline = pipeline.sharpen(SHARPEN_SETTINGS[sharpen]);
+      }
 
-        // Apply rotation after crop if specified
-        if (op.angleDeg !== undefined && op.angleDeg !== 0) {
-          pipeline = pipeline.rotate(op.angleDeg, {
-            background: { r: 0, g: 0, b: 0, alpha: 0 },
-          });
-        }
+      // Encode at 16 bits per channel (geometry ops can fall back to 8-bit)
+      if (bitDepth === 16) {
+        pipeline = pipeline.toColourspace('rgb16');
       }
 
       // Configure output format
@@ -1106,11 +1370,40 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           chromaSubsampling: chromaSubsampling as '4:4:4' | '4:2:0',
           force: true,
         });
-      } else if (format === 'png') {
+      } else if (format === 'png' || format === 'png16') {
         pipeline = pipeline.png({
           compressionLevel: 9,
           force: true,
         });
+      } else if (format === 'tiff') {
+        pipeline = pipeline.tiff({
+          compression: 'lzw',
+          predictor: 'horizontal',
+          force: true,
+        });
+      } else if (format === 'webp') {
+        pipeline = pipeline.webp({
+          quality,
+          lossless,
+          effort: clampEffort(format, effort),
+          smartSubsample: chromaSubsampling === '4:4:4',
+          force: true,
+        });
+      } else if (format === 'avif' || format === 'heif') {
+        pipeline = pipeline.heif({
+          compression: format === 'avif' ? 'av1' : 'hevc',
+          quality,
+          lossless,
+          effort: clampEffort(format, effort),
+          chromaSubsampling,
+          force: true,
+        });
+      } else if (format === 'jxl') {
+        pipeline = pipeline.jxl({
+          quality,
+          lossless,
+          effort: clampEffort(format, effort),
+        });
       }
 
       // Remove EXIF if requested
@@ -1150,9 +1443,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               dstUri,
               bytes: finalStats.size,
               format,
+              bitDepth,
               width: finalMetadata.width || 0,
               height: finalMetadata.height || 0,
               elapsedMs,
+              ...(warnings.length > 0 && { warnings }),
             }),
           },
         ],
@@ -1195,7 +1490,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
     try {
       // Compute histogram with the edit stack applied
-      const histogramData = await computeHistogram(filePath, editStack as EditStack, bins);
+      const histogramData = await computeHistogram(
+        filePath,
+        { ...editStack, ops: resolveLutPaths(editStack.ops) },
+        bins
+      );
 
       return {
         content: [
@@ -1210,6 +1509,77 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
   }
 
+  if (name === 'bake_lut') {
+    const { editStack, dstUri, size, title, overwrite } = BakeLutArgsSchema.parse(args);
+
+    if (!dstUri.startsWith('file://')) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Only file:// URIs are supported for destination');
+    }
+
+    const dstPath = fileURLToPath(dstUri);
+    validatePath(dstPath);
+
+    if (path.extname(dstPath).toLowerCase() !== '.cube') {
+      throw new McpError(ErrorCode.InvalidRequest, `LUT destination must end in .cube: ${path.basename(dstPath)}`);
+    }
+
+    // Check if destination exists
+    try {
+      await fs.stat(dstPath);
+      if (!overwrite) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Destination file already exists: ${dstPath}. Use overwrite: true to replace.`
+        );
+      }
+    } catch (e: any) {
+      // File doesn't exist, which is fine
+      if (e.code !== 'ENOENT') throw e;
+    }
+
+    // Only color ops that do not depend on pixel values or positions can be baked
+    const colorOps: ColorOp[] = [];
+    const skipped: string[] = [];
+    for (const op of resolveLutPaths(activeOps(editStack.ops as EditOp[]))) {
+      if (op.op === 'white_balance' && op.method === 'gray_point') {
+        skipped.push(`${op.id} (gray point white balance)`);
+      } else if (op.op === 'local_adjust') {
+        skipped.push(`${op.id} (local adjustment)`);
+      } else if (op.op === 'gradient_linear' || op.op === 'gradient_radial') {
+        skipped.push(`${op.id} (gradient)`);
+      } else if (isColorOp(op)) {
+        colorOps.push(op);
+      } else {
+        skipped.push(`${op.id} (${op.op})`);
+      }
+    }
+
+    try {
+      const lut = await bakeLut(colorOps, size, title);
+      const text = formatCubeLut(lut);
+
+      await fs.mkdir(path.dirname(dstPath), { recursive: true });
+      await fs.writeFile(dstPath, text);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              dstUri,
+              size,
+              bytes: Buffer.byteLength(text),
+              opsBaked: colorOps.length,
+              ...(skipped.length > 0 && { skipped }),
+            }),
+          },
+        ],
+      };
+    } catch (error: any) {
+      throw new McpError(ErrorCode.InternalError, `Failed to bake LUT: ${error.message}`);
+    }
+  }
+
   if (name === 'image_stats') {
     const { uri, maxPx } = ImageStatsArgsSchema.parse(args);
 
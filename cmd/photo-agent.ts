@@ -12,15 +12,65 @@ import { Readable } from 'stream';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { MCPServerConfig, ContentBlock, ToolCallContent, PermissionOperation } from '../src/acp/types';
-import { EditStackManager, EditStack } from '../src/editStack';
+import {
+  EditStackManager,
+  EditStack,
+  EditOp,
+  CURVE_PRESETS,
+  CURRENT_SNAPSHOT,
+  HSL_BANDS,
+  HslBand,
+  AUTO_MASK_KINDS,
+  AutoMaskKind,
+  MaskMode,
+  MaskShape,
+  DEFAULT_BRUSH_HARDNESS,
+  DEFAULT_BRUSH_RADIUS,
+  DEFAULT_HUE_FALLOFF,
+  DEFAULT_HUE_RANGE,
+  DEFAULT_LUMINANCE_FALLOFF,
+  DEFAULT_MIN_CHROMA,
+  activeOps,
+} from '../src/editStack';
 import { MockPlanner } from '../src/planner/mock';
 import { GeminiPlanner, PlannerState as GeminiPlannerState } from '../src/planner/gemini';
 import { Planner, PlannedCall, PLANNER_CLAMPS } from '../src/planner/types';
 import { computeDeltas, areAllDeltasBelowEpsilon, formatDeltasForDisplay, ImageStats } from '../src/deltaMapper';
+import {
+  EXPORT_FORMATS,
+  HIGH_BIT_DEPTH_FORMATS,
+  isExportFormat,
+  defaultExtension,
+  formatFromPath,
+} from '../src/exportFormats';
+import {
+  EXPORT_RECIPES,
+  ExportRecipe,
+  ResizeSpec,
+  SHARPEN_AMOUNTS,
+  formatResizeSpec,
+  parseExportRecipe,
+  parseResizeSpec,
+} from '../src/exportRecipes';
+import { findSidecar, readSidecar, sidecarPathFor, writeSidecar } from '../src/sidecar';
+import { matchesGlob, remapCrop, selectOps } from '../src/editClipboard';
+import { PresetStore, applyPreset } from '../src/presets';
+import { expandLook, findLook, loadLooks } from '../src/looks';
+import { loadLut } from '../src/lut';
+import { BAND_HUES } from '../src/masks';
+import {
+  Rect,
+  mapPreviewEllipseToOriginal,
+  mapPreviewPointToOriginal,
+  mapPreviewRectToOriginal,
+  mapPreviewToOriginal,
+  rectOverlap,
+} from '../src/roi';
+import { HistoryJournal, defaultHistoryDir } from '../src/historyJournal';
 import path from 'path';
 import fs from 'fs/promises';
 import crypto from 'crypto';
-import { pathToFileURL } from 'url';
+import { fileURLToPath, pathToFileURL } from 'url';
 import { 
   initTelemetry, 
   withSpan, 
@@ -57,13 +107,41 @@ setInterval(() => {
   }
 }, 300000);
 
-// Per-image edit state management
+// Per-image edit state management. Virtual copies are extra named stacks for the same image,
+// keyed <uri>#<name>; the image's own stack is the master copy, keyed by its URI.
 const imageStacks = new Map<string, EditStackManager>();
+const activeCopies = new Map<string, string>(); // image URI -> virtual copy being edited
 let lastLoadedImage: string | null = null;
+const MASTER_COPY = 'master';
+
+// imageStacks key of a virtual copy (file URIs encode '#', so it cannot clash)
+function stackKey(uri: string, copy: string = MASTER_COPY): string {
+  return copy === MASTER_COPY ? uri : `${uri}#${copy}`;
+}
+
+// imageStacks key of the copy being edited for an image
+function activeStackKey(uri: string): string {
+  return stackKey(uri, activeCopies.get(uri));
+}
+
+// Virtual copy name of an imageStacks key
+function copyName(key: string): string {
+  const hash = key.indexOf('#');
+  return hash === -1 ? MASTER_COPY : key.slice(hash + 1);
+}
+
+// Ops copied by :copy for :paste; gray point white balance is already converted to temp/tint
+let clipboard: { ops: EditOp[]; source: string; sourceKey: string } | null = null;
+
+// Presets saved by :preset save, in $PHOTO_AGENT_PRESETS_DIR or ~/.photo-agent/presets
+const presetStore = new PresetStore();
 
 // Turn counter for tracking
 let turnCounter = 0;
 
+// Renders in flight during :export --batch (sharp already uses several threads per render)
+const BATCH_EXPORT_CONCURRENCY = 3;
+
 // Cache image metadata to avoid repeated tool calls
 const imageMetadataCache = new Map<string, { width: number; height: number; mimeType?: string }>();
 
@@ -321,6 +399,120 @@ createNdjsonReader(process.stdin as unknown as Readable, (obj: any) => {
       return;
     }
 
+    // Check for :stack command (show, save, load); op edits go through handleEditCommand
+    if ((text === ':stack' || text.startsWith(':stack ')) && !STACK_EDIT_COMMAND.test(text)) {
+      handleStackCommand(text, currentSessionId, params.cwd || process.cwd(), id).then(
+        () => {
+          send({ jsonrpc: '2.0', id, result: { stopReason: 'end_turn' } });
+        },
+        (err) => {
+          logger.line('error', { stack_command_failed: err.message });
+          notify('session/update', {
+            sessionId: currentSessionId,
+            sessionUpdate: 'agent_message_chunk',
+            content: { type: 'text', text: `Error: ${err.message}` },
+          });
+          send({ jsonrpc: '2.0', id, result: { stopReason: 'end_turn' } });
+        }
+      );
+      return;
+    }
+
+    // Check for :snapshot command (save, list, diff); restore goes through handleEditCommand
+    if ((text === ':snapshot' || text.startsWith(':snapshot ')) && !SNAPSHOT_EDIT_COMMAND.test(text)) {
+      handleSnapshotCommand(text, currentSessionId).then(
+        () => {
+          send({ jsonrpc: '2.0', id, result: { stopReason: 'end_turn' } });
+        },
+        (err) => {
+          logger.line('error', { snapshot_command_failed: err.message });
+          notify('session/update', {
+            sessionId: currentSessionId,
+            sessionUpdate: 'agent_message_chunk',
+            content: { type: 'text', text: `Error: ${err.message}` },
+          });
+          send({ jsonrpc: '2.0', id, result: { stopReason: 'end_turn' } });
+        }
+      );
+      return;
+    }
+
+    // Check for :vcopy command (list); new, use and rm go through handleEditCommand
+    if ((text === ':vcopy' || text.startsWith(':vcopy ')) && !VIRTUAL_COPY_EDIT_COMMAND.test(text)) {
+      handleVirtualCopyCommand(text, currentSessionId).then(
+        () => {
+          send({ jsonrpc: '2.0', id, result: { stopReason: 'end_turn' } });
+        },
+        (err) => {
+          logger.line('error', { vcopy_command_failed: err.message });
+          notify('session/update', {
+            sessionId: currentSessionId,
+            sessionUpdate: 'agent_message_chunk',
+            content: { type: 'text', text: `Error: ${err.message}` },
+          });
+          send({ jsonrpc: '2.0', id, result: { stopReason: 'end_turn' } });
+        }
+      );
+      return;
+    }
+
+    // Check for :preset command (save, list, rm); apply goes through handleEditCommand
+    if ((text === ':preset' || text.startsWith(':preset ')) && !PRESET_EDIT_COMMAND.test(text)) {
+      handlePresetCommand(text, currentSessionId).then(
+        () => {
+          send({ jsonrpc: '2.0', id, result: { stopReason: 'end_turn' } });
+        },
+        (err) => {
+          logger.line('error', { preset_command_failed: err.message });
+          notify('session/update', {
+            sessionId: currentSessionId,
+            sessionUpdate: 'agent_message_chunk',
+            content: { type: 'text', text: `Error: ${err.message}` },
+          });
+          send({ jsonrpc: '2.0', id, result: { stopReason: 'end_turn' } });
+        }
+      );
+      return;
+    }
+
+    // Check for :copy command; :paste goes through handleEditCommand
+    if (text === ':copy' || text.startsWith(':copy ')) {
+      handleCopyCommand(text, currentSessionId).then(
+        () => {
+          send({ jsonrpc: '2.0', id, result: { stopReason: 'end_turn' } });
+        },
+        (err) => {
+          logger.line('error', { copy_command_failed: err.message });
+          notify('session/update', {
+            sessionId: currentSessionId,
+            sessionUpdate: 'agent_message_chunk',
+            content: { type: 'text', text: `Error: ${err.message}` },
+          });
+          send({ jsonrpc: '2.0', id, result: { stopReason: 'end_turn' } });
+        }
+      );
+      return;
+    }
+
+    // Check for :lut bake (writes a .cube file); :lut <file> goes through handleEditCommand
+    if (LUT_BAKE_COMMAND.test(text)) {
+      handleLutBakeCommand(text, currentSessionId, params.cwd || process.cwd(), id).then(
+        () => {
+          send({ jsonrpc: '2.0', id, result: { stopReason: 'end_turn' } });
+        },
+        (err) => {
+          logger.line('error', { lut_command_failed: err.message });
+          notify('session/update', {
+            sessionId: currentSessionId,
+            sessionUpdate: 'agent_message_chunk',
+            content: { type: 'text', text: `Error: ${err.message}` },
+          });
+          send({ jsonrpc: '2.0', id, result: { stopReason: 'end_turn' } });
+        }
+      );
+      return;
+    }
+
     // Check for :ref command (Phase 7e)
     if (text.startsWith(':ref')) {
       handleRefCommand(text, currentSessionId, params.cwd || process.cwd()).then(
@@ -344,9 +536,15 @@ createNdjsonReader(process.stdin as unknown as Readable, (obj: any) => {
       return;
     }
 
-    // Check for edit commands (crop, undo, redo, reset, white balance, exposure, contrast, saturation, vibrance, auto, hist)
+    // Check for edit commands (crop, undo, redo, reset, white balance, exposure, contrast, saturation, vibrance, curve, levels, tone, hsl, lut, local, auto, hist, stack op edits, snapshot restore, virtual copies, paste, presets)
     if (
       text.startsWith(':crop') ||
+      STACK_EDIT_COMMAND.test(text) ||
+      SNAPSHOT_EDIT_COMMAND.test(text) ||
+      VIRTUAL_COPY_EDIT_COMMAND.test(text) ||
+      text === ':paste' ||
+      text.startsWith(':paste ') ||
+      PRESET_EDIT_COMMAND.test(text) ||
       text === ':undo' ||
       text === ':redo' ||
       text === ':reset' ||
@@ -355,10 +553,19 @@ createNdjsonReader(process.stdin as unknown as Readable, (obj: any) => {
       text.startsWith(':contrast') ||
       text.startsWith(':saturation') ||
       text.startsWith(':vibrance') ||
+      text.startsWith(':curve') ||
+      text.startsWith(':levels') ||
+      text.startsWith(':tone') ||
+      text.startsWith(':hsl') ||
+      text.startsWith(':lut') ||
+      text.startsWith(':local') ||
+      text.startsWith(':grad') ||
+      text.startsWith(':radial') ||
+      text.startsWith(':mask') ||
       text.startsWith(':auto') ||
       text === ':hist'
     ) {
-      handleEditCommand(text, currentSessionId).then(
+      handleEditCommand(text, currentSessionId, params.cwd || process.cwd()).then(
         () => {
           if (!cancelled) {
             send({ jsonrpc: '2.0', id, result: { stopReason: 'end_turn' } });
@@ -381,7 +588,7 @@ createNdjsonReader(process.stdin as unknown as Readable, (obj: any) => {
 
     // Handle resource links with MCP
     if (resourceLinks.length > 0 && mcpClients.size > 0) {
-      handleResourceLinks(resourceLinks, currentSessionId).then(
+      handleResourceLinks(resourceLinks, currentSessionId, params.cwd || process.cwd()).then(
         () => {
           if (!cancelled) {
             send({ jsonrpc: '2.0', id, result: { stopReason: 'end_turn' } });
@@ -426,8 +633,29 @@ createNdjsonReader(process.stdin as unknown as Readable, (obj: any) => {
 :reset - Reset to original
 :undo - Undo last operation
 :redo - Redo operation
-:stack - Show edit stack
-:export - Export edited image`;
+:wb --kelvin 3200 --tint 5 - Set white balance from the scene illuminant in Kelvin
+:auto wb --kelvin - Estimate the scene Kelvin and set white balance
+:curve --preset s-curve - Apply a tone curve (or --master/--r/--g/--b x,y points)
+:levels --black 12 --white 240 --gamma 1.1 - Set levels (--channel r|g|b for one channel)
+:auto levels - Set black/white points from the histogram
+:tone --highlights -40 --shadows 30 - Adjust highlights/shadows/whites/blacks
+:hsl --band blue --sat -20 --lum -10 - Adjust one hue band (--hue/--sat/--lum)
+:lut luts/film.cube --opacity 60 - Apply a .cube or .3dl 3D LUT (--interp trilinear|tetrahedral)
+:lut bake grade.cube [--size 33] - Bake the color ops into a .cube LUT for video tools
+:local --roi 0.3,0.2,0.4,0.6 --ev 0.3 - Adjust a feathered rectangle of the preview (--contrast, --saturation, --vibrance, --feather, --invert)
+:grad --from 0.5,0 --to 0.5,0.5 --ev -0.7 - Graduated filter, full at --from and faded out at --to (--temp, --contrast, --saturation, --feather)
+:radial --center 0.5,0.5 --radius 0.3,0.4 --ev -0.5 --invert - Adjust a feathered ellipse of the preview, or outside it with --invert
+:mask polygon 0.1,0.1 0.6,0.1 0.4,0.5 - Add a mask shape on the preview (brush x,y ... --radius 0.05 --hardness 50; --to <id> --mode add|subtract|intersect)
+:mask luma 70-100 [--falloff 10] - Add a luminance range (L*) to a mask; :mask color green|<hue> [--range 20 --falloff 20 --min-chroma 10] adds a hue range
+:mask auto sky|subject|background - Find a region with classical computer vision and add it as a mask
+:mask show <id> - Show a mask tinted red; :mask preview <id> shows it in grayscale; :local/:grad/:radial --mask <id> limit an adjustment to it
+:stack - Show edit stack with op ids (:stack save [file], :stack load <file>)
+:stack toggle|rm <id>, :stack mv <id> <pos>, :stack set <id> amt=25 - Edit one op anywhere in the stack
+:snapshot save|restore <name>, :snapshot list, :snapshot diff <a> [b] - Named snapshots of the edit stack
+:vcopy new|use|rm <name>, :vcopy - Virtual copies: several edit stacks for the same image
+:copy [--only wb,tone,...] - Copy edit settings; :paste [--to all|<glob>] [--skip-crop] - Paste them
+:preset save <name> [--only wb,tone,...], :preset apply|rm <name>, :preset list - User presets
+:export - Export edited image (--format jpeg|png|png16|tiff|webp|avif|heif|jxl, --effort N, --lossless, --resize, --sharpen, --recipe, --batch, --copies)`;
           } else {
             responseText = `echo:${text}`;
           }
@@ -506,7 +734,109 @@ async function connectMCPServers(servers: MCPServerConfig[], cwd: string): Promi
   }
 }
 
-async function handleResourceLinks(resourceLinks: any[], sessionId: string): Promise<void> {
+// Restore a newly opened image's edits: its history journal from an earlier session (or crash)
+// wins, otherwise its sidecar (next to the image or in Export/)
+async function restoreEdits(stackManager: EditStackManager, uri: string, sessionId: string, cwd: string): Promise<void> {
+  // Per-image undo/redo journals, in $PHOTO_AGENT_HISTORY_DIR or ~/.photo-agent/history
+  const journal = HistoryJournal.forImage(defaultHistoryDir(), uri);
+  try {
+    if (stackManager.attachJournal(journal)) {
+      const count = stackManager.getStackLength();
+      const undoDepth = stackManager.getUndoDepth();
+      logger.line('info', { history_restored: journal.filePath, ops: count, undo: undoDepth });
+      notify('session/update', {
+        sessionId,
+        sessionUpdate: 'agent_message_chunk',
+        content: {
+          type: 'text',
+          text: `Recovered ${count} op${count === 1 ? '' : 's'} from edit history (${undoDepth} undo step${undoDepth === 1 ? '' : 's'})`,
+        },
+      });
+      return;
+    }
+  } catch (err: any) {
+    // Start a fresh journal and fall back to the sidecar, like an invalid sidecar is ignored
+    logger.line('error', { history_restore_failed: err.message });
+    notify('session/update', {
+      sessionId,
+      sessionUpdate: 'agent_message_chunk',
+      content: { type: 'text', text: `Ignoring edit history: ${err.message}` },
+    });
+    try {
+      journal.setAside();
+      stackManager.attachJournal(journal);
+    } catch (setAsideErr: any) {
+      logger.line('error', { history_set_aside_failed: setAsideErr.message });
+    }
+  }
+
+  const srcPath = fileURLToPath(uri);
+  const sidecarPath = await findSidecar(srcPath, [
+    path.join(path.dirname(srcPath), 'Export'),
+    path.join(cwd, 'Export'),
+  ]);
+  if (!sidecarPath) return;
+
+  let text: string;
+  try {
+    const { ops } = await readSidecar(sidecarPath);
+    if (ops.length === 0) return;
+    stackManager.restoreOps(ops);
+    text = `Restored ${ops.length} op${ops.length === 1 ? '' : 's'} from sidecar ${path.basename(sidecarPath)}`;
+    logger.line('info', { sidecar_restored: sidecarPath, ops: ops.length });
+  } catch (err: any) {
+    text = `Ignoring sidecar: ${err.message}`;
+    logger.line('error', { sidecar_restore_failed: err.message });
+  }
+
+  notify('session/update', {
+    sessionId,
+    sessionUpdate: 'agent_message_chunk',
+    content: { type: 'text', text },
+  });
+}
+
+// Bring back a newly opened image's virtual copies from their history journals (see :vcopy)
+function restoreCopies(uri: string, sessionId: string): void {
+  const historyDir = defaultHistoryDir();
+  const restored: string[] = [];
+
+  for (const name of HistoryJournal.copiesOf(historyDir, uri)) {
+    const journal = HistoryJournal.forCopy(historyDir, uri, name);
+    const copy = new EditStackManager(uri);
+    try {
+      copy.attachJournal(journal);
+    } catch (err: any) {
+      logger.line('error', { history_restore_failed: err.message, copy: name });
+      notify('session/update', {
+        sessionId,
+        sessionUpdate: 'agent_message_chunk',
+        content: { type: 'text', text: `Ignoring virtual copy ${name}: ${err.message}` },
+      });
+      try {
+        journal.setAside();
+      } catch (setAsideErr: any) {
+        logger.line('error', { history_set_aside_failed: setAsideErr.message });
+      }
+      continue;
+    }
+    imageStacks.set(stackKey(uri, name), copy);
+    restored.push(name);
+  }
+
+  if (restored.length === 0) return;
+  logger.line('info', { copies_restored: restored });
+  notify('session/update', {
+    sessionId,
+    sessionUpdate: 'agent_message_chunk',
+    content: {
+      type: 'text',
+      text: `Recovered virtual cop${restored.length === 1 ? 'y' : 'ies'} ${restored.join(', ')} from edit history`,
+    },
+  });
+}
+
+async function handleResourceLinks(resourceLinks: any[], sessionId: string, cwd: string): Promise<void> {
   // Get the first available MCP client (for now, we'll use 'image' if available)
   const client = mcpClients.get('image');
   if (!client) {
@@ -522,9 +852,12 @@ async function handleResourceLinks(resourceLinks: any[], sessionId: string): Pro
     // Track loaded image for edit operations
     if (link.uri && link.uri.startsWith('file://')) {
       lastLoadedImage = link.uri;
-      // Create edit stack if doesn't exist
+      // Create edit stack if doesn't exist, picking up edits from a sidecar
       if (!imageStacks.has(link.uri)) {
-        imageStacks.set(link.uri, new EditStackManager(link.uri));
+        const stackManager = new EditStackManager(link.uri);
+        imageStacks.set(link.uri, stackManager);
+        await restoreEdits(stackManager, link.uri, sessionId, cwd);
+        restoreCopies(link.uri, sessionId);
       }
     }
 
@@ -719,12 +1052,72 @@ function formatPlanPreview(calls: PlannedCall[]): string {
           description = `Vibrance: ${amt > 0 ? '+' : ''}${amt}`;
         }
         break;
+      case 'set_curve':
+        if ('args' in call) {
+          const args = call.args as any;
+          description = args.preset ? `Tone curve: ${args.preset}` : 'Tone curve: custom points';
+        }
+        break;
+      case 'set_hsl':
+        if ('args' in call) {
+          const { band, hue, sat, lum } = call.args as any;
+          const fields = [['hue', hue], ['sat', sat], ['lum', lum]]
+            .filter(([, v]) => typeof v === 'number')
+            .map(([name, v]) => `${name} ${v > 0 ? '+' : ''}${v}`);
+          description = `HSL ${band}: ${fields.join(', ')}`;
+        }
+        break;
+      case 'set_tone_regions':
+        if ('args' in call) {
+          const args = call.args as any;
+          const sliders = ['highlights', 'shadows', 'whites', 'blacks']
+            .filter((name) => typeof args[name] === 'number')
+            .map((name) => `${name} ${args[name] > 0 ? '+' : ''}${args[name]}`);
+          description = `Tone regions: ${sliders.join(', ')}`;
+        }
+        break;
       case 'set_crop':
         if ('args' in call) {
           const args = call.args as any;
           description = args.aspect ? `Crop to ${args.aspect}` : 'Custom crop';
         }
         break;
+      case 'local_adjust':
+        if ('args' in call) {
+          const { roi, invert, mask, ...adjustments } = call.args;
+          const fields = Object.entries(adjustments).map(([name, v]) => `${name} ${v > 0 ? '+' : ''}${v}`);
+          const where = `[${roi.map((v) => v.toFixed(2)).join(',')}]${mask ? ` (${mask})` : ''}`;
+          description = `Local adjustment ${invert ? 'outside ' : ''}${where}: ${fields.join(', ')}`;
+        }
+        break;
+      case 'gradient_linear':
+        if ('args' in call) {
+          const { start, end, mask, ...adjustments } = call.args;
+          const point = (p: [number, number]) => `[${p.map((v) => v.toFixed(2)).join(',')}]`;
+          const sliders = localSliderParts(adjustments).join(', ');
+          description = `Linear gradient ${point(start)} → ${point(end)}${mask ? ` (${mask})` : ''}: ${sliders}`;
+        }
+        break;
+      case 'gradient_radial':
+        if ('args' in call) {
+          const { center, radiusX, radiusY, invert, mask, ...adjustments } = call.args;
+          const where = `${invert ? 'outside ' : ''}[${center.map((v) => v.toFixed(2)).join(',')}]`;
+          const radii = radiusY === undefined ? radiusX.toFixed(2) : `${radiusX.toFixed(2)}x${radiusY.toFixed(2)}`;
+          const region = mask ? ` (${mask})` : '';
+          description = `Radial gradient ${where} r ${radii}${region}: ${localSliderParts(adjustments).join(', ')}`;
+        }
+        break;
+      case 'apply_preset':
+        if ('args' in call) {
+          description = `Apply preset ${call.args.name}`;
+        }
+        break;
+      case 'apply_look':
+        if ('args' in call) {
+          const { name, intensity } = call.args;
+          description = `Apply look ${name}${intensity !== undefined ? ` at ${intensity}%` : ''}`;
+        }
+        break;
       case 'export_image':
         description = 'Export image';
         break;
@@ -777,69 +1170,6 @@ async function getImageMetadata(
   return defaults;
 }
 
-// Map preview coordinates to original image coordinates (Phase 7c)
-// Accounts for crop and rotation transformations
-function mapPreviewToOriginal(
-  x: number,
-  y: number,
-  stack: EditStack,
-  originalWidth: number,
-  originalHeight: number
-): { x: number; y: number; clamped: boolean } {
-  let mappedX = x;
-  let mappedY = y;
-  let wasClamped = false;
-
-  // Process operations in reverse order (undo transformations)
-  const geometryOps = stack.ops.filter((op: any) => op.op === 'crop').reverse();
-
-  for (const op of geometryOps) {
-    if (op.op === 'crop') {
-      const cropOp = op as any;
-
-      // Handle rotation inverse
-      if (cropOp.angleDeg) {
-        // Rotate point back by negative angle
-        const angle = (-cropOp.angleDeg * Math.PI) / 180;
-        const centerX = 0.5;
-        const centerY = 0.5;
-
-        // Translate to origin
-        const translatedX = mappedX - centerX;
-        const translatedY = mappedY - centerY;
-
-        // Apply inverse rotation
-        const cos = Math.cos(angle);
-        const sin = Math.sin(angle);
-        const rotatedX = translatedX * cos - translatedY * sin;
-        const rotatedY = translatedX * sin + translatedY * cos;
-
-        // Translate back
-        mappedX = rotatedX + centerX;
-        mappedY = rotatedY + centerY;
-      }
-
-      // Handle crop inverse
-      if (cropOp.rectNorm) {
-        const [cropX, cropY, cropW, cropH] = cropOp.rectNorm;
-
-        // Map from cropped space back to original space
-        mappedX = cropX + mappedX * cropW;
-        mappedY = cropY + mappedY * cropH;
-      }
-    }
-  }
-
-  // Clamp to valid range [0,1]
-  if (mappedX < 0 || mappedX > 1 || mappedY < 0 || mappedY > 1) {
-    wasClamped = true;
-    mappedX = Math.max(0, Math.min(1, mappedX));
-    mappedY = Math.max(0, Math.min(1, mappedY));
-  }
-
-  return { x: mappedX, y: mappedY, clamped: wasClamped };
-}
-
 // Phase 7f: Handle applying a pending plan after confirmation
 async function handlePendingPlan(calls: PlannedCall[], sessionId: string, cwd: string): Promise<void> {
   // Get the current image and stack
@@ -847,7 +1177,7 @@ async function handlePendingPlan(calls: PlannedCall[], sessionId: string, cwd: s
     throw new Error('No image loaded');
   }
   
-  const stackManager = imageStacks.get(lastLoadedImage);
+  const stackManager = imageStacks.get(activeStackKey(lastLoadedImage));
   if (!stackManager) {
     throw new Error('No edit stack for current image');
   }
@@ -866,7 +1196,7 @@ async function handlePendingPlan(calls: PlannedCall[], sessionId: string, cwd: s
     
     const appliedOps: string[] = [];
     
-    for (const call of calls) {
+    for (const call of await expandLookCalls(calls, appliedOps)) {
       switch (call.fn) {
         case 'set_white_balance_temp_tint': {
           const { temp, tint } = call.args;
@@ -907,6 +1237,25 @@ async function handlePendingPlan(calls: PlannedCall[], sessionId: string, cwd: s
           break;
         }
         
+        case 'set_curve': {
+          stackManager.addCurve(call.args);
+          appliedOps.push(`Curve ${call.args.preset || 'custom'}`);
+          break;
+        }
+        
+        case 'set_tone_regions': {
+          stackManager.addToneRegions(call.args);
+          appliedOps.push(`Tone regions`);
+          break;
+        }
+        
+        case 'set_hsl': {
+          const { band, ...adjustment } = call.args;
+          stackManager.addHsl({ bands: { [band]: adjustment } });
+          appliedOps.push(`HSL ${band}`);
+          break;
+        }
+        
         case 'set_crop': {
           const { aspect } = call.args;
           if (aspect) {
@@ -916,6 +1265,22 @@ async function handlePendingPlan(calls: PlannedCall[], sessionId: string, cwd: s
           break;
         }
         
+        case 'local_adjust': {
+          appliedOps.push((await applyLocalAdjustCall(stackManager, call.args, client)).entry);
+          break;
+        }
+        
+        case 'gradient_linear':
+        case 'gradient_radial': {
+          appliedOps.push((await applyGradientCall(stackManager, call, client)).entry);
+          break;
+        }
+        
+        case 'apply_preset': {
+          appliedOps.push(await applyNamedPreset(stackManager, call.args.name));
+          break;
+        }
+        
         case 'export_image': {
           // Export will be handled after the preview is rendered
           appliedOps.push('Export (pending)');
@@ -1074,7 +1439,7 @@ async function handleAskCommand(command: string, sessionId: string, cwd: string,
     }
   }
 
-  const stackManager = imageStacks.get(lastLoadedImage);
+  const stackManager = imageStacks.get(activeStackKey(lastLoadedImage));
   if (!stackManager) {
     throw new Error('No edit stack for current image');
   }
@@ -1139,6 +1504,8 @@ async function handleAskCommand(command: string, sessionId: string, cwd: string,
 
   // Build planner state for context (Phase 7b)
   const imageMeta = await getImageMetadata(lastLoadedImage, client);
+  const presetNames = (await presetStore.list()).map((preset) => preset.name);
+  const { looks } = await loadLooks();
   const plannerState: GeminiPlannerState = {
     image: {
       name: path.basename(lastLoadedImage),
@@ -1147,6 +1514,8 @@ async function handleAskCommand(command: string, sessionId: string, cwd: string,
       mime: imageMeta.mimeType || 'image/jpeg',
     },
     stackSummary: stackManager.getStackSummary(),
+    ...(presetNames.length > 0 && { presets: presetNames }),
+    looks: looks.map(({ name, description }) => ({ name, description })),
     limits: {
       temp: [PLANNER_CLAMPS.temp.min, PLANNER_CLAMPS.temp.max],
       ev: [PLANNER_CLAMPS.ev.min, PLANNER_CLAMPS.ev.max],
@@ -1587,9 +1956,11 @@ async function handleAskCommand(command: string, sessionId: string, cwd: string,
     applySpan.setAttributes({
       'operations.planned': calls.length,
     });
+    const rois: Rect[] = [];
+    let gradientCount = 0;
 
-    // Process each planned call
-    for (const call of finalCalls) {
+    // Process each planned call, with named looks expanded into ordinary calls
+    for (const call of await expandLookCalls(finalCalls, appliedOps)) {
       if (cancelled) break;
 
       switch (call.fn) {
@@ -1754,6 +2125,65 @@ async function handleAskCommand(command: string, sessionId: string, cwd: string,
         break;
       }
 
+      case 'set_curve': {
+        // Curves replace the previous curve (points are absolute, not accumulated)
+        stackManager.addCurve(call.args);
+        appliedOps.push(`Curve ${call.args.preset || 'custom'}`);
+        break;
+      }
+
+      case 'set_tone_regions': {
+        // Accumulate each slider with the existing tone_regions op
+        const currentStack = stackManager.getStack();
+        const lastToneOp = currentStack.ops.filter((op) => op.op === 'tone_regions').pop() as any;
+        const toneOptions: any = {};
+
+        for (const slider of ['highlights', 'shadows', 'whites', 'blacks'] as const) {
+          const amt = call.args[slider];
+          if (amt === undefined) continue;
+
+          const finalAmt = (lastToneOp?.[slider] || 0) + amt;
+          const clampedAmt = Math.max(PLANNER_CLAMPS.toneRegion.min, Math.min(PLANNER_CLAMPS.toneRegion.max, finalAmt));
+
+          if (clampedAmt !== finalAmt) {
+            clampedValues.push(`${slider} ${finalAmt} → ${clampedAmt}`);
+          }
+          toneOptions[slider] = clampedAmt;
+        }
+
+        stackManager.addToneRegions(toneOptions);
+        const toneParts = Object.entries(toneOptions).map(([name, v]: [string, any]) => `${name} ${v > 0 ? '+' : ''}${v}`);
+        appliedOps.push(`Tone ${toneParts.join(' ')}`);
+        break;
+      }
+
+      case 'set_hsl': {
+        // Accumulate with the band's current values in the existing hsl op
+        const { band, ...deltas } = call.args;
+        const currentStack = stackManager.getStack();
+        const lastHslOp = currentStack.ops.filter((op) => op.op === 'hsl').pop() as any;
+        const current = lastHslOp?.bands?.[band] || {};
+        const adjustment: any = {};
+
+        for (const field of ['hue', 'sat', 'lum'] as const) {
+          const amt = deltas[field];
+          if (amt === undefined) continue;
+
+          const finalAmt = (current[field] || 0) + amt;
+          const clampedAmt = Math.max(PLANNER_CLAMPS.hsl.min, Math.min(PLANNER_CLAMPS.hsl.max, finalAmt));
+
+          if (clampedAmt !== finalAmt) {
+            clampedValues.push(`${band} ${field} ${finalAmt} → ${clampedAmt}`);
+          }
+          adjustment[field] = clampedAmt;
+        }
+
+        stackManager.addHsl({ bands: { [band]: adjustment } });
+        const hslParts = Object.entries(adjustment).map(([name, v]: [string, any]) => `${name[0]}${v > 0 ? '+' : ''}${v}`);
+        appliedOps.push(`HSL(${band} ${hslParts.join(' ')})`);
+        break;
+      }
+
       case 'set_rotate': {
         const { angleDeg } = call.args;
         const clampedAngle = Math.max(PLANNER_CLAMPS.angleDeg.min, Math.min(PLANNER_CLAMPS.angleDeg.max, angleDeg));
@@ -1779,25 +2209,13 @@ async function handleAskCommand(command: string, sessionId: string, cwd: string,
         if (rectNorm) {
           // Map preview coordinates to original if we're in vision mode (Phase 7d)
           if (withImage && lastLoadedImage) {
-            const imageMeta = await getImageMetadata(lastLoadedImage, client);
-            // Map each corner of the rectangle
-            const [x, y, w, h] = rectNorm;
-            const topLeft = mapPreviewToOriginal(x, y, stackManager.getStack(), imageMeta.width, imageMeta.height);
-            const bottomRight = mapPreviewToOriginal(x + w, y + h, stackManager.getStack(), imageMeta.width, imageMeta.height);
-            
-            const mappedRect: [number, number, number, number] = [
-              topLeft.x,
-              topLeft.y,
-              bottomRight.x - topLeft.x,
-              bottomRight.y - topLeft.y
-            ];
-            
-            if (topLeft.clamped || bottomRight.clamped) {
+            const mapped = mapPreviewRectToOriginal(rectNorm, stackManager.getStack());
+            if (mapped.clamped) {
               clampedValues.push(
-                `crop rect mapped to [${mappedRect.map(v => v.toFixed(2)).join(',')}] from [${rectNorm.map(v => v.toFixed(2)).join(',')}]`
+                `crop rect mapped to [${mapped.rect.map(v => v.toFixed(2)).join(',')}] from [${rectNorm.map(v => v.toFixed(2)).join(',')}]`
               );
             }
-            rectNorm = mappedRect;
+            rectNorm = mapped.rect;
           }
           
           options.rectNorm = rectNorm;
@@ -1836,6 +2254,36 @@ async function handleAskCommand(command: string, sessionId: string, cwd: string,
         break;
       }
 
+      case 'local_adjust': {
+        // ROIs are picked on the preview, so they are mapped through the current crop and rotation
+        const { entry, roi, clamped } = await applyLocalAdjustCall(stackManager, call.args, client);
+        if (clamped) {
+          clampedValues.push(
+            `roi mapped to [${roi.map(v => v.toFixed(2)).join(',')}] from [${call.args.roi.map(v => v.toFixed(2)).join(',')}]`
+          );
+        }
+        rois.push(roi);
+        appliedOps.push(entry);
+        break;
+      }
+
+      case 'gradient_linear':
+      case 'gradient_radial': {
+        // Gradient points are picked on the preview too
+        const { entry, clamped } = await applyGradientCall(stackManager, call, client);
+        if (clamped) {
+          clampedValues.push(`${call.fn} points clamped to the image`);
+        }
+        gradientCount++;
+        appliedOps.push(entry);
+        break;
+      }
+
+      case 'apply_preset': {
+        appliedOps.push(await applyNamedPreset(stackManager, call.args.name));
+        break;
+      }
+
       case 'export_image': {
         hasExport = true;
         // Export will be handled after rendering (not counted as applied yet)
@@ -1862,6 +2310,17 @@ async function handleAskCommand(command: string, sessionId: string, cwd: string,
       'operations.dropped_list': droppedOps.join(', '),
       'operations.clamped_count': clampedValues.length,
     });
+    if (rois.length > 0) {
+      // Phase 7g: ROI sizes as percent of the image area, and how much the ROIs overlap
+      applySpan.setAttributes({
+        'roi.count': rois.length,
+        'roi.sizes': rois.map(([, , w, h]) => Math.round(w * h * 100)).join(','),
+        'roi.overlaps': rois.length > 1 ? Math.round(rectOverlap(rois[0], rois[1]) * 100) : 0,
+      });
+    }
+    if (gradientCount > 0) {
+      applySpan.setAttributes({ 'gradient.count': gradientCount });
+    }
   }); // End withSpan for operations.apply
 
   // Log apply result telemetry
@@ -2024,8 +2483,10 @@ async function handleAskCommand(command: string, sessionId: string, cwd: string,
 
       // Build export options
       const exportOptions: any = {
-        format: args.format || 'jpeg',
+        format: args.format || (args.dst && formatFromPath(args.dst)) || 'jpeg',
         quality: args.quality || 90,
+        effort: args.effort,
+        lossless: args.lossless || false,
         chromaSubsampling: '4:2:0',
         stripExif: true,
         colorProfile: 'srgb',
@@ -2038,8 +2499,7 @@ async function handleAskCommand(command: string, sessionId: string, cwd: string,
         dstPath = path.resolve(cwd, args.dst);
       } else {
         const origName = path.basename(lastLoadedImage, path.extname(lastLoadedImage));
-        const ext = exportOptions.format === 'png' ? '.png' : '.jpg';
-        dstPath = path.resolve(cwd, 'Export', `${origName}_edit${ext}`);
+        dstPath = path.resolve(cwd, 'Export', `${origName}_edit${defaultExtension(exportOptions.format)}`);
       }
 
       // Add span event for destination path
@@ -2058,7 +2518,7 @@ async function handleAskCommand(command: string, sessionId: string, cwd: string,
         },
         {
           kind: 'write_file',
-          uri: pathToFileURL(dstPath + '.editstack.json').href,
+          uri: pathToFileURL(sidecarPathFor(dstPath)).href,
           bytesApprox: JSON.stringify(stackManager.getStack()).length + 100,
         },
       ];
@@ -2189,6 +2649,19 @@ async function handleAskCommand(command: string, sessionId: string, cwd: string,
             success: true,
           });
           
+          // Write sidecar so the edits can be restored later
+          try {
+            await writeSidecar(sidecarPathFor(dstPath), stack, {
+              format: exportOptions.format,
+              quality: exportOptions.quality,
+              effort: exportOptions.effort,
+              lossless: exportOptions.lossless,
+              colorProfile: exportOptions.colorProfile,
+            });
+          } catch (err: any) {
+            logger.line('error', { sidecar_write_failed: err.message });
+          }
+
           // Get actual file size
           let exportBytes = 0;
           try {
@@ -2367,7 +2840,7 @@ async function handleRefCommand(command: string, sessionId: string, cwd: string)
   });
 }
 
-async function handleEditCommand(command: string, sessionId: string): Promise<void> {
+async function handleEditCommand(command: string, sessionId: string, cwd: string = process.cwd()): Promise<void> {
   logger.line('info', { handleEditCommand_called: true, command });
 
   // Check if we have an image loaded
@@ -2375,7 +2848,7 @@ async function handleEditCommand(command: string, sessionId: string): Promise<vo
     throw new Error('No image loaded. Please load an image first.');
   }
 
-  const stackManager = imageStacks.get(lastLoadedImage);
+  let stackManager = imageStacks.get(activeStackKey(lastLoadedImage));
   if (!stackManager) {
     throw new Error('No edit stack for current image');
   }
@@ -2485,11 +2958,19 @@ async function handleEditCommand(command: string, sessionId: string): Promise<vo
       if (tintMatch) wbOptions.tint = parseInt(tintMatch[1]);
     }
 
+    // Parse --kelvin (absolute scene illuminant, --tint applies on top)
+    const kelvinMatch = args.match(/--kelvin\s+(\d+)/);
+    if (kelvinMatch) {
+      wbOptions.method = 'kelvin';
+      wbOptions.kelvin = parseInt(kelvinMatch[1]);
+      delete wbOptions.temp;
+    }
+
     // Parse --new-op flag
     wbOptions.forceNew = args.includes('--new-op');
 
     if (!wbOptions.method) {
-      throw new Error('White balance requires either --gray x,y or --temp/--tint');
+      throw new Error('White balance requires either --gray x,y, --temp/--tint or --kelvin');
     }
 
     // Add white balance operation to stack
@@ -2566,20 +3047,395 @@ async function handleEditCommand(command: string, sessionId: string): Promise<vo
 
     // Add vibrance operation to stack
     stackManager.addVibrance(vibOptions);
-  } else if (command.startsWith(':auto')) {
-    // Parse auto adjustment arguments
-    const args = command.substring(5).trim();
+  } else if (command.startsWith(':curve')) {
+    // Parse curve arguments
+    const args = command.substring(6).trim();
+    const curveOptions: any = {};
+
+    // Parse --preset
+    const presetMatch = args.match(/--preset\s+(\S+)/);
+    if (presetMatch) {
+      const preset = presetMatch[1].toLowerCase().replace(/-/g, '_');
+      if (!CURVE_PRESETS[preset]) {
+        throw new Error(`Unknown curve preset: ${presetMatch[1]} (available: ${Object.keys(CURVE_PRESETS).join(', ')})`);
+      }
+      curveOptions.preset = preset;
+    }
+
+    // Parse channel points: --master 0,0 0.25,0.2 0.75,0.8 1,1 (also --r, --g, --b)
+    const channelPattern = /--(master|r|g|b)\s+((?:[\d.]+,[\d.]+\s*)+)/g;
+    let channelMatch;
+    while ((channelMatch = channelPattern.exec(args)) !== null) {
+      curveOptions[channelMatch[1]] = channelMatch[2]
+        .trim()
+        .split(/\s+/)
+        .map((pair) => pair.split(',').map(parseFloat));
+    }
+
+    if (!curveOptions.preset && !curveOptions.master && !curveOptions.r && !curveOptions.g && !curveOptions.b) {
+      throw new Error('Curve requires --preset <name> or --master/--r/--g/--b x,y points');
+    }
+
+    // Parse --new-op flag
+    curveOptions.forceNew = args.includes('--new-op');
+
+    // Add curve operation to stack
+    stackManager.addCurve(curveOptions);
+  } else if (command.startsWith(':levels')) {
+    // Parse levels arguments
+    const args = command.substring(7).trim();
+    const params: any = {};
+
+    const flags: Array<[string, string]> = [
+      ['black', 'inBlack'],
+      ['white', 'inWhite'],
+      ['gamma', 'gamma'],
+      ['out-black', 'outBlack'],
+      ['out-white', 'outWhite'],
+    ];
+    for (const [flag, key] of flags) {
+      const match = args.match(new RegExp(`(?:^|\\s)--${flag}\\s+([\\d.]+)`));
+      if (match) {
+        params[key] = parseFloat(match[1]);
+      }
+    }
+
+    if (Object.keys(params).length === 0) {
+      throw new Error('Levels requires --black, --white, --gamma, --out-black or --out-white');
+    }
+
+    // Parse --channel (r, g or b); other channels and master are kept from the current levels op
+    const channelMatch = args.match(/--channel\s+(\S+)/);
+    const levelsOptions: any = {};
+    if (channelMatch) {
+      const channel = channelMatch[1].toLowerCase();
+      if (!['r', 'g', 'b'].includes(channel)) {
+        throw new Error('Levels --channel must be r, g or b');
+      }
+      const existing = stackManager
+        .getStack()
+        .ops.filter((op) => op.op === 'levels')
+        .pop() as any;
+      if (existing) {
+        const { id, op, ...rest } = existing;
+        Object.assign(levelsOptions, rest);
+      }
+      levelsOptions[channel] = params;
+    } else {
+      Object.assign(levelsOptions, params);
+    }
+
+    // Parse --new-op flag
+    levelsOptions.forceNew = args.includes('--new-op');
+
+    // Add levels operation to stack
+    stackManager.addLevels(levelsOptions);
+  } else if (command.startsWith(':tone')) {
+    // Parse tone region arguments
+    const args = command.substring(5).trim();
+    const toneOptions: any = {};
+
+    // Parse --highlights, --shadows, --whites, --blacks
+    for (const slider of ['highlights', 'shadows', 'whites', 'blacks']) {
+      const match = args.match(new RegExp(`--${slider}\\s+([-\\d]+)`));
+      if (match) {
+        toneOptions[slider] = parseInt(match[1]);
+      }
+    }
+
+    if (Object.keys(toneOptions).length === 0) {
+      throw new Error('Tone requires --highlights, --shadows, --whites or --blacks value');
+    }
+
+    // Parse --new-op flag
+    toneOptions.forceNew = args.includes('--new-op');
+
+    // Add tone regions operation to stack
+    stackManager.addToneRegions(toneOptions);
+  } else if (command.startsWith(':hsl')) {
+    // Parse HSL mixer arguments
+    const args = command.substring(4).trim();
+
+    // Parse --band
+    const bandMatch = args.match(/--band\s+(\S+)/);
+    if (!bandMatch) {
+      throw new Error('HSL requires --band and at least one of --hue, --sat or --lum');
+    }
+    const band = bandMatch[1].toLowerCase() as HslBand;
+    if (!HSL_BANDS.includes(band)) {
+      throw new Error(`Unknown HSL band: ${bandMatch[1]} (available: ${HSL_BANDS.join(', ')})`);
+    }
+
+    // Parse --hue, --sat, --lum
+    const adjustment: any = {};
+    for (const field of ['hue', 'sat', 'lum']) {
+      const match = args.match(new RegExp(`--${field}\\s+([-\\d]+)`));
+      if (match) {
+        adjustment[field] = parseInt(match[1]);
+      }
+    }
+
+    if (Object.keys(adjustment).length === 0) {
+      throw new Error('HSL requires --band and at least one of --hue, --sat or --lum');
+    }
+
+    // Add HSL operation to stack (other bands are kept)
+    stackManager.addHsl({ bands: { [band]: adjustment }, forceNew: args.includes('--new-op') });
+  } else if (command.startsWith(':lut')) {
+    // Parse LUT arguments: a file (quoted if it has spaces), --opacity and --interp
+    const args = command.substring(4).trim();
+    const fileMatch = args.match(/^(?:"([^"]+)"|([^\s-]\S*))/);
+    if (!fileMatch) {
+      throw new Error('Usage: :lut <file.cube|file.3dl> [--opacity 0-100] [--interp trilinear|tetrahedral]');
+    }
+
+    // The image server only reads LUTs inside the session folder, so store the path relative to it
+    const lutPath = path.resolve(cwd, fileMatch[1] ?? fileMatch[2]);
+    const relativePath = path.relative(cwd, lutPath);
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      throw new Error(`LUT must be inside the session folder: ${lutPath}`);
+    }
+    await loadLut(lutPath); // Report missing or invalid files before they reach the stack
+
+    const lutOptions: any = { path: relativePath, forceNew: args.includes('--new-op') };
+    const opacityMatch = args.match(/--opacity\s+(\d+(?:\.\d+)?)/);
+    if (opacityMatch) {
+      lutOptions.opacity = parseFloat(opacityMatch[1]);
+    }
+    const interpMatch = args.match(/--interp\s+(\S+)/);
+    if (interpMatch) {
+      if (interpMatch[1] !== 'trilinear' && interpMatch[1] !== 'tetrahedral') {
+        throw new Error(`Unknown interpolation: ${interpMatch[1]} (trilinear or tetrahedral)`);
+      }
+      lutOptions.interpolation = interpMatch[1];
+    }
+
+    stackManager.addLut(lutOptions);
+  } else if (command.startsWith(':local')) {
+    // Parse local adjustment arguments: --roi on the preview as shown (or the whole image when only a
+    // --mask is given), then the sliders
+    const args = command.substring(6).trim();
+    const usage =
+      'Usage: :local --roi x,y,w,h|--mask <id> [--ev N] [--temp N] [--contrast N] [--saturation N] [--vibrance N] [--feather 0-100] [--invert]';
+
+    const mask = parseMaskRef(args);
+    const roiMatch = args.match(/--roi\s+([\d.,]+)/);
+    const roi = roiMatch ? roiMatch[1].split(',').map(parseFloat) : mask && [0, 0, 1, 1];
+    if (!roi || roi.length !== 4 || roi.some((v) => isNaN(v)) || roi[2] <= 0 || roi[3] <= 0) {
+      throw new Error(usage);
+    }
+
+    // A whole-image ROI has no edge to feather; the mask shapes the adjustment
+    const localOptions: any = { invert: args.includes('--invert'), mask, feather: roiMatch ? undefined : 0 };
+    for (const field of ['ev', 'temp', 'contrast', 'saturation', 'vibrance', 'feather']) {
+      const match = args.match(new RegExp(`--${field}\\s+([-\\d.]+)`));
+      if (match) {
+        localOptions[field] = parseFloat(match[1]);
+      }
+    }
+    if (
+      !localOptions.ev &&
+      !localOptions.temp &&
+      !localOptions.contrast &&
+      !localOptions.saturation &&
+      !localOptions.vibrance
+    ) {
+      throw new Error(usage);
+    }
+
+    // The preview shows the cropped and rotated image; the op stores the ROI on the original
+    const mapped = mapPreviewRectToOriginal(roi as Rect, stackManager.getStack());
+    stackManager.addLocalAdjust({ ...localOptions, roi: mapped.rect });
+  } else if (command.startsWith(':grad')) {
+    // Parse linear gradient arguments: --from (full effect) and --to (faded out) on the preview
+    const args = command.substring(5).trim();
+    const usage =
+      'Usage: :grad --from x,y --to x,y [--ev N] [--temp N] [--contrast N] [--saturation N] [--feather 0-100] [--mask <id>]';
+
+    const start = parsePreviewPoint(args, 'from');
+    const end = parsePreviewPoint(args, 'to');
+    const gradientOptions = parseLocalSliders(args, ['ev', 'temp', 'contrast', 'saturation']);
+    if (!start || !end || Object.keys(gradientOptions).length === 0) {
+      throw new Error(usage);
+    }
+    const feather = args.match(/--feather\s+([\d.]+)/);
+
+    // Points are stored on the original image, so the gradient stays put when the crop changes
+    const stack = stackManager.getStack();
+    stackManager.addGradientLinear({
+      ...gradientOptions,
+      start: mapPreviewPointToOriginal(start, stack).point,
+      end: mapPreviewPointToOriginal(end, stack).point,
+      feather: feather ? parseFloat(feather[1]) : undefined,
+      mask: parseMaskRef(args),
+    });
+  } else if (command.startsWith(':radial')) {
+    // Parse radial gradient arguments: --center on the preview and --radius rx[,ry] as shares of its size
+    const args = command.substring(7).trim();
+    const usage =
+      'Usage: :radial --center x,y --radius rx[,ry] [--ev N] [--temp N] [--contrast N] [--saturation N] [--feather 0-100] [--invert] [--mask <id>]';
+
+    const center = parsePreviewPoint(args, 'center');
+    const radii = args
+      .match(/--radius\s+([\d.,]+)/)?.[1]
+      .split(',')
+      .map(parseFloat);
+    const gradientOptions = parseLocalSliders(args, ['ev', 'temp', 'contrast', 'saturation']);
+    const validRadii = radii && radii.length <= 2 && radii.every((r) => r > 0);
+    if (!center || !validRadii || Object.keys(gradientOptions).length === 0) {
+      throw new Error(usage);
+    }
+    const feather = args.match(/--feather\s+([\d.]+)/);
+
+    const mapped = mapPreviewEllipseToOriginal(center, radii[0], radii[1] ?? radii[0], stackManager.getStack());
+    stackManager.addGradientRadial({
+      ...gradientOptions,
+      ...mapped,
+      invert: args.includes('--invert'),
+      feather: feather ? parseFloat(feather[1]) : undefined,
+      mask: parseMaskRef(args),
+    });
+  } else if (command.startsWith(':mask show') || command.startsWith(':mask preview')) {
+    // Show a mask instead of the plain preview: tinted red over the edited image, or (preview) the
+    // mask itself in grayscale
+    const [, action, maskId] = command.split(/\s+/);
+    if (!maskId) {
+      throw new Error(`Usage: :mask ${action} <id>`);
+    }
+    const view = action === 'preview' ? 'mask' : 'overlay';
+    const toolCallId = action === 'preview' ? 'mask_preview' : 'mask_overlay';
+
+    notify('session/update', {
+      sessionId,
+      sessionUpdate: 'tool_call_update',
+      toolCallId,
+      status: 'in_progress',
+      rawInput: { command },
+    });
+
+    const overlayResult = await client.callTool({
+      name: 'render_mask_overlay',
+      arguments: { uri: lastLoadedImage, editStack: stackManager.getStack(), maskId, view, maxPx: 1024 },
+    });
+    const imageContent = (overlayResult.content as any[] | undefined)?.find((c: any) => c.type === 'image');
+    if (!imageContent) {
+      throw new Error((overlayResult.content as any[] | undefined)?.[0]?.text || `Could not render mask ${maskId}`);
+    }
+
+    notify('session/update', {
+      sessionId,
+      sessionUpdate: 'tool_call_update',
+      toolCallId,
+      status: 'in_progress',
+      content: [
+        {
+          type: 'content',
+          content: { type: 'image', data: imageContent.data, mimeType: imageContent.mimeType },
+        },
+      ],
+    });
+    notify('session/update', {
+      sessionId,
+      sessionUpdate: 'tool_call_update',
+      toolCallId,
+      status: 'completed',
+    });
+    return; // The mask replaces the preview
+  } else if (command.startsWith(':mask auto')) {
+    // Find the sky, subject or background; the new mask id shows up in the stack summary
+    const kind = command.split(/\s+/)[2] as AutoMaskKind;
+    if (!AUTO_MASK_KINDS.includes(kind)) {
+      throw new Error(`Usage: :mask auto ${AUTO_MASK_KINDS.join('|')}`);
+    }
+    await addAutoMask(stackManager, kind, client);
+  } else if (command.startsWith(':mask')) {
+    // Parse mask arguments: the shape, then its points on the preview as x,y pairs or its range,
+    // then the options
+    const args = command.substring(5).trim();
+    const usage =
+      'Usage: :mask polygon|brush x,y x,y ... [--radius R] [--hardness 0-100] | luma <lo>-<hi> [--falloff N] | color <band|hue> [--range N] [--falloff N] [--min-chroma N] (all: [--to <id>] [--mode add|subtract|intersect])';
+
+    const [type, ...rest] = args.split(/\s+/);
+    const optionsStart = rest.findIndex((token) => token.startsWith('--'));
+    const values = optionsStart === -1 ? rest : rest.slice(0, optionsStart);
+
+    const mode = (args.match(/--mode\s+(\S+)/)?.[1] ?? 'add') as MaskMode;
+    if (!['add', 'subtract', 'intersect'].includes(mode)) {
+      throw new Error(`Unknown mask mode: ${mode} (add, subtract or intersect)`);
+    }
+    const option = (name: string, fallback: number) => {
+      const match = args.match(new RegExp(`--${name}\\s+([\\d.]+)`));
+      return match ? parseFloat(match[1]) : fallback;
+    };
+
+    let shape: MaskShape;
+    if (type === 'luma') {
+      // L* range, e.g. 70-100 for the highlights
+      const range = values[0]?.match(/^([\d.]+)-([\d.]+)$/);
+      if (values.length !== 1 || !range) {
+        throw new Error(usage);
+      }
+      shape = {
+        type: 'luminance',
+        mode,
+        range: [parseFloat(range[1]), parseFloat(range[2])],
+        falloff: option('falloff', DEFAULT_LUMINANCE_FALLOFF),
+      };
+    } else if (type === 'color') {
+      // A band name picks the typical LCh hue of that band; a number is the hue itself
+      const hue = HSL_BANDS.includes(values[0] as HslBand) ? BAND_HUES[values[0] as HslBand] : parseFloat(values[0]);
+      if (values.length !== 1 || isNaN(hue)) {
+        throw new Error(`${usage}\nBands: ${HSL_BANDS.join(', ')}`);
+      }
+      shape = {
+        type: 'color',
+        mode,
+        hue,
+        hueRange: option('range', DEFAULT_HUE_RANGE),
+        falloff: option('falloff', DEFAULT_HUE_FALLOFF),
+        minChroma: option('min-chroma', DEFAULT_MIN_CHROMA),
+      };
+    } else {
+      const points = values.map((pair) => parsePreviewPoint(`--point ${pair}`, 'point'));
+      const minPoints = type === 'polygon' ? 3 : 1;
+      if ((type !== 'polygon' && type !== 'brush') || points.length < minPoints || points.some((p) => !p)) {
+        throw new Error(usage);
+      }
+
+      // Points are stored on the original image, so the mask stays put when the crop changes
+      const stack = stackManager.getStack();
+      const mapped = points.map((point) => mapPreviewPointToOriginal(point!, stack).point);
+      shape =
+        type === 'polygon'
+          ? { type, mode, points: mapped }
+          : {
+              type,
+              mode,
+              points: mapped,
+              radius: option('radius', DEFAULT_BRUSH_RADIUS),
+              hardness: option('hardness', DEFAULT_BRUSH_HARDNESS),
+            };
+    }
+    stackManager.addMaskShape(shape, args.match(/--to\s+(\S+)/)?.[1]);
+  } else if (command.startsWith(':auto')) {
+    // Parse auto adjustment arguments
+    const args = command.substring(5).trim();
 
     // Import auto adjust functions
     const { autoWhiteBalance, autoExposure, autoContrast, autoAll } = await import('../src/autoAdjust.js');
 
-    if (args === 'wb') {
-      // Auto white balance
-      const wbOp = await autoWhiteBalance(lastLoadedImage.replace('file://', ''));
+    if (args === 'wb' || args === 'wb --kelvin') {
+      // Auto white balance (--kelvin stores the estimated scene illuminant as an absolute op)
+      const wbOp = await autoWhiteBalance(
+        lastLoadedImage.replace('file://', ''),
+        args === 'wb --kelvin' ? 'kelvin' : 'temp_tint'
+      );
+      logger.line('info', { auto_wb_scene_kelvin: wbOp.sceneKelvin });
       stackManager.addWhiteBalance({
         method: wbOp.method,
         temp: wbOp.temp,
         tint: wbOp.tint,
+        kelvin: wbOp.kelvin,
         forceNew: false,
       });
     } else if (args === 'ev') {
@@ -2624,9 +3480,132 @@ async function handleEditCommand(command: string, sessionId: string): Promise<vo
         amt: adjustments.contrast.amt,
         forceNew: false,
       });
+    } else if (args === 'levels') {
+      // Auto levels from the histogram of the current stack (without any existing levels op)
+      const currentStack = stackManager.getStack();
+      const histResult = await client.callTool({
+        name: 'compute_histogram',
+        arguments: {
+          uri: lastLoadedImage,
+          editStack: { ...currentStack, ops: currentStack.ops.filter((op) => op.op !== 'levels') },
+          bins: 64,
+        },
+      });
+
+      const content = histResult.content as any[] | undefined;
+      const histData = JSON.parse(content?.[0]?.text || '{}');
+
+      const { computeAutoLevels } = await import('../src/histogram.js');
+      const levels = computeAutoLevels(histData);
+      stackManager.addLevels({
+        inBlack: levels.inBlack,
+        inWhite: levels.inWhite,
+        forceNew: false,
+      });
+    } else {
+      throw new Error('Auto requires: wb, ev, contrast, levels, or all');
+    }
+  } else if (STACK_EDIT_COMMAND.test(command)) {
+    // Op-level edits: :stack toggle|rm <id>, :stack mv <id> <pos>, :stack set <id> key=value ...
+    const [, action, id, ...rest] = command.split(/\s+/);
+    if (!id) {
+      throw new Error('Usage: :stack toggle|rm <op id>, :stack mv <op id> <position> or :stack set <op id> key=value ...');
+    }
+    const op = stackManager.getStack().ops.find((o) => o.id === id);
+    if (!op) {
+      throw new Error(`No operation ${id} in the stack (see :stack)`);
+    }
+
+    if (action === 'toggle') {
+      if (op.enabled === false) {
+        stackManager.enableOp(id);
+      } else {
+        stackManager.disableOp(id);
+      }
+    } else if (action === 'rm') {
+      stackManager.removeOp(id);
+    } else if (action === 'mv') {
+      // Positions are 1-based, as listed by :stack
+      const position = parseInt(rest[0]);
+      if (isNaN(position)) {
+        throw new Error('Usage: :stack mv <op id> <position>');
+      }
+      stackManager.moveOp(id, position - 1);
+    } else {
+      if (rest.length === 0) {
+        throw new Error('Usage: :stack set <op id> key=value ... (e.g. amt=25, label=Warm, bands.blue.sat=-20)');
+      }
+      stackManager.updateOp(id, parseOpPatch(rest));
+    }
+  } else if (SNAPSHOT_EDIT_COMMAND.test(command)) {
+    // Replace the stack with a snapshot (undoable)
+    const name = command.split(/\s+/)[2];
+    if (!name) {
+      throw new Error('Usage: :snapshot restore <name>');
+    }
+    if (!stackManager.restoreSnapshot(name)) {
+      throw new Error(`No snapshot named ${name} (see :snapshot list)`);
+    }
+  } else if (VIRTUAL_COPY_EDIT_COMMAND.test(command)) {
+    // Virtual copies: :vcopy new <name> starts from the current stack, :vcopy use <name|master>
+    // switches the stack being edited, :vcopy rm <name> deletes a copy
+    const [, action, name] = command.split(/\s+/);
+    if (!name) {
+      throw new Error(`Usage: :vcopy ${action} <name>`);
+    }
+    const key = stackKey(lastLoadedImage, name);
+
+    if (action === 'new') {
+      if (name === MASTER_COPY || !/^[\w-]+$/.test(name)) {
+        throw new Error(`Invalid virtual copy name: ${name} (letters, digits, _ or -; not "${MASTER_COPY}")`);
+      }
+      if (imageStacks.has(key)) {
+        throw new Error(`Virtual copy ${name} already exists (use :vcopy use ${name})`);
+      }
+      // Journaled like the master, starting from its ops with no undo step that would empty the copy
+      const journal = HistoryJournal.forCopy(defaultHistoryDir(), lastLoadedImage, name);
+      journal.remove();
+      const copy = new EditStackManager(lastLoadedImage);
+      copy.attachJournal(journal);
+      copy.seedOps(stackManager.getStack().ops);
+      imageStacks.set(key, copy);
+      activeCopies.set(lastLoadedImage, name);
+    } else if (action === 'use') {
+      if (!imageStacks.has(key)) {
+        throw new Error(`No virtual copy named ${name} (see :vcopy)`);
+      }
+      if (name === MASTER_COPY) {
+        activeCopies.delete(lastLoadedImage);
+      } else {
+        activeCopies.set(lastLoadedImage, name);
+      }
     } else {
-      throw new Error('Auto requires: wb, ev, contrast, or all');
+      if (name === MASTER_COPY) {
+        throw new Error('The master copy cannot be removed');
+      }
+      if (!imageStacks.delete(key)) {
+        throw new Error(`No virtual copy named ${name} (see :vcopy)`);
+      }
+      HistoryJournal.forCopy(defaultHistoryDir(), lastLoadedImage, name).remove();
+      if (activeCopies.get(lastLoadedImage) === name) {
+        activeCopies.delete(lastLoadedImage);
+      }
     }
+
+    stackManager = imageStacks.get(activeStackKey(lastLoadedImage))!;
+  } else if (PRESET_EDIT_COMMAND.test(command)) {
+    const name = command.split(/\s+/)[2];
+    if (!name) {
+      throw new Error('Usage: :preset apply <name>');
+    }
+    applyPreset(stackManager, await presetStore.load(name));
+  } else if (command === ':paste' || command.startsWith(':paste ')) {
+    const pasted = await pasteClipboard(command, client);
+    notify('session/update', {
+      sessionId,
+      sessionUpdate: 'agent_message_chunk',
+      content: { type: 'text', text: pasted },
+    });
   } else if (command === ':hist') {
     // Compute and display histogram
     logger.line('info', { hist_command_recognized: true });
@@ -2691,8 +3670,9 @@ async function handleEditCommand(command: string, sessionId: string): Promise<vo
       },
     });
 
-    // Send stack info
-    const stackInfo = `Stack: ${stackManager.getStackSummary()}`;
+    // Send stack info, naming the virtual copy when one is being edited
+    const copy = activeCopies.get(lastLoadedImage);
+    const stackInfo = `Stack${copy ? ` (${copy})` : ''}: ${stackManager.getStackSummary()}`;
     notify('session/update', {
       sessionId,
       sessionUpdate: 'tool_call_update',
@@ -2762,202 +3742,794 @@ async function handleEditCommand(command: string, sessionId: string): Promise<vo
   }
 }
 
-async function handleExportCommand(command: string, sessionId: string, cwd: string, requestId: number): Promise<void> {
+// :stack subcommands that change ops and re-render like other edit commands
+const STACK_EDIT_COMMAND = /^:stack\s+(toggle|rm|mv|set)\b/;
+const SNAPSHOT_EDIT_COMMAND = /^:snapshot\s+restore\b/;
+const VIRTUAL_COPY_EDIT_COMMAND = /^:vcopy\s+(new|use|rm)\b/;
+const PRESET_EDIT_COMMAND = /^:preset\s+apply\b/;
+const LUT_BAKE_COMMAND = /^:lut\s+bake\b/;
+
+// Parse :stack set arguments: key=value pairs, dotted keys for nested fields (bands.blue.sat=-20),
+// comma-separated numbers for arrays (rectNorm=0,0.1,1,0.8)
+function parseOpPatch(args: string[]): Record<string, unknown> {
+  const patch: Record<string, any> = {};
+  for (const arg of args) {
+    const match = arg.match(/^([\w.]+)=(.*)$/);
+    if (!match) {
+      throw new Error(`Expected key=value, got: ${arg}`);
+    }
+
+    const [, key, raw] = match;
+    let value: unknown = raw;
+    if (raw === 'true' || raw === 'false') {
+      value = raw === 'true';
+    } else if (raw !== '' && !isNaN(Number(raw))) {
+      value = Number(raw);
+    } else if (/^[-\d.]+(,[-\d.]+)+$/.test(raw)) {
+      value = raw.split(',').map(Number);
+    }
+
+    const parts = key.split('.');
+    let target = patch;
+    for (const part of parts.slice(0, -1)) {
+      target = target[part] ??= {};
+    }
+    target[parts[parts.length - 1]] = value;
+  }
+  return patch;
+}
+
+async function handleStackCommand(command: string, sessionId: string, cwd: string, requestId: number): Promise<void> {
   // Check if we have an image loaded
   if (!lastLoadedImage) {
     throw new Error('No image loaded. Please load an image first.');
   }
 
-  const stackManager = imageStacks.get(lastLoadedImage);
+  const stackManager = imageStacks.get(activeStackKey(lastLoadedImage));
   if (!stackManager) {
     throw new Error('No edit stack for current image');
   }
 
-  const client = mcpClients.get('image');
-  if (!client) {
-    throw new Error('No MCP image server available');
+  const [, action, file] = command.split(/\s+/);
+  let text: string;
+
+  if (!action) {
+    text = `Stack: ${stackManager.getStackSummary()}\n${stackManager.getOpListing()}`;
+  } else if (action === 'save') {
+    // Default to <image>.editstack.json next to the source, where :open finds it; a virtual copy
+    // defaults to <image>.<copy>.editstack.json so it does not replace the master's sidecar
+    const copy = copyName(activeStackKey(lastLoadedImage));
+    const srcPath = fileURLToPath(lastLoadedImage);
+    const sidecarPath = file
+      ? path.resolve(cwd, file)
+      : sidecarPathFor(copy === MASTER_COPY ? srcPath : `${srcPath}.${copy}`);
+    const editStack = stackManager.getStack();
+
+    const granted = await requestPermission(
+      sessionId,
+      requestId,
+      'Save edit stack',
+      `Write ${editStack.ops.length} ops to ${path.basename(sidecarPath)}`,
+      [
+        {
+          kind: 'write_file',
+          uri: pathToFileURL(sidecarPath).href,
+          bytesApprox: JSON.stringify(editStack).length + 100,
+        },
+      ]
+    );
+    if (!granted) {
+      throw new Error('Save cancelled: Permission denied by client');
+    }
+
+    await fs.mkdir(path.dirname(sidecarPath), { recursive: true });
+    await writeSidecar(sidecarPath, editStack);
+    text = `Saved ${editStack.ops.length} ops to ${sidecarPath}`;
+  } else if (action === 'load' && file) {
+    const sidecarPath = path.resolve(cwd, file);
+    const { baseUri, ops } = await readSidecar(sidecarPath);
+    stackManager.restoreOps(ops);
+
+    text = `Restored ${ops.length} ops from ${path.basename(sidecarPath)}`;
+    if (baseUri !== lastLoadedImage) {
+      text += ` (saved for ${path.basename(baseUri)})`;
+    }
+    text += `\nStack: ${stackManager.getStackSummary()}`;
+  } else {
+    throw new Error('Usage: :stack [save [file] | load <file> | toggle|rm <op id> | mv <op id> <position> | set <op id> key=value ...]');
   }
 
-  // Parse export arguments
-  const args = command.substring(7).trim();
-  const exportOptions: any = {
-    format: 'jpeg',
-    quality: 90,
-    chromaSubsampling: '4:2:0',
-    stripExif: true,
-    colorProfile: 'srgb',
-    overwrite: false,
-  };
+  logger.line('info', { stack_command: command, ops: stackManager.getStackLength() });
+  notify('session/update', {
+    sessionId,
+    sessionUpdate: 'agent_message_chunk',
+    content: { type: 'text', text },
+  });
+}
 
-  // Parse --format
-  const formatMatch = args.match(/--format\s+(\S+)/);
-  if (formatMatch) {
-    exportOptions.format = formatMatch[1];
+async function handleSnapshotCommand(command: string, sessionId: string): Promise<void> {
+  // Check if we have an image loaded
+  if (!lastLoadedImage) {
+    throw new Error('No image loaded. Please load an image first.');
   }
 
-  // Parse --quality
-  const qualityMatch = args.match(/--quality\s+(\d+)/);
-  if (qualityMatch) {
-    exportOptions.quality = parseInt(qualityMatch[1]);
+  const stackManager = imageStacks.get(activeStackKey(lastLoadedImage));
+  if (!stackManager) {
+    throw new Error('No edit stack for current image');
   }
 
-  // Parse --dst
-  let dstPath: string;
-  const dstMatch = args.match(/--dst\s+(\S+)/);
-  if (dstMatch) {
-    dstPath = path.resolve(cwd, dstMatch[1]);
+  const [, action, first, second] = command.split(/\s+/);
+  let text: string;
+
+  if (action === 'save' && first) {
+    const snapshot = stackManager.saveSnapshot(first);
+    text = `Saved snapshot ${first} (${snapshot.ops.length} op${snapshot.ops.length === 1 ? '' : 's'})`;
+  } else if (!action || action === 'list') {
+    const snapshots = stackManager.getSnapshots();
+    text =
+      snapshots.length === 0
+        ? 'No snapshots (use :snapshot save <name>)'
+        : snapshots
+            .map((snapshot) => `${snapshot.name}: ${stackManager.getStackSummary(snapshot.ops)}`)
+            .join('\n');
+  } else if (action === 'diff' && first) {
+    // Compare with the current stack when only one snapshot is given
+    const to = second ?? CURRENT_SNAPSHOT;
+    const lines = stackManager.diffSnapshots(first, to);
+    text = `${first} → ${to}:\n${lines.length > 0 ? lines.join('\n') : 'No differences'}`;
   } else {
-    // Default to ./Export/<orig>_edit.<ext>
-    const origName = path.basename(lastLoadedImage, path.extname(lastLoadedImage));
-    const ext = exportOptions.format === 'png' ? '.png' : '.jpg';
-    dstPath = path.resolve(cwd, 'Export', `${origName}_edit${ext}`);
+    throw new Error('Usage: :snapshot [list | save <name> | restore <name> | diff <a> [b]]');
   }
 
-  // Parse --overwrite flag
-  exportOptions.overwrite = args.includes('--overwrite');
+  logger.line('info', { snapshot_command: command });
+  notify('session/update', {
+    sessionId,
+    sessionUpdate: 'agent_message_chunk',
+    content: { type: 'text', text },
+  });
+}
+
+async function handleVirtualCopyCommand(command: string, sessionId: string): Promise<void> {
+  // Check if we have an image loaded
+  if (!lastLoadedImage) {
+    throw new Error('No image loaded. Please load an image first.');
+  }
 
-  // Parse --batch flag
-  const isBatch = args.includes('--batch');
+  const action = command.split(/\s+/)[1];
+  if (action && action !== 'list') {
+    throw new Error('Usage: :vcopy [list | new <name> | use <name> | rm <name>]');
+  }
 
-  if (isBatch) {
-    // For batch, export all loaded images
-    const allImages = Array.from(imageStacks.keys());
-    if (allImages.length === 0) {
-      throw new Error('No images loaded for batch export');
+  // The copy being edited is marked with *
+  const active = activeStackKey(lastLoadedImage);
+  const lines: string[] = [];
+  for (const [key, manager] of imageStacks) {
+    if (manager.getStack().baseUri === lastLoadedImage) {
+      lines.push(`${key === active ? '*' : ' '} ${copyName(key)}: ${manager.getStackSummary()}`);
     }
-
-    // TODO: Implement batch export
-    throw new Error('Batch export not yet implemented');
   }
 
-  // Get current edit stack
-  const editStack = stackManager.getStack();
+  notify('session/update', {
+    sessionId,
+    sessionUpdate: 'agent_message_chunk',
+    content: { type: 'text', text: `Virtual copies of ${path.basename(fileURLToPath(lastLoadedImage))}:\n${lines.join('\n')}` },
+  });
+}
 
-  // Estimate file size (rough approximation)
-  const bytesApprox = 2500000; // ~2.5MB estimate for edited image
-  const sidecarBytesApprox = JSON.stringify(editStack).length + 100;
+// Dimensions of an image from read_image_meta ("name W×H, ...")
+async function readImageSize(uri: string, client: Client): Promise<{ width: number; height: number }> {
+  const metaResult = await client.callTool({
+    name: 'read_image_meta',
+    arguments: { uri },
+  });
 
-  // Build permission operations
-  const operations: PermissionOperation[] = [
-    {
-      kind: 'write_file',
-      uri: pathToFileURL(dstPath).href,
-      bytesApprox,
-    },
-    {
-      kind: 'write_file',
-      uri: pathToFileURL(dstPath + '.editstack.json').href,
-      bytesApprox: sidecarBytesApprox,
-    },
-  ];
+  const content = metaResult.content as any[] | undefined;
+  const dimMatch = (content?.[0]?.text || '').match(/(\d+)×(\d+)/);
+  if (!dimMatch) {
+    throw new Error(`Could not read the dimensions of ${path.basename(fileURLToPath(uri))}`);
+  }
+  return { width: parseInt(dimMatch[1]), height: parseInt(dimMatch[2]) };
+}
 
-  // Send permission request
-  const permId = requestId + 1000; // Use offset to avoid ID collision
-  const permissionRequest = {
-    jsonrpc: '2.0',
-    id: permId,
-    method: 'session/request_permission',
-    params: {
-      sessionId,
-      title: 'Export edited image',
-      explanation: `Write edited image and edit stack to ${path.basename(dstPath)}`,
-      operations,
-    },
-  };
+// A gray point picks a spot in one image; other images get the white balance it produces there
+async function withoutGrayPoints(ops: EditOp[], imagePath: string): Promise<EditOp[]> {
+  const { grayPointToTempTint } = await import('../src/autoAdjust.js');
+  return Promise.all(
+    ops.map((op) =>
+      op.op === 'white_balance' && op.method === 'gray_point' ? grayPointToTempTint(imagePath, op) : op
+    )
+  );
+}
 
-  // Create promise to wait for permission response
-  const granted = await new Promise<boolean>((resolve, reject) => {
-    const timeout = setTimeout(() => {
-      pendingPermissions.delete(permId);
-      logger.line('info', { permission_timeout: permId });
-      resolve(false); // Auto-deny on timeout
-    }, 15000); // 15 second timeout
+async function handleCopyCommand(command: string, sessionId: string): Promise<void> {
+  // Check if we have an image loaded
+  if (!lastLoadedImage) {
+    throw new Error('No image loaded. Please load an image first.');
+  }
 
-    pendingPermissions.set(permId, { resolve, reject, timeout });
-    send(permissionRequest);
-  });
+  const stackManager = imageStacks.get(activeStackKey(lastLoadedImage));
+  if (!stackManager) {
+    throw new Error('No edit stack for current image');
+  }
 
-  if (!granted) {
-    throw new Error('Export cancelled: Permission denied by client');
+  const args = command.split(/\s+/).slice(1);
+  if (args.length > 0 && (args[0] !== '--only' || args.length !== 2)) {
+    throw new Error('Usage: :copy [--only wb,exposure,...] (op types or groups: wb, tone, color, geometry, local)');
   }
 
-  // Start export with progress updates - use unique ID
-  const toolCallId = `export_${Date.now()}_${Math.random().toString(16).slice(2, 8)}`;
+  const ops = selectOps(stackManager.getStack().ops, args[1]?.split(','));
+  if (ops.length === 0) {
+    throw new Error(args.length > 0 ? `No ${args[1]} ops to copy` : 'Nothing to copy: the edit stack is empty');
+  }
 
-  // Send initial progress
-  notify('session/update', {
-    sessionId,
-    sessionUpdate: 'tool_call_update',
-    toolCallId,
-    status: 'in_progress',
-    rawInput: { command, dst: dstPath },
-  });
+  const imagePath = fileURLToPath(lastLoadedImage);
+  const copied = await withoutGrayPoints(ops, imagePath);
 
-  // Send text update about rendering
+  clipboard = { ops: copied, source: lastLoadedImage, sourceKey: activeStackKey(lastLoadedImage) };
+  logger.line('info', { copy_command: command, ops: copied.length });
   notify('session/update', {
     sessionId,
-    sessionUpdate: 'tool_call_update',
-    toolCallId,
-    status: 'in_progress',
-    content: [
-      {
-        type: 'content',
-        content: { type: 'text', text: 'Rendering full resolution...' },
-      },
-    ],
+    sessionUpdate: 'agent_message_chunk',
+    content: {
+      type: 'text',
+      text: `Copied ${copied.length} op${copied.length === 1 ? '' : 's'} from ${path.basename(imagePath)}: ${stackManager.getStackSummary(copied)}`,
+    },
   });
+}
 
-  try {
-    // Call commit_version
-    const commitResult = await client.callTool({
-      name: 'commit_version',
-      arguments: {
-        uri: lastLoadedImage,
-        editStack,
-        dstUri: pathToFileURL(dstPath).href,
-        format: exportOptions.format,
-        quality: exportOptions.quality,
-        chromaSubsampling: exportOptions.chromaSubsampling,
-        stripExif: exportOptions.stripExif,
-        colorProfile: exportOptions.colorProfile,
-        overwrite: exportOptions.overwrite,
-      },
+// Paste the clipboard into the current stack, or with --to into the stack being edited of every
+// other loaded image (all) or of those whose file name matches a glob. Crops are remapped to each
+// image's aspect ratio unless --skip-crop leaves them out. Returns one line per pasted stack.
+async function pasteClipboard(command: string, client: Client): Promise<string> {
+  if (!clipboard) {
+    throw new Error('Nothing to paste (use :copy first)');
+  }
+
+  const args = command.split(/\s+/).slice(1);
+  const skipCrop = args.includes('--skip-crop');
+  const toIdx = args.indexOf('--to');
+  const to = toIdx !== -1 ? args[toIdx + 1] : undefined;
+  if ((toIdx !== -1 && !to) || args.some((arg, i) => arg !== '--skip-crop' && i !== toIdx && i !== toIdx + 1)) {
+    throw new Error('Usage: :paste [--to all|<glob>] [--skip-crop]');
+  }
+
+  // Images are the master keys; each gets the copy being edited
+  let targets = [activeStackKey(lastLoadedImage!)];
+  if (to) {
+    targets = Array.from(imageStacks.keys())
+      .filter((key) => !key.includes('#'))
+      .filter((uri) => to === 'all' || matchesGlob(path.basename(fileURLToPath(uri)), to))
+      .map(activeStackKey)
+      .filter((key) => key !== clipboard!.sourceKey);
+    if (targets.length === 0) {
+      throw new Error(to === 'all' ? 'No other images loaded' : `No other loaded images match ${to}`);
+    }
+  }
+
+  if (skipCrop && clipboard.ops.every((op) => op.op === 'crop')) {
+    throw new Error('Nothing to paste: the clipboard only holds a crop');
+  }
+
+  const lines: string[] = [];
+  for (const key of targets) {
+    const manager = imageStacks.get(key)!;
+    const uri = manager.getStack().baseUri;
+    let ops = clipboard.ops.filter((op) => !(skipCrop && op.op === 'crop'));
+
+    if (uri !== clipboard.source && ops.some((op) => op.op === 'crop' && op.rectNorm)) {
+      const from = await readImageSize(clipboard.source, client);
+      const size = await readImageSize(uri, client);
+      ops = ops.map((op) => (op.op === 'crop' ? remapCrop(op, from, size) : op));
+    }
+
+    manager.pasteOps(ops);
+    const copy = copyName(key);
+    const name = path.basename(fileURLToPath(uri)) + (copy === MASTER_COPY ? '' : ` (${copy})`);
+    lines.push(`${name}: ${manager.getStackSummary()}`);
+  }
+
+  logger.line('info', { paste_command: command, targets: targets.length });
+  return `Pasted into ${targets.length} stack${targets.length === 1 ? '' : 's'}:\n${lines.join('\n')}`;
+}
+
+async function handlePresetCommand(command: string, sessionId: string): Promise<void> {
+  const [, action, name, ...rest] = command.split(/\s+/);
+  let text: string;
+
+  if (!action || action === 'list') {
+    const presets = await presetStore.list();
+    const summarizer = new EditStackManager('');
+    text =
+      presets.length === 0
+        ? `No presets in ${presetStore.dir} (use :preset save <name>)`
+        : presets.map((preset) => `${preset.name}: ${summarizer.getStackSummary(preset.ops)}`).join('\n');
+  } else if (action === 'save' && name) {
+    if (!lastLoadedImage) {
+      throw new Error('No image loaded. Please load an image first.');
+    }
+    const stackManager = imageStacks.get(activeStackKey(lastLoadedImage));
+    if (!stackManager) {
+      throw new Error('No edit stack for current image');
+    }
+    if (rest.length > 0 && (rest[0] !== '--only' || rest.length !== 2)) {
+      throw new Error('Usage: :preset save <name> [--only wb,exposure,...]');
+    }
+
+    const ops = selectOps(stackManager.getStack().ops, rest[1]?.split(','));
+    if (ops.length === 0) {
+      throw new Error(rest.length > 0 ? `No ${rest[1]} ops to save` : 'Nothing to save: the edit stack is empty');
+    }
+    const preset = await presetStore.save(name, await withoutGrayPoints(ops, fileURLToPath(lastLoadedImage)));
+    text = `Saved preset ${name} (${preset.ops.length} op${preset.ops.length === 1 ? '' : 's'}): ${stackManager.getStackSummary(preset.ops)}`;
+  } else if (action === 'rm' && name) {
+    if (!(await presetStore.remove(name))) {
+      throw new Error(`No preset named ${name} (see :preset list)`);
+    }
+    text = `Removed preset ${name}`;
+  } else {
+    throw new Error('Usage: :preset [list | save <name> [--only wb,exposure,...] | apply <name> | rm <name>]');
+  }
+
+  logger.line('info', { preset_command: command });
+  notify('session/update', {
+    sessionId,
+    sessionUpdate: 'agent_message_chunk',
+    content: { type: 'text', text },
+  });
+}
+
+// Replace the planner's apply_look calls with the calls of each look at its intensity, so a look
+// lands as ordinary ops with a single preview. Looks are listed in appliedOps and recorded on the
+// active span (look.name, look.ops_count); unknown looks are skipped.
+async function expandLookCalls(calls: PlannedCall[], appliedOps: string[]): Promise<PlannedCall[]> {
+  if (!calls.some((call) => call.fn === 'apply_look')) {
+    return calls;
+  }
+
+  const { looks, errors } = await loadLooks();
+  if (errors.length > 0) {
+    logger.line('error', { looks_file_errors: errors });
+  }
+
+  const expanded: PlannedCall[] = [];
+  for (const call of calls) {
+    if (call.fn !== 'apply_look') {
+      expanded.push(call);
+      continue;
+    }
+
+    const look = findLook(looks, call.args.name);
+    if (!look) {
+      appliedOps.push(`Look ${call.args.name} skipped (unknown look)`);
+      continue;
+    }
+
+    const intensity = call.args.intensity ?? 100;
+    const lookCalls = expandLook(look, intensity);
+    addSpanAttributes({
+      'look.name': look.name,
+      'look.ops_count': lookCalls.length,
+      'look.intensity': intensity,
     });
+    appliedOps.push(`Look ${look.name}${intensity !== 100 ? ` ${intensity}%` : ''}`);
+    expanded.push(...lookCalls);
+  }
+  return expanded;
+}
+
+// Apply a preset for the planner's apply_preset call; returns the applied-ops entry
+async function applyNamedPreset(stackManager: EditStackManager, name: string): Promise<string> {
+  try {
+    const preset = await presetStore.load(name);
+    applyPreset(stackManager, preset);
+    return `Preset ${preset.name} (${stackManager.getStackSummary(preset.ops)})`;
+  } catch (err: any) {
+    logger.line('error', { apply_preset_failed: err.message });
+    return `Preset ${name} skipped (${err.message})`;
+  }
+}
+
+// Add the planner's local_adjust call with its ROI mapped from the preview to the original image.
+// Returns the applied-ops entry, e.g. "Local(roi#2 outside saturation -20)", and the mapped ROI.
+async function applyLocalAdjustCall(
+  stackManager: EditStackManager,
+  args: Extract<PlannedCall, { fn: 'local_adjust' }>['args'],
+  client: Client
+): Promise<{ entry: string; roi: Rect; clamped: boolean }> {
+  const { roi, mask, ...adjustments } = args;
+  const planned = await plannedAutoMask(stackManager, mask, client);
+  const mapped = mapPreviewRectToOriginal(roi, stackManager.getStack());
+  // A whole-image ROI has no edge to feather; the mask shapes the adjustment
+  const feather = planned.maskId && mapped.rect[2] * mapped.rect[3] >= 0.99 ? 0 : undefined;
+  stackManager.addLocalAdjust({ roi: mapped.rect, feather, ...adjustments, mask: planned.maskId });
+
+  const roiNumber = stackManager.getStack().ops.filter((op) => op.op === 'local_adjust').length;
+  const parts = [...localSliderParts(adjustments), ...planned.parts];
+  if (adjustments.invert) parts.unshift('outside');
+  return { entry: `Local(roi#${roiNumber} ${parts.join(' ')})`, roi: mapped.rect, clamped: mapped.clamped };
+}
+
+// Add the planner's gradient_linear or gradient_radial call with its points and radii mapped from
+// the preview to the original image. Returns the applied-ops entry, e.g. "Grad(#1 ev -0.7)", and
+// whether a point had to be clamped to the image.
+async function applyGradientCall(
+  stackManager: EditStackManager,
+  call: Extract<PlannedCall, { fn: 'gradient_linear' | 'gradient_radial' }>,
+  client: Client
+): Promise<{ entry: string; clamped: boolean }> {
+  const planned = await plannedAutoMask(stackManager, call.args.mask, client);
+  const stack = stackManager.getStack();
+  let clamped: boolean;
+  let entry: string;
+  if (call.fn === 'gradient_linear') {
+    const { start, end, mask, ...adjustments } = call.args;
+    const from = mapPreviewPointToOriginal(start, stack);
+    const to = mapPreviewPointToOriginal(end, stack);
+    stackManager.addGradientLinear({ start: from.point, end: to.point, ...adjustments, mask: planned.maskId });
+    clamped = from.clamped || to.clamped;
+    const parts = [...localSliderParts(adjustments), ...planned.parts];
+    entry = `Grad(#${countOps(stackManager, 'gradient_linear')} ${parts.join(' ')})`;
+  } else {
+    const { center, radiusX, radiusY = radiusX, mask, ...adjustments } = call.args;
+    const mapped = mapPreviewEllipseToOriginal(center, radiusX, radiusY, stack);
+    stackManager.addGradientRadial({ ...adjustments, ...mapped, mask: planned.maskId });
+    clamped = mapped.clamped;
+    const parts = [...localSliderParts(adjustments), ...planned.parts];
+    if (adjustments.invert) parts.unshift('outside');
+    entry = `Radial(#${countOps(stackManager, 'gradient_radial')} ${parts.join(' ')})`;
+  }
+  return { entry, clamped };
+}
+
+// Add the automatic mask of kind with the image server's compute_auto_mask tool, which reuses one
+// already in the stack. Returns the mask id; throws when the region is not found.
+async function addAutoMask(stackManager: EditStackManager, kind: AutoMaskKind, client: Client): Promise<string> {
+  const result = await client.callTool({
+    name: 'compute_auto_mask',
+    arguments: { uri: lastLoadedImage, editStack: stackManager.getStack(), kind },
+  });
+  const text = (result.content as any[] | undefined)?.find((c: any) => c.type === 'text')?.text;
+  if (result.isError || !text) {
+    throw new Error(text || `Could not compute the ${kind} mask`);
+  }
+
+  const { maskId, editStack } = JSON.parse(text);
+  if (!stackManager.getStack().ops.some((op) => op.id === maskId)) {
+    stackManager.restoreOps(editStack.ops);
+  }
+  return maskId;
+}
+
+// Mask of a planner call that names an automatic mask, and the parts it adds to the applied-ops
+// entry ("mask op_03"). A region that is not found leaves the call unmasked ("no sky found").
+async function plannedAutoMask(
+  stackManager: EditStackManager,
+  kind: AutoMaskKind | undefined,
+  client: Client
+): Promise<{ maskId?: string; parts: string[] }> {
+  if (!kind) return { parts: [] };
+  try {
+    const maskId = await addAutoMask(stackManager, kind, client);
+    return { maskId, parts: [`mask ${maskId}`] };
+  } catch (err: any) {
+    logger.line('error', { auto_mask_failed: err.message, kind });
+    return { parts: [`no ${kind} found`] };
+  }
+}
 
-    // Parse result
-    const content = commitResult.content as any[] | undefined;
-    const resultData = JSON.parse(content?.[0]?.text || '{}');
-
-    // Write sidecar file
-    const sidecarPath = dstPath + '.editstack.json';
-    const sidecarContent = {
-      version: 1,
-      baseUri: lastLoadedImage,
-      ops: editStack.ops,
-      createdAt: new Date().toISOString(),
-      render: {
-        format: exportOptions.format,
-        quality: exportOptions.quality,
-        colorProfile: exportOptions.colorProfile,
+function countOps(stackManager: EditStackManager, type: EditOp['op']): number {
+  return stackManager.getStack().ops.filter((op) => op.op === type).length;
+}
+
+type LocalSliderArgs = Partial<Record<'ev' | 'temp' | 'contrast' | 'saturation' | 'vibrance', number>>;
+
+// Sliders of a local adjustment or gradient call, e.g. ["ev +0.3", "saturation -20"]
+function localSliderParts(args: LocalSliderArgs): string[] {
+  return (['ev', 'temp', 'contrast', 'saturation', 'vibrance'] as const)
+    .filter((field) => args[field] !== undefined)
+    .map((field) => `${field} ${args[field]! > 0 ? '+' : ''}${args[field]}`);
+}
+
+// Parse a --name x,y point given on the preview; null when missing or malformed
+function parsePreviewPoint(args: string, name: string): [number, number] | null {
+  const values = args.match(new RegExp(`--${name}\\s+([\\d.,]+)`))?.[1].split(',').map(parseFloat);
+  if (!values || values.length !== 2 || values.some((v) => isNaN(v) || v < 0 || v > 1)) {
+    return null;
+  }
+  return [values[0], values[1]];
+}
+
+// Parse the --mask <id> of a local adjustment or gradient command
+function parseMaskRef(args: string): string | undefined {
+  return args.match(/--mask\s+(\S+)/)?.[1];
+}
+
+// Parse the non-zero --ev/--temp/... sliders of a local adjustment or gradient command
+function parseLocalSliders(args: string, fields: (keyof LocalSliderArgs)[]): LocalSliderArgs {
+  const sliders: LocalSliderArgs = {};
+  for (const field of fields) {
+    const match = args.match(new RegExp(`--${field}\\s+([-\\d.]+)`));
+    if (match && parseFloat(match[1])) {
+      sliders[field] = parseFloat(match[1]);
+    }
+  }
+  return sliders;
+}
+
+// :lut bake <file.cube> [--size N]: sample the color ops of the current stack into a .cube LUT
+async function handleLutBakeCommand(command: string, sessionId: string, cwd: string, requestId: number): Promise<void> {
+  // Check if we have an image loaded
+  if (!lastLoadedImage) {
+    throw new Error('No image loaded. Please load an image first.');
+  }
+
+  const stackManager = imageStacks.get(activeStackKey(lastLoadedImage));
+  if (!stackManager) {
+    throw new Error('No edit stack for current image');
+  }
+
+  const client = mcpClients.get('image');
+  if (!client) {
+    throw new Error('No MCP image server available');
+  }
+
+  const [, , file, ...rest] = command.split(/\s+/);
+  const sizeMatch = rest.join(' ').match(/^--size\s+(\d+)$/);
+  if (!file || (rest.length > 0 && !sizeMatch)) {
+    throw new Error('Usage: :lut bake <file.cube> [--size 33]');
+  }
+  const size = sizeMatch ? parseInt(sizeMatch[1]) : 33;
+
+  // A gray point is baked as the white balance it produces on this image
+  const imagePath = fileURLToPath(lastLoadedImage);
+  const editStack = stackManager.getStack();
+  editStack.ops = await withoutGrayPoints(editStack.ops, imagePath);
+
+  const dstPath = path.resolve(cwd, file);
+  const granted = await requestPermission(
+    sessionId,
+    requestId,
+    'Bake LUT',
+    `${(await fileExists(dstPath)) ? 'Replace' : 'Write'} ${path.basename(dstPath)} with a ${size}³ LUT of ${stackManager.getStackSummary()}`,
+    [
+      {
+        kind: 'write_file',
+        uri: pathToFileURL(dstPath).href,
+        bytesApprox: size ** 3 * 27,
       },
-    };
+    ]
+  );
+  if (!granted) {
+    throw new Error('Bake cancelled: Permission denied by client');
+  }
 
-    try {
-      await fs.writeFile(sidecarPath, JSON.stringify(sidecarContent, null, 2));
-    } catch (err: any) {
-      logger.line('error', { sidecar_write_failed: err.message });
+  const result = await client.callTool({
+    name: 'bake_lut',
+    arguments: {
+      editStack,
+      dstUri: pathToFileURL(dstPath).href,
+      size,
+      title: `${path.parse(imagePath).name} grade`,
+      overwrite: true,
+    },
+  });
+
+  const content = result.content as any[] | undefined;
+  const baked = JSON.parse(content?.[0]?.text || '{}');
+  let text = `Baked ${size}³ LUT from ${baked.opsBaked} op${baked.opsBaked === 1 ? '' : 's'} to ${dstPath}`;
+  if (baked.skipped) {
+    text += ` (left out: ${baked.skipped.join(', ')})`;
+  }
+
+  logger.line('info', { lut_baked: dstPath, size, bytes: baked.bytes });
+  notify('session/update', {
+    sessionId,
+    sessionUpdate: 'agent_message_chunk',
+    content: { type: 'text', text },
+  });
+}
+
+async function handleExportCommand(command: string, sessionId: string, cwd: string, requestId: number): Promise<void> {
+  // Check if we have an image loaded
+  if (!lastLoadedImage) {
+    throw new Error('No image loaded. Please load an image first.');
+  }
+
+  const stackManager = imageStacks.get(activeStackKey(lastLoadedImage));
+  if (!stackManager) {
+    throw new Error('No edit stack for current image');
+  }
+
+  const client = mcpClients.get('image');
+  if (!client) {
+    throw new Error('No MCP image server available');
+  }
+
+  // Parse export arguments
+  const args = command.substring(7).trim();
+  const exportOptions: any = {
+    format: 'jpeg',
+    quality: 90,
+    sharpen: 'none',
+    chromaSubsampling: '4:2:0',
+    stripExif: true,
+    colorProfile: 'srgb',
+    overwrite: false,
+  };
+
+  // Parse --format (png16 and tiff export at 16 bits per channel)
+  const formatMatch = args.match(/--format\s+(\S+)/);
+  if (formatMatch) {
+    if (!isExportFormat(formatMatch[1])) {
+      throw new Error(`Unsupported export format: ${formatMatch[1]} (use ${EXPORT_FORMATS.join(', ')})`);
     }
+    exportOptions.format = formatMatch[1];
+  }
+
+  // Parse --quality
+  const qualityMatch = args.match(/--quality\s+(\d+)/);
+  if (qualityMatch) {
+    exportOptions.quality = parseInt(qualityMatch[1]);
+  }
+
+  // Parse --effort (webp, avif, heif, jxl) and --lossless
+  const effortMatch = args.match(/--effort\s+(\d+)/);
+  if (effortMatch) {
+    exportOptions.effort = parseInt(effortMatch[1]);
+  }
+  exportOptions.lossless = args.includes('--lossless');
+
+  // Parse --resize (2048, long:2048, short:1080, 1080x1080[:fit], 12mp, 50%)
+  const resizeMatch = args.match(/--resize\s+(\S+)/);
+  if (resizeMatch) {
+    exportOptions.resize = parseResizeSpec(resizeMatch[1]);
+  }
+
+  // Parse --sharpen
+  const sharpenMatch = args.match(/--sharpen\s+(\S+)/);
+  if (sharpenMatch) {
+    if (!(SHARPEN_AMOUNTS as readonly string[]).includes(sharpenMatch[1])) {
+      throw new Error(`Invalid sharpen amount: ${sharpenMatch[1]} (use ${SHARPEN_AMOUNTS.join(', ')})`);
+    }
+    exportOptions.sharpen = sharpenMatch[1];
+  }
+
+  // Parse --overwrite flag
+  exportOptions.overwrite = args.includes('--overwrite');
+
+  // Parse --recipe (built-in name or JSON file)
+  const recipeMatch = args.match(/--recipe\s+(\S+)/);
+  const recipe = recipeMatch ? await loadExportRecipe(recipeMatch[1], cwd) : null;
+
+  // Parse --batch flag: export every loaded image (and its virtual copies), not just the current one.
+  // --copies exports every virtual copy of the current image the same way.
+  const allCopies = args.includes('--copies');
+  const isBatch = args.includes('--batch') || allCopies;
+  const currentImage = lastLoadedImage;
+  const sources = args.includes('--batch')
+    ? Array.from(imageStacks.keys())
+    : allCopies
+      ? Array.from(imageStacks.keys()).filter((key) => imageStacks.get(key)!.getStack().baseUri === currentImage)
+      : [activeStackKey(lastLoadedImage)];
+  if (sources.length === 0) {
+    throw new Error('No images loaded for batch export');
+  }
 
-    // Send success summary
-    const sizeKB = Math.round(resultData.bytes / 1024);
-    const sizeMB = resultData.bytes / (1024 * 1024);
-    const summary = `Exported: ${path.basename(dstPath)} (${resultData.width}×${resultData.height}, ${sizeKB}KB, ${resultData.format})`;
+  // Parse --dst (a directory when exporting a recipe or a batch)
+  const dstMatch = args.match(/--dst\s+(\S+)/);
+  const dstDir = dstMatch ? path.resolve(cwd, dstMatch[1]) : path.resolve(cwd, 'Export');
+  const targets: ExportTarget[] = [];
+
+  for (const key of sources) {
+    const srcStack = imageStacks.get(key) ?? stackManager;
+    const srcUri = srcStack.getStack().baseUri;
+    // Virtual copies export as <orig>_<copy>_edit.jpg, <orig>_<copy>_web.jpg, ...
+    const copy = copyName(key);
+    const origName =
+      path.basename(srcUri, path.extname(srcUri)) + (copy === MASTER_COPY ? '' : `_${copy}`);
+
+    if (recipe) {
+      for (const rendition of recipe.renditions) {
+        targets.push({
+          label: rendition.resize ? `${rendition.name}, ${formatResizeSpec(rendition.resize)}` : rendition.name,
+          srcUri,
+          stackManager: srcStack,
+          dstPath: path.join(dstDir, `${origName}_${rendition.name}${defaultExtension(rendition.format)}`),
+          options: {
+            ...exportOptions,
+            format: rendition.format,
+            quality: rendition.quality ?? exportOptions.quality,
+            resize: rendition.resize,
+            sharpen: rendition.sharpen ?? 'none',
+            effort: undefined,
+            lossless: false,
+            recipe: recipe.name,
+          },
+        });
+      }
+    } else if (dstMatch && !isBatch) {
+      const dstPath = path.resolve(cwd, dstMatch[1]);
+      // Without --format, the destination extension picks the format
+      if (!formatMatch) {
+        exportOptions.format = formatFromPath(dstPath) ?? exportOptions.format;
+      }
+      targets.push({ label: path.basename(dstPath), srcUri, stackManager: srcStack, dstPath, options: exportOptions });
+    } else {
+      // Default to ./Export/<orig>_edit.<ext>
+      const dstPath = path.join(dstDir, `${origName}_edit${defaultExtension(exportOptions.format)}`);
+      targets.push({ label: path.basename(dstPath), srcUri, stackManager: srcStack, dstPath, options: exportOptions });
+    }
+  }
+
+  // In a batch, existing files are skipped up front unless --overwrite is given
+  const skipped: ExportTarget[] = [];
+  const pending: ExportTarget[] = [];
+  for (const target of targets) {
+    if (isBatch && !exportOptions.overwrite && (await fileExists(target.dstPath))) {
+      skipped.push(target);
+    } else {
+      pending.push(target);
+    }
+  }
+
+  if (pending.length === 0) {
+    throw new Error(`Nothing to export: all ${targets.length} destination files already exist (use --overwrite)`);
+  }
+
+  // Build permission operations: one image write (plus its sidecar) per rendition
+  const operations: PermissionOperation[] = [];
+  for (const target of pending) {
+    operations.push(
+      {
+        kind: 'write_file',
+        uri: pathToFileURL(target.dstPath).href,
+        bytesApprox: estimateExportBytes(target.options),
+      },
+      {
+        kind: 'write_file',
+        uri: pathToFileURL(sidecarPathFor(target.dstPath)).href,
+        bytesApprox: JSON.stringify(target.stackManager.getStack()).length + 100,
+      }
+    );
+  }
 
-    // Warn if file is large
-    if (sizeMB > 10) {
-      logger.line('info', { large_export_warning: `Exported file is ${sizeMB.toFixed(1)}MB` });
+  let title = 'Export edited image';
+  let explanation = `Write edited image and edit stack to ${path.basename(pending[0].dstPath)}`;
+  if (allCopies) {
+    title = `Export ${sources.length} virtual copies`;
+    explanation = `Write ${pending.length} file${pending.length === 1 ? '' : 's'} and edit stacks to ${dstDir}`;
+    if (skipped.length > 0) {
+      explanation += ` (${skipped.length} existing files will be skipped)`;
+    }
+  } else if (isBatch) {
+    title = `Batch export ${sources.length} images`;
+    explanation = `Write ${pending.length} file${pending.length === 1 ? '' : 's'} and edit stacks to ${dstDir}`;
+    if (skipped.length > 0) {
+      explanation += ` (${skipped.length} existing files will be skipped)`;
     }
+  } else if (recipe) {
+    title = `Export '${recipe.name}' recipe`;
+    explanation = `Write ${pending.length} renditions and edit stacks to ${dstDir}`;
+  }
+
+  const granted = await requestPermission(sessionId, requestId, title, explanation, operations);
+  if (!granted) {
+    throw new Error('Export cancelled: Permission denied by client');
+  }
+
+  // Start export with progress updates - use unique ID
+  const toolCallId = `export_${Date.now()}_${Math.random().toString(16).slice(2, 8)}`;
 
+  // Send initial progress
+  notify('session/update', {
+    sessionId,
+    sessionUpdate: 'tool_call_update',
+    toolCallId,
+    status: 'in_progress',
+    rawInput: { command, dst: pending.map((target) => target.dstPath) },
+  });
+
+  const sendLine = (text: string) =>
     notify('session/update', {
       sessionId,
       sessionUpdate: 'tool_call_update',
@@ -2966,33 +4538,102 @@ async function handleExportCommand(command: string, sessionId: string, cwd: stri
       content: [
         {
           type: 'content',
-          content: { type: 'text', text: summary },
+          content: { type: 'text', text },
         },
       ],
     });
 
-    // Mark as completed
-    notify('session/update', {
-      sessionId,
-      sessionUpdate: 'tool_call_update',
-      toolCallId,
-      status: 'completed',
-    });
+  // Render with bounded concurrency; a failed export does not stop the rest
+  const failures: string[] = [];
+  let exported = 0;
+  let completed = 0;
+  const counter = () => (isBatch ? `[${++completed}/${pending.length}] ` : '');
+  if (isBatch) {
+    const concurrency = Math.min(BATCH_EXPORT_CONCURRENCY, pending.length);
+    sendLine(`Exporting ${pending.length} file${pending.length === 1 ? '' : 's'}, ${concurrency} at a time...`);
+  }
+  await runWithConcurrency(pending, isBatch ? BATCH_EXPORT_CONCURRENCY : 1, async (target) => {
+    if (!isBatch) {
+      sendLine(recipe ? `Rendering ${target.label}...` : 'Rendering full resolution...');
+    }
 
-    // Log export
-    logger.line('info', {
-      export_success: true,
-      src: lastLoadedImage,
-      dst: dstPath,
-      stackHash: stackManager.computeHash(),
-      elapsedMs: resultData.elapsedMs,
-      bytes: resultData.bytes,
-      success: true,
-    });
-  } catch (error: any) {
-    logger.line('error', {
-      export_failed: error.message,
-    });
+    try {
+      const resultData = await commitExport(
+        client,
+        target.srcUri,
+        target.stackManager.getStack(),
+        target.dstPath,
+        target.options
+      );
+      exported++;
+
+      // Send result line
+      const sizeKB = Math.round(resultData.bytes / 1024);
+      const sizeMB = resultData.bytes / (1024 * 1024);
+      const depthLabel = resultData.bitDepth === 16 ? ' 16-bit' : '';
+      let summary = `${counter()}Exported: ${path.basename(target.dstPath)} (${resultData.width}×${resultData.height}, ${sizeKB}KB, ${resultData.format}${depthLabel})`;
+      if (resultData.warnings?.length) {
+        summary += `\nWarning: ${resultData.warnings.join('; ')}`;
+      }
+
+      // Warn if file is large
+      if (sizeMB > 10) {
+        logger.line('info', { large_export_warning: `Exported file is ${sizeMB.toFixed(1)}MB` });
+      }
+
+      sendLine(summary);
+
+      // Log export
+      logger.line('info', {
+        export_success: true,
+        src: target.srcUri,
+        dst: target.dstPath,
+        stackHash: target.stackManager.computeHash(),
+        elapsedMs: resultData.elapsedMs,
+        bytes: resultData.bytes,
+        success: true,
+      });
+    } catch (error: any) {
+      failures.push(isBatch || recipe ? `${path.basename(target.dstPath)}: ${error.message}` : error.message);
+
+      logger.line('error', {
+        export_failed: error.message,
+      });
+
+      // Log failed export
+      logger.line('error', {
+        export_success: false,
+        src: target.srcUri,
+        dst: target.dstPath,
+        stackHash: target.stackManager.computeHash(),
+        error: error.message,
+        success: false,
+      });
+
+      if (isBatch || recipe) {
+        sendLine(`${counter()}Failed: ${path.basename(target.dstPath)} (${error.message})`);
+      }
+    }
+  });
+
+  if (isBatch) {
+    let summary = `Batch export: ${exported} exported, ${skipped.length} skipped, ${failures.length} failed`;
+    if (skipped.length > 0) {
+      const names = skipped.slice(0, 10).map((target) => path.basename(target.dstPath));
+      if (skipped.length > names.length) {
+        names.push(`and ${skipped.length - names.length} more`);
+      }
+      summary += `\nSkipped (already exist, use --overwrite): ${names.join(', ')}`;
+    }
+    if (failures.length > 0) {
+      summary += `\nFailed:\n${failures.map((failure) => `  ${failure}`).join('\n')}`;
+    }
+    sendLine(summary);
+  }
+
+  if (failures.length > 0) {
+    const message =
+      isBatch || recipe ? `${failures.length} of ${pending.length} exports failed` : failures[0];
 
     // Send error update
     notify('session/update', {
@@ -3005,24 +4646,168 @@ async function handleExportCommand(command: string, sessionId: string, cwd: stri
           type: 'content',
           content: {
             type: 'text',
-            text: `Export failed: ${error.message}`,
+            text: `Export failed: ${message}`,
           },
         },
       ],
     });
 
-    // Log failed export
-    logger.line('error', {
-      export_success: false,
-      src: lastLoadedImage,
-      dst: dstPath,
-      stackHash: stackManager.computeHash(),
-      error: error.message,
-      success: false,
+    throw new Error(message);
+  }
+
+  // Mark as completed
+  notify('session/update', {
+    sessionId,
+    sessionUpdate: 'tool_call_update',
+    toolCallId,
+    status: 'completed',
+  });
+}
+
+// Ask the client to approve file writes; resolves false when denied or after 15s without an answer
+function requestPermission(
+  sessionId: string,
+  requestId: number,
+  title: string,
+  explanation: string,
+  operations: PermissionOperation[]
+): Promise<boolean> {
+  const permId = requestId + 1000; // Use offset to avoid ID collision
+  const permissionRequest = {
+    jsonrpc: '2.0',
+    id: permId,
+    method: 'session/request_permission',
+    params: {
+      sessionId,
+      title,
+      explanation,
+      operations,
+    },
+  };
+
+  return new Promise<boolean>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      pendingPermissions.delete(permId);
+      logger.line('info', { permission_timeout: permId });
+      resolve(false); // Auto-deny on timeout
+    }, 15000); // 15 second timeout
+
+    pendingPermissions.set(permId, { resolve, reject, timeout });
+    send(permissionRequest);
+  });
+}
+
+// Run tasks with at most `limit` in flight
+async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.stat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// One destination file of an :export run
+interface ExportTarget {
+  label: string;
+  srcUri: string;
+  stackManager: EditStackManager;
+  dstPath: string;
+  options: any;
+}
+
+// Render one export through commit_version and write its sidecar next to it
+async function commitExport(
+  client: Client,
+  baseUri: string,
+  editStack: EditStack,
+  dstPath: string,
+  options: any
+): Promise<any> {
+  const commitResult = await client.callTool({
+    name: 'commit_version',
+    arguments: {
+      uri: baseUri,
+      editStack,
+      dstUri: pathToFileURL(dstPath).href,
+      format: options.format,
+      quality: options.quality,
+      effort: options.effort,
+      lossless: options.lossless,
+      resize: options.resize,
+      sharpen: options.sharpen,
+      chromaSubsampling: options.chromaSubsampling,
+      stripExif: options.stripExif,
+      colorProfile: options.colorProfile,
+      overwrite: options.overwrite,
+    },
+  });
+
+  // Parse result
+  const content = commitResult.content as any[] | undefined;
+  const resultData = JSON.parse(content?.[0]?.text || '{}');
+
+  // Write sidecar file
+  try {
+    await writeSidecar(sidecarPathFor(dstPath), editStack, {
+      format: options.format,
+      quality: options.quality,
+      effort: options.effort,
+      lossless: options.lossless,
+      resize: options.resize,
+      sharpen: options.sharpen,
+      colorProfile: options.colorProfile,
+      ...(options.recipe && { recipe: options.recipe }),
     });
+  } catch (err: any) {
+    logger.line('error', { sidecar_write_failed: err.message });
+  }
 
-    throw error;
+  return resultData;
+}
+
+// Built-in recipe name or path to a recipe JSON file
+async function loadExportRecipe(nameOrPath: string, cwd: string): Promise<ExportRecipe> {
+  if (EXPORT_RECIPES[nameOrPath]) {
+    return EXPORT_RECIPES[nameOrPath];
+  }
+
+  const recipePath = path.resolve(cwd, nameOrPath);
+  let raw: string;
+  try {
+    raw = await fs.readFile(recipePath, 'utf-8');
+  } catch {
+    throw new Error(`Unknown export recipe: ${nameOrPath} (built-in: ${Object.keys(EXPORT_RECIPES).join(', ')})`);
   }
+  return parseExportRecipe(JSON.parse(raw), path.basename(recipePath, path.extname(recipePath)));
+}
+
+// Rough size estimate for permission requests (a full-size 12MP JPEG is ~2.5MB)
+function estimateExportBytes(options: any): number {
+  const resize = options.resize as ResizeSpec | undefined;
+  let pixels = 12e6;
+  if (resize?.mode === 'long_edge' || resize?.mode === 'short_edge') {
+    pixels = Math.min(pixels, resize.size * resize.size * 0.67);
+  } else if (resize?.mode === 'exact') {
+    pixels = Math.min(pixels, resize.width * resize.height);
+  } else if (resize?.mode === 'megapixels') {
+    pixels = Math.min(pixels, resize.megapixels * 1e6);
+  } else if (resize?.mode === 'percent') {
+    pixels = Math.min(pixels, (pixels * resize.percent * resize.percent) / 1e4);
+  }
+
+  const bytesPerPixel = HIGH_BIT_DEPTH_FORMATS.has(options.format) ? 4 : options.format === 'png' ? 1.5 : 0.2;
+  return Math.round(pixels * bytesPerPixel);
 }
 
 // Transport manages process lifecycle - no manual cleanup needed
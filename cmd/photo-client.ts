@@ -185,6 +185,30 @@ async function main() {
     console.log('  :redo            - Redo undone operation');
     console.log('  :reset           - Reset all edits');
     console.log('  :stack           - Show current edit stack');
+    console.log('  :stack save [f]  - Save edit stack (default <image>.editstack.json)');
+    console.log('  :stack load <f>  - Load edit stack from a sidecar file');
+    console.log('  :stack toggle|rm <id> - Disable/enable or remove one op');
+    console.log('  :stack mv <id> <n>    - Move an op to position n');
+    console.log('  :stack set <id> k=v   - Change op fields, e.g. amt=25 or bands.blue.sat=-20');
+    console.log('  :snapshot save <n>    - Save the edit stack as a named snapshot');
+    console.log('  :snapshot restore <n> - Restore a snapshot (undoable)');
+    console.log('  :snapshot list|diff   - List snapshots or diff two (diff <a> [b])');
+    console.log('  :vcopy new|use <n>    - Create or switch to a virtual copy of the image');
+    console.log('  :vcopy [rm <n>]       - List or remove virtual copies');
+    console.log('  :lut <file> [--opacity N] - Apply a .cube or .3dl 3D LUT inside the session folder');
+    console.log('  :lut bake <f.cube>    - Bake the color ops into a .cube LUT (--size 33)');
+    console.log('  :local --roi x,y,w,h  - Adjust a feathered rectangle (--ev, --contrast, --saturation, --vibrance, --invert)');
+    console.log('  :grad --from x,y --to x,y - Graduated filter (--ev, --temp, --contrast, --saturation, --feather)');
+    console.log('  :radial --center x,y --radius r - Adjust a feathered ellipse (--ev, --temp, ..., --invert)');
+    console.log('  :mask polygon|brush x,y ... - Add a mask shape (--to <id>, --mode, --radius, --hardness; --mask <id> uses it)');
+    console.log('  :mask luma 70-100     - Add a luminance range to a mask (--falloff; color <band|hue> --range --min-chroma)');
+    console.log('  :mask auto sky        - Add an automatic mask (sky, subject or background)');
+    console.log('  :mask show <id>       - Show a mask tinted red over the preview');
+    console.log('  :mask preview <id>    - Show a mask itself in grayscale');
+    console.log('  :copy [--only wb,...] - Copy edit settings (op types or wb, tone, color, geometry, local)');
+    console.log('  :paste [--to all|<g>] - Paste them here, into all other images or a file glob');
+    console.log('  :preset save <n>      - Save the edit stack as a preset (--only wb,... for some ops)');
+    console.log('  :preset apply|rm <n>  - Apply or remove a preset (:preset list to list them)');
     console.log('  :status          - Show agent status');
     console.log('  :gallery         - Show loaded images (requires iTerm2)');
     console.log('  :yes             - Confirm pending operation (Phase 7f)');
@@ -409,6 +433,15 @@ async function main() {
         cmd.startsWith(':contrast') ||
         cmd.startsWith(':saturation') ||
         cmd.startsWith(':vibrance') ||
+        cmd.startsWith(':curve') ||
+        cmd.startsWith(':levels') ||
+        cmd.startsWith(':tone') ||
+        cmd.startsWith(':hsl') ||
+        cmd.startsWith(':lut') ||
+        cmd.startsWith(':local') ||
+        cmd.startsWith(':grad') ||
+        cmd.startsWith(':radial') ||
+        cmd.startsWith(':mask') ||
         cmd.startsWith(':crop') ||
         cmd.startsWith(':rotate') ||
         cmd.startsWith(':auto') ||
@@ -416,7 +449,18 @@ async function main() {
         cmd === ':undo' ||
         cmd === ':redo' ||
         cmd === ':reset' ||
-        cmd === ':stack'
+        cmd === ':stack' ||
+        cmd.startsWith(':stack ') ||
+        cmd === ':snapshot' ||
+        cmd.startsWith(':snapshot ') ||
+        cmd === ':vcopy' ||
+        cmd.startsWith(':vcopy ') ||
+        cmd === ':copy' ||
+        cmd.startsWith(':copy ') ||
+        cmd === ':paste' ||
+        cmd.startsWith(':paste ') ||
+        cmd === ':preset' ||
+        cmd.startsWith(':preset ')
       ) {
         // Forward editing commands to agent
         if (isPrompting) {
@@ -1,5 +1,6 @@
 import sharp from 'sharp';
 import { WhiteBalanceOp, ExposureOp, ContrastOp } from './editStack.js';
+import { estimateKelvinFromLinearRgb, kelvinToTemp, srgbToLinear } from './colorTemperature.js';
 
 // Helper to downsample image for analysis
 async function getDownsampledBuffer(
@@ -24,63 +25,124 @@ async function getDownsampledBuffer(
   return { buffer: result.data, info: result.info };
 }
 
-// Auto white balance using gray-world algorithm
-export async function autoWhiteBalance(imagePath: string): Promise<WhiteBalanceOp> {
+// Auto white balance result, including the estimated scene illuminant
+export interface AutoWhiteBalanceResult extends WhiteBalanceOp {
+  sceneKelvin: number;
+}
+
+// Auto white balance using gray-world algorithm. The mean color is taken in linear light
+// and converted to a correlated color temperature; by default the result is expressed as a
+// relative temp/tint op, or as an absolute Kelvin op when method is 'kelvin'.
+export async function autoWhiteBalance(
+  imagePath: string,
+  method: 'temp_tint' | 'kelvin' = 'temp_tint'
+): Promise<AutoWhiteBalanceResult> {
   const { buffer, info } = await getDownsampledBuffer(imagePath, 512);
   const channels = info.channels;
   const pixelCount = buffer.length / channels;
 
-  // Calculate mean values for each channel
+  // Calculate mean linear values for each channel
   let rSum = 0,
     gSum = 0,
     bSum = 0;
 
   for (let i = 0; i < buffer.length; i += channels) {
-    rSum += buffer[i];
-    gSum += buffer[i + 1];
-    bSum += buffer[i + 2];
+    rSum += srgbToLinear(buffer[i] / 255);
+    gSum += srgbToLinear(buffer[i + 1] / 255);
+    bSum += srgbToLinear(buffer[i + 2] / 255);
   }
 
-  const rMean = rSum / pixelCount;
-  const gMean = gSum / pixelCount;
-  const bMean = bSum / pixelCount;
-
-  // Calculate gray value (average of all channels)
-  const gray = (rMean + gMean + bMean) / 3;
-
-  // Calculate gains to equalize channels
-  const rGain = Math.min(2.0, Math.max(0.5, gray / rMean));
-  const gGain = Math.min(2.0, Math.max(0.5, gray / gMean));
-  const bGain = Math.min(2.0, Math.max(0.5, gray / bMean));
+  const { kelvin, tint } = estimateKelvinFromLinearRgb(rSum / pixelCount, gSum / pixelCount, bSum / pixelCount);
+
+  if (method === 'kelvin') {
+    return {
+      id: 'auto_wb',
+      op: 'white_balance',
+      method: 'kelvin',
+      kelvin,
+      tint,
+      sceneKelvin: kelvin,
+    };
+  }
 
-  // Convert gains to temperature/tint model
-  // This is a simplified conversion - temperature affects R/B balance, tint affects G/M balance
-  const temp = Math.round((rGain / bGain - 1) * 50); // Simplified mapping to [-100, 100]
-  const tint = Math.round((1 - gGain) * 50); // Simplified mapping to [-100, 100]
+  const temp = Math.round(kelvinToTemp(kelvin));
 
   return {
     id: 'auto_wb',
     op: 'white_balance',
     method: 'temp_tint',
     temp: Math.max(-100, Math.min(100, temp)),
-    tint: Math.max(-100, Math.min(100, tint)),
+    tint,
+    sceneKelvin: kelvin,
   };
 }
 
+// Express a gray point white balance as temp/tint by taking the 5x5 patch under the point as
+// the scene white (as autoWhiteBalance does with the mean color). Pasting white balance to other
+// images needs this, since the same coordinates land on something else there.
+export async function grayPointToTempTint(imagePath: string, op: WhiteBalanceOp): Promise<WhiteBalanceOp> {
+  const converted: WhiteBalanceOp = { ...op, method: 'temp_tint', temp: 0, tint: 0 };
+  delete converted.x;
+  delete converted.y;
+  if (op.x === undefined || op.y === undefined) {
+    return converted;
+  }
+
+  // Auto-orient like the renderer, so the normalized point refers to the same spot
+  const { data, info } = await sharp(imagePath)
+    .rotate()
+    .resize({ width: 512, height: 512, fit: 'inside', withoutEnlargement: true })
+    .toColourspace('srgb')
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  const cx = Math.round(op.x * (width - 1));
+  const cy = Math.round(op.y * (height - 1));
+
+  let r = 0,
+    g = 0,
+    b = 0;
+  let count = 0;
+  for (let y = Math.max(0, cy - 2); y <= Math.min(height - 1, cy + 2); y++) {
+    for (let x = Math.max(0, cx - 2); x <= Math.min(width - 1, cx + 2); x++) {
+      const i = (y * width + x) * channels;
+      r += srgbToLinear(data[i] / 255);
+      g += srgbToLinear(data[i + 1] / 255);
+      b += srgbToLinear(data[i + 2] / 255);
+      count++;
+    }
+  }
+
+  const { kelvin, tint } = estimateKelvinFromLinearRgb(r / count, g / count, b / count);
+  converted.temp = Math.max(-100, Math.min(100, Math.round(kelvinToTemp(kelvin))));
+  converted.tint = tint;
+  return converted;
+}
+
+// Apply the current white balance op to a pipeline before analysis
+async function applyCurrentWhiteBalance(pipeline: sharp.Sharp, currentWb: WhiteBalanceOp): Promise<sharp.Sharp> {
+  const { applyWhiteBalanceTempTint, applyWhiteBalanceKelvin, applyWhiteBalanceGrayPoint } = await import(
+    './imageProcessing.js'
+  );
+
+  if (currentWb.method === 'temp_tint') {
+    return applyWhiteBalanceTempTint(pipeline, currentWb);
+  } else if (currentWb.method === 'kelvin') {
+    return applyWhiteBalanceKelvin(pipeline, currentWb);
+  } else if (currentWb.method === 'gray_point') {
+    return applyWhiteBalanceGrayPoint(pipeline, currentWb);
+  }
+  return pipeline;
+}
+
 // Auto exposure adjustment targeting mid-tone
 export async function autoExposure(imagePath: string, currentWb?: WhiteBalanceOp): Promise<ExposureOp> {
   // Apply white balance if provided before analyzing
   let pipeline = sharp(imagePath);
 
   if (currentWb) {
-    const metadata = await sharp(imagePath).metadata();
-    const { applyWhiteBalanceTempTint, applyWhiteBalanceGrayPoint } = await import('./imageProcessing.js');
-
-    if (currentWb.method === 'temp_tint') {
-      pipeline = applyWhiteBalanceTempTint(pipeline, currentWb);
-    } else if (currentWb.method === 'gray_point') {
-      pipeline = await applyWhiteBalanceGrayPoint(pipeline, currentWb, metadata);
-    }
+    pipeline = await applyCurrentWhiteBalance(pipeline, currentWb);
   }
 
   // Get downsampled buffer for analysis
@@ -138,19 +200,12 @@ export async function autoContrast(
   let pipeline = sharp(imagePath);
 
   if (currentWb) {
-    const metadata = await sharp(imagePath).metadata();
-    const { applyWhiteBalanceTempTint, applyWhiteBalanceGrayPoint } = await import('./imageProcessing.js');
-
-    if (currentWb.method === 'temp_tint') {
-      pipeline = applyWhiteBalanceTempTint(pipeline, currentWb);
-    } else if (currentWb.method === 'gray_point') {
-      pipeline = await applyWhiteBalanceGrayPoint(pipeline, currentWb, metadata);
-    }
+    pipeline = await applyCurrentWhiteBalance(pipeline, currentWb);
   }
 
   if (currentEv) {
     const { applyExposure } = await import('./imageProcessing.js');
-    pipeline = applyExposure(pipeline, currentEv);
+    pipeline = await applyExposure(pipeline, currentEv);
   }
 
   // Get downsampled buffer for analysis
@@ -211,7 +266,7 @@ export async function autoContrast(
 
 // Auto all adjustments (WB → EV → Contrast)
 export async function autoAll(imagePath: string): Promise<{
-  whiteBalance: WhiteBalanceOp;
+  whiteBalance: AutoWhiteBalanceResult;
   exposure: ExposureOp;
   contrast: ContrastOp;
 }> {
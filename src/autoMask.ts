@@ -0,0 +1,339 @@
+// Automatic masks without machine learning: the sky is grown from the smooth top of the image
+// through pixels of similar color, and the subject is where a saliency map (color far from the
+// image's average) and a focus map (local sharpness) agree. The background is what the subject is
+// not. Both run on a small working copy of the source pixels and are upsampled to the render size,
+// so they cost about the same at any resolution.
+
+import { linearRgbToLab } from './colorTemperature.js';
+import type { AutoMaskKind } from './editStack.js';
+import type { MaskSource } from './masks.js';
+
+// Long side of the working copy, in pixels
+const WORK_SIZE = 256;
+
+// Sky: share of the rows searched for seeds, and the share of them that must be smooth for a sky
+const SKY_SEED_ROWS = 0.1;
+const SKY_MIN_SEED_SHARE = 0.3;
+// L* change per working pixel above which a pixel is texture rather than sky
+const SKY_MAX_GRADIENT = 2;
+// Largest color step between neighbouring sky pixels, and largest a/b distance from the seeds
+const SKY_MAX_STEP = 4;
+const SKY_MAX_AB_DISTANCE = 40;
+
+// Subject: radius of the focus window, and the weight of the center prior at the corners
+const FOCUS_RADIUS = 4;
+const CENTER_PRIOR = 0.5;
+// Connected parts of the subject smaller than this share of the largest one are dropped
+const MIN_PART_SHARE = 0.25;
+
+// Radius of the blur that softens mask edges, in working pixels
+const EDGE_SOFTNESS = 2;
+
+// Below this coverage an automatic mask is treated as not found
+export const MIN_AUTO_MASK_COVERAGE = 0.005;
+
+// Working copy of an image in CIE Lab
+interface LabImage {
+  width: number;
+  height: number;
+  L: Float32Array;
+  a: Float32Array;
+  b: Float32Array;
+}
+
+// Mask of the sky, subject or background at width x height, from the linear source pixels
+export function computeAutoMask(source: MaskSource, width: number, height: number, kind: AutoMaskKind): Float32Array {
+  const lab = downsample(source, width, height);
+  let mask: Float32Array;
+  if (kind === 'sky') {
+    mask = skyMask(lab);
+  } else {
+    mask = subjectMask(lab);
+    if (kind === 'background') {
+      for (let i = 0; i < mask.length; i++) mask[i] = 1 - mask[i];
+    }
+  }
+  return upsample(boxBlur(mask, lab.width, lab.height, EDGE_SOFTNESS), lab.width, lab.height, width, height);
+}
+
+// Share of the image a mask selects
+export function maskCoverage(mask: Float32Array): number {
+  return mean(mask);
+}
+
+// Box-average the source into a working copy of at most WORK_SIZE pixels on the long side
+function downsample(source: MaskSource, width: number, height: number): LabImage {
+  const scale = Math.min(1, WORK_SIZE / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+  const sums = new Float64Array(w * h * 3);
+  const counts = new Uint32Array(w * h);
+
+  const { data, channels } = source;
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(h - 1, Math.floor((y * h) / height)) * w;
+    for (let x = 0; x < width; x++) {
+      const cell = row + Math.min(w - 1, Math.floor((x * w) / width));
+      const i = (y * width + x) * channels;
+      sums[cell * 3] += data[i];
+      sums[cell * 3 + 1] += data[i + 1];
+      sums[cell * 3 + 2] += data[i + 2];
+      counts[cell]++;
+    }
+  }
+
+  const lab: LabImage = {
+    width: w,
+    height: h,
+    L: new Float32Array(w * h),
+    a: new Float32Array(w * h),
+    b: new Float32Array(w * h),
+  };
+  for (let cell = 0; cell < w * h; cell++) {
+    const n = Math.max(1, counts[cell]);
+    [lab.L[cell], lab.a[cell], lab.b[cell]] = linearRgbToLab(
+      sums[cell * 3] / n,
+      sums[cell * 3 + 1] / n,
+      sums[cell * 3 + 2] / n
+    );
+  }
+  return lab;
+}
+
+// Sobel gradient magnitude of L*, in L* per pixel
+function gradientMagnitude(lab: LabImage): Float32Array {
+  const { width: w, height: h, L } = lab;
+  const out = new Float32Array(w * h);
+  const at = (x: number, y: number) => L[Math.min(h - 1, Math.max(0, y)) * w + Math.min(w - 1, Math.max(0, x))];
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const gx =
+        at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy =
+        at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      out[y * w + x] = Math.hypot(gx, gy) / 8;
+    }
+  }
+  return out;
+}
+
+// Sky: seeds are the smooth pixels of the top rows; the sky grows from them through smooth
+// neighbours that differ little from the pixel they are reached from (so gradients toward the
+// horizon are followed) and stay close to the seeds' hue
+function skyMask(lab: LabImage): Float32Array {
+  const { width: w, height: h, L, a, b } = lab;
+  const mask = new Float32Array(w * h);
+  const texture = boxBlur(gradientMagnitude(lab), w, h, 1);
+
+  const seedRows = Math.max(1, Math.round(h * SKY_SEED_ROWS));
+  const queue: number[] = [];
+  for (let i = 0; i < seedRows * w; i++) {
+    if (texture[i] < SKY_MAX_GRADIENT) queue.push(i);
+  }
+  if (queue.length < seedRows * w * SKY_MIN_SEED_SHARE) return mask; // A textured top is not a sky
+
+  const a0 = median(queue.map((i) => a[i]));
+  const b0 = median(queue.map((i) => b[i]));
+  for (const i of queue) mask[i] = 1;
+
+  for (let head = 0; head < queue.length; head++) {
+    const i = queue[head];
+    const x = i % w;
+    for (const j of [i - w, i + w, x > 0 ? i - 1 : -1, x < w - 1 ? i + 1 : -1]) {
+      if (j < 0 || j >= w * h || mask[j] === 1 || texture[j] >= SKY_MAX_GRADIENT) continue;
+      const step = Math.hypot(L[j] - L[i], a[j] - a[i], b[j] - b[i]);
+      if (step > SKY_MAX_STEP || Math.hypot(a[j] - a0, b[j] - b0) > SKY_MAX_AB_DISTANCE) continue;
+      mask[j] = 1;
+      queue.push(j);
+    }
+  }
+  return mask;
+}
+
+// Subject: frequency-tuned saliency (distance of the blurred color from the mean color) and focus
+// (local energy of the Laplacian), each normalized to its 99th percentile, averaged and weighted
+// toward the center. An Otsu threshold splits subject from background; small parts are dropped
+// and holes are filled.
+function subjectMask(lab: LabImage): Float32Array {
+  const { width: w, height: h } = lab;
+  const n = w * h;
+
+  const L = boxBlur(boxBlur(lab.L, w, h, 1), w, h, 1);
+  const a = boxBlur(boxBlur(lab.a, w, h, 1), w, h, 1);
+  const b = boxBlur(boxBlur(lab.b, w, h, 1), w, h, 1);
+  const meanL = mean(lab.L);
+  const meanA = mean(lab.a);
+  const meanB = mean(lab.b);
+  const saliency = new Float32Array(n);
+  for (let i = 0; i < n; i++) saliency[i] = Math.hypot(L[i] - meanL, a[i] - meanA, b[i] - meanB);
+
+  const laplacian = new Float32Array(n);
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      laplacian[i] = Math.abs(4 * lab.L[i] - lab.L[i - 1] - lab.L[i + 1] - lab.L[i - w] - lab.L[i + w]);
+    }
+  }
+  const focus = boxBlur(laplacian, w, h, FOCUS_RADIUS);
+
+  normalize(saliency);
+  normalize(focus);
+  const score = new Float32Array(n);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const dx = (x + 0.5) / w - 0.5;
+      const dy = (y + 0.5) / h - 0.5;
+      const prior = 1 - CENTER_PRIOR * 2 * (dx * dx + dy * dy); // 1 at the center, 1 - CENTER_PRIOR at the corners
+      const i = y * w + x;
+      score[i] = ((saliency[i] + focus[i]) / 2) * prior;
+    }
+  }
+
+  const threshold = otsuThreshold(score);
+  const mask = new Float32Array(n);
+  for (let i = 0; i < n; i++) mask[i] = score[i] > threshold ? 1 : 0;
+  keepLargestParts(mask, w, h);
+  fillHoles(mask, w, h);
+  return mask;
+}
+
+// Scale values so their 99th percentile is 1, clipping above it
+function normalize(values: Float32Array): void {
+  const sorted = Float32Array.from(values).sort();
+  const top = sorted[Math.floor((sorted.length - 1) * 0.99)];
+  if (top <= 0) return;
+  for (let i = 0; i < values.length; i++) values[i] = Math.min(1, values[i] / top);
+}
+
+// Threshold of values in [0, 1] that best separates them into two classes (Otsu's method)
+function otsuThreshold(values: Float32Array): number {
+  const bins = 256;
+  const histogram = new Float64Array(bins);
+  for (const v of values) histogram[Math.min(bins - 1, Math.floor(Math.max(0, v) * bins))]++;
+
+  let total = 0;
+  for (let k = 0; k < bins; k++) total += k * histogram[k];
+  let best = 0;
+  let bestVariance = -1;
+  let count = 0;
+  let sum = 0;
+  for (let k = 0; k < bins; k++) {
+    count += histogram[k];
+    sum += k * histogram[k];
+    if (count === 0 || count === values.length) continue;
+    const meanLow = sum / count;
+    const meanHigh = (total - sum) / (values.length - count);
+    const variance = count * (values.length - count) * (meanLow - meanHigh) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = k;
+    }
+  }
+  return (best + 1) / bins;
+}
+
+// Label the 4-connected parts of a binary mask where value === target; returns labels (0 = other)
+// and the size of each part by label
+function labelParts(mask: Float32Array, w: number, h: number, target: number): { labels: Int32Array; sizes: number[] } {
+  const labels = new Int32Array(w * h);
+  const sizes = [0];
+  for (let start = 0; start < w * h; start++) {
+    if (mask[start] !== target || labels[start] !== 0) continue;
+    const label = sizes.length;
+    const stack = [start];
+    labels[start] = label;
+    let size = 0;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      size++;
+      const x = i % w;
+      for (const j of [i - w, i + w, x > 0 ? i - 1 : -1, x < w - 1 ? i + 1 : -1]) {
+        if (j >= 0 && j < w * h && mask[j] === target && labels[j] === 0) {
+          labels[j] = label;
+          stack.push(j);
+        }
+      }
+    }
+    sizes.push(size);
+  }
+  return { labels, sizes };
+}
+
+// Drop selected parts smaller than MIN_PART_SHARE of the largest one
+function keepLargestParts(mask: Float32Array, w: number, h: number): void {
+  const { labels, sizes } = labelParts(mask, w, h, 1);
+  const largest = Math.max(...sizes);
+  for (let i = 0; i < mask.length; i++) {
+    if (labels[i] !== 0 && sizes[labels[i]] < largest * MIN_PART_SHARE) mask[i] = 0;
+  }
+}
+
+// Select unselected parts that do not touch the image border
+function fillHoles(mask: Float32Array, w: number, h: number): void {
+  const { labels, sizes } = labelParts(mask, w, h, 0);
+  const touchesBorder = new Array<boolean>(sizes.length).fill(false);
+  for (let x = 0; x < w; x++) {
+    touchesBorder[labels[x]] = true;
+    touchesBorder[labels[(h - 1) * w + x]] = true;
+  }
+  for (let y = 0; y < h; y++) {
+    touchesBorder[labels[y * w]] = true;
+    touchesBorder[labels[y * w + w - 1]] = true;
+  }
+  for (let i = 0; i < mask.length; i++) {
+    if (labels[i] !== 0 && !touchesBorder[labels[i]]) mask[i] = 1;
+  }
+}
+
+// Separable box blur with clamped edges
+function boxBlur(values: Float32Array, w: number, h: number, radius: number): Float32Array {
+  const pass = (input: Float32Array, horizontal: boolean): Float32Array => {
+    const out = new Float32Array(input.length);
+    const [outer, inner] = horizontal ? [h, w] : [w, h];
+    for (let o = 0; o < outer; o++) {
+      const index = (k: number) => {
+        const c = Math.min(inner - 1, Math.max(0, k));
+        return horizontal ? o * w + c : c * w + o;
+      };
+      for (let k = 0; k < inner; k++) {
+        let sum = 0;
+        for (let d = -radius; d <= radius; d++) sum += input[index(k + d)];
+        out[index(k)] = sum / (2 * radius + 1);
+      }
+    }
+    return out;
+  };
+  return pass(pass(values, true), false);
+}
+
+// Bilinear upsampling from the working copy to the render size
+function upsample(values: Float32Array, w: number, h: number, width: number, height: number): Float32Array {
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(h - 1, Math.max(0, ((y + 0.5) * h) / height - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(h - 1, y0 + 1);
+    const fy = sy - y0;
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(w - 1, Math.max(0, ((x + 0.5) * w) / width - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(w - 1, x0 + 1);
+      const fx = sx - x0;
+      const top = values[y0 * w + x0] * (1 - fx) + values[y0 * w + x1] * fx;
+      const bottom = values[y1 * w + x0] * (1 - fx) + values[y1 * w + x1] * fx;
+      out[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return out;
+}
+
+function mean(values: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return values.length > 0 ? sum / values.length : 0;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((x, y) => x - y);
+  return sorted[Math.floor(sorted.length / 2)];
+}
@@ -0,0 +1,223 @@
+// Correlated color temperature helpers for Kelvin white balance.
+// All matrices work on linear sRGB; white points come from the Planckian locus so that
+// the neutral setting (NEUTRAL_KELVIN, tint 0) is an exact identity.
+
+export type Matrix3 = [[number, number, number], [number, number, number], [number, number, number]];
+
+// Kelvin treated as "no correction" (sRGB content is rendered for D65)
+export const NEUTRAL_KELVIN = 6500;
+
+// Valid Kelvin range for white balance ops
+export const KELVIN_RANGE = { min: 2000, max: 15000 } as const;
+
+// Mireds moved per unit of the relative temp slider (temp ±100 ≈ 4300K..13500K)
+const MIRED_PER_TEMP_UNIT = 0.8;
+
+// Offset from the Planckian locus (CIE 1960 Duv) per unit of tint
+const DUV_PER_TINT_UNIT = 0.0003;
+
+// Duv of D65 above the Planckian locus, used as the neutral reference for tint estimates
+const D65_DUV = 0.0032;
+
+// Linear sRGB (D65) to XYZ
+const SRGB_TO_XYZ: Matrix3 = [
+  [0.4124564, 0.3575761, 0.1804375],
+  [0.2126729, 0.7151522, 0.072175],
+  [0.0193339, 0.119192, 0.9503041],
+];
+
+// Bradford cone response matrix
+const BRADFORD: Matrix3 = [
+  [0.8951, 0.2664, -0.1614],
+  [-0.7502, 1.7135, 0.0367],
+  [0.0389, -0.0685, 1.0296],
+];
+
+function multiply(a: Matrix3, b: Matrix3): Matrix3 {
+  const out: Matrix3 = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      out[i][j] = a[i][0] * b[0][j] + a[i][1] * b[1][j] + a[i][2] * b[2][j];
+    }
+  }
+  return out;
+}
+
+function transform(m: Matrix3, v: [number, number, number]): [number, number, number] {
+  return [
+    m[0][0] * v[0] + m[0][1] * v[1] + m[0][2] * v[2],
+    m[1][0] * v[0] + m[1][1] * v[1] + m[1][2] * v[2],
+    m[2][0] * v[0] + m[2][1] * v[1] + m[2][2] * v[2],
+  ];
+}
+
+function invert(m: Matrix3): Matrix3 {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return [
+    [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det],
+  ];
+}
+
+const XYZ_TO_SRGB = invert(SRGB_TO_XYZ);
+const BRADFORD_INV = invert(BRADFORD);
+
+// Chromaticity (x, y) of a blackbody at the given temperature (Kim et al. cubic spline)
+export function kelvinToXy(kelvin: number): [number, number] {
+  const t = Math.max(1667, Math.min(25000, kelvin));
+  const t2 = t * t;
+  const t3 = t2 * t;
+
+  const x =
+    t <= 4000
+      ? -0.2661239e9 / t3 - 0.2343589e6 / t2 + 0.8776956e3 / t + 0.17991
+      : -3.0258469e9 / t3 + 2.1070379e6 / t2 + 0.2226347e3 / t + 0.24039;
+
+  const x2 = x * x;
+  const x3 = x2 * x;
+  let y: number;
+  if (t <= 2222) {
+    y = -1.1063814 * x3 - 1.3481102 * x2 + 2.18555832 * x - 0.20219683;
+  } else if (t <= 4000) {
+    y = -0.9549476 * x3 - 1.37418593 * x2 + 2.09137015 * x - 0.16748867;
+  } else {
+    y = 3.081758 * x3 - 5.8733867 * x2 + 3.75112997 * x - 0.37001483;
+  }
+
+  return [x, y];
+}
+
+// Correlated color temperature of a chromaticity (McCamy's approximation)
+export function xyToKelvin(x: number, y: number): number {
+  const n = (x - 0.332) / (0.1858 - y);
+  return 449 * n ** 3 + 3525 * n ** 2 + 6823.3 * n + 5520.33;
+}
+
+function xyToUv(x: number, y: number): [number, number] {
+  const d = -2 * x + 12 * y + 3;
+  return [(4 * x) / d, (6 * y) / d];
+}
+
+function uvToXy(u: number, v: number): [number, number] {
+  const d = 2 * u - 8 * v + 4;
+  return [(3 * u) / d, (2 * v) / d];
+}
+
+// Chromaticity of a Planckian white shifted perpendicular to the locus by duv (positive = greener)
+function planckianWhite(kelvin: number, duv: number): [number, number] {
+  const [u, v] = xyToUv(...kelvinToXy(kelvin));
+  const [u2, v2] = xyToUv(...kelvinToXy(kelvin + 10));
+  const du = u2 - u;
+  const dv = v2 - v;
+  const len = Math.hypot(du, dv) || 1;
+
+  // Unit normal to the locus, oriented towards green (+v)
+  let nu = -dv / len;
+  let nv = du / len;
+  if (nv < 0) {
+    nu = -nu;
+    nv = -nv;
+  }
+
+  return uvToXy(u + nu * duv, v + nv * duv);
+}
+
+function xyToXyz(x: number, y: number): [number, number, number] {
+  return [x / y, 1, (1 - x - y) / y];
+}
+
+// Signed distance (Duv) of a chromaticity from the Planckian locus, positive = greener
+function duvOf(x: number, y: number, kelvin: number): number {
+  const [u, v] = xyToUv(x, y);
+  const [pu, pv] = xyToUv(...kelvinToXy(kelvin));
+  const distance = Math.hypot(u - pu, v - pv);
+  return v >= pv ? distance : -distance;
+}
+
+// Convert the relative temp slider [-100..100] to Kelvin (uniform in mireds)
+export function tempToKelvin(temp: number): number {
+  return 1e6 / (1e6 / NEUTRAL_KELVIN - temp * MIRED_PER_TEMP_UNIT);
+}
+
+// Convert Kelvin to the relative temp slider (inverse of tempToKelvin, unclamped)
+export function kelvinToTemp(kelvin: number): number {
+  return (1e6 / NEUTRAL_KELVIN - 1e6 / kelvin) / MIRED_PER_TEMP_UNIT;
+}
+
+// Linear sRGB matrix that adapts an image lit by (kelvin, tint) to neutral with Bradford.
+// Higher Kelvin warms the image, positive tint adds magenta.
+export function whiteBalanceMatrix(kelvin: number, tint: number): Matrix3 {
+  const sourceXyz = xyToXyz(...planckianWhite(kelvin, tint * DUV_PER_TINT_UNIT));
+  const targetXyz = xyToXyz(...planckianWhite(NEUTRAL_KELVIN, 0));
+
+  const sourceCone = transform(BRADFORD, sourceXyz);
+  const targetCone = transform(BRADFORD, targetXyz);
+  const scale: Matrix3 = [
+    [targetCone[0] / sourceCone[0], 0, 0],
+    [0, targetCone[1] / sourceCone[1], 0],
+    [0, 0, targetCone[2] / sourceCone[2]],
+  ];
+
+  const adaptXyz = multiply(BRADFORD_INV, multiply(scale, BRADFORD));
+  return multiply(XYZ_TO_SRGB, multiply(adaptXyz, SRGB_TO_XYZ));
+}
+
+// Estimate scene Kelvin and tint from the mean linear sRGB of an image (gray world)
+export function estimateKelvinFromLinearRgb(r: number, g: number, b: number): { kelvin: number; tint: number } {
+  const [X, Y, Z] = transform(SRGB_TO_XYZ, [r, g, b]);
+  const sum = X + Y + Z;
+  if (sum <= 0) {
+    return { kelvin: NEUTRAL_KELVIN, tint: 0 };
+  }
+
+  const x = X / sum;
+  const y = Y / sum;
+  const kelvin = Math.max(KELVIN_RANGE.min, Math.min(KELVIN_RANGE.max, xyToKelvin(x, y)));
+  const tint = (duvOf(x, y, kelvin) - D65_DUV) / DUV_PER_TINT_UNIT;
+
+  return { kelvin: Math.round(kelvin), tint: Math.round(Math.max(-100, Math.min(100, tint))) || 0 };
+}
+
+// Estimate scene Kelvin from a mean CIE Lab color (D65 reference white)
+export function labToKelvin(L: number, a: number, b: number): number {
+  const fy = (L + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const finv = (t: number) => (t > 6 / 29 ? t ** 3 : 3 * (6 / 29) ** 2 * (t - 4 / 29));
+
+  const X = 0.95047 * finv(fx);
+  const Y = finv(fy);
+  const Z = 1.08883 * finv(fz);
+  const sum = X + Y + Z;
+  if (sum <= 0) {
+    return NEUTRAL_KELVIN;
+  }
+
+  const kelvin = xyToKelvin(X / sum, Y / sum);
+  return Math.round(Math.max(KELVIN_RANGE.min, Math.min(KELVIN_RANGE.max, kelvin)));
+}
+
+// CIE Lab (D65 reference white) of a linear sRGB color
+export function linearRgbToLab(r: number, g: number, b: number): [number, number, number] {
+  const [X, Y, Z] = transform(SRGB_TO_XYZ, [r, g, b]);
+  const f = (t: number) => (t > (6 / 29) ** 3 ? Math.cbrt(t) : t / (3 * (6 / 29) ** 2) + 4 / 29);
+  const fx = f(X / 0.95047);
+  const fy = f(Y);
+  const fz = f(Z / 1.08883);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+// sRGB transfer functions (values in [0..1])
+export function srgbToLinear(v: number): number {
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+export function linearToSrgb(v: number): number {
+  return v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+}
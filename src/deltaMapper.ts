@@ -7,6 +7,7 @@
  */
 
 import { PlannedCall } from './planner/types';
+import { labToKelvin } from './colorTemperature';
 
 // Image statistics structure (matches MCP tool output)
 export interface ImageStats {
@@ -44,6 +45,8 @@ export interface SuggestedDeltas {
   vibrance?: number;    // Vibrance adjustment
   rotate?: number;      // Rotation angle (if needed)
   aspect?: '1:1' | '3:2' | '4:3' | '16:9';      // Aspect ratio (if different)
+  sceneKelvin?: number; // Estimated illuminant of the target image (informational)
+  refKelvin?: number;   // Estimated illuminant of the reference image (informational)
 }
 
 // Epsilon thresholds for suppressing tiny adjustments
@@ -92,6 +95,10 @@ export function computeDeltas(targetStats: ImageStats, refStats: ImageStats): Su
     deltas.tint = Math.max(-100, Math.min(100, tint));
   }
 
+  // Estimated scene illuminants, reported alongside the WB deltas
+  deltas.sceneKelvin = labToKelvin(targetStats.L.mean, targetStats.AB.a_mean, targetStats.AB.b_mean);
+  deltas.refKelvin = labToKelvin(refStats.L.mean, refStats.AB.a_mean, refStats.AB.b_mean);
+
   // 2. Exposure
   const deltaL = refStats.L.p50 - targetStats.L.p50;
   const ev = deltaL * MAPPING_CONSTANTS.ev_per_L;
@@ -246,7 +253,11 @@ export function formatDeltasForDisplay(deltas: SuggestedDeltas): string {
   const parts: string[] = [];
   
   if (deltas.temp !== undefined) {
-    parts.push(`WB Temp: ${deltas.temp > 0 ? '+' : ''}${deltas.temp.toFixed(1)}`);
+    let temp = `WB Temp: ${deltas.temp > 0 ? '+' : ''}${deltas.temp.toFixed(1)}`;
+    if (deltas.sceneKelvin !== undefined && deltas.refKelvin !== undefined) {
+      temp += ` (scene ~${deltas.sceneKelvin}K → ref ~${deltas.refKelvin}K)`;
+    }
+    parts.push(temp);
   }
   if (deltas.tint !== undefined) {
     parts.push(`WB Tint: ${deltas.tint > 0 ? '+' : ''}${deltas.tint.toFixed(1)}`);
@@ -0,0 +1,74 @@
+// Copying edit settings between images for :copy and :paste
+
+import { CropOp, EditOp, activeOps } from './editStack.js';
+import { EditOpSchema } from './editStackSchema.js';
+
+// Names accepted by :copy --only, in addition to the op types themselves
+export const COPY_GROUPS: Record<string, EditOp['op'][]> = {
+  wb: ['white_balance'],
+  tone: ['exposure', 'contrast', 'curve', 'levels', 'tone_regions'],
+  color: ['white_balance', 'saturation', 'vibrance', 'hsl', 'lut'],
+  geometry: ['crop'],
+  local: ['local_adjust', 'gradient_linear', 'gradient_radial', 'mask'],
+};
+
+const OP_TYPES: string[] = EditOpSchema.options.map((option) => option.shape.op.value);
+
+// Ops to copy: the enabled ops, optionally limited to groups or op types (e.g. ['wb', 'exposure']).
+// Masks that selected local ops use are copied with them. Throws on unknown names.
+export function selectOps(ops: EditOp[], only?: string[]): EditOp[] {
+  const enabled = activeOps(ops);
+  if (!only || only.length === 0) return enabled;
+
+  const types = new Set<string>();
+  for (const name of only) {
+    const group = COPY_GROUPS[name] ?? (OP_TYPES.includes(name) ? [name] : undefined);
+    if (!group) {
+      throw new Error(
+        `Unknown op type or group: ${name} (expected ${[...Object.keys(COPY_GROUPS), ...OP_TYPES].join(', ')})`
+      );
+    }
+    group.forEach((type) => types.add(type));
+  }
+  const maskIds = new Set(enabled.flatMap((op) => (types.has(op.op) && 'mask' in op && op.mask ? [op.mask] : [])));
+  return enabled.filter((op) => types.has(op.op) || maskIds.has(op.id));
+}
+
+// Largest normalized [w, h] with the given pixel aspect that fits an image
+function maxRectSize(aspect: number, width: number, height: number): [number, number] {
+  return aspect >= width / height ? [1, width / aspect / height] : [(height * aspect) / width, 1];
+}
+
+// Move a crop onto an image with other dimensions. The crop keeps its pixel aspect ratio, its size
+// relative to the largest crop of that aspect, its center and its rotation; same-shaped images get
+// the crop unchanged.
+export function remapCrop(
+  op: CropOp,
+  from: { width: number; height: number },
+  to: { width: number; height: number }
+): CropOp {
+  if (!op.rectNorm) return { ...op };
+
+  const [x, y, w, h] = op.rectNorm;
+  const aspect = (w * from.width) / (h * from.height);
+  const [fromW, fromH] = maxRectSize(aspect, from.width, from.height);
+  const [toW, toH] = maxRectSize(aspect, to.width, to.height);
+  const scale = Math.min(1, w / fromW, h / fromH);
+
+  const newW = scale * toW;
+  const newH = scale * toH;
+  const clamp = (v: number, max: number) => Math.max(0, Math.min(max, v));
+  const newX = clamp(x + w / 2 - newW / 2, 1 - newW);
+  const newY = clamp(y + h / 2 - newH / 2, 1 - newH);
+
+  return { ...op, rectNorm: [newX, newY, newW, newH] };
+}
+
+// Shell-style file name match: * any run of characters, ? one character, case-insensitive
+export function matchesGlob(name: string, glob: string): boolean {
+  const pattern = glob
+    .split('')
+    .map((c) => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${pattern}$`, 'i').test(name);
+}
@@ -1,64 +1,154 @@
 import crypto from 'crypto';
-
-// Edit Stack v1 types matching PRD JSON contract
-export interface EditStack {
-  version: 1;
-  baseUri: string;
+import { HistoryJournal, HistoryState } from './historyJournal.js';
+import {
+  EDIT_STACK_VERSION,
+  HSL_BANDS,
+  AUTO_MASK_KINDS,
+  MAX_CURVE_POINTS,
+  EditOpSchema,
+  EditStack,
+  EditOp,
+  CropOp,
+  WhiteBalanceOp,
+  ExposureOp,
+  ContrastOp,
+  SaturationOp,
+  VibranceOp,
+  CurveOp,
+  CurvePoint,
+  LevelsOp,
+  LevelsParams,
+  ToneRegionsOp,
+  HslOp,
+  HslBand,
+  HslAdjustment,
+  LutOp,
+  LocalAdjustOp,
+  GradientLinearOp,
+  GradientRadialOp,
+  MaskOp,
+  MaskShape,
+  MaskMode,
+  AutoMaskKind,
+} from './editStackSchema.js';
+
+// Edit stack types are generated from the canonical schema in editStackSchema.ts
+export { EDIT_STACK_VERSION, HSL_BANDS, AUTO_MASK_KINDS, MAX_CURVE_POINTS };
+export type {
+  EditStack,
+  EditOp,
+  CropOp,
+  WhiteBalanceOp,
+  ExposureOp,
+  ContrastOp,
+  SaturationOp,
+  VibranceOp,
+  CurveOp,
+  CurvePoint,
+  LevelsOp,
+  LevelsParams,
+  ToneRegionsOp,
+  HslOp,
+  HslBand,
+  HslAdjustment,
+  LutOp,
+  LocalAdjustOp,
+  GradientLinearOp,
+  GradientRadialOp,
+  MaskOp,
+  MaskShape,
+  MaskMode,
+  AutoMaskKind,
+};
+
+// Named copy of a stack's ops, e.g. to A/B two grades of the same image
+export interface EditSnapshot {
+  name: string;
   ops: EditOp[];
+  createdAt: string;
 }
 
-// Base interface for all edit operations
-export interface BaseEditOp {
-  id: string;
-  op: string;
-}
-
-// Crop operation
-export interface CropOp extends BaseEditOp {
-  op: 'crop';
-  rectNorm?: [number, number, number, number]; // [x, y, w, h] in [0..1] of original image
-  angleDeg?: number; // optional rotation in degrees (applied after crop)
-  aspect?: string; // optional aspect ratio hint e.g. "1:1", "3:2", "16:9"
-}
-
-// White balance operation
-export interface WhiteBalanceOp extends BaseEditOp {
-  op: 'white_balance';
-  method: 'gray_point' | 'temp_tint';
-  // For gray_point method - coordinates normalized to original image
-  x?: number;
-  y?: number;
-  // For temp_tint method - relative units [-100..100]
-  temp?: number;
-  tint?: number;
-}
-
-// Exposure operation
-export interface ExposureOp extends BaseEditOp {
-  op: 'exposure';
-  ev: number; // EV stops [-3..+3]
-}
-
-// Contrast operation
-export interface ContrastOp extends BaseEditOp {
-  op: 'contrast';
-  amt: number; // percent [-100..100]
-}
-
-// Saturation operation
-export interface SaturationOp extends BaseEditOp {
-  op: 'saturation';
-  amt: number; // percent [-100..100], 0 = no-op
-}
-
-// Vibrance operation
-export interface VibranceOp extends BaseEditOp {
-  op: 'vibrance';
-  amt: number; // percent [-100..100], protects already-saturated colors
-}
-
-// Union type for all operations
-export type EditOp = CropOp | WhiteBalanceOp | ExposureOp | ContrastOp | SaturationOp | VibranceOp;
+// Snapshot name that refers to the current ops in diffSnapshots
+export const CURRENT_SNAPSHOT = 'current';
+
+// Default soft edge of a local_adjust ROI, percent of its shorter side
+export const DEFAULT_ROI_FEATHER = 25;
+
+// Default transition of a gradient_linear op (the whole start-end distance) and soft edge of a
+// gradient_radial op (percent of its radius)
+export const DEFAULT_LINEAR_FEATHER = 100;
+export const DEFAULT_RADIAL_FEATHER = 50;
+
+// Ops that adjust part of the image and the masks that limit them. There can be several of each, so
+// they are always appended.
+export const LOCAL_OP_TYPES: EditOp['op'][] = ['local_adjust', 'gradient_linear', 'gradient_radial', 'mask'];
+
+// Default brush of a mask stroke: radius as a share of the shorter image side, hardness in percent
+export const DEFAULT_BRUSH_RADIUS = 0.05;
+export const DEFAULT_BRUSH_HARDNESS = 50;
+
+// Default falloff of a luminance range (L*), and hue half-width, hue falloff (degrees) and minimum
+// chroma of a color range
+export const DEFAULT_LUMINANCE_FALLOFF = 10;
+export const DEFAULT_HUE_RANGE = 20;
+export const DEFAULT_HUE_FALLOFF = 20;
+export const DEFAULT_MIN_CHROMA = 10;
+
+// Identity levels
+export const DEFAULT_LEVELS: LevelsParams = { inBlack: 0, inWhite: 255, gamma: 1, outBlack: 0, outWhite: 255 };
+
+// Named curve presets usable from commands and the planner
+export const CURVE_PRESETS: Record<string, Pick<CurveOp, 'master' | 'r' | 'g' | 'b'>> = {
+  linear: {
+    master: [
+      [0, 0],
+      [1, 1],
+    ],
+  },
+  s_curve: {
+    master: [
+      [0, 0],
+      [0.25, 0.2],
+      [0.75, 0.8],
+      [1, 1],
+    ],
+  },
+  strong_s_curve: {
+    master: [
+      [0, 0],
+      [0.25, 0.15],
+      [0.75, 0.85],
+      [1, 1],
+    ],
+  },
+  fade: {
+    master: [
+      [0, 0.08],
+      [0.25, 0.27],
+      [0.75, 0.76],
+      [1, 0.96],
+    ],
+  },
+  cross_process: {
+    r: [
+      [0, 0],
+      [0.25, 0.2],
+      [0.75, 0.82],
+      [1, 1],
+    ],
+    g: [
+      [0, 0],
+      [0.25, 0.22],
+      [0.75, 0.8],
+      [1, 1],
+    ],
+    b: [
+      [0, 0.12],
+      [0.5, 0.5],
+      [1, 0.85],
+    ],
+  },
+};
 
 // Stack manager with undo/redo support
 export class EditStackManager {
@@ -66,10 +156,12 @@ export class EditStackManager {
   private undoStack: EditStack[] = [];
   private redoStack: EditStack[] = [];
   private opCounter = 0;
+  private journal?: HistoryJournal;
+  private snapshots = new Map<string, EditSnapshot>();
 
   constructor(baseUri: string) {
     this.currentStack = {
-      version: 1,
+      version: EDIT_STACK_VERSION,
       baseUri,
       ops: [],
     };
@@ -98,6 +190,11 @@ export class EditStackManager {
     return [clampedX, clampedY, clampedW, clampedH];
   }
 
+  // Clamp a normalized point to the image
+  private validatePoint(point: [number, number]): [number, number] {
+    return [Math.max(0, Math.min(1, point[0])), Math.max(0, Math.min(1, point[1]))];
+  }
+
   // Parse aspect ratio string to numeric ratio
   parseAspect(aspect: string): number | null {
     // Handle common keywords
@@ -151,16 +248,16 @@ export class EditStackManager {
 
   // Add or amend white balance operation
   addWhiteBalance(options: {
-    method: 'gray_point' | 'temp_tint';
+    method: 'gray_point' | 'temp_tint' | 'kelvin';
     x?: number;
     y?: number;
     temp?: number;
     tint?: number;
+    kelvin?: number;
     forceNew?: boolean;
   }): void {
     // Save current state for undo
-    this.undoStack.push(JSON.parse(JSON.stringify(this.currentStack)));
-    this.redoStack = [];
+    this.beginEdit();
 
     const newOp: WhiteBalanceOp = {
       id: this.generateOpId(),
@@ -183,6 +280,10 @@ export class EditStackManager {
         // Clamp tint to [-100, 100]
         newOp.tint = Math.max(-100, Math.min(100, options.tint));
       }
+    } else if (options.method === 'kelvin') {
+      // Clamp Kelvin to [2000, 15000]
+      newOp.kelvin = Math.round(Math.max(2000, Math.min(15000, options.kelvin ?? 6500)));
+      newOp.tint = Math.max(-100, Math.min(100, options.tint ?? 0));
     }
 
     // Amend-last logic: replace most recent white_balance op unless forceNew
@@ -190,17 +291,18 @@ export class EditStackManager {
 
     if (shouldAmend) {
       const idx = this.findLastOpByType('white_balance');
-      this.currentStack.ops[idx] = newOp;
+      this.amendOp(idx, newOp);
     } else {
       this.currentStack.ops.push(newOp);
     }
+
+    this.commitEdit();
   }
 
   // Add or amend exposure operation
   addExposure(options: { ev: number; forceNew?: boolean }): void {
     // Save current state for undo
-    this.undoStack.push(JSON.parse(JSON.stringify(this.currentStack)));
-    this.redoStack = [];
+    this.beginEdit();
 
     const newOp: ExposureOp = {
       id: this.generateOpId(),
@@ -213,17 +315,18 @@ export class EditStackManager {
 
     if (shouldAmend) {
       const idx = this.findLastOpByType('exposure');
-      this.currentStack.ops[idx] = newOp;
+      this.amendOp(idx, newOp);
     } else {
       this.currentStack.ops.push(newOp);
     }
+
+    this.commitEdit();
   }
 
   // Add or amend contrast operation
   addContrast(options: { amt: number; forceNew?: boolean }): void {
     // Save current state for undo
-    this.undoStack.push(JSON.parse(JSON.stringify(this.currentStack)));
-    this.redoStack = [];
+    this.beginEdit();
 
     const newOp: ContrastOp = {
       id: this.generateOpId(),
@@ -236,17 +339,18 @@ export class EditStackManager {
 
     if (shouldAmend) {
       const idx = this.findLastOpByType('contrast');
-      this.currentStack.ops[idx] = newOp;
+      this.amendOp(idx, newOp);
     } else {
       this.currentStack.ops.push(newOp);
     }
+
+    this.commitEdit();
   }
 
   // Add or amend saturation operation
   addSaturation(options: { amt: number; forceNew?: boolean }): void {
     // Save current state for undo
-    this.undoStack.push(JSON.parse(JSON.stringify(this.currentStack)));
-    this.redoStack = [];
+    this.beginEdit();
 
     const newOp: SaturationOp = {
       id: this.generateOpId(),
@@ -259,17 +363,18 @@ export class EditStackManager {
 
     if (shouldAmend) {
       const idx = this.findLastOpByType('saturation');
-      this.currentStack.ops[idx] = newOp;
+      this.amendOp(idx, newOp);
     } else {
       this.currentStack.ops.push(newOp);
     }
+
+    this.commitEdit();
   }
 
   // Add or amend vibrance operation
   addVibrance(options: { amt: number; forceNew?: boolean }): void {
     // Save current state for undo
-    this.undoStack.push(JSON.parse(JSON.stringify(this.currentStack)));
-    this.redoStack = [];
+    this.beginEdit();
 
     const newOp: VibranceOp = {
       id: this.generateOpId(),
@@ -282,10 +387,451 @@ export class EditStackManager {
 
     if (shouldAmend) {
       const idx = this.findLastOpByType('vibrance');
-      this.currentStack.ops[idx] = newOp;
+      this.amendOp(idx, newOp);
+    } else {
+      this.currentStack.ops.push(newOp);
+    }
+
+    this.commitEdit();
+  }
+
+  // Add or amend tone curve operation
+  addCurve(options: {
+    preset?: string;
+    master?: CurvePoint[];
+    r?: CurvePoint[];
+    g?: CurvePoint[];
+    b?: CurvePoint[];
+    forceNew?: boolean;
+  }): void {
+    // Start from the preset (if any), explicit channels override it; validated before the edit
+    // starts, so a curve with too many points leaves the stack and its undo history alone
+    const preset = options.preset ? CURVE_PRESETS[options.preset.toLowerCase().replace(/-/g, '_')] : undefined;
+    const channels: Partial<Record<'master' | 'r' | 'g' | 'b', CurvePoint[]>> = {};
+    for (const channel of ['master', 'r', 'g', 'b'] as const) {
+      const points = options[channel] ?? preset?.[channel];
+      if (points && points.length > 0) {
+        channels[channel] = this.validateCurvePoints(points);
+      }
+    }
+
+    // Save current state for undo
+    this.beginEdit();
+
+    const newOp: CurveOp = {
+      id: this.generateOpId(),
+      op: 'curve',
+      ...channels,
+    };
+
+    // Amend-last logic: replace most recent curve op unless forceNew
+    const shouldAmend = !options.forceNew && this.findLastOpByType('curve') !== -1;
+
+    if (shouldAmend) {
+      const idx = this.findLastOpByType('curve');
+      this.amendOp(idx, newOp);
+    } else {
+      this.currentStack.ops.push(newOp);
+    }
+
+    this.commitEdit();
+  }
+
+  // Clamp curve points to [0,1], sort by input and pin the endpoints; throws when that leaves more
+  // than MAX_CURVE_POINTS
+  private validateCurvePoints(points: CurvePoint[]): CurvePoint[] {
+    const sorted = points
+      .map(([x, y]): CurvePoint => [Math.max(0, Math.min(1, x)), Math.max(0, Math.min(1, y))])
+      .sort((a, b) => a[0] - b[0]);
+
+    // Drop points with duplicate inputs (last one wins)
+    const unique: CurvePoint[] = [];
+    for (const point of sorted) {
+      if (unique.length > 0 && Math.abs(unique[unique.length - 1][0] - point[0]) < 1e-6) {
+        unique[unique.length - 1] = point;
+      } else {
+        unique.push(point);
+      }
+    }
+
+    // Curves always span the full input range
+    if (unique[0][0] > 0) unique.unshift([0, 0]);
+    if (unique[unique.length - 1][0] < 1) unique.push([1, 1]);
+
+    if (unique.length > MAX_CURVE_POINTS) {
+      throw new Error(`A curve has at most ${MAX_CURVE_POINTS} points, endpoints included (got ${unique.length})`);
+    }
+    return unique;
+  }
+
+  // Add or amend levels operation
+  addLevels(
+    options: Partial<LevelsParams> & {
+      r?: Partial<LevelsParams>;
+      g?: Partial<LevelsParams>;
+      b?: Partial<LevelsParams>;
+      forceNew?: boolean;
+    }
+  ): void {
+    // Save current state for undo
+    this.beginEdit();
+
+    const newOp: LevelsOp = {
+      id: this.generateOpId(),
+      op: 'levels',
+      ...this.validateLevels(options),
+    };
+
+    for (const channel of ['r', 'g', 'b'] as const) {
+      if (options[channel]) {
+        newOp[channel] = this.validateLevels(options[channel]!);
+      }
+    }
+
+    // Amend-last logic: replace most recent levels op unless forceNew
+    const shouldAmend = !options.forceNew && this.findLastOpByType('levels') !== -1;
+
+    if (shouldAmend) {
+      const idx = this.findLastOpByType('levels');
+      this.amendOp(idx, newOp);
+    } else {
+      this.currentStack.ops.push(newOp);
+    }
+
+    this.commitEdit();
+  }
+
+  // Fill in defaults and clamp levels so the input range never collapses
+  private validateLevels(params: Partial<LevelsParams>): LevelsParams {
+    const clamp8 = (v: number | undefined, fallback: number) => Math.max(0, Math.min(255, v ?? fallback));
+
+    const inBlack = Math.min(254, clamp8(params.inBlack, DEFAULT_LEVELS.inBlack));
+    const inWhite = Math.max(inBlack + 1, clamp8(params.inWhite, DEFAULT_LEVELS.inWhite));
+
+    return {
+      inBlack,
+      inWhite,
+      gamma: Math.max(0.1, Math.min(10, params.gamma ?? DEFAULT_LEVELS.gamma)),
+      outBlack: clamp8(params.outBlack, DEFAULT_LEVELS.outBlack),
+      outWhite: clamp8(params.outWhite, DEFAULT_LEVELS.outWhite),
+    };
+  }
+
+  // Add or amend tonal region sliders. When amending, sliders that are not given keep
+  // their current value so highlights and shadows can be set independently.
+  addToneRegions(options: {
+    highlights?: number;
+    shadows?: number;
+    whites?: number;
+    blacks?: number;
+    forceNew?: boolean;
+  }): void {
+    // Save current state for undo
+    this.beginEdit();
+
+    const idx = options.forceNew ? -1 : this.findLastOpByType('tone_regions');
+    const current = idx !== -1 ? (this.currentStack.ops[idx] as ToneRegionsOp) : undefined;
+    const slider = (value: number | undefined, fallback: number | undefined) =>
+      Math.max(-100, Math.min(100, value ?? fallback ?? 0)); // Clamp to [-100, 100]
+
+    const newOp: ToneRegionsOp = {
+      id: this.generateOpId(),
+      op: 'tone_regions',
+      highlights: slider(options.highlights, current?.highlights),
+      shadows: slider(options.shadows, current?.shadows),
+      whites: slider(options.whites, current?.whites),
+      blacks: slider(options.blacks, current?.blacks),
+    };
+
+    // Amend-last logic: replace most recent tone_regions op unless forceNew
+    if (idx !== -1) {
+      this.amendOp(idx, newOp);
+    } else {
+      this.currentStack.ops.push(newOp);
+    }
+
+    this.commitEdit();
+  }
+
+  // Add or amend HSL mixer bands. When amending, bands and fields that are not given keep
+  // their current value so bands can be adjusted one at a time.
+  addHsl(options: { bands: Partial<Record<HslBand, Partial<HslAdjustment>>>; forceNew?: boolean }): void {
+    // Save current state for undo
+    this.beginEdit();
+
+    const idx = options.forceNew ? -1 : this.findLastOpByType('hsl');
+    const current = idx !== -1 ? (this.currentStack.ops[idx] as HslOp) : undefined;
+    const clamp100 = (v: number) => Math.max(-100, Math.min(100, v)); // Clamp to [-100, 100]
+
+    const newOp: HslOp = {
+      id: this.generateOpId(),
+      op: 'hsl',
+      bands: {},
+    };
+
+    for (const band of HSL_BANDS) {
+      const given = options.bands[band];
+      const existing = current?.bands[band];
+      const adjustment: HslAdjustment = {
+        hue: clamp100(given?.hue ?? existing?.hue ?? 0),
+        sat: clamp100(given?.sat ?? existing?.sat ?? 0),
+        lum: clamp100(given?.lum ?? existing?.lum ?? 0),
+      };
+      if (adjustment.hue !== 0 || adjustment.sat !== 0 || adjustment.lum !== 0) {
+        newOp.bands[band] = adjustment;
+      }
+    }
+
+    // Amend-last logic: replace most recent hsl op unless forceNew
+    if (idx !== -1) {
+      this.amendOp(idx, newOp);
+    } else {
+      this.currentStack.ops.push(newOp);
+    }
+
+    this.commitEdit();
+  }
+
+  // Add or amend 3D LUT operation (path relative to the session root)
+  addLut(options: {
+    path: string;
+    interpolation?: 'trilinear' | 'tetrahedral';
+    opacity?: number;
+    forceNew?: boolean;
+  }): void {
+    // Save current state for undo
+    this.beginEdit();
+
+    const newOp: LutOp = {
+      id: this.generateOpId(),
+      op: 'lut',
+      path: options.path,
+      opacity: Math.max(0, Math.min(100, options.opacity ?? 100)), // Clamp to [0, 100]
+    };
+    if (options.interpolation) {
+      newOp.interpolation = options.interpolation;
+    }
+
+    // Amend-last logic: replace most recent lut op unless forceNew
+    const shouldAmend = !options.forceNew && this.findLastOpByType('lut') !== -1;
+
+    if (shouldAmend) {
+      const idx = this.findLastOpByType('lut');
+      this.amendOp(idx, newOp);
+    } else {
+      this.currentStack.ops.push(newOp);
+    }
+
+    this.commitEdit();
+  }
+
+  // Add a local adjustment. Each ROI is its own op, so this always appends; zero and missing
+  // adjustments are left out.
+  addLocalAdjust(options: {
+    roi: [number, number, number, number];
+    feather?: number;
+    invert?: boolean;
+    ev?: number;
+    temp?: number;
+    contrast?: number;
+    saturation?: number;
+    vibrance?: number;
+    mask?: string;
+  }): void {
+    this.validateMaskRef(options.mask);
+
+    // Save current state for undo
+    this.beginEdit();
+
+    const newOp: LocalAdjustOp = {
+      id: this.generateOpId(),
+      op: 'local_adjust',
+      roi: this.validateRect(options.roi),
+      feather: Math.max(0, Math.min(100, options.feather ?? DEFAULT_ROI_FEATHER)), // Clamp to [0, 100]
+    };
+    if (options.invert) {
+      newOp.invert = true;
+    }
+    Object.assign(newOp, localSliders(options));
+    if (options.mask) {
+      newOp.mask = options.mask;
+    }
+
+    this.currentStack.ops.push(newOp);
+    this.commitEdit();
+  }
+
+  // Add a linear gradient that fades its adjustments out from start to end. Always appends; zero
+  // and missing adjustments are left out.
+  addGradientLinear(options: {
+    start: [number, number];
+    end: [number, number];
+    feather?: number;
+    ev?: number;
+    temp?: number;
+    contrast?: number;
+    saturation?: number;
+    mask?: string;
+  }): void {
+    this.validateMaskRef(options.mask);
+
+    // Save current state for undo
+    this.beginEdit();
+
+    const newOp: GradientLinearOp = {
+      id: this.generateOpId(),
+      op: 'gradient_linear',
+      start: this.validatePoint(options.start),
+      end: this.validatePoint(options.end),
+      feather: Math.max(0, Math.min(100, options.feather ?? DEFAULT_LINEAR_FEATHER)), // Clamp to [0, 100]
+      ...localSliders(options),
+    };
+    if (options.mask) {
+      newOp.mask = options.mask;
+    }
+
+    this.currentStack.ops.push(newOp);
+    this.commitEdit();
+  }
+
+  // Add a radial gradient (a feathered ellipse, radii as shares of the image width and height).
+  // Always appends; zero and missing adjustments are left out.
+  addGradientRadial(options: {
+    center: [number, number];
+    radiusX: number;
+    radiusY: number;
+    feather?: number;
+    invert?: boolean;
+    ev?: number;
+    temp?: number;
+    contrast?: number;
+    saturation?: number;
+    mask?: string;
+  }): void {
+    this.validateMaskRef(options.mask);
+
+    // Save current state for undo
+    this.beginEdit();
+
+    const radius = (r: number) => Math.max(0.001, Math.min(1, r)); // Ensure positive radius
+    const newOp: GradientRadialOp = {
+      id: this.generateOpId(),
+      op: 'gradient_radial',
+      center: this.validatePoint(options.center),
+      radiusX: radius(options.radiusX),
+      radiusY: radius(options.radiusY),
+      feather: Math.max(0, Math.min(100, options.feather ?? DEFAULT_RADIAL_FEATHER)), // Clamp to [0, 100]
+    };
+    if (options.invert) {
+      newOp.invert = true;
+    }
+    Object.assign(newOp, localSliders(options));
+    if (options.mask) {
+      newOp.mask = options.mask;
+    }
+
+    this.currentStack.ops.push(newOp);
+    this.commitEdit();
+  }
+
+  // Add a shape to a mask. Without maskId a new mask op is appended; its id is what local ops pass
+  // as mask. Points and ranges are clamped (see validateMaskShape). Returns the mask id.
+  addMaskShape(shape: MaskShape, maskId?: string): string {
+    const idx = maskId === undefined ? -1 : this.findOpById(maskId);
+    if (maskId !== undefined && (idx === -1 || this.currentStack.ops[idx].op !== 'mask')) {
+      throw new Error(`No mask ${maskId}`);
+    }
+
+    // Save current state for undo
+    this.beginEdit();
+
+    const newShape = this.validateMaskShape(shape);
+
+    let id: string;
+    if (idx !== -1) {
+      const maskOp = this.currentStack.ops[idx] as MaskOp;
+      maskOp.shapes.push(newShape);
+      id = maskOp.id;
     } else {
+      id = this.generateOpId();
+      const newOp: MaskOp = { id, op: 'mask', shapes: [newShape] };
       this.currentStack.ops.push(newOp);
     }
+
+    this.commitEdit();
+    return id;
+  }
+
+  // Id of an enabled mask that is just the automatic mask of kind, so asking for the same region
+  // twice reuses it; undefined when there is none
+  findAutoMask(kind: AutoMaskKind): string | undefined {
+    return this.currentStack.ops.find(
+      (op) =>
+        op.op === 'mask' &&
+        op.enabled !== false &&
+        op.shapes.length === 1 &&
+        op.shapes[0].type === 'auto' &&
+        op.shapes[0].kind === kind
+    )?.id;
+  }
+
+  // Clamp a mask shape: points to the image, brush radius to (0, 1], luminance ranges to L* [0, 100]
+  // (low end first) and color ranges to the hue circle
+  private validateMaskShape(shape: MaskShape): MaskShape {
+    const clamp = (v: number, max: number) => Math.max(0, Math.min(max, v));
+    switch (shape.type) {
+      case 'polygon':
+        return { type: 'polygon', mode: shape.mode, points: shape.points.map((point) => this.validatePoint(point)) };
+      case 'brush':
+        return {
+          type: 'brush',
+          mode: shape.mode,
+          points: shape.points.map((point) => this.validatePoint(point)),
+          radius: Math.max(0.001, Math.min(1, shape.radius)), // Ensure positive radius
+          hardness: clamp(shape.hardness, 100),
+        };
+      case 'luminance': {
+        const [low, high] = shape.range.map((v) => clamp(v, 100)).sort((a, b) => a - b);
+        return { type: 'luminance', mode: shape.mode, range: [low, high], falloff: clamp(shape.falloff, 50) };
+      }
+      case 'color':
+        return {
+          type: 'color',
+          mode: shape.mode,
+          hue: ((shape.hue % 360) + 360) % 360,
+          hueRange: clamp(shape.hueRange, 180),
+          falloff: clamp(shape.falloff, 180),
+          minChroma: clamp(shape.minChroma, 100),
+        };
+      case 'auto':
+        return { type: 'auto', mode: shape.mode, kind: shape.kind };
+    }
+  }
+
+  // Throw unless id (when given) names a mask op in the stack
+  private validateMaskRef(id: string | undefined): void {
+    if (id === undefined) return;
+    const idx = this.findOpById(id);
+    if (idx === -1 || this.currentStack.ops[idx].op !== 'mask') {
+      throw new Error(`No mask ${id}`);
+    }
+  }
+
+  // Throw if any op in the stack uses the mask id, naming the action refused (remove, disable)
+  private checkMaskUnused(id: string, action: string): void {
+    const users = this.currentStack.ops.filter((op) => 'mask' in op && op.mask === id).map((op) => op.id);
+    if (users.length > 0) {
+      throw new Error(`Cannot ${action} ${id}: ${users.join(', ')} ${users.length === 1 ? 'uses' : 'use'} it`);
+    }
+  }
+
+  // Replace the op at idx with its amended version. A disabled op stays disabled, so changing its
+  // settings does not silently turn it back on.
+  private amendOp(idx: number, newOp: EditOp): void {
+    if (this.currentStack.ops[idx].enabled === false) {
+      newOp.enabled = false;
+    }
+    this.currentStack.ops[idx] = newOp;
   }
 
   // Helper to find last operation by type
@@ -306,8 +852,7 @@ export class EditStackManager {
     forceNew?: boolean; // Force append instead of amend
   }): void {
     // Save current state for undo
-    this.undoStack.push(JSON.parse(JSON.stringify(this.currentStack)));
-    this.redoStack = []; // Clear redo stack on new operation
+    this.beginEdit();
 
     const newOp: CropOp = {
       id: this.generateOpId(),
@@ -336,11 +881,13 @@ export class EditStackManager {
 
     if (shouldAmend) {
       // Replace the last crop operation
-      this.currentStack.ops[this.currentStack.ops.length - 1] = newOp;
+      this.amendOp(this.currentStack.ops.length - 1, newOp);
     } else {
       // Append new operation
       this.currentStack.ops.push(newOp);
     }
+
+    this.commitEdit();
   }
 
   // Undo last operation
@@ -354,6 +901,7 @@ export class EditStackManager {
 
     // Restore previous state
     this.currentStack = this.undoStack.pop()!;
+    this.journal?.append({ type: 'undo' }, () => this.getHistoryState());
 
     return true;
   }
@@ -369,19 +917,326 @@ export class EditStackManager {
 
     // Restore next state
     this.currentStack = this.redoStack.pop()!;
+    this.journal?.append({ type: 'redo' }, () => this.getHistoryState());
 
     return true;
   }
 
   // Reset to original (clear all operations)
   reset(): void {
-    // Save current state for undo
-    if (this.currentStack.ops.length > 0) {
-      this.undoStack.push(JSON.parse(JSON.stringify(this.currentStack)));
-      this.redoStack = [];
+    // Nothing to reset (and nothing to undo)
+    if (this.currentStack.ops.length === 0) {
+      return;
     }
 
+    // Save current state for undo
+    this.beginEdit();
+
     this.currentStack.ops = [];
+    this.commitEdit();
+  }
+
+  // Replace all operations (e.g. from a sidecar); undoable, and new op IDs continue after the restored ones
+  restoreOps(ops: EditOp[]): void {
+    this.beginEdit();
+    this.currentStack.ops = JSON.parse(JSON.stringify(ops));
+    this.continueOpIds(ops);
+    this.commitEdit();
+  }
+
+  // Start from ops without any history (e.g. a new virtual copy), so undo cannot empty the stack;
+  // the attached journal is rewritten to match
+  seedOps(ops: EditOp[]): void {
+    this.currentStack.ops = JSON.parse(JSON.stringify(ops));
+    this.undoStack = [];
+    this.redoStack = [];
+    this.continueOpIds(ops);
+    this.journal?.compact(this.getHistoryState());
+  }
+
+  // Make new op IDs continue after the given ones
+  private continueOpIds(ops: EditOp[]): void {
+    for (const op of ops) {
+      const match = op.id.match(/^op_(\d+)$/);
+      if (match) {
+        this.opCounter = Math.max(this.opCounter, parseInt(match[1], 10));
+      }
+    }
+  }
+
+  // Paste ops copied from another stack as one undoable change. Each op gets a new ID and amends
+  // the most recent op of its type, like the add* methods, or is appended if there is none
+  // (local adjustments, gradients and masks are always appended). Mask references follow the
+  // pasted masks to their new IDs; an op whose mask is not pasted before it is refused, as it would
+  // adjust its whole area.
+  pasteOps(ops: EditOp[]): void {
+    if (ops.length === 0) return;
+
+    const pastedMasks = new Set<string>();
+    for (const op of ops) {
+      if (op.op === 'mask') {
+        pastedMasks.add(op.id);
+      } else if ('mask' in op && op.mask !== undefined && !pastedMasks.has(op.mask)) {
+        throw new Error(`Cannot paste ${op.id}: its mask ${op.mask} was not copied`);
+      }
+    }
+
+    this.beginEdit();
+    const maskIds = new Map<string, string>();
+    for (const op of ops) {
+      const pasted: EditOp = { ...JSON.parse(JSON.stringify(op)), id: this.generateOpId() };
+      delete pasted.createdAt;
+      if (pasted.op === 'mask') {
+        maskIds.set(op.id, pasted.id);
+      } else if ('mask' in pasted && pasted.mask !== undefined) {
+        pasted.mask = maskIds.get(pasted.mask);
+      }
+
+      const idx = LOCAL_OP_TYPES.includes(op.op) ? -1 : this.findLastOpByType(op.op);
+      if (idx !== -1) {
+        this.currentStack.ops[idx] = pasted;
+      } else {
+        this.currentStack.ops.push(pasted);
+      }
+    }
+    this.commitEdit();
+  }
+
+  // Disable an op without removing it; renderers skip disabled ops. Returns false if there is no such op
+  // and throws for a mask that local ops still use.
+  disableOp(id: string): boolean {
+    return this.setOpEnabled(id, false);
+  }
+
+  // Re-enable a disabled op. Returns false if there is no such op.
+  enableOp(id: string): boolean {
+    return this.setOpEnabled(id, true);
+  }
+
+  private setOpEnabled(id: string, enabled: boolean): boolean {
+    const idx = this.findOpById(id);
+    if (idx === -1) return false;
+    if ((this.currentStack.ops[idx].enabled !== false) === enabled) return true;
+    if (!enabled) this.checkMaskUnused(id, 'disable');
+
+    this.beginEdit();
+    const op = this.currentStack.ops[idx];
+    if (enabled) {
+      delete op.enabled;
+    } else {
+      op.enabled = false;
+    }
+    this.commitEdit();
+    return true;
+  }
+
+  // Remove an op anywhere in the stack. Returns false if there is no such op and throws for a mask
+  // that local ops still use.
+  removeOp(id: string): boolean {
+    const idx = this.findOpById(id);
+    if (idx === -1) return false;
+    this.checkMaskUnused(id, 'remove');
+
+    this.beginEdit();
+    this.currentStack.ops.splice(idx, 1);
+    this.commitEdit();
+    return true;
+  }
+
+  // Move an op to a 0-based position (clamped to the stack). Returns false if there is no such op.
+  moveOp(id: string, index: number): boolean {
+    const idx = this.findOpById(id);
+    if (idx === -1) return false;
+
+    const target = Math.max(0, Math.min(this.currentStack.ops.length - 1, Math.round(index)));
+    if (target === idx) return true;
+
+    this.beginEdit();
+    const [op] = this.currentStack.ops.splice(idx, 1);
+    this.currentStack.ops.splice(target, 0, op);
+    this.commitEdit();
+    return true;
+  }
+
+  // Change fields of an op in place, keeping its id and position. Nested objects (HSL bands, levels
+  // channels) are merged; arrays are replaced. Returns false if there is no such op and throws if
+  // the updated op is invalid, e.g. "op_03 amt: Too big: expected number to be <=100".
+  updateOp(id: string, patch: Record<string, unknown>): boolean {
+    const idx = this.findOpById(id);
+    if (idx === -1) return false;
+
+    if ('id' in patch || 'op' in patch) {
+      throw new Error(`Cannot change the id or type of ${id}`);
+    }
+
+    const result = EditOpSchema.safeParse(mergePatch(this.currentStack.ops[idx], patch));
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const where = issue.path.length > 0 ? ` ${issue.path.join('.')}` : '';
+      throw new Error(`${id}${where}: ${issue.message}`);
+    }
+    const unknown = Object.keys(patch).find((key) => !(key in result.data));
+    if (unknown) {
+      throw new Error(`${id} (${result.data.op}) has no field ${unknown}`);
+    }
+    if ('mask' in result.data) {
+      this.validateMaskRef(result.data.mask);
+    }
+    if (result.data.op === 'mask' && result.data.enabled === false && this.currentStack.ops[idx].enabled !== false) {
+      this.checkMaskUnused(id, 'disable');
+    }
+
+    this.beginEdit();
+    this.currentStack.ops[idx] = result.data;
+    this.commitEdit();
+    return true;
+  }
+
+  // Helper to find an operation by id
+  private findOpById(id: string): number {
+    return this.currentStack.ops.findIndex((op) => op.id === id);
+  }
+
+  // Save the current ops under a name, replacing any snapshot with that name
+  saveSnapshot(name: string): EditSnapshot {
+    if (name === CURRENT_SNAPSHOT) {
+      throw new Error(`"${CURRENT_SNAPSHOT}" is reserved for the current stack`);
+    }
+
+    const snapshot: EditSnapshot = {
+      name,
+      ops: JSON.parse(JSON.stringify(this.currentStack.ops)),
+      createdAt: new Date().toISOString(),
+    };
+    this.snapshots.delete(name);
+    this.snapshots.set(name, snapshot);
+    return JSON.parse(JSON.stringify(snapshot));
+  }
+
+  // Snapshots in the order they were saved
+  getSnapshots(): EditSnapshot[] {
+    return JSON.parse(JSON.stringify(Array.from(this.snapshots.values())));
+  }
+
+  // Replace the ops with a snapshot's; undoable. Returns false if there is no such snapshot.
+  restoreSnapshot(name: string): boolean {
+    const snapshot = this.snapshots.get(name);
+    if (!snapshot) return false;
+
+    this.restoreOps(snapshot.ops);
+    return true;
+  }
+
+  // Differences between two snapshots (or CURRENT_SNAPSHOT), one line per change:
+  // "~ EV +0.50 → EV +1.00", "- Sat -100", "+ Vib +15" and "↕ exposure, contrast → contrast, exposure"
+  diffSnapshots(from: string, to: string): string[] {
+    const resolve = (name: string): EditOp[] => {
+      if (name === CURRENT_SNAPSHOT) return this.currentStack.ops;
+      const snapshot = this.snapshots.get(name);
+      if (!snapshot) throw new Error(`No snapshot named ${name}`);
+      return snapshot.ops;
+    };
+    const before = resolve(from);
+    const after = resolve(to);
+
+    // Ops are matched by id; amend-last replaces an op with a new id, so leftover ops of the
+    // same kind are paired up as changes
+    const afterById = new Map(after.map((op) => [op.id, op]));
+    const pairs: [EditOp, EditOp][] = before
+      .filter((op) => afterById.has(op.id))
+      .map((op) => [op, afterById.get(op.id)!]);
+    const removed = before.filter((op) => !afterById.has(op.id));
+    const added = after.filter((op) => !before.some((b) => b.id === op.id));
+    for (const op of [...removed]) {
+      const match = added.find((a) => a.op === op.op);
+      if (match) {
+        pairs.push([op, match]);
+        removed.splice(removed.indexOf(op), 1);
+        added.splice(added.indexOf(match), 1);
+      }
+    }
+
+    const describe = (op: EditOp) => {
+      let text = this.summarizeOp(op, before.includes(op) ? before : after) || op.op;
+      if (op.label) text += ` "${op.label}"`;
+      if (op.enabled === false) text += ' (off)';
+      return text;
+    };
+    const comparable = (op: EditOp) => JSON.stringify({ ...op, id: undefined, createdAt: undefined });
+
+    const lines: string[] = [];
+    for (const [a, b] of pairs) {
+      if (comparable(a) !== comparable(b)) {
+        lines.push(`~ ${describe(a)} → ${describe(b)}`);
+      }
+    }
+    lines.push(...removed.map((op) => `- ${describe(op)}`));
+    lines.push(...added.map((op) => `+ ${describe(op)}`));
+
+    // Reordering of the ops present in both
+    const beforeOrder = before.filter((op) => pairs.some(([a]) => a === op));
+    const afterOrder = after.filter((op) => pairs.some(([, b]) => b === op));
+    const moved = beforeOrder.some((op, i) => pairs.find(([a]) => a === op)![1] !== afterOrder[i]);
+    if (moved) {
+      lines.push(`↕ ${beforeOrder.map((op) => op.op).join(', ')} → ${afterOrder.map((op) => op.op).join(', ')}`);
+    }
+
+    return lines;
+  }
+
+  // Replay the image's history journal (if any) and record every later change to it.
+  // Returns true when history was restored.
+  attachJournal(journal: HistoryJournal): boolean {
+    const state = journal.read();
+    this.journal = journal;
+    if (!state) {
+      return false;
+    }
+
+    const toStack = (ops: EditOp[]): EditStack => ({
+      version: EDIT_STACK_VERSION,
+      baseUri: this.currentStack.baseUri,
+      ops,
+    });
+    this.currentStack = toStack(state.ops);
+    this.undoStack = state.undo.map(toStack);
+    this.redoStack = state.redo.map(toStack);
+    this.opCounter = state.opCounter;
+
+    return state.ops.length > 0 || state.undo.length > 0 || state.redo.length > 0;
+  }
+
+  // Number of undo steps available
+  getUndoDepth(): number {
+    return this.undoStack.length;
+  }
+
+  // Save current state for undo before a change
+  private beginEdit(): void {
+    this.undoStack.push(JSON.parse(JSON.stringify(this.currentStack)));
+    this.redoStack = [];
+  }
+
+  // Stamp ops added by a finished change and record the change in the journal
+  private commitEdit(): void {
+    const now = new Date().toISOString();
+    for (const op of this.currentStack.ops) {
+      op.createdAt ??= now;
+    }
+
+    this.journal?.append(
+      { type: 'edit', version: EDIT_STACK_VERSION, ops: this.currentStack.ops, opCounter: this.opCounter },
+      () => this.getHistoryState()
+    );
+  }
+
+  private getHistoryState(): HistoryState {
+    return {
+      ops: this.currentStack.ops,
+      undo: this.undoStack.map((stack) => stack.ops),
+      redo: this.redoStack.map((stack) => stack.ops),
+      opCounter: this.opCounter,
+    };
   }
 
   // Get stack length
@@ -389,53 +1244,97 @@ export class EditStackManager {
     return this.currentStack.ops.length;
   }
 
-  // Get summary of full stack
-  getStackSummary(): string {
-    if (this.currentStack.ops.length === 0) return 'No operations';
+  // Get summary of full stack (or of other ops, e.g. a snapshot's); disabled ops are marked "(off)"
+  getStackSummary(ops: EditOp[] = this.currentStack.ops): string {
+    if (ops.length === 0) return 'No operations';
 
     const summaries: string[] = [];
 
-    for (const op of this.currentStack.ops) {
-      let summary = '';
-
-      if (op.op === 'crop') {
-        const cropOp = op as CropOp;
-        summary = 'Crop';
-        if (cropOp.aspect) {
-          summary += ` ${cropOp.aspect}`;
-        }
-        if (cropOp.angleDeg !== undefined && cropOp.angleDeg !== 0) {
-          summary += ` angle ${cropOp.angleDeg.toFixed(1)}`;
-        }
-      } else if (op.op === 'white_balance') {
-        const wbOp = op as WhiteBalanceOp;
-        if (wbOp.method === 'gray_point') {
-          summary = `WB(gray ${wbOp.x?.toFixed(2)},${wbOp.y?.toFixed(2)})`;
-        } else {
-          summary = `WB(temp ${wbOp.temp ?? 0} tint ${wbOp.tint ?? 0})`;
-        }
-      } else if (op.op === 'exposure') {
-        const expOp = op as ExposureOp;
-        summary = `EV ${expOp.ev > 0 ? '+' : ''}${expOp.ev.toFixed(2)}`;
-      } else if (op.op === 'contrast') {
-        const conOp = op as ContrastOp;
-        summary = `Contrast ${conOp.amt > 0 ? '+' : ''}${conOp.amt}`;
-      } else if (op.op === 'saturation') {
-        const satOp = op as SaturationOp;
-        summary = `Sat ${satOp.amt > 0 ? '+' : ''}${satOp.amt}`;
-      } else if (op.op === 'vibrance') {
-        const vibOp = op as VibranceOp;
-        summary = `Vib ${vibOp.amt > 0 ? '+' : ''}${vibOp.amt}`;
-      }
-
+    for (const op of ops) {
+      const summary = this.summarizeOp(op, ops);
       if (summary) {
-        summaries.push(summary);
+        summaries.push(op.enabled === false ? `${summary} (off)` : summary);
       }
     }
 
     return summaries.join(' • ');
   }
 
+  // One line per op with its position and id, e.g. "2. op_03 WB(5000K tint 0) (off)"
+  getOpListing(): string {
+    if (this.currentStack.ops.length === 0) return 'No operations';
+
+    return this.currentStack.ops
+      .map((op, index) => {
+        let line = `${index + 1}. ${op.id} ${this.summarizeOp(op) || op.op}`;
+        if (op.label) line += ` "${op.label}"`;
+        if (op.enabled === false) line += ' (off)';
+        return line;
+      })
+      .join('\n');
+  }
+
+  // Short description of one op, e.g. "EV +0.50". ROIs and gradients are numbered by their position
+  // among the ops of their type in ops.
+  private summarizeOp(op: EditOp, ops: EditOp[] = this.currentStack.ops): string {
+    let summary = '';
+
+    if (op.op === 'crop') {
+      const cropOp = op as CropOp;
+      summary = 'Crop';
+      if (cropOp.aspect) {
+        summary += ` ${cropOp.aspect}`;
+      }
+      if (cropOp.angleDeg !== undefined && cropOp.angleDeg !== 0) {
+        summary += ` angle ${cropOp.angleDeg.toFixed(1)}`;
+      }
+    } else if (op.op === 'white_balance') {
+      const wbOp = op as WhiteBalanceOp;
+      if (wbOp.method === 'gray_point') {
+        summary = `WB(gray ${wbOp.x?.toFixed(2)},${wbOp.y?.toFixed(2)})`;
+      } else if (wbOp.method === 'kelvin') {
+        summary = `WB(${wbOp.kelvin}K tint ${wbOp.tint ?? 0})`;
+      } else {
+        summary = `WB(temp ${wbOp.temp ?? 0} tint ${wbOp.tint ?? 0})`;
+      }
+    } else if (op.op === 'exposure') {
+      const expOp = op as ExposureOp;
+      summary = `EV ${expOp.ev > 0 ? '+' : ''}${expOp.ev.toFixed(2)}`;
+    } else if (op.op === 'contrast') {
+      const conOp = op as ContrastOp;
+      summary = `Contrast ${conOp.amt > 0 ? '+' : ''}${conOp.amt}`;
+    } else if (op.op === 'saturation') {
+      const satOp = op as SaturationOp;
+      summary = `Sat ${satOp.amt > 0 ? '+' : ''}${satOp.amt}`;
+    } else if (op.op === 'vibrance') {
+      const vibOp = op as VibranceOp;
+      summary = `Vib ${vibOp.amt > 0 ? '+' : ''}${vibOp.amt}`;
+    } else if (op.op === 'curve') {
+      summary = `Curve(${describeCurveChannels(op as CurveOp)})`;
+    } else if (op.op === 'levels') {
+      summary = `Levels(${describeLevels(op as LevelsOp)})`;
+    } else if (op.op === 'tone_regions') {
+      summary = `Tone(${describeToneRegions(op as ToneRegionsOp)})`;
+    } else if (op.op === 'hsl') {
+      summary = `HSL(${describeHslBands(op as HslOp)})`;
+    } else if (op.op === 'lut') {
+      summary = `LUT(${describeLut(op as LutOp)})`;
+    } else if (LOCAL_OP_TYPES.includes(op.op)) {
+      const number = ops.filter((o) => o.op === op.op).indexOf(op) + 1 || '?';
+      if (op.op === 'local_adjust') {
+        summary = `Local(roi#${number} ${describeLocalSliders(op)})`;
+      } else if (op.op === 'gradient_linear') {
+        summary = `Grad(#${number} ${describeLocalSliders(op)})`;
+      } else if (op.op === 'gradient_radial') {
+        summary = `Radial(#${number} ${describeLocalSliders(op)})`;
+      } else if (op.op === 'mask') {
+        summary = `Mask(${op.id}: ${describeMaskShapes(op)})`;
+      }
+    }
+
+    return summary;
+  }
+
   // Get summary of last operation
   getLastOpSummary(): string {
     const lastOp = this.currentStack.ops[this.currentStack.ops.length - 1];
@@ -463,6 +1362,8 @@ export class EditStackManager {
         parts.push(`gray ${wbOp.x?.toFixed(2)},${wbOp.y?.toFixed(2)}`);
       } else if (wbOp.method === 'temp_tint') {
         parts.push(`temp ${wbOp.temp} tint ${wbOp.tint}`);
+      } else if (wbOp.method === 'kelvin') {
+        parts.push(`${wbOp.kelvin}K tint ${wbOp.tint}`);
       }
     } else if (lastOp.op === 'exposure') {
       const expOp = lastOp as ExposureOp;
@@ -476,6 +1377,33 @@ export class EditStackManager {
     } else if (lastOp.op === 'vibrance') {
       const vibOp = lastOp as VibranceOp;
       parts.push(`${vibOp.amt > 0 ? '+' : ''}${vibOp.amt}`);
+    } else if (lastOp.op === 'curve') {
+      parts.push(describeCurveChannels(lastOp as CurveOp));
+    } else if (lastOp.op === 'levels') {
+      parts.push(describeLevels(lastOp as LevelsOp));
+    } else if (lastOp.op === 'tone_regions') {
+      parts.push(describeToneRegions(lastOp as ToneRegionsOp));
+    } else if (lastOp.op === 'hsl') {
+      parts.push(describeHslBands(lastOp as HslOp));
+    } else if (lastOp.op === 'lut') {
+      parts.push(describeLut(lastOp as LutOp));
+    } else if (lastOp.op === 'local_adjust') {
+      const [x, y, w, h] = (lastOp as LocalAdjustOp).roi;
+      parts.push(`roi=[${x.toFixed(2)},${y.toFixed(2)},${w.toFixed(2)},${h.toFixed(2)}]`);
+      parts.push(describeLocalSliders(lastOp as LocalAdjustOp));
+    } else if (lastOp.op === 'gradient_linear') {
+      const { start, end } = lastOp as GradientLinearOp;
+      parts.push(`from=[${start.map((v) => v.toFixed(2)).join(',')}] to=[${end.map((v) => v.toFixed(2)).join(',')}]`);
+      parts.push(describeLocalSliders(lastOp as GradientLinearOp));
+    } else if (lastOp.op === 'gradient_radial') {
+      const { center, radiusX, radiusY } = lastOp as GradientRadialOp;
+      parts.push(
+        `center=[${center.map((v) => v.toFixed(2)).join(',')}] radius=[${radiusX.toFixed(2)},${radiusY.toFixed(2)}]`
+      );
+      parts.push(describeLocalSliders(lastOp as GradientRadialOp));
+    } else if (lastOp.op === 'mask') {
+      const maskOp = lastOp as MaskOp;
+      parts.push(`${maskOp.id} ${describeMaskShapes(maskOp)}`);
     }
 
     return parts.join(' ');
@@ -483,7 +1411,8 @@ export class EditStackManager {
 
   // Compute hash of current stack for caching
   computeHash(): string {
-    const stackStr = JSON.stringify(this.currentStack.ops);
+    // Timestamps do not change the render, so equal edits hash the same
+    const stackStr = JSON.stringify(this.currentStack.ops.map((op) => ({ ...op, createdAt: undefined })));
     return crypto.createHash('sha256').update(stackStr).digest('hex').substring(0, 16);
   }
 
@@ -505,6 +1434,135 @@ export class EditStackManager {
   }
 }
 
+// Describe which curve channels are set, e.g. "master 4pt, b 3pt"
+function describeCurveChannels(op: CurveOp): string {
+  const channels = (['master', 'r', 'g', 'b'] as const)
+    .filter((channel) => op[channel] && op[channel]!.length > 0)
+    .map((channel) => `${channel} ${op[channel]!.length}pt`);
+  return channels.length > 0 ? channels.join(', ') : 'linear';
+}
+
+// Describe levels, e.g. "12-240 γ1.10 out 0-250 [b]"
+function describeLevels(op: LevelsOp): string {
+  let text = `${op.inBlack}-${op.inWhite} γ${op.gamma.toFixed(2)}`;
+  if (op.outBlack !== DEFAULT_LEVELS.outBlack || op.outWhite !== DEFAULT_LEVELS.outWhite) {
+    text += ` out ${op.outBlack}-${op.outWhite}`;
+  }
+  const channels = (['r', 'g', 'b'] as const).filter((channel) => op[channel]);
+  if (channels.length > 0) {
+    text += ` [${channels.join(',')}]`;
+  }
+  return text;
+}
+
+// Describe non-zero tone region sliders, e.g. "hl -40 sh +30"
+function describeToneRegions(op: ToneRegionsOp): string {
+  const sliders: Array<[string, number]> = [
+    ['hl', op.highlights],
+    ['sh', op.shadows],
+    ['wh', op.whites],
+    ['bl', op.blacks],
+  ];
+  const parts = sliders
+    .filter(([, value]) => value !== 0)
+    .map(([name, value]) => `${name} ${value > 0 ? '+' : ''}${value}`);
+  return parts.length > 0 ? parts.join(' ') : 'none';
+}
+
+// Describe adjusted HSL bands, e.g. "blue s-20 l-10, orange h+5"
+function describeHslBands(op: HslOp): string {
+  const signed = (v: number) => `${v > 0 ? '+' : ''}${v}`;
+  const bands = HSL_BANDS.filter((band) => op.bands[band]).map((band) => {
+    const { hue, sat, lum } = op.bands[band]!;
+    const fields = [hue ? `h${signed(hue)}` : '', sat ? `s${signed(sat)}` : '', lum ? `l${signed(lum)}` : ''];
+    return [band, ...fields.filter(Boolean)].join(' ');
+  });
+  return bands.length > 0 ? bands.join(', ') : 'none';
+}
+
+// Describe a LUT by file name, e.g. "film.cube 60% trilinear" (full opacity and tetrahedral are omitted)
+function describeLut(op: LutOp): string {
+  const parts = [op.path.split(/[\\/]/).pop()];
+  if (op.opacity !== 100) parts.push(`${op.opacity}%`);
+  if (op.interpolation === 'trilinear') parts.push('trilinear');
+  return parts.join(' ');
+}
+
+// Adjustment sliders shared by local adjustments and gradients
+interface LocalSliders {
+  ev?: number;
+  temp?: number;
+  contrast?: number;
+  saturation?: number;
+  vibrance?: number;
+}
+
+// The non-zero sliders of a local adjustment or gradient, with EV clamped to ±3 and the others to ±100
+function localSliders(options: LocalSliders): LocalSliders {
+  const sliders: LocalSliders = {};
+  if (options.ev) {
+    sliders.ev = Math.max(-3, Math.min(3, options.ev));
+  }
+  for (const field of ['temp', 'contrast', 'saturation', 'vibrance'] as const) {
+    if (options[field]) {
+      sliders[field] = Math.max(-100, Math.min(100, options[field]!));
+    }
+  }
+  return sliders;
+}
+
+// Describe the non-zero sliders of a local adjustment or gradient, e.g. "ev +0.3 saturation -20"
+// ("outside" when inverted, followed by the mask id when masked)
+function describeLocalSliders(op: LocalSliders & { invert?: boolean; mask?: string }): string {
+  const signed = (v: number) => `${v > 0 ? '+' : ''}${v}`;
+  const parts: string[] = [];
+  if (op.ev) parts.push(`ev ${signed(op.ev)}`);
+  for (const field of ['temp', 'contrast', 'saturation', 'vibrance'] as const) {
+    if (op[field]) parts.push(`${field} ${signed(op[field]!)}`);
+  }
+  if (parts.length === 0) parts.push('none');
+  if (op.invert) parts.unshift('outside');
+  if (op.mask) parts.push(`mask ${op.mask}`);
+  return parts.join(' ');
+}
+
+// Describe a mask's shapes in order, e.g. "polygon 5pt + brush 3pt r0.05 ∩ luma 70-100"
+function describeMaskShapes(op: MaskOp): string {
+  const symbols: Record<MaskMode, string> = { add: '+', subtract: '−', intersect: '∩' };
+  return op.shapes
+    .map((shape, index) => {
+      let text: string;
+      if (shape.type === 'luminance') {
+        text = `luma ${shape.range[0]}-${shape.range[1]}`;
+      } else if (shape.type === 'color') {
+        text = `color h${shape.hue}±${shape.hueRange}`;
+      } else if (shape.type === 'auto') {
+        text = `auto ${shape.kind}`;
+      } else {
+        text = `${shape.type} ${shape.points.length}pt`;
+        if (shape.type === 'brush') text += ` r${shape.radius.toFixed(2)}`;
+      }
+      return index === 0 && shape.mode === 'add' ? text : `${symbols[shape.mode]} ${text}`;
+    })
+    .join(' ');
+}
+
+// Ops that renderers apply (disabled ops stay in the stack but are skipped)
+export function activeOps<T extends { enabled?: boolean }>(ops: T[]): T[] {
+  return ops.filter((op) => op.enabled !== false);
+}
+
+// Deep-merge a patch into an op: plain objects merge, everything else replaces
+function mergePatch(target: unknown, patch: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...(target as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(patch)) {
+    const current = merged[key];
+    const isObject = (v: unknown) => typeof v === 'object' && v !== null && !Array.isArray(v);
+    merged[key] = isObject(value) && isObject(current) ? mergePatch(current, value as Record<string, unknown>) : value;
+  }
+  return merged;
+}
+
 // Helper to merge partial crop options with defaults
 export function mergeCropOptions(partial: Partial<CropOp>, imageWidth: number, imageHeight: number): CropOp {
   const merged: CropOp = {
@@ -0,0 +1,298 @@
+// Canonical edit stack schema: the zod validators, the TypeScript types (src/editStack.ts re-exports
+// them) and the JSON schema in the MCP tool listings are all generated from the definitions here.
+// Add new ops to EditOpSchema only.
+
+import { z } from 'zod';
+
+// Current edit stack version; older stacks are upgraded by migrateStack()
+export const EDIT_STACK_VERSION = 2;
+
+// Hue bands of the HSL mixer, in hue order
+export const HSL_BANDS = ['red', 'orange', 'yellow', 'green', 'aqua', 'blue', 'purple', 'magenta'] as const;
+
+// Regions an automatic mask can find (see autoMask.ts)
+export const AUTO_MASK_KINDS = ['sky', 'subject', 'background'] as const;
+
+// Most control points in one curve channel, endpoints included
+export const MAX_CURVE_POINTS = 16;
+
+const CurvePointsSchema = z
+  .array(z.tuple([z.number().min(0).max(1), z.number().min(0).max(1)]))
+  .min(2)
+  .max(MAX_CURVE_POINTS)
+  .describe('Control points [input, output] in [0..1]');
+
+const HslAdjustmentSchema = z.object({
+  hue: z.number().min(-100).max(100).describe('Hue shift, ±100 = ±30°'),
+  sat: z.number().min(-100).max(100).describe('Saturation, -100 = fully desaturated'),
+  lum: z.number().min(-100).max(100).describe('Luminance'),
+});
+
+const LevelsParamsSchema = z.object({
+  inBlack: z.number().min(0).max(255).describe('Input black point'),
+  inWhite: z.number().min(0).max(255).describe('Input white point (> inBlack)'),
+  gamma: z.number().min(0.1).max(10).describe('Midtone gamma, 1 = no-op, >1 brightens'),
+  outBlack: z.number().min(0).max(255).describe('Output black point'),
+  outWhite: z.number().min(0).max(255).describe('Output white point'),
+});
+
+// Point in [0..1] of the original image
+const PointSchema = z.tuple([z.number().min(0).max(1), z.number().min(0).max(1)]);
+
+// Id of a mask op that limits a local op to the painted area
+const MaskRefSchema = z.string().optional().describe('Mask op id; the op only applies where the mask is painted');
+
+// Fields shared by every op (enabled, label and createdAt are new in v2)
+const OpBaseSchema = z.object({
+  id: z.string(),
+  enabled: z.boolean().optional().describe('false keeps the op in the stack without applying it'),
+  label: z.string().optional().describe('User-facing name for the op'),
+  createdAt: z.string().optional().describe('ISO timestamp of when the op was added'),
+});
+
+const CropOpSchema = OpBaseSchema.extend({
+  op: z.literal('crop'),
+  rectNorm: z
+    .tuple([z.number(), z.number(), z.number(), z.number()])
+    .optional()
+    .describe('[x, y, w, h] in [0..1] of the original image'),
+  angleDeg: z.number().optional().describe('Rotation in degrees, applied after the crop'),
+  aspect: z.string().optional().describe('Aspect ratio hint, e.g. "1:1", "3:2", "16:9"'),
+}).describe('Crop and rotate');
+
+const WhiteBalanceOpSchema = OpBaseSchema.extend({
+  op: z.literal('white_balance'),
+  method: z.enum(['gray_point', 'temp_tint', 'kelvin']),
+  x: z.number().min(0).max(1).optional().describe('gray_point: x normalized to the original image'),
+  y: z.number().min(0).max(1).optional().describe('gray_point: y normalized to the original image'),
+  temp: z.number().min(-100).max(100).optional().describe('temp_tint: relative temperature'),
+  tint: z.number().min(-100).max(100).optional().describe('temp_tint and kelvin: positive = magenta'),
+  kelvin: z.number().min(2000).max(15000).optional().describe('kelvin: scene illuminant'),
+}).describe('White balance');
+
+const ExposureOpSchema = OpBaseSchema.extend({
+  op: z.literal('exposure'),
+  ev: z.number().min(-3).max(3).describe('EV stops'),
+}).describe('Exposure');
+
+const ContrastOpSchema = OpBaseSchema.extend({
+  op: z.literal('contrast'),
+  amt: z.number().min(-100).max(100).describe('Percent'),
+}).describe('Contrast');
+
+const SaturationOpSchema = OpBaseSchema.extend({
+  op: z.literal('saturation'),
+  amt: z.number().min(-100).max(100).describe('Percent, 0 = no-op'),
+}).describe('Saturation');
+
+const VibranceOpSchema = OpBaseSchema.extend({
+  op: z.literal('vibrance'),
+  amt: z.number().min(-100).max(100).describe('Percent, protects already-saturated colors'),
+}).describe('Vibrance');
+
+const CurveOpSchema = OpBaseSchema.extend({
+  op: z.literal('curve'),
+  master: CurvePointsSchema.optional().describe('Applied to all channels after the per-channel curves'),
+  r: CurvePointsSchema.optional(),
+  g: CurvePointsSchema.optional(),
+  b: CurvePointsSchema.optional(),
+}).describe('Tone curve (monotone spline per channel)');
+
+const LevelsOpSchema = OpBaseSchema.extend({
+  ...LevelsParamsSchema.shape,
+  op: z.literal('levels'),
+  r: LevelsParamsSchema.optional(),
+  g: LevelsParamsSchema.optional(),
+  b: LevelsParamsSchema.optional(),
+}).describe('Levels in 8-bit units; master applies after the optional per-channel levels');
+
+const ToneRegionsOpSchema = OpBaseSchema.extend({
+  op: z.literal('tone_regions'),
+  highlights: z.number().min(-100).max(100),
+  shadows: z.number().min(-100).max(100),
+  whites: z.number().min(-100).max(100),
+  blacks: z.number().min(-100).max(100),
+}).describe('Tonal region sliders, each limited to its part of the luminance range');
+
+const HslOpSchema = OpBaseSchema.extend({
+  op: z.literal('hsl'),
+  bands: z.partialRecord(z.enum(HSL_BANDS), HslAdjustmentSchema).describe('Bands without adjustments are omitted'),
+}).describe('Per-hue HSL mixer');
+
+const LutOpSchema = OpBaseSchema.extend({
+  op: z.literal('lut'),
+  path: z.string().min(1).describe('.cube or .3dl file, relative to the session root'),
+  interpolation: z.enum(['trilinear', 'tetrahedral']).optional().describe('Default tetrahedral'),
+  opacity: z.number().min(0).max(100).describe('Percent blend of the LUT output over its input'),
+}).describe('3D LUT on encoded values');
+
+const LocalAdjustOpSchema = OpBaseSchema.extend({
+  op: z.literal('local_adjust'),
+  roi: z
+    .tuple([z.number(), z.number(), z.number(), z.number()])
+    .describe('[x, y, w, h] in [0..1] of the original image'),
+  feather: z.number().min(0).max(100).describe('Soft edge width, percent of the shorter ROI side'),
+  invert: z.boolean().optional().describe('Adjust outside the ROI instead of inside it'),
+  ev: z.number().min(-3).max(3).optional().describe('EV stops'),
+  temp: z.number().min(-100).max(100).optional().describe('Relative temperature, positive = warmer'),
+  contrast: z.number().min(-100).max(100).optional(),
+  saturation: z.number().min(-100).max(100).optional(),
+  vibrance: z.number().min(-100).max(100).optional(),
+  mask: MaskRefSchema,
+}).describe('Exposure, temperature, contrast, saturation and vibrance inside a feathered rectangle (ROI)');
+
+const GradientLinearOpSchema = OpBaseSchema.extend({
+  op: z.literal('gradient_linear'),
+  start: PointSchema.describe('Where the effect is full'),
+  end: PointSchema.describe('Where the effect has faded out'),
+  feather: z.number().min(0).max(100).describe('Transition width, percent of the start-end distance'),
+  ev: z.number().min(-3).max(3).optional().describe('EV stops'),
+  temp: z.number().min(-100).max(100).optional().describe('Relative temperature, positive = warmer'),
+  contrast: z.number().min(-100).max(100).optional(),
+  saturation: z.number().min(-100).max(100).optional(),
+  mask: MaskRefSchema,
+}).describe('Exposure, temperature, contrast and saturation fading from a start point to an end point');
+
+const GradientRadialOpSchema = OpBaseSchema.extend({
+  op: z.literal('gradient_radial'),
+  center: PointSchema,
+  radiusX: z.number().gt(0).max(1).describe('Horizontal radius, share of the original width'),
+  radiusY: z.number().gt(0).max(1).describe('Vertical radius, share of the original height'),
+  feather: z.number().min(0).max(100).describe('Soft edge width, percent of the radius'),
+  invert: z.boolean().optional().describe('Adjust outside the ellipse instead of inside it'),
+  ev: z.number().min(-3).max(3).optional().describe('EV stops'),
+  temp: z.number().min(-100).max(100).optional().describe('Relative temperature, positive = warmer'),
+  contrast: z.number().min(-100).max(100).optional(),
+  saturation: z.number().min(-100).max(100).optional(),
+  mask: MaskRefSchema,
+}).describe('Exposure, temperature, contrast and saturation inside a feathered ellipse');
+
+const MaskModeSchema = z
+  .enum(['add', 'subtract', 'intersect'])
+  .describe('How the shape combines with the shapes before it');
+
+const PolygonShapeSchema = z.object({
+  type: z.literal('polygon'),
+  mode: MaskModeSchema,
+  points: z.array(PointSchema).min(3).describe('Vertices'),
+});
+
+const BrushShapeSchema = z.object({
+  type: z.literal('brush'),
+  mode: MaskModeSchema,
+  points: z.array(PointSchema).min(1).describe('Stroke path; a single point is a dab'),
+  radius: z.number().gt(0).max(1).describe('Brush radius, share of the shorter image side'),
+  hardness: z.number().min(0).max(100).describe('Percent of the radius painted at full strength'),
+});
+
+const LuminanceShapeSchema = z.object({
+  type: z.literal('luminance'),
+  mode: MaskModeSchema,
+  range: z.tuple([z.number().min(0).max(100), z.number().min(0).max(100)]).describe('L* range selected in full'),
+  falloff: z.number().min(0).max(50).describe('L* units over which the selection fades out past the range'),
+});
+
+const ColorShapeSchema = z.object({
+  type: z.literal('color'),
+  mode: MaskModeSchema,
+  hue: z.number().min(0).max(360).describe('LCh hue angle in degrees'),
+  hueRange: z.number().min(0).max(180).describe('Degrees either side of hue selected in full'),
+  falloff: z.number().min(0).max(180).describe('Degrees over which the selection fades out past hueRange'),
+  minChroma: z.number().min(0).max(100).describe('Chroma below which pixels fade out, so grays are left alone'),
+});
+
+const AutoShapeSchema = z.object({
+  type: z.literal('auto'),
+  mode: MaskModeSchema,
+  kind: z.enum(AUTO_MASK_KINDS).describe('Region found in the image with classical computer vision'),
+});
+
+const MaskShapeSchema = z.discriminatedUnion('type', [
+  PolygonShapeSchema,
+  BrushShapeSchema,
+  LuminanceShapeSchema,
+  ColorShapeSchema,
+  AutoShapeSchema,
+]);
+
+const MaskOpSchema = OpBaseSchema.extend({
+  op: z.literal('mask'),
+  shapes: z.array(MaskShapeSchema).min(1).describe('Combined in order, starting from an empty mask'),
+}).describe('Mask that local adjustments and gradients reference by op id');
+
+export const EditOpSchema = z.discriminatedUnion('op', [
+  CropOpSchema,
+  WhiteBalanceOpSchema,
+  ExposureOpSchema,
+  ContrastOpSchema,
+  SaturationOpSchema,
+  VibranceOpSchema,
+  CurveOpSchema,
+  LevelsOpSchema,
+  ToneRegionsOpSchema,
+  HslOpSchema,
+  LutOpSchema,
+  LocalAdjustOpSchema,
+  GradientLinearOpSchema,
+  GradientRadialOpSchema,
+  MaskOpSchema,
+]);
+
+// Edit stack as sent to the MCP tools and written to .editstack.json sidecars
+export const EditStackSchema = z.object({
+  version: z.literal(EDIT_STACK_VERSION),
+  baseUri: z.string(),
+  ops: z.array(EditOpSchema),
+});
+
+// Any supported stack version, upgraded to the current one. Use this wherever stacks come from
+// outside the process (tool arguments, sidecars). v1 stacks have the same ops without the v2 op
+// fields, so upgrading only bumps the version.
+export const VersionedEditStackSchema = EditStackSchema.extend({
+  version: z.union([z.literal(1), z.literal(EDIT_STACK_VERSION)], {
+    error: `Unsupported edit stack version (expected 1-${EDIT_STACK_VERSION})`,
+  }),
+}).transform((stack): EditStack => ({ ...stack, version: EDIT_STACK_VERSION }));
+
+export type EditStack = z.infer<typeof EditStackSchema>;
+export type EditOp = z.infer<typeof EditOpSchema>;
+export type CropOp = z.infer<typeof CropOpSchema>;
+export type WhiteBalanceOp = z.infer<typeof WhiteBalanceOpSchema>;
+export type ExposureOp = z.infer<typeof ExposureOpSchema>;
+export type ContrastOp = z.infer<typeof ContrastOpSchema>;
+export type SaturationOp = z.infer<typeof SaturationOpSchema>;
+export type VibranceOp = z.infer<typeof VibranceOpSchema>;
+export type CurveOp = z.infer<typeof CurveOpSchema>;
+export type LevelsOp = z.infer<typeof LevelsOpSchema>;
+export type ToneRegionsOp = z.infer<typeof ToneRegionsOpSchema>;
+export type HslOp = z.infer<typeof HslOpSchema>;
+export type LutOp = z.infer<typeof LutOpSchema>;
+export type LocalAdjustOp = z.infer<typeof LocalAdjustOpSchema>;
+export type GradientLinearOp = z.infer<typeof GradientLinearOpSchema>;
+export type GradientRadialOp = z.infer<typeof GradientRadialOpSchema>;
+export type MaskOp = z.infer<typeof MaskOpSchema>;
+export type MaskShape = z.infer<typeof MaskShapeSchema>;
+export type MaskMode = z.infer<typeof MaskModeSchema>;
+export type LevelsParams = z.infer<typeof LevelsParamsSchema>;
+export type HslAdjustment = z.infer<typeof HslAdjustmentSchema>;
+export type HslBand = (typeof HSL_BANDS)[number];
+export type AutoMaskKind = (typeof AUTO_MASK_KINDS)[number];
+export type CurvePoint = [number, number];
+
+// JSON schema of the editStack argument in the MCP tool listings
+export const EDIT_STACK_JSON_SCHEMA = (() => {
+  const { $schema, ...schema } = z.toJSONSchema(VersionedEditStackSchema, { io: 'input' });
+  return schema;
+})();
+
+// Validate a stack of any supported version and upgrade it to the current version.
+// Throws with the first problem found, e.g. "ops.0.ev: Too big: expected number to be <=3".
+export function migrateStack(input: unknown): EditStack {
+  const result = VersionedEditStackSchema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const where = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    throw new Error(`${where}${issue.message}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,65 @@
+// Export formats accepted by commit_version, :export and the export_image planner call
+
+export const EXPORT_FORMATS = ['jpeg', 'png', 'png16', 'tiff', 'webp', 'avif', 'heif', 'jxl'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// File extensions per format; the first one is used for default export paths
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string[]> = {
+  jpeg: ['.jpg', '.jpeg'],
+  png: ['.png'],
+  png16: ['.png'],
+  tiff: ['.tif', '.tiff'],
+  webp: ['.webp'],
+  avif: ['.avif'],
+  heif: ['.heic', '.heif'],
+  jxl: ['.jxl'],
+};
+
+// Encoder effort per format (higher = slower and smaller); formats without an effort knob are absent
+export const EXPORT_EFFORT: Partial<Record<ExportFormat, { min: number; max: number; default: number }>> = {
+  webp: { min: 0, max: 6, default: 4 },
+  avif: { min: 0, max: 9, default: 4 },
+  heif: { min: 0, max: 9, default: 4 },
+  jxl: { min: 1, max: 9, default: 7 },
+};
+
+// Formats with a lossless mode
+export const LOSSLESS_FORMATS: ReadonlySet<ExportFormat> = new Set<ExportFormat>(['webp', 'avif', 'heif', 'jxl']);
+
+// Formats written at 16 bits per channel
+export const HIGH_BIT_DEPTH_FORMATS: ReadonlySet<ExportFormat> = new Set<ExportFormat>(['png16', 'tiff']);
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+// Extension (with dot) used for default export paths
+export function defaultExtension(format: ExportFormat): string {
+  return EXPORT_EXTENSIONS[format][0];
+}
+
+// Format implied by a file extension (.png maps to 8-bit png), or undefined if unknown
+export function formatFromPath(filePath: string): ExportFormat | undefined {
+  const ext = extensionOf(filePath);
+  return EXPORT_FORMATS.find((format) => EXPORT_EXTENSIONS[format].includes(ext));
+}
+
+// Whether a destination path has an extension that matches the format
+export function extensionMatchesFormat(filePath: string, format: ExportFormat): boolean {
+  return EXPORT_EXTENSIONS[format].includes(extensionOf(filePath));
+}
+
+// Clamp an effort value to the format's range, or return the format default
+export function clampEffort(format: ExportFormat, effort?: number): number | undefined {
+  const range = EXPORT_EFFORT[format];
+  if (!range) return undefined;
+  if (effort === undefined) return range.default;
+  return Math.max(range.min, Math.min(range.max, Math.round(effort)));
+}
+
+function extensionOf(filePath: string): string {
+  const base = filePath.split(/[\\/]/).pop() || '';
+  const dot = base.lastIndexOf('.');
+  return dot > 0 ? base.slice(dot).toLowerCase() : '';
+}
@@ -0,0 +1,239 @@
+// Output resizing, output sharpening and multi-rendition export recipes for commit_version and :export
+
+import { ExportFormat, isExportFormat } from './exportFormats.js';
+
+export const RESIZE_FITS = ['cover', 'contain', 'fill', 'inside', 'outside'] as const;
+
+export type ResizeFit = (typeof RESIZE_FITS)[number];
+
+// Output size; every mode except exact keeps the aspect ratio
+export type ResizeSpec =
+  | { mode: 'long_edge'; size: number }
+  | { mode: 'short_edge'; size: number }
+  | { mode: 'exact'; width: number; height: number; fit: ResizeFit }
+  | { mode: 'megapixels'; megapixels: number }
+  | { mode: 'percent'; percent: number };
+
+export const SHARPEN_AMOUNTS = ['none', 'low', 'standard', 'high'] as const;
+
+export type SharpenAmount = (typeof SHARPEN_AMOUNTS)[number];
+
+// Unsharp mask settings per amount (sigma in output pixels, m1 = flat areas, m2 = edges)
+export const SHARPEN_SETTINGS: Record<Exclude<SharpenAmount, 'none'>, { sigma: number; m1: number; m2: number }> = {
+  low: { sigma: 0.5, m1: 0.5, m2: 1 },
+  standard: { sigma: 0.8, m1: 1, m2: 2 },
+  high: { sigma: 1.2, m1: 1.5, m2: 3 },
+};
+
+export interface ExportRendition {
+  name: string; // Appended to the output file name, e.g. photo_web.jpg
+  format: ExportFormat;
+  quality?: number;
+  resize?: ResizeSpec;
+  sharpen?: SharpenAmount;
+}
+
+export interface ExportRecipe {
+  name: string;
+  renditions: ExportRendition[];
+}
+
+const WEB_RENDITION: ExportRendition = {
+  name: 'web',
+  format: 'jpeg',
+  quality: 85,
+  resize: { mode: 'long_edge', size: 2048 },
+  sharpen: 'standard',
+};
+
+const INSTAGRAM_RENDITION: ExportRendition = {
+  name: 'instagram',
+  format: 'jpeg',
+  quality: 90,
+  resize: { mode: 'exact', width: 1080, height: 1080, fit: 'cover' },
+  sharpen: 'standard',
+};
+
+const PRINT_RENDITION: ExportRendition = {
+  name: 'print',
+  format: 'tiff',
+};
+
+// Built-in recipes for :export --recipe <name>
+export const EXPORT_RECIPES: Record<string, ExportRecipe> = {
+  web: { name: 'web', renditions: [WEB_RENDITION] },
+  instagram: { name: 'instagram', renditions: [INSTAGRAM_RENDITION] },
+  print: { name: 'print', renditions: [PRINT_RENDITION] },
+  delivery: { name: 'delivery', renditions: [WEB_RENDITION, INSTAGRAM_RENDITION, PRINT_RENDITION] },
+};
+
+// Output dimensions and sharp fit mode for a resize spec; never upscales
+export function resizeTarget(
+  width: number,
+  height: number,
+  spec: ResizeSpec
+): { width: number; height: number; fit: ResizeFit } {
+  if (spec.mode === 'exact') {
+    return { width: spec.width, height: spec.height, fit: spec.fit };
+  }
+
+  let scale: number;
+  if (spec.mode === 'long_edge') {
+    scale = spec.size / Math.max(width, height);
+  } else if (spec.mode === 'short_edge') {
+    scale = spec.size / Math.min(width, height);
+  } else if (spec.mode === 'megapixels') {
+    scale = Math.sqrt((spec.megapixels * 1e6) / (width * height));
+  } else {
+    scale = spec.percent / 100;
+  }
+  scale = Math.min(1, scale);
+
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+    fit: 'fill',
+  };
+}
+
+// Parse the :export --resize syntax: 2048, long:2048, short:1080, 1080x1080[:fit], 12mp, 50%
+export function parseResizeSpec(text: string): ResizeSpec {
+  const value = text.trim().toLowerCase();
+
+  const longMatch = value.match(/^(?:long:)?(\d+)$/);
+  if (longMatch) {
+    return { mode: 'long_edge', size: positive(longMatch[1], text) };
+  }
+
+  const shortMatch = value.match(/^short:(\d+)$/);
+  if (shortMatch) {
+    return { mode: 'short_edge', size: positive(shortMatch[1], text) };
+  }
+
+  const exactMatch = value.match(/^(\d+)x(\d+)(?::(\w+))?$/);
+  if (exactMatch) {
+    const fit = exactMatch[3] ?? 'cover';
+    if (!(RESIZE_FITS as readonly string[]).includes(fit)) {
+      throw new Error(`Invalid resize fit: ${fit} (use ${RESIZE_FITS.join(', ')})`);
+    }
+    return {
+      mode: 'exact',
+      width: positive(exactMatch[1], text),
+      height: positive(exactMatch[2], text),
+      fit: fit as ResizeFit,
+    };
+  }
+
+  const mpMatch = value.match(/^(\d+(?:\.\d+)?)mp$/);
+  if (mpMatch) {
+    return { mode: 'megapixels', megapixels: positive(mpMatch[1], text) };
+  }
+
+  const percentMatch = value.match(/^(\d+(?:\.\d+)?)%$/);
+  if (percentMatch) {
+    return { mode: 'percent', percent: positive(percentMatch[1], text) };
+  }
+
+  throw new Error(`Invalid resize: ${text} (use 2048, long:2048, short:1080, 1080x1080[:fit], 12mp or 50%)`);
+}
+
+// Short human-readable description, e.g. "2048px long edge"
+export function formatResizeSpec(spec: ResizeSpec): string {
+  switch (spec.mode) {
+    case 'long_edge':
+      return `${spec.size}px long edge`;
+    case 'short_edge':
+      return `${spec.size}px short edge`;
+    case 'exact':
+      return `${spec.width}×${spec.height} ${spec.fit}`;
+    case 'megapixels':
+      return `${spec.megapixels}MP`;
+    case 'percent':
+      return `${spec.percent}%`;
+  }
+}
+
+// Validate a recipe loaded from JSON; throws with the first problem found
+export function parseExportRecipe(value: unknown, fallbackName = 'custom'): ExportRecipe {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Export recipe must be a JSON object');
+  }
+  const raw = value as { name?: unknown; renditions?: unknown };
+  if (!Array.isArray(raw.renditions) || raw.renditions.length === 0) {
+    throw new Error('Export recipe needs a non-empty "renditions" array');
+  }
+
+  const names = new Set<string>();
+  const renditions = raw.renditions.map((entry: any, index: number): ExportRendition => {
+    const where = `rendition ${index + 1}`;
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`Export recipe ${where} must be an object`);
+    }
+    if (typeof entry.name !== 'string' || !/^[\w-]+$/.test(entry.name)) {
+      throw new Error(`Export recipe ${where} needs a "name" of letters, digits, _ or -`);
+    }
+    if (names.has(entry.name)) {
+      throw new Error(`Export recipe has duplicate rendition name: ${entry.name}`);
+    }
+    names.add(entry.name);
+    if (!isExportFormat(entry.format)) {
+      throw new Error(`Export recipe ${entry.name} has unsupported format: ${entry.format}`);
+    }
+    if (
+      entry.quality !== undefined &&
+      !(typeof entry.quality === 'number' && entry.quality >= 1 && entry.quality <= 100)
+    ) {
+      throw new Error(`Export recipe ${entry.name} quality must be 1-100`);
+    }
+    if (entry.sharpen !== undefined && !(SHARPEN_AMOUNTS as readonly string[]).includes(entry.sharpen)) {
+      throw new Error(`Export recipe ${entry.name} sharpen must be one of ${SHARPEN_AMOUNTS.join(', ')}`);
+    }
+
+    return {
+      name: entry.name,
+      format: entry.format,
+      ...(entry.quality !== undefined && { quality: entry.quality }),
+      ...(entry.resize !== undefined && { resize: parseRecipeResize(entry.resize, entry.name) }),
+      ...(entry.sharpen !== undefined && { sharpen: entry.sharpen }),
+    };
+  });
+
+  return { name: typeof raw.name === 'string' && raw.name ? raw.name : fallbackName, renditions };
+}
+
+// Recipe resize may be the --resize string form or a ResizeSpec object
+function parseRecipeResize(value: unknown, renditionName: string): ResizeSpec {
+  if (typeof value === 'string') {
+    return parseResizeSpec(value);
+  }
+  const spec = value as Partial<Record<string, unknown>> | null;
+  const isPositive = (v: unknown) => typeof v === 'number' && v > 0;
+
+  if (spec?.mode === 'long_edge' || spec?.mode === 'short_edge') {
+    if (isPositive(spec.size)) return { mode: spec.mode, size: Math.max(1, Math.round(spec.size as number)) };
+  } else if (spec?.mode === 'exact') {
+    const fit = spec.fit ?? 'cover';
+    if (isPositive(spec.width) && isPositive(spec.height) && (RESIZE_FITS as readonly unknown[]).includes(fit)) {
+      return {
+        mode: 'exact',
+        width: Math.max(1, Math.round(spec.width as number)),
+        height: Math.max(1, Math.round(spec.height as number)),
+        fit: fit as ResizeFit,
+      };
+    }
+  } else if (spec?.mode === 'megapixels') {
+    if (isPositive(spec.megapixels)) return { mode: 'megapixels', megapixels: spec.megapixels as number };
+  } else if (spec?.mode === 'percent') {
+    if (isPositive(spec.percent)) return { mode: 'percent', percent: spec.percent as number };
+  }
+
+  throw new Error(`Export recipe ${renditionName} has an invalid resize`);
+}
+
+function positive(digits: string, original: string): number {
+  const value = Number(digits);
+  if (!(value > 0)) {
+    throw new Error(`Invalid resize: ${original} (size must be positive)`);
+  }
+  return value;
+}
@@ -1,6 +1,10 @@
 import sharp from 'sharp';
-import { EditStack } from './editStack.js';
-import { applyColorOperations } from './imageProcessing.js';
+import { EditStack, activeOps } from './editStack.js';
+import { applyColorOperations, isColorOp } from './imageProcessing.js';
+import { isMaskOp } from './masks.js';
+
+// Share of samples auto levels is allowed to clip at each end
+export const AUTO_LEVELS_CLIP_PCT = 0.1;
 
 export interface HistogramData {
   hist: {
@@ -11,6 +15,8 @@ export interface HistogramData {
     clip: {
       lowPct: number; // Percentage of pixels at 0
       highPct: number; // Percentage of pixels at 255
+      blackPoint: number; // Channel value (0-255) with AUTO_LEVELS_CLIP_PCT of samples at or below
+      whitePoint: number; // Channel value (0-255) with AUTO_LEVELS_CLIP_PCT of samples at or above
     };
   };
 }
@@ -39,17 +45,11 @@ export async function computeHistogram(
   }
 
   // Apply color operations from edit stack (before geometry)
-  const colorOps = editStack.ops.filter(
-    (op) =>
-      op.op === 'white_balance' ||
-      op.op === 'exposure' ||
-      op.op === 'contrast' ||
-      op.op === 'saturation' ||
-      op.op === 'vibrance'
-  );
+  const colorOps = activeOps(editStack.ops).filter(isColorOp);
+  const masks = activeOps(editStack.ops).filter(isMaskOp);
 
   if (colorOps.length > 0) {
-    pipeline = await applyColorOperations(pipeline, colorOps as any, metadata);
+    pipeline = await applyColorOperations(pipeline, colorOps, 8, masks);
   }
 
   // Get raw buffer after color operations
@@ -64,6 +64,9 @@ export async function computeHistogram(
   const histG = new Array(bins).fill(0);
   const histB = new Array(bins).fill(0);
 
+  // Full-resolution counts of R, G and B samples for black/white points
+  const valueCounts = new Array(256).fill(0);
+
   // Count clipped pixels
   let lowClipped = 0;
   let highClipped = 0;
@@ -88,6 +91,9 @@ export async function computeHistogram(
     histR[rBin]++;
     histG[gBin]++;
     histB[bBin]++;
+    valueCounts[r]++;
+    valueCounts[g]++;
+    valueCounts[b]++;
 
     // Check for clipping
     if (r === 0 || g === 0 || b === 0) {
@@ -108,6 +114,21 @@ export async function computeHistogram(
   const lowPct = Math.round((lowClipped / pixelCount) * 1000) / 10; // Round to 1 decimal
   const highPct = Math.round((highClipped / pixelCount) * 1000) / 10;
 
+  // Find the black/white points at the auto levels clip target
+  const tailCount = (valueCounts.reduce((sum, count) => sum + count, 0) * AUTO_LEVELS_CLIP_PCT) / 100;
+  let blackPoint = 0;
+  let lowTail = valueCounts[0];
+  while (blackPoint < 255 && lowTail <= tailCount) {
+    blackPoint++;
+    lowTail += valueCounts[blackPoint];
+  }
+  let whitePoint = 255;
+  let highTail = valueCounts[255];
+  while (whitePoint > 0 && highTail <= tailCount) {
+    whitePoint--;
+    highTail += valueCounts[whitePoint];
+  }
+
   return {
     hist: {
       luma: normalize(histLuma),
@@ -117,11 +138,29 @@ export async function computeHistogram(
       clip: {
         lowPct,
         highPct,
+        blackPoint,
+        whitePoint,
       },
     },
   };
 }
 
+// Derive auto levels input points from histogram clipping. An end that already clips
+// more than the target is left alone so auto levels never crushes it further.
+export function computeAutoLevels(histData: HistogramData): { inBlack: number; inWhite: number } {
+  const { lowPct, highPct, blackPoint, whitePoint } = histData.hist.clip;
+
+  const inBlack = lowPct >= AUTO_LEVELS_CLIP_PCT ? 0 : blackPoint;
+  const inWhite = highPct >= AUTO_LEVELS_CLIP_PCT ? 255 : whitePoint;
+
+  // Nearly flat images have no meaningful range to stretch
+  if (inWhite - inBlack < 16) {
+    return { inBlack: 0, inWhite: 255 };
+  }
+
+  return { inBlack, inWhite };
+}
+
 // Generate ASCII sparkline from histogram data
 export function generateSparkline(data: number[], width: number = 64): string {
   // Sparkline characters from lowest to highest
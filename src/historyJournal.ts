@@ -0,0 +1,223 @@
+// Append-only undo/redo journal per image, so edit history survives agent restarts and crashes.
+// Each line is one JSON entry; replaying the entries in order rebuilds the EditStackManager history.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { EditOp, EDIT_STACK_VERSION } from './editStack.js';
+import { migrateStack } from './editStackSchema.js';
+
+// Entries with ops record the stack version they were written with; entries without one are v1
+export type JournalEntry =
+  | { type: 'base'; version?: number; ops: EditOp[]; undo: EditOp[][]; redo: EditOp[][]; opCounter: number }
+  | { type: 'edit'; version?: number; ops: EditOp[]; opCounter: number }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+// Full history of one image: current ops plus the undo/redo states (oldest first)
+export interface HistoryState {
+  ops: EditOp[];
+  undo: EditOp[][];
+  redo: EditOp[][];
+  opCounter: number;
+}
+
+export interface HistoryJournalOptions {
+  maxBytes?: number; // compact once the journal grows past this size
+  maxUndo?: number; // undo states kept when compacting
+}
+
+const DEFAULT_MAX_BYTES = 512 * 1024;
+const DEFAULT_MAX_UNDO = 100;
+
+// Journal directory: $PHOTO_AGENT_HISTORY_DIR, or ~/.photo-agent/history next to the presets.
+// Journals are keyed by image URI, so one directory serves every folder.
+export function defaultHistoryDir(): string {
+  return process.env.PHOTO_AGENT_HISTORY_DIR || path.join(os.homedir(), '.photo-agent', 'history');
+}
+
+// Journal file name of an image: a hash of its URI
+function imageKey(baseUri: string): string {
+  return crypto.createHash('sha256').update(baseUri).digest('hex').substring(0, 16);
+}
+
+// Validate the ops of an entry and upgrade them to the current version, like readSidecar does
+function migrateOps(ops: unknown, version: number | undefined): EditOp[] {
+  return migrateStack({ version: version ?? 1, baseUri: '', ops }).ops;
+}
+
+// Validate and upgrade every op list of an entry; throws with the first problem found
+function migrateEntry(entry: JournalEntry): JournalEntry {
+  if (entry.type === 'base') {
+    return {
+      ...entry,
+      version: EDIT_STACK_VERSION,
+      ops: migrateOps(entry.ops, entry.version),
+      undo: entry.undo.map((ops) => migrateOps(ops, entry.version)),
+      redo: entry.redo.map((ops) => migrateOps(ops, entry.version)),
+    };
+  }
+  if (entry.type === 'edit') {
+    return { ...entry, version: EDIT_STACK_VERSION, ops: migrateOps(entry.ops, entry.version) };
+  }
+  if (entry.type !== 'undo' && entry.type !== 'redo') {
+    throw new Error(`unknown entry type ${JSON.stringify((entry as any).type)}`);
+  }
+  return entry;
+}
+
+// Rebuild history from journal entries (the same transitions EditStackManager applies in memory)
+export function replayJournal(entries: JournalEntry[]): HistoryState {
+  const state: HistoryState = { ops: [], undo: [], redo: [], opCounter: 0 };
+
+  for (const entry of entries) {
+    if (entry.type === 'base') {
+      state.ops = entry.ops;
+      state.undo = entry.undo;
+      state.redo = entry.redo;
+      state.opCounter = entry.opCounter;
+    } else if (entry.type === 'edit') {
+      state.undo.push(state.ops);
+      state.redo = [];
+      state.ops = entry.ops;
+      state.opCounter = Math.max(state.opCounter, entry.opCounter);
+    } else if (entry.type === 'undo' && state.undo.length > 0) {
+      state.redo.push(state.ops);
+      state.ops = state.undo.pop()!;
+    } else if (entry.type === 'redo' && state.redo.length > 0) {
+      state.undo.push(state.ops);
+      state.ops = state.redo.pop()!;
+    }
+  }
+
+  return state;
+}
+
+export class HistoryJournal {
+  private bytes = 0;
+  private readonly maxBytes: number;
+  private readonly maxUndo: number;
+
+  constructor(
+    readonly filePath: string,
+    options: HistoryJournalOptions = {}
+  ) {
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxUndo = options.maxUndo ?? DEFAULT_MAX_UNDO;
+  }
+
+  // Journal for an image under a cache directory, keyed by a hash of its URI
+  static forImage(cacheDir: string, baseUri: string, options?: HistoryJournalOptions): HistoryJournal {
+    return new HistoryJournal(path.join(cacheDir, `${imageKey(baseUri)}.jsonl`), options);
+  }
+
+  // Journal for a virtual copy of an image (<image key>.<copy>.jsonl, next to the image's own)
+  static forCopy(cacheDir: string, baseUri: string, copy: string, options?: HistoryJournalOptions): HistoryJournal {
+    return new HistoryJournal(path.join(cacheDir, `${imageKey(baseUri)}.${copy}.jsonl`), options);
+  }
+
+  // Names of the virtual copies of an image that have journals, sorted
+  static copiesOf(cacheDir: string, baseUri: string): string[] {
+    const prefix = `${imageKey(baseUri)}.`;
+    let files: string[];
+    try {
+      files = fs.readdirSync(cacheDir);
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return [];
+      throw err;
+    }
+    return files
+      .filter((file) => file.startsWith(prefix) && file.endsWith('.jsonl'))
+      .map((file) => file.slice(prefix.length, -'.jsonl'.length))
+      .filter((copy) => /^[\w-]+$/.test(copy))
+      .sort();
+  }
+
+  // Replay the journal; null if there is none. A torn last line (crash mid-write) is ignored;
+  // entries with invalid ops throw, like an invalid sidecar.
+  read(): HistoryState | null {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, 'utf-8');
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return null;
+      throw err;
+    }
+    this.bytes = Buffer.byteLength(raw);
+
+    const entries: JournalEntry[] = [];
+    for (const [index, line] of raw.split('\n').entries()) {
+      if (!line.trim()) continue;
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        break;
+      }
+      try {
+        entries.push(migrateEntry(entry));
+      } catch (err: any) {
+        throw new Error(`Invalid history journal ${path.basename(this.filePath)}, line ${index + 1}: ${err.message}`);
+      }
+    }
+
+    return entries.length > 0 ? replayJournal(entries) : null;
+  }
+
+  // Append one entry; compacts to the given state once the journal exceeds its size cap
+  append(entry: JournalEntry, state: () => HistoryState): void {
+    const line = JSON.stringify(entry) + '\n';
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, line);
+    this.bytes += Buffer.byteLength(line);
+
+    if (this.bytes > this.maxBytes) {
+      this.compact(state());
+    }
+  }
+
+  // Rewrite the journal as a single base entry, keeping the most recent undo/redo states
+  compact(state: HistoryState): void {
+    // Drop older states until the compacted journal is well under the cap
+    let keep = this.maxUndo;
+    let content: string;
+    for (;;) {
+      const base: JournalEntry = {
+        type: 'base',
+        version: EDIT_STACK_VERSION,
+        ops: state.ops,
+        undo: keep > 0 ? state.undo.slice(-keep) : [],
+        redo: keep > 0 ? state.redo.slice(-keep) : [],
+        opCounter: state.opCounter,
+      };
+      content = JSON.stringify(base) + '\n';
+      if (keep === 0 || Buffer.byteLength(content) <= this.maxBytes / 2) break;
+      keep = Math.floor(keep / 2);
+    }
+
+    // Atomic replace so a crash never leaves a half-written journal
+    const tempPath = `${this.filePath}.tmp.${process.pid}`;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, this.filePath);
+    this.bytes = Buffer.byteLength(content);
+  }
+
+  // Delete the journal (e.g. of a removed virtual copy)
+  remove(): void {
+    fs.rmSync(this.filePath, { force: true });
+    this.bytes = 0;
+  }
+
+  // Move an unreadable journal aside (kept as <file>.invalid) so the image starts a fresh one
+  setAside(): void {
+    fs.renameSync(this.filePath, `${this.filePath}.invalid`);
+    this.bytes = 0;
+  }
+
+  // Size of the journal on disk as last written or read
+  get size(): number {
+    return this.bytes;
+  }
+}
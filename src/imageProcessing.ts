@@ -1,224 +1,1133 @@
 import sharp from 'sharp';
-import { WhiteBalanceOp, ExposureOp, ContrastOp, SaturationOp, VibranceOp } from './editStack.js';
+import {
+  EditOp,
+  WhiteBalanceOp,
+  ExposureOp,
+  ContrastOp,
+  SaturationOp,
+  VibranceOp,
+  CurveOp,
+  CurvePoint,
+  LevelsOp,
+  LevelsParams,
+  ToneRegionsOp,
+  HslOp,
+  HSL_BANDS,
+  LutOp,
+  LocalAdjustOp,
+  GradientLinearOp,
+  GradientRadialOp,
+  MaskOp,
+} from './editStack.js';
+import { Lut3D, loadLut } from './lut.js';
+import { rasterizeMasks } from './masks.js';
+import { Matrix3, whiteBalanceMatrix, tempToKelvin, srgbToLinear, linearToSrgb } from './colorTemperature.js';
 
-// Type definitions for Sharp matrices
-type Matrix3x3 = [[number, number, number], [number, number, number], [number, number, number]];
+// Operations applied by applyColorOperations (everything except geometry)
+export type ColorOp =
+  | WhiteBalanceOp
+  | ExposureOp
+  | ContrastOp
+  | SaturationOp
+  | VibranceOp
+  | CurveOp
+  | LevelsOp
+  | ToneRegionsOp
+  | HslOp
+  | LutOp
+  | LocalAdjustOp
+  | GradientLinearOp
+  | GradientRadialOp;
 
-// Apply white balance using gray point method
-export async function applyWhiteBalanceGrayPoint(
-  pipeline: sharp.Sharp,
-  op: WhiteBalanceOp,
-  originalMetadata: sharp.Metadata
-): Promise<sharp.Sharp> {
-  if (op.method !== 'gray_point' || op.x === undefined || op.y === undefined) {
-    return pipeline;
+const COLOR_OP_TYPES = new Set<string>([
+  'white_balance',
+  'exposure',
+  'contrast',
+  'saturation',
+  'vibrance',
+  'curve',
+  'levels',
+  'tone_regions',
+  'hsl',
+  'lut',
+  'local_adjust',
+  'gradient_linear',
+  'gradient_radial',
+]);
+
+// Check if an edit operation is a color operation (applied before geometry)
+export function isColorOp(op: EditOp): op is ColorOp {
+  return COLOR_OP_TYPES.has(op.op);
+}
+
+// Float image used by the color pipeline. RGB samples are either linear sRGB (not clipped
+// above 1, so exposure keeps highlight headroom) or display-encoded sRGB in [0..1], as
+// tracked by `encoding`; alpha is stored in [0..1]. Ops that model light (white balance,
+// exposure, contrast, saturation) run in linear light; ops defined on the display response
+// (curves, levels, tone regions, HSL, vibrance) run on encoded values.
+export interface FloatImage {
+  data: Float32Array;
+  width: number;
+  height: number;
+  channels: sharp.Channels;
+  encoding: 'linear' | 'srgb';
+}
+
+// Output bit depth of the encoded pipeline (16 for TIFF and 16-bit PNG exports)
+export type BitDepth = 8 | 16;
+
+// sRGB transfer tables on [0..1], sampled with linear interpolation
+const TRANSFER_LUT_SIZE = 65536;
+const LINEARIZE_LUT = Float32Array.from({ length: TRANSFER_LUT_SIZE }, (_, i) =>
+  srgbToLinear(i / (TRANSFER_LUT_SIZE - 1))
+);
+const ENCODE_LUT = Float32Array.from({ length: TRANSFER_LUT_SIZE }, (_, i) =>
+  linearToSrgb(i / (TRANSFER_LUT_SIZE - 1))
+);
+const SRGB8_TO_LINEAR = Float32Array.from({ length: 256 }, (_, i) => srgbToLinear(i / 255));
+
+// Map v through a transfer table; values above 1 fall back to the exact function
+function transfer(table: Float32Array, exact: (v: number) => number, v: number): number {
+  if (v <= 0) return 0;
+  if (v >= 1) return exact(v);
+  const x = v * (TRANSFER_LUT_SIZE - 1);
+  const i = Math.floor(x);
+  return table[i] + (table[i + 1] - table[i]) * (x - i);
+}
+
+// Convert RGB samples to linear light in place
+function toLinear(image: FloatImage): void {
+  if (image.encoding === 'linear') return;
+  const { data, channels } = image;
+  for (let i = 0; i < data.length; i += channels) {
+    data[i] = transfer(LINEARIZE_LUT, srgbToLinear, data[i]);
+    data[i + 1] = transfer(LINEARIZE_LUT, srgbToLinear, data[i + 1]);
+    data[i + 2] = transfer(LINEARIZE_LUT, srgbToLinear, data[i + 2]);
   }
+  image.encoding = 'linear';
+}
 
-  const width = originalMetadata.width || 1;
-  const height = originalMetadata.height || 1;
+// Convert RGB samples to display-encoded sRGB in place
+function toEncoded(image: FloatImage): void {
+  if (image.encoding === 'srgb') return;
+  const { data, channels } = image;
+  for (let i = 0; i < data.length; i += channels) {
+    data[i] = transfer(ENCODE_LUT, linearToSrgb, data[i]);
+    data[i + 1] = transfer(ENCODE_LUT, linearToSrgb, data[i + 1]);
+    data[i + 2] = transfer(ENCODE_LUT, linearToSrgb, data[i + 2]);
+  }
+  image.encoding = 'srgb';
+}
+
+// Decode a pipeline into a linear-light float image. 16-bit sources are read at full
+// precision; everything else is read as 8-bit.
+export async function toFloatImage(pipeline: sharp.Sharp): Promise<FloatImage> {
+  const { depth } = await pipeline.metadata();
+
+  if (depth === 'ushort') {
+    const { data, info } = await pipeline
+      .toColourspace('rgb16')
+      .raw({ depth: 'ushort' })
+      .toBuffer({ resolveWithObject: true });
+    const channels = info.channels;
+    const samples = new Uint16Array(data.buffer, data.byteOffset, data.length / 2);
+    const out = new Float32Array(samples.length);
 
-  // Get the pixel value at the gray point
-  const x = Math.round(op.x * width);
-  const y = Math.round(op.y * height);
+    for (let i = 0; i < samples.length; i += channels) {
+      out[i] = transfer(LINEARIZE_LUT, srgbToLinear, samples[i] / 65535);
+      out[i + 1] = transfer(LINEARIZE_LUT, srgbToLinear, samples[i + 1] / 65535);
+      out[i + 2] = transfer(LINEARIZE_LUT, srgbToLinear, samples[i + 2] / 65535);
+      for (let c = 3; c < channels; c++) out[i + c] = samples[i + c] / 65535;
+    }
 
-  // Clone the pipeline to sample the pixel
-  const sampleBuffer = await pipeline
-    .clone()
-    .extract({ left: Math.max(0, x - 2), top: Math.max(0, y - 2), width: 5, height: 5 })
-    .raw()
-    .toBuffer({ resolveWithObject: true });
+    return { data: out, width: info.width, height: info.height, channels, encoding: 'linear' };
+  }
 
-  const { data, info } = sampleBuffer;
+  const { data, info } = await pipeline.toColourspace('srgb').raw().toBuffer({ resolveWithObject: true });
   const channels = info.channels;
+  const out = new Float32Array(data.length);
+
+  for (let i = 0; i < data.length; i += channels) {
+    out[i] = SRGB8_TO_LINEAR[data[i]];
+    out[i + 1] = SRGB8_TO_LINEAR[data[i + 1]];
+    out[i + 2] = SRGB8_TO_LINEAR[data[i + 2]];
+    for (let c = 3; c < channels; c++) out[i + c] = data[i + c] / 255;
+  }
+
+  return { data: out, width: info.width, height: info.height, channels, encoding: 'linear' };
+}
+
+// Encode a float image back to an sRGB pipeline at the given bit depth (clipping happens only here)
+export function fromFloatImage(image: FloatImage, depth: BitDepth = 8): sharp.Sharp {
+  toEncoded(image);
+  const { data, width, height, channels } = image;
+
+  if (depth === 16) {
+    const out = new Uint16Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      out[i] = Math.round(Math.max(0, Math.min(1, data[i])) * 65535);
+    }
+    return sharp(out, { raw: { width, height, channels } }).toColourspace('rgb16');
+  }
+
+  const out = Buffer.alloc(data.length);
+  for (let i = 0; i < data.length; i++) {
+    out[i] = Math.round(Math.max(0, Math.min(1, data[i])) * 255);
+  }
+
+  return sharp(out, { raw: { width, height, channels } });
+}
+
+// Decode, apply a float operation and re-encode (used by the single-op entry points)
+async function processFloat(pipeline: sharp.Sharp, apply: (image: FloatImage) => void): Promise<sharp.Sharp> {
+  const image = await toFloatImage(pipeline);
+  apply(image);
+  return fromFloatImage(image);
+}
+
+// Multiply linear RGB by a 3x3 matrix in place
+function applyMatrixFloat(image: FloatImage, matrix: Matrix3): void {
+  toLinear(image);
+  const { data, channels } = image;
+  for (let i = 0; i < data.length; i += channels) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    data[i] = matrix[0][0] * r + matrix[0][1] * g + matrix[0][2] * b;
+    data[i + 1] = matrix[1][0] * r + matrix[1][1] * g + matrix[1][2] * b;
+    data[i + 2] = matrix[2][0] * r + matrix[2][1] * g + matrix[2][2] * b;
+  }
+}
+
+// Gray point white balance: sample a 5x5 patch around the normalized point and scale each
+// linear channel so the patch becomes neutral. Normalized coordinates resolve against the
+// working image, so downscaled previews and histograms sample the same spot.
+function whiteBalanceGrayPointFloat(image: FloatImage, op: WhiteBalanceOp): void {
+  if (op.x === undefined || op.y === undefined) {
+    return;
+  }
+
+  toLinear(image);
+  const { data, width, height, channels } = image;
+  const cx = Math.round(op.x * (width - 1));
+  const cy = Math.round(op.y * (height - 1));
 
-  // Calculate average of center pixel (or average of the 5x5 region for stability)
   let r = 0,
     g = 0,
     b = 0;
   let count = 0;
-
-  for (let i = 0; i < data.length; i += channels) {
-    r += data[i];
-    g += data[i + 1];
-    b += data[i + 2];
-    count++;
+  for (let y = Math.max(0, cy - 2); y <= Math.min(height - 1, cy + 2); y++) {
+    for (let x = Math.max(0, cx - 2); x <= Math.min(width - 1, cx + 2); x++) {
+      const i = (y * width + x) * channels;
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+      count++;
+    }
   }
 
   r /= count;
   g /= count;
   b /= count;
-
-  // Calculate the gray value (average of RGB)
   const gray = (r + g + b) / 3;
 
-  // Calculate scaling factors for each channel (with limits to prevent extreme corrections)
-  const rScale = Math.min(4, Math.max(0.25, gray / r));
-  const gScale = Math.min(4, Math.max(0.25, gray / g));
-  const bScale = Math.min(4, Math.max(0.25, gray / b));
+  // Limit the scaling factors to prevent extreme corrections
+  const scale = (channel: number) => (channel > 0 ? Math.min(4, Math.max(0.25, gray / channel)) : 1);
+  applyMatrixFloat(image, [
+    [scale(r), 0, 0],
+    [0, scale(g), 0],
+    [0, 0, scale(b)],
+  ]);
+}
 
-  // Apply the white balance using a color matrix
-  // Sharp expects a 3x3 matrix as nested arrays
-  const matrix: Matrix3x3 = [
-    [rScale, 0, 0],
-    [0, gScale, 0],
-    [0, 0, bScale],
-  ];
+// White balance matrix for temp/tint and kelvin methods (null when neutral)
+function whiteBalanceMatrixFor(op: WhiteBalanceOp): Matrix3 | null {
+  if (op.method === 'temp_tint') {
+    const temp = op.temp ?? 0; // [-100, 100], positive = warmer
+    const tint = op.tint ?? 0; // [-100, 100], positive = more magenta
+    if (temp === 0 && tint === 0) return null;
+    // The relative temp slider maps to Kelvin (uniform in mireds)
+    return whiteBalanceMatrix(tempToKelvin(temp), tint);
+  }
+  if (op.method === 'kelvin' && op.kelvin !== undefined) {
+    return whiteBalanceMatrix(op.kelvin, op.tint ?? 0);
+  }
+  return null;
+}
 
-  return pipeline.recomb(matrix);
+function whiteBalanceFloat(image: FloatImage, op: WhiteBalanceOp): void {
+  if (op.method === 'gray_point') {
+    whiteBalanceGrayPointFloat(image, op);
+    return;
+  }
+  const matrix = whiteBalanceMatrixFor(op);
+  if (matrix) {
+    applyMatrixFloat(image, matrix);
+  }
 }
 
-// Apply white balance using temperature/tint method
-export function applyWhiteBalanceTempTint(pipeline: sharp.Sharp, op: WhiteBalanceOp): sharp.Sharp {
-  if (op.method !== 'temp_tint') {
+// Apply white balance using gray point method
+export async function applyWhiteBalanceGrayPoint(pipeline: sharp.Sharp, op: WhiteBalanceOp): Promise<sharp.Sharp> {
+  if (op.method !== 'gray_point' || op.x === undefined || op.y === undefined) {
     return pipeline;
   }
 
-  const temp = op.temp ?? 0; // [-100, 100]
-  const tint = op.tint ?? 0; // [-100, 100]
-
-  // Convert temp/tint to RGB multipliers
-  // Temperature: negative = cooler (more blue), positive = warmer (more red/yellow)
-  // Tint: negative = more green, positive = more magenta
+  return processFloat(pipeline, (image) => whiteBalanceGrayPointFloat(image, op));
+}
 
-  // Simple linear model for temperature
-  const tempFactor = temp / 100; // [-1, 1]
-  const rTemp = 1 + tempFactor * 0.3; // Red increases with warmth
-  const gTemp = 1 + tempFactor * 0.05; // Green slightly affected
-  const bTemp = 1 - tempFactor * 0.3; // Blue decreases with warmth
+// Apply white balance using temperature/tint method (Bradford adaptation in linear light)
+export async function applyWhiteBalanceTempTint(pipeline: sharp.Sharp, op: WhiteBalanceOp): Promise<sharp.Sharp> {
+  if (op.method !== 'temp_tint' || !whiteBalanceMatrixFor(op)) {
+    return pipeline;
+  }
 
-  // Simple linear model for tint
-  const tintFactor = tint / 100; // [-1, 1]
-  const gTint = 1 - tintFactor * 0.2; // Green decreases with magenta tint
-  const rTint = 1 + tintFactor * 0.1; // Slight red adjustment
-  const bTint = 1 + tintFactor * 0.1; // Slight blue adjustment
+  return processFloat(pipeline, (image) => whiteBalanceFloat(image, op));
+}
 
-  // Combine temperature and tint adjustments
-  const rScale = Math.min(2, Math.max(0.5, rTemp * rTint));
-  const gScale = Math.min(2, Math.max(0.5, gTemp * gTint));
-  const bScale = Math.min(2, Math.max(0.5, bTemp * bTint));
+// Apply white balance for a scene lit at the given Kelvin (Bradford adaptation in linear light)
+export async function applyWhiteBalanceKelvin(pipeline: sharp.Sharp, op: WhiteBalanceOp): Promise<sharp.Sharp> {
+  if (op.method !== 'kelvin' || op.kelvin === undefined) {
+    return pipeline;
+  }
 
-  // Apply using color matrix
-  // Sharp expects a 3x3 matrix as nested arrays
-  const matrix: Matrix3x3 = [
-    [rScale, 0, 0],
-    [0, gScale, 0],
-    [0, 0, bScale],
-  ];
+  return processFloat(pipeline, (image) => whiteBalanceFloat(image, op));
+}
 
-  return pipeline.recomb(matrix);
+// Exposure: scale linear light by 2^ev, so +1 EV doubles every linear value
+function exposureFloat(image: FloatImage, op: ExposureOp): void {
+  if (op.ev === 0) return;
+  toLinear(image);
+  const scale = Math.pow(2, op.ev); // [-3, 3] stops
+  const { data, channels } = image;
+  for (let i = 0; i < data.length; i += channels) {
+    data[i] *= scale;
+    data[i + 1] *= scale;
+    data[i + 2] *= scale;
+  }
 }
 
 // Apply exposure adjustment
-export function applyExposure(pipeline: sharp.Sharp, op: ExposureOp): sharp.Sharp {
-  const ev = op.ev; // [-3, 3] stops
-
-  // Convert EV to linear multiplier: 2^ev
-  const scale = Math.pow(2, ev);
-
-  // Apply exposure with a simple tone mapping to prevent clipping
-  // Using a basic approach: multiply then apply a gentle shoulder curve
-  // Sharp doesn't have direct tone mapping, so we'll use modulate for brightness
+export async function applyExposure(pipeline: sharp.Sharp, op: ExposureOp): Promise<sharp.Sharp> {
+  return processFloat(pipeline, (image) => exposureFloat(image, op));
+}
 
-  // Convert scale to brightness percentage change
-  // Sharp's modulate expects a multiplier where 1.0 = no change
-  // We'll approximate the exposure change
-  const brightness = scale;
+// Linear middle gray, the contrast pivot
+const MIDDLE_GRAY = 0.18;
 
-  // Apply the brightness adjustment
-  // Note: Sharp's modulate affects saturation and hue too, so we only adjust brightness
-  return pipeline.modulate({
-    brightness: brightness,
-    saturation: 1.0, // Keep saturation unchanged
-    hue: 0, // Keep hue unchanged
-  });
+// Contrast: power curve around linear middle gray, out = 0.18 * (in / 0.18)^factor.
+// Middle gray stays put, and the slope in stops is scaled by factor = (100 + amt) / 100.
+function contrastFloat(image: FloatImage, op: ContrastOp): void {
+  if (op.amt === 0) return;
+  toLinear(image);
+  const factor = (100 + op.amt) / 100; // [0, 2]
+  const { data, channels } = image;
+  for (let i = 0; i < data.length; i += channels) {
+    for (let c = 0; c < 3; c++) {
+      const v = data[i + c];
+      data[i + c] = v > 0 ? MIDDLE_GRAY * Math.pow(v / MIDDLE_GRAY, factor) : 0;
+    }
+  }
 }
 
 // Apply contrast adjustment
-export function applyContrast(pipeline: sharp.Sharp, op: ContrastOp): sharp.Sharp {
-  const amt = op.amt; // [-100, 100] percent
+export async function applyContrast(pipeline: sharp.Sharp, op: ContrastOp): Promise<sharp.Sharp> {
+  return processFloat(pipeline, (image) => contrastFloat(image, op));
+}
 
-  // Sharp doesn't have a direct contrast adjustment,
-  // so we'll use linear transformation with a custom formula
-  // Contrast around middle gray (0.5 in normalized space)
+// Saturation: scale linear chroma around luminance (Rec. 709 weights), so brightness is kept
+function saturationFloat(image: FloatImage, op: SaturationOp): void {
+  if (op.amt === 0) return;
+  toLinear(image);
+  // -100 = fully desaturated (grayscale), 0 = no change, 100 = double saturation
+  const factor = 1 + op.amt / 100; // [0, 2]
+  const { data, channels } = image;
+  for (let i = 0; i < data.length; i += channels) {
+    const Y = 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+    data[i] = Math.max(0, Y + (data[i] - Y) * factor);
+    data[i + 1] = Math.max(0, Y + (data[i + 1] - Y) * factor);
+    data[i + 2] = Math.max(0, Y + (data[i + 2] - Y) * factor);
+  }
+}
 
-  // Convert percentage to a multiplier
-  const contrastFactor = (100 + amt) / 100; // [0, 2]
+// Apply saturation adjustment
+export async function applySaturation(pipeline: sharp.Sharp, op: SaturationOp): Promise<sharp.Sharp> {
+  return processFloat(pipeline, (image) => saturationFloat(image, op));
+}
 
-  // Use sharp's linear transformation: output = a * input + b
-  // For contrast: output = (input - 0.5) * factor + 0.5
-  // Rearranged: output = factor * input + (0.5 * (1 - factor))
-  const a = contrastFactor;
-  const b = 128 * (1 - contrastFactor); // 128 is middle gray in 8-bit
+// Skin hues sit around orange; vibrance is damped inside this window (degrees)
+const SKIN_HUE_CENTER = 25;
+const SKIN_HUE_HALF_WIDTH = 20;
+const SKIN_PROTECTION = 0.7; // share of the vibrance effect removed at the skin hue center
 
-  // Apply the linear transformation
-  return pipeline.linear(a, b);
+// Weight in [0..1] of how strongly a hue counts as skin (cosine window around SKIN_HUE_CENTER)
+export function skinHueWeight(hue: number): number {
+  const distance = Math.abs(((((hue - SKIN_HUE_CENTER) % 360) + 540) % 360) - 180);
+  if (distance >= SKIN_HUE_HALF_WIDTH) return 0;
+  return Math.cos(((distance / SKIN_HUE_HALF_WIDTH) * Math.PI) / 2) ** 2;
 }
 
-// Apply saturation adjustment
-export function applySaturation(pipeline: sharp.Sharp, op: SaturationOp): sharp.Sharp {
+// Vibrance (soft saturation) on encoded values
+function vibranceFloat(image: FloatImage, op: VibranceOp): void {
   const amt = op.amt; // [-100, 100] percent
+  if (amt === 0) return;
+  toEncoded(image);
+  const { data, channels } = image;
 
-  // Convert to saturation multiplier
-  // -100 = fully desaturated (grayscale), 0 = no change, 100 = double saturation
-  const saturationFactor = 1 + amt / 100; // [0, 2]
+  for (let i = 0; i < data.length; i += channels) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    if (max === min || max <= 0) continue; // Neutral pixels have no chroma to scale
 
-  // Sharp's modulate function can adjust saturation directly
-  return pipeline.modulate({
-    brightness: 1.0, // Keep brightness unchanged
-    saturation: saturationFactor,
-    hue: 0, // Keep hue unchanged
-  });
+    // Attenuate by existing saturation, k = (1-S)^1.5, and damp skin hues
+    const saturation = (max - min) / max;
+    const k = Math.pow(1 - Math.min(1, saturation), 1.5);
+    const [hue] = rgbToHsl(r, g, b);
+    const protection = 1 - SKIN_PROTECTION * skinHueWeight(hue);
+    const factor = Math.max(0, 1 + (amt / 100) * k * protection);
+
+    // Scale chroma around luma so brightness is kept
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    data[i] = Math.max(0, Math.min(1, luma + (r - luma) * factor));
+    data[i + 1] = Math.max(0, Math.min(1, luma + (g - luma) * factor));
+    data[i + 2] = Math.max(0, Math.min(1, luma + (b - luma) * factor));
+  }
 }
 
 // Apply vibrance adjustment (soft saturation)
 export async function applyVibrance(pipeline: sharp.Sharp, op: VibranceOp): Promise<sharp.Sharp> {
-  const amt = op.amt; // [-100, 100] percent
+  if (op.amt === 0) {
+    return pipeline;
+  }
+
+  return processFloat(pipeline, (image) => vibranceFloat(image, op));
+}
+
+// Build a lookup table from curve control points using monotone cubic (Fritsch-Carlson)
+// interpolation, so the curve never overshoots or inverts between points.
+// size is 256 for 8-bit or 65536 for 16-bit buffers; entries are in [0, size - 1].
+export function buildCurveLut(points: CurvePoint[], size: number = 256): Uint16Array {
+  const lut = new Uint16Array(size);
+  const maxValue = size - 1;
 
-  // Vibrance is a more sophisticated saturation that protects already-saturated colors
-  // and optionally skin tones. Since Sharp doesn't have native vibrance support,
-  // we'll approximate it using a modified saturation approach.
+  if (points.length < 2) {
+    for (let i = 0; i < size; i++) lut[i] = i;
+    return lut;
+  }
 
-  // For now, we'll use a simpler approach that reduces the effect on highly saturated areas
-  // In a full implementation, we'd need to process the raw pixels for proper HSL conversion
+  const n = points.length;
+  const xs = points.map((p) => p[0]);
+  const ys = points.map((p) => p[1]);
 
-  // Use a reduced saturation factor for vibrance (gentler than regular saturation)
-  const vibranceFactor = 1 + (amt / 100) * 0.7; // Reduced effect compared to saturation
+  // Secant slopes between neighbouring points
+  const deltas: number[] = [];
+  for (let k = 0; k < n - 1; k++) {
+    const dx = xs[k + 1] - xs[k];
+    deltas.push(dx > 0 ? (ys[k + 1] - ys[k]) / dx : 0);
+  }
 
-  // Apply the vibrance adjustment using modulate
-  // This is a simplified version - a full implementation would need pixel-level processing
-  return pipeline.modulate({
-    brightness: 1.0,
-    saturation: vibranceFactor,
-    hue: 0,
-  });
+  // Initial tangents, then limit them to keep each segment monotone
+  const tangents: number[] = new Array(n);
+  tangents[0] = deltas[0];
+  tangents[n - 1] = deltas[n - 2];
+  for (let k = 1; k < n - 1; k++) {
+    tangents[k] = deltas[k - 1] * deltas[k] <= 0 ? 0 : (deltas[k - 1] + deltas[k]) / 2;
+  }
+  for (let k = 0; k < n - 1; k++) {
+    if (deltas[k] === 0) {
+      tangents[k] = 0;
+      tangents[k + 1] = 0;
+      continue;
+    }
+    const alpha = tangents[k] / deltas[k];
+    const beta = tangents[k + 1] / deltas[k];
+    const magnitude = alpha * alpha + beta * beta;
+    if (magnitude > 9) {
+      const tau = 3 / Math.sqrt(magnitude);
+      tangents[k] = tau * alpha * deltas[k];
+      tangents[k + 1] = tau * beta * deltas[k];
+    }
+  }
+
+  let segment = 0;
+  for (let i = 0; i < size; i++) {
+    const x = i / maxValue;
+    let y: number;
+
+    if (x <= xs[0]) {
+      y = ys[0];
+    } else if (x >= xs[n - 1]) {
+      y = ys[n - 1];
+    } else {
+      while (segment < n - 2 && x > xs[segment + 1]) segment++;
+      const h = xs[segment + 1] - xs[segment];
+      const t = (x - xs[segment]) / h;
+      const t2 = t * t;
+      const t3 = t2 * t;
+      y =
+        (2 * t3 - 3 * t2 + 1) * ys[segment] +
+        (t3 - 2 * t2 + t) * h * tangents[segment] +
+        (-2 * t3 + 3 * t2) * ys[segment + 1] +
+        (t3 - t2) * h * tangents[segment + 1];
+    }
+
+    lut[i] = Math.round(Math.max(0, Math.min(1, y)) * maxValue);
+  }
+
+  return lut;
 }
 
-// Main function to apply all color operations to a pipeline
-export async function applyColorOperations(
-  pipeline: sharp.Sharp,
-  ops: Array<WhiteBalanceOp | ExposureOp | ContrastOp | SaturationOp | VibranceOp>,
-  originalMetadata: sharp.Metadata
-): Promise<sharp.Sharp> {
-  let result = pipeline;
+// Resolution of the curve and levels tables used by the float pipeline
+const TONE_LUT_SIZE = 4096;
+
+// Apply one lookup table per RGB channel to encoded values, interpolating between entries
+function channelLutsFloat(image: FloatImage, luts: Uint16Array[]): void {
+  toEncoded(image);
+  const { data, channels } = image;
+  const maxIndex = TONE_LUT_SIZE - 1;
+
+  for (let i = 0; i < data.length; i += channels) {
+    for (let c = 0; c < 3; c++) {
+      const x = Math.max(0, Math.min(1, data[i + c])) * maxIndex;
+      const j = Math.min(maxIndex - 1, Math.floor(x));
+      const lut = luts[c];
+      data[i + c] = (lut[j] + (lut[j + 1] - lut[j]) * (x - j)) / maxIndex;
+    }
+  }
+}
+
+// Compose an optional per-channel LUT with an optional master LUT
+function composeLuts(channelLut: Uint16Array | null, master: Uint16Array | null, size: number): Uint16Array {
+  const composed = new Uint16Array(size);
+  for (let i = 0; i < size; i++) {
+    const v = channelLut ? channelLut[i] : i;
+    composed[i] = master ? master[v] : v;
+  }
+  return composed;
+}
+
+// Tone curve tables (per-channel curves first, then master)
+function curveLuts(op: CurveOp): Uint16Array[] {
+  const master = op.master ? buildCurveLut(op.master, TONE_LUT_SIZE) : null;
+  return [op.r, op.g, op.b].map((points) =>
+    composeLuts(points ? buildCurveLut(points, TONE_LUT_SIZE) : null, master, TONE_LUT_SIZE)
+  );
+}
+
+// Apply tone curve adjustment (per-channel curves first, then master)
+export async function applyCurve(pipeline: sharp.Sharp, op: CurveOp): Promise<sharp.Sharp> {
+  if (!op.master && !op.r && !op.g && !op.b) {
+    return pipeline;
+  }
+
+  return processFloat(pipeline, (image) => channelLutsFloat(image, curveLuts(op)));
+}
+
+// Build a levels lookup table: remap [inBlack, inWhite] through gamma onto [outBlack, outWhite].
+// Level values are 8-bit units and are rescaled for larger LUT sizes.
+export function buildLevelsLut(params: LevelsParams, size: number = 256): Uint16Array {
+  const lut = new Uint16Array(size);
+  const maxValue = size - 1;
+  const inBlack = params.inBlack / 255;
+  const inWhite = Math.max(params.inWhite / 255, inBlack + 1 / 255);
+  const outBlack = params.outBlack / 255;
+  const outWhite = params.outWhite / 255;
+  const invGamma = 1 / params.gamma;
+
+  for (let i = 0; i < size; i++) {
+    const t = Math.max(0, Math.min(1, (i / maxValue - inBlack) / (inWhite - inBlack)));
+    const y = outBlack + Math.pow(t, invGamma) * (outWhite - outBlack);
+    lut[i] = Math.round(Math.max(0, Math.min(1, y)) * maxValue);
+  }
+
+  return lut;
+}
+
+// Levels tables (per-channel levels first, then master)
+function levelsLuts(op: LevelsOp): Uint16Array[] {
+  const master = buildLevelsLut(op, TONE_LUT_SIZE);
+  return [op.r, op.g, op.b].map((params) =>
+    composeLuts(params ? buildLevelsLut(params, TONE_LUT_SIZE) : null, master, TONE_LUT_SIZE)
+  );
+}
 
-  // Apply operations in order: white balance → exposure → contrast → saturation → vibrance
+// Apply levels adjustment (per-channel levels first, then master)
+export async function applyLevels(pipeline: sharp.Sharp, op: LevelsOp): Promise<sharp.Sharp> {
+  return processFloat(pipeline, (image) => channelLutsFloat(image, levelsLuts(op)));
+}
+
+// Hermite smoothstep between edge0 and edge1
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+// Smooth luminance weights for each tonal region (L in [0..1]). Neighbouring regions
+// overlap so slider changes blend without banding; shadows and highlights fade out at
+// the extremes, which are left to blacks and whites.
+export function toneRegionWeights(L: number): { highlights: number; shadows: number; whites: number; blacks: number } {
+  return {
+    blacks: 1 - smoothstep(0, 0.25, L),
+    shadows: smoothstep(0, 0.15, L) * (1 - smoothstep(0.25, 0.6, L)),
+    highlights: smoothstep(0.35, 0.8, L) * (1 - smoothstep(0.85, 1, L)),
+    whites: smoothstep(0.75, 1, L),
+  };
+}
+
+// Maximum luminance shift for a slider at ±100
+const TONE_REGION_STRENGTH = { highlights: 0.25, shadows: 0.25, whites: 0.15, blacks: 0.15 };
+
+// Highlights/shadows/whites/blacks on encoded luminance
+function toneRegionsFloat(image: FloatImage, op: ToneRegionsOp): void {
+  if (!op.highlights && !op.shadows && !op.whites && !op.blacks) {
+    return;
+  }
+
+  toEncoded(image);
+  const { data, channels } = image;
+
+  // Target luminance per luminance bucket
+  const buckets = 1024;
+  const targetL = new Float32Array(buckets);
+  for (let i = 0; i < buckets; i++) {
+    const L = i / (buckets - 1);
+    const w = toneRegionWeights(L);
+    const delta =
+      (op.highlights / 100) * w.highlights * TONE_REGION_STRENGTH.highlights +
+      (op.shadows / 100) * w.shadows * TONE_REGION_STRENGTH.shadows +
+      (op.whites / 100) * w.whites * TONE_REGION_STRENGTH.whites +
+      (op.blacks / 100) * w.blacks * TONE_REGION_STRENGTH.blacks;
+    // Never let a brighter input end up darker than its neighbour (no tone inversion)
+    const previous = i > 0 ? targetL[i - 1] : 0;
+    targetL[i] = Math.max(previous, Math.min(1, L + delta));
+  }
+
+  for (let i = 0; i < data.length; i += channels) {
+    const r = Math.max(0, Math.min(1, data[i]));
+    const g = Math.max(0, Math.min(1, data[i + 1]));
+    const b = Math.max(0, Math.min(1, data[i + 2]));
+    const L = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    const newL = targetL[Math.round(L * (buckets - 1))];
+
+    if (L > 1e-4) {
+      // Scale channels to keep hue and saturation
+      const ratio = newL / L;
+      data[i] = Math.min(1, r * ratio);
+      data[i + 1] = Math.min(1, g * ratio);
+      data[i + 2] = Math.min(1, b * ratio);
+    } else {
+      // Pure black has no hue to keep
+      data[i] = newL;
+      data[i + 1] = newL;
+      data[i + 2] = newL;
+    }
+  }
+}
+
+// Apply highlights/shadows/whites/blacks adjustment
+export async function applyToneRegions(pipeline: sharp.Sharp, op: ToneRegionsOp): Promise<sharp.Sharp> {
+  if (!op.highlights && !op.shadows && !op.whites && !op.blacks) {
+    return pipeline;
+  }
+
+  return processFloat(pipeline, (image) => toneRegionsFloat(image, op));
+}
+
+// Hue centers (degrees) of the HSL mixer bands, in HSL_BANDS order
+const HSL_BAND_CENTERS = [0, 30, 60, 120, 180, 240, 270, 300];
+
+// Weight of each HSL band for a hue in degrees. Each band fades out towards its
+// neighbours' centers with a cosine ramp, so weights always sum to 1.
+export function hslBandWeights(hue: number): number[] {
+  const weights = new Array(HSL_BAND_CENTERS.length).fill(0);
+  const h = ((hue % 360) + 360) % 360;
+
+  for (let i = 0; i < HSL_BAND_CENTERS.length; i++) {
+    const start = HSL_BAND_CENTERS[i];
+    const next = i + 1 < HSL_BAND_CENTERS.length ? HSL_BAND_CENTERS[i + 1] : 360;
+    if (h >= start && h < next) {
+      const t = (h - start) / (next - start);
+      const w = Math.cos((t * Math.PI) / 2) ** 2;
+      weights[i] = w;
+      weights[(i + 1) % HSL_BAND_CENTERS.length] = 1 - w;
+      break;
+    }
+  }
+
+  return weights;
+}
+
+// Convert RGB in [0..1] to HSL (h in degrees, s and l in [0..1])
+function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+
+  if (d === 0) return [0, 0, l];
+
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === r) h = ((g - b) / d) % 6;
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+
+  return [(h * 60 + 360) % 360, Math.min(1, s), l];
+}
+
+// Convert HSL (h in degrees, s and l in [0..1]) to RGB in [0..1]
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const hp = (((h % 360) + 360) % 360) / 60;
+  const x = c * (1 - Math.abs((hp % 2) - 1));
+  const m = l - c / 2;
+
+  let rgb: [number, number, number];
+  if (hp < 1) rgb = [c, x, 0];
+  else if (hp < 2) rgb = [x, c, 0];
+  else if (hp < 3) rgb = [0, c, x];
+  else if (hp < 4) rgb = [0, x, c];
+  else if (hp < 5) rgb = [x, 0, c];
+  else rgb = [c, 0, x];
+
+  return [rgb[0] + m, rgb[1] + m, rgb[2] + m];
+}
+
+// Per-hue HSL mixer on encoded values
+function hslFloat(image: FloatImage, op: HslOp): void {
+  const adjustments = HSL_BANDS.map((band) => op.bands[band] ?? { hue: 0, sat: 0, lum: 0 });
+  if (adjustments.every((a) => !a.hue && !a.sat && !a.lum)) {
+    return;
+  }
+
+  toEncoded(image);
+  const { data, channels } = image;
+
+  for (let i = 0; i < data.length; i += channels) {
+    const r0 = Math.max(0, Math.min(1, data[i]));
+    const g0 = Math.max(0, Math.min(1, data[i + 1]));
+    const b0 = Math.max(0, Math.min(1, data[i + 2]));
+    const [h, s, l] = rgbToHsl(r0, g0, b0);
+
+    // Neutral pixels have no reliable hue; fade the effect in with chroma
+    const chroma = Math.max(r0, g0, b0) - Math.min(r0, g0, b0);
+    const strength = Math.min(1, chroma / 0.1);
+    if (strength === 0) continue;
+
+    const weights = hslBandWeights(h);
+    let hueShift = 0;
+    let satAmt = 0;
+    let lumAmt = 0;
+    for (let band = 0; band < weights.length; band++) {
+      if (weights[band] === 0) continue;
+      hueShift += weights[band] * adjustments[band].hue;
+      satAmt += weights[band] * adjustments[band].sat;
+      lumAmt += weights[band] * adjustments[band].lum;
+    }
+
+    // ±100 hue = ±30°, sat scales chroma, lum moves lightness up to halfway to black/white
+    const newH = h + (hueShift / 100) * 30 * strength;
+    const newS = Math.max(0, Math.min(1, s * (1 + (satAmt / 100) * strength)));
+    const lumDelta = (lumAmt / 100) * strength * 0.5;
+    const newL = lumDelta >= 0 ? l + (1 - l) * lumDelta : l * (1 + lumDelta);
+
+    const [r, g, b] = hslToRgb(newH, newS, newL);
+    data[i] = Math.max(0, Math.min(1, r));
+    data[i + 1] = Math.max(0, Math.min(1, g));
+    data[i + 2] = Math.max(0, Math.min(1, b));
+  }
+}
+
+// Apply per-hue HSL mixer
+export async function applyHsl(pipeline: sharp.Sharp, op: HslOp): Promise<sharp.Sharp> {
+  return processFloat(pipeline, (image) => hslFloat(image, op));
+}
+
+// Look up an encoded RGB value in a 3D LUT, writing the result to out. Tetrahedral interpolation
+// uses 4 of the 8 surrounding grid points and keeps neutrals exactly on the gray axis; trilinear
+// blends all 8.
+export function sampleLut(
+  lut: Lut3D,
+  r: number,
+  g: number,
+  b: number,
+  interpolation: 'trilinear' | 'tetrahedral',
+  out: Float32Array | number[]
+): void {
+  const { size, table, domainMin, domainMax } = lut;
+  const maxIndex = size - 1;
+  const scale = (v: number, c: number) =>
+    Math.max(0, Math.min(1, (v - domainMin[c]) / (domainMax[c] - domainMin[c]))) * maxIndex;
+  const x = scale(r, 0);
+  const y = scale(g, 1);
+  const z = scale(b, 2);
+
+  const r0 = Math.min(maxIndex - 1, Math.floor(x));
+  const g0 = Math.min(maxIndex - 1, Math.floor(y));
+  const b0 = Math.min(maxIndex - 1, Math.floor(z));
+  const fr = x - r0;
+  const fg = y - g0;
+  const fb = z - b0;
+
+  // Table offset of grid point (r0 + dr, g0 + dg, b0 + db); red changes fastest
+  const at = (dr: number, dg: number, db: number) => (((b0 + db) * size + (g0 + dg)) * size + (r0 + dr)) * 3;
+
+  if (interpolation === 'trilinear') {
+    for (let c = 0; c < 3; c++) {
+      const c00 = table[at(0, 0, 0) + c] * (1 - fr) + table[at(1, 0, 0) + c] * fr;
+      const c10 = table[at(0, 1, 0) + c] * (1 - fr) + table[at(1, 1, 0) + c] * fr;
+      const c01 = table[at(0, 0, 1) + c] * (1 - fr) + table[at(1, 0, 1) + c] * fr;
+      const c11 = table[at(0, 1, 1) + c] * (1 - fr) + table[at(1, 1, 1) + c] * fr;
+      out[c] = (c00 * (1 - fg) + c10 * fg) * (1 - fb) + (c01 * (1 - fg) + c11 * fg) * fb;
+    }
+    return;
+  }
+
+  // Pick the tetrahedron containing the point by ordering the fractions; its corners run from
+  // (0,0,0) to (1,1,1) stepping along the axes with the largest fractions first
+  let p1: number, p2: number, w0: number, w1: number, w2: number, w3: number;
+  if (fr > fg) {
+    if (fg > fb) {
+      [p1, p2, w0, w1, w2, w3] = [at(1, 0, 0), at(1, 1, 0), 1 - fr, fr - fg, fg - fb, fb];
+    } else if (fr > fb) {
+      [p1, p2, w0, w1, w2, w3] = [at(1, 0, 0), at(1, 0, 1), 1 - fr, fr - fb, fb - fg, fg];
+    } else {
+      [p1, p2, w0, w1, w2, w3] = [at(0, 0, 1), at(1, 0, 1), 1 - fb, fb - fr, fr - fg, fg];
+    }
+  } else if (fb > fg) {
+    [p1, p2, w0, w1, w2, w3] = [at(0, 0, 1), at(0, 1, 1), 1 - fb, fb - fg, fg - fr, fr];
+  } else if (fb > fr) {
+    [p1, p2, w0, w1, w2, w3] = [at(0, 1, 0), at(0, 1, 1), 1 - fg, fg - fb, fb - fr, fr];
+  } else {
+    [p1, p2, w0, w1, w2, w3] = [at(0, 1, 0), at(1, 1, 0), 1 - fg, fg - fr, fr - fb, fb];
+  }
+
+  const p0 = at(0, 0, 0);
+  const p3 = at(1, 1, 1);
+  for (let c = 0; c < 3; c++) {
+    out[c] = w0 * table[p0 + c] + w1 * table[p1 + c] + w2 * table[p2 + c] + w3 * table[p3 + c];
+  }
+}
+
+// 3D LUT on encoded values, blended with the input by opacity
+function lutFloat(image: FloatImage, op: LutOp, lut: Lut3D): void {
+  const opacity = op.opacity / 100;
+  if (opacity === 0) return;
+
+  toEncoded(image);
+  const { data, channels } = image;
+  const interpolation = op.interpolation ?? 'tetrahedral';
+  const out = new Float32Array(3);
+
+  for (let i = 0; i < data.length; i += channels) {
+    sampleLut(lut, data[i], data[i + 1], data[i + 2], interpolation, out);
+    for (let c = 0; c < 3; c++) {
+      data[i + c] += (out[c] - data[i + c]) * opacity;
+    }
+  }
+}
+
+// Load the LUT files referenced by lut ops, keyed by op path
+export async function loadOpLuts(ops: ColorOp[]): Promise<Map<string, Lut3D>> {
+  const luts = new Map<string, Lut3D>();
   for (const op of ops) {
-    if (op.op === 'white_balance') {
-      if (op.method === 'gray_point') {
-        result = await applyWhiteBalanceGrayPoint(result, op as WhiteBalanceOp, originalMetadata);
-      } else if (op.method === 'temp_tint') {
-        result = applyWhiteBalanceTempTint(result, op as WhiteBalanceOp);
+    if (op.op === 'lut' && !luts.has(op.path)) {
+      luts.set(op.path, await loadLut(op.path));
+    }
+  }
+  return luts;
+}
+
+// Apply a 3D LUT (op.path is resolved against the working directory)
+export async function applyLut(pipeline: sharp.Sharp, op: LutOp): Promise<sharp.Sharp> {
+  const lut = await loadLut(op.path);
+  return processFloat(pipeline, (image) => lutFloat(image, op, lut));
+}
+
+// Weight in [0..1] of each pixel center along one axis of a ROI spanning [lo, hi] pixels, with a
+// smooth edge feather pixels wide centered on each boundary
+function roiAxisWeights(size: number, lo: number, hi: number, feather: number): Float32Array {
+  const weights = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const inside = Math.min(i + 0.5 - lo, hi - i - 0.5); // Distance to the nearest edge, negative outside
+    weights[i] = feather > 0 ? smoothstep(-feather / 2, feather / 2, inside) : inside >= 0 ? 1 : 0;
+  }
+  return weights;
+}
+
+type LocalOp = LocalAdjustOp | GradientLinearOp | GradientRadialOp;
+
+function hasLocalSliders(op: LocalOp): boolean {
+  return Boolean(
+    op.ev || op.contrast || op.saturation || ('temp' in op && op.temp) || ('vibrance' in op && op.vibrance)
+  );
+}
+
+// Render a local op's sliders for the pixels in [x0, x1) x [y0, y1) and blend the result over the
+// image by weight(x, y) in [0..1], times the op's rasterized mask when it has one. The layer is
+// adjusted in the image's current encoding and converted back to it, so the blend mixes like with like.
+function blendLocalFloat(
+  image: FloatImage,
+  op: LocalOp,
+  region: [number, number, number, number],
+  weight: (x: number, y: number) => number,
+  mask?: Float32Array
+): void {
+  const { width, channels } = image;
+  const [x0, y0, x1, y1] = region;
+  if (x1 <= x0 || y1 <= y0) return;
+
+  // Copy the region
+  const layerWidth = x1 - x0;
+  const layer: FloatImage = {
+    data: new Float32Array(layerWidth * (y1 - y0) * channels),
+    width: layerWidth,
+    height: y1 - y0,
+    channels,
+    encoding: image.encoding,
+  };
+  for (let y = y0; y < y1; y++) {
+    const start = (y * width + x0) * channels;
+    layer.data.set(image.data.subarray(start, start + layerWidth * channels), (y - y0) * layerWidth * channels);
+  }
+
+  // Same order as the global ops
+  const base = { id: op.id };
+  if ('temp' in op && op.temp) {
+    whiteBalanceFloat(layer, { ...base, op: 'white_balance', method: 'temp_tint', temp: op.temp });
+  }
+  if (op.ev) exposureFloat(layer, { ...base, op: 'exposure', ev: op.ev });
+  if (op.contrast) contrastFloat(layer, { ...base, op: 'contrast', amt: op.contrast });
+  if (op.saturation) saturationFloat(layer, { ...base, op: 'saturation', amt: op.saturation });
+  if ('vibrance' in op && op.vibrance) vibranceFloat(layer, { ...base, op: 'vibrance', amt: op.vibrance });
+  if (image.encoding === 'linear') toLinear(layer);
+  else toEncoded(layer);
+
+  const { data } = image;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const w = mask ? weight(x, y) * mask[y * width + x] : weight(x, y);
+      if (w === 0) continue;
+
+      const i = (y * width + x) * channels;
+      const j = ((y - y0) * layerWidth + (x - x0)) * channels;
+      for (let c = 0; c < 3; c++) {
+        data[i + c] += (layer.data[j + c] - data[i + c]) * w;
       }
+    }
+  }
+}
+
+// Local adjustment: the adjusted layer is rendered for the ROI and its feather margin only (or
+// the whole image when inverted), then blended over the image through the feathered rectangle
+function localAdjustFloat(image: FloatImage, op: LocalAdjustOp, mask?: Float32Array): void {
+  if (!hasLocalSliders(op)) return;
+
+  const { width, height } = image;
+  const [rx, ry, rw, rh] = op.roi;
+  const left = rx * width;
+  const top = ry * height;
+  const right = (rx + rw) * width;
+  const bottom = (ry + rh) * height;
+  if (right <= left || bottom <= top) return;
+
+  const feather = (op.feather / 100) * Math.min(right - left, bottom - top);
+  const region: [number, number, number, number] = op.invert
+    ? [0, 0, width, height]
+    : [
+        Math.max(0, Math.floor(left - feather / 2)),
+        Math.max(0, Math.floor(top - feather / 2)),
+        Math.min(width, Math.ceil(right + feather / 2)),
+        Math.min(height, Math.ceil(bottom + feather / 2)),
+      ];
+
+  // Blend through the feathered rectangle (1 - rectangle when inverted)
+  const weightsX = roiAxisWeights(width, left, right, feather);
+  const weightsY = roiAxisWeights(height, top, bottom, feather);
+  blendLocalFloat(
+    image,
+    op,
+    region,
+    (x, y) => {
+      const weight = weightsX[x] * weightsY[y];
+      return op.invert ? 1 - weight : weight;
+    },
+    mask
+  );
+}
+
+// Apply a local adjustment (ROI in normalized coordinates of the pipeline's image)
+export async function applyLocalAdjust(pipeline: sharp.Sharp, op: LocalAdjustOp): Promise<sharp.Sharp> {
+  return processFloat(pipeline, (image) => localAdjustFloat(image, op));
+}
+
+// Linear gradient (graduated filter): full effect on the start side, none on the end side. t runs
+// from 0 at the start point to 1 at the end point along the line between them, and the transition
+// is centered halfway, feather percent of the distance wide (a hard edge at 0).
+function gradientLinearFloat(image: FloatImage, op: GradientLinearOp, mask?: Float32Array): void {
+  if (!hasLocalSliders(op)) return;
+
+  const { width, height } = image;
+  const sx = op.start[0] * width;
+  const sy = op.start[1] * height;
+  const dx = op.end[0] * width - sx;
+  const dy = op.end[1] * height - sy;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return; // No direction
+
+  const feather = op.feather / 100;
+  blendLocalFloat(
+    image,
+    op,
+    [0, 0, width, height],
+    (x, y) => {
+      const t = ((x + 0.5 - sx) * dx + (y + 0.5 - sy) * dy) / lengthSq;
+      if (feather === 0) return t < 0.5 ? 1 : 0;
+      return 1 - smoothstep(0.5 - feather / 2, 0.5 + feather / 2, t);
+    },
+    mask
+  );
+}
+
+// Apply a linear gradient (points in normalized coordinates of the pipeline's image)
+export async function applyGradientLinear(pipeline: sharp.Sharp, op: GradientLinearOp): Promise<sharp.Sharp> {
+  return processFloat(pipeline, (image) => gradientLinearFloat(image, op));
+}
+
+// Radial gradient: full effect inside the ellipse, fading out over the last feather percent of the
+// radius (everything outside the ellipse when inverted). Only the ellipse's bounding box is rendered
+// unless it is inverted.
+function gradientRadialFloat(image: FloatImage, op: GradientRadialOp, mask?: Float32Array): void {
+  if (!hasLocalSliders(op)) return;
+
+  const { width, height } = image;
+  const cx = op.center[0] * width;
+  const cy = op.center[1] * height;
+  const rx = op.radiusX * width;
+  const ry = op.radiusY * height;
+  const region: [number, number, number, number] = op.invert
+    ? [0, 0, width, height]
+    : [
+        Math.max(0, Math.floor(cx - rx)),
+        Math.max(0, Math.floor(cy - ry)),
+        Math.min(width, Math.ceil(cx + rx)),
+        Math.min(height, Math.ceil(cy + ry)),
+      ];
+
+  const feather = op.feather / 100;
+  blendLocalFloat(
+    image,
+    op,
+    region,
+    (x, y) => {
+      const distance = Math.hypot((x + 0.5 - cx) / rx, (y + 0.5 - cy) / ry); // 1 on the ellipse
+      const weight = feather > 0 ? 1 - smoothstep(1 - feather, 1, distance) : distance <= 1 ? 1 : 0;
+      return op.invert ? 1 - weight : weight;
+    },
+    mask
+  );
+}
+
+// Apply a radial gradient (center and radii in normalized coordinates of the pipeline's image)
+export async function applyGradientRadial(pipeline: sharp.Sharp, op: GradientRadialOp): Promise<sharp.Sharp> {
+  return processFloat(pipeline, (image) => gradientRadialFloat(image, op));
+}
+
+// Apply color operations to a float image in stack order. Each op converts the image to the
+// encoding it works in, so consecutive linear-light ops share one decode. LUT ops need their
+// files in luts (see loadOpLuts), and masked local ops their masks rasterized at the image's size
+// in masks; a local op whose mask is missing (removed or disabled) is skipped rather than applied
+// to the whole image.
+export function applyColorOperationsFloat(
+  image: FloatImage,
+  ops: ColorOp[],
+  luts: Map<string, Lut3D> = new Map(),
+  masks: Map<string, Float32Array> = new Map()
+): FloatImage {
+  const maskFor = (op: LocalOp) => (op.mask === undefined ? undefined : masks.get(op.mask));
+  for (const op of ops) {
+    if ('mask' in op && op.mask !== undefined && !masks.has(op.mask)) {
+      continue;
+    }
+    if (op.op === 'white_balance') {
+      whiteBalanceFloat(image, op as WhiteBalanceOp);
     } else if (op.op === 'exposure') {
-      result = applyExposure(result, op as ExposureOp);
+      exposureFloat(image, op as ExposureOp);
     } else if (op.op === 'contrast') {
-      result = applyContrast(result, op as ContrastOp);
+      contrastFloat(image, op as ContrastOp);
     } else if (op.op === 'saturation') {
-      result = applySaturation(result, op as SaturationOp);
+      saturationFloat(image, op as SaturationOp);
     } else if (op.op === 'vibrance') {
-      result = await applyVibrance(result, op as VibranceOp);
+      vibranceFloat(image, op as VibranceOp);
+    } else if (op.op === 'curve') {
+      channelLutsFloat(image, curveLuts(op as CurveOp));
+    } else if (op.op === 'levels') {
+      channelLutsFloat(image, levelsLuts(op as LevelsOp));
+    } else if (op.op === 'tone_regions') {
+      toneRegionsFloat(image, op as ToneRegionsOp);
+    } else if (op.op === 'hsl') {
+      hslFloat(image, op as HslOp);
+    } else if (op.op === 'lut') {
+      const lut = luts.get(op.path);
+      if (!lut) {
+        throw new Error(`LUT not loaded: ${op.path}`);
+      }
+      lutFloat(image, op as LutOp, lut);
+    } else if (op.op === 'local_adjust') {
+      localAdjustFloat(image, op as LocalAdjustOp, maskFor(op));
+    } else if (op.op === 'gradient_linear') {
+      gradientLinearFloat(image, op as GradientLinearOp, maskFor(op));
+    } else if (op.op === 'gradient_radial') {
+      gradientRadialFloat(image, op as GradientRadialOp, maskFor(op));
+    }
+  }
+
+  return image;
+}
+
+// Main function to apply all color operations to a pipeline. Pixels are decoded once to
+// linear-light floats, processed, and re-encoded once at the requested bit depth, so
+// render_preview, commit_version and computeHistogram all go through the same float path.
+// Mask ops are rasterized at the decoded size, ranges from the pixels before any op (see rasterizeMasks).
+export async function applyColorOperations(
+  pipeline: sharp.Sharp,
+  ops: ColorOp[],
+  depth: BitDepth = 8,
+  masks: MaskOp[] = []
+): Promise<sharp.Sharp> {
+  const luts = await loadOpLuts(ops);
+  const image = await toFloatImage(pipeline);
+  const rasters = rasterizeMasks(masks, image.width, image.height, image);
+  return fromFloatImage(applyColorOperationsFloat(image, ops, luts, rasters), depth);
+}
+
+// Sample color operations on a size³ grid of encoded RGB values, giving a LUT that reproduces
+// them. Ops that depend on the image's pixels (gray point white balance) or on their position
+// (local adjustments and gradients) cannot be baked and must be converted or left out by the caller.
+export async function bakeLut(ops: ColorOp[], size: number, title?: string): Promise<Lut3D> {
+  const luts = await loadOpLuts(ops);
+  const data = new Float32Array(size ** 3 * 3);
+  for (let b = 0, i = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++, i += 3) {
+        data[i] = r / (size - 1);
+        data[i + 1] = g / (size - 1);
+        data[i + 2] = b / (size - 1);
+      }
     }
   }
 
-  return result;
+  const image: FloatImage = { data, width: size ** 3, height: 1, channels: 3, encoding: 'srgb' };
+  applyColorOperationsFloat(image, ops, luts);
+  toEncoded(image);
+
+  return {
+    title,
+    size,
+    domainMin: [0, 0, 0],
+    domainMax: [1, 1, 1],
+    table: image.data.map((v) => Math.max(0, Math.min(1, v))),
+  };
 }
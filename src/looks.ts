@@ -0,0 +1,229 @@
+// Named looks (ROADMAP Phase 7h): deterministic recipes of ordinary planner calls, applied by the
+// planner's apply_look call. Built-in looks are defined here; user looks come from a looks.json file.
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PlannedCall, PLANNER_CLAMPS } from './planner/types.js';
+import { validateAndClampCall } from './planner/tools.js';
+import { CURVE_PRESETS, CurvePoint } from './editStack.js';
+
+// A look expands to at most this many calls, so it lands as a handful of ops
+export const MAX_LOOK_CALLS = 6;
+
+// Looks only adjust color and tone; geometry, history and export stay with the user
+const LOOK_FNS = [
+  'set_white_balance_temp_tint',
+  'set_exposure',
+  'set_contrast',
+  'set_saturation',
+  'set_vibrance',
+  'set_curve',
+  'set_tone_regions',
+  'set_hsl',
+] as const;
+
+export type LookCall = Extract<PlannedCall, { fn: (typeof LOOK_FNS)[number] }>;
+
+export interface Look {
+  name: string; // lowercase with underscores, e.g. teal_orange_mild
+  description: string;
+  calls: LookCall[];
+}
+
+export const BUILTIN_LOOKS: Look[] = [
+  {
+    name: 'teal_orange_mild',
+    description: 'Subtle teal shadows and warm skin, for portraits and travel',
+    calls: [
+      { fn: 'set_white_balance_temp_tint', args: { temp: 10, tint: 0 } },
+      { fn: 'set_contrast', args: { amt: 15 } },
+      { fn: 'set_saturation', args: { amt: 8 } },
+      { fn: 'set_vibrance', args: { amt: 12 } },
+      { fn: 'set_hsl', args: { band: 'blue', hue: -25, sat: 10 } },
+      { fn: 'set_hsl', args: { band: 'aqua', hue: -10, sat: 10 } },
+    ],
+  },
+  {
+    name: 'teal_orange',
+    description: 'Cinematic teal and orange split with punchy contrast',
+    calls: [
+      { fn: 'set_white_balance_temp_tint', args: { temp: 15, tint: -5 } },
+      { fn: 'set_contrast', args: { amt: 25 } },
+      { fn: 'set_vibrance', args: { amt: 20 } },
+      { fn: 'set_hsl', args: { band: 'orange', sat: 15, lum: 5 } },
+      { fn: 'set_hsl', args: { band: 'blue', hue: -40, sat: 20 } },
+      { fn: 'set_hsl', args: { band: 'aqua', hue: -20, sat: 20 } },
+    ],
+  },
+  {
+    name: 'warm_film',
+    description: 'Warm, faded film stock with soft blacks',
+    calls: [
+      { fn: 'set_white_balance_temp_tint', args: { temp: 20, tint: 5 } },
+      { fn: 'set_curve', args: { preset: 'fade' } },
+      { fn: 'set_contrast', args: { amt: -10 } },
+      { fn: 'set_saturation', args: { amt: -10 } },
+      { fn: 'set_vibrance', args: { amt: 10 } },
+    ],
+  },
+  {
+    name: 'moody',
+    description: 'Dark, cool and desaturated with held-back highlights',
+    calls: [
+      { fn: 'set_exposure', args: { ev: -0.3 } },
+      { fn: 'set_white_balance_temp_tint', args: { temp: -10, tint: 0 } },
+      { fn: 'set_contrast', args: { amt: 20 } },
+      { fn: 'set_tone_regions', args: { highlights: -30, blacks: -15 } },
+      { fn: 'set_saturation', args: { amt: -20 } },
+    ],
+  },
+  {
+    name: 'bright_airy',
+    description: 'Bright, low-contrast and open shadows, for weddings and interiors',
+    calls: [
+      { fn: 'set_exposure', args: { ev: 0.4 } },
+      { fn: 'set_contrast', args: { amt: -15 } },
+      { fn: 'set_tone_regions', args: { highlights: -20, shadows: 30 } },
+      { fn: 'set_white_balance_temp_tint', args: { temp: 5, tint: 0 } },
+      { fn: 'set_vibrance', args: { amt: 10 } },
+    ],
+  },
+  {
+    name: 'bw_classic',
+    description: 'Black and white with an S-curve',
+    calls: [
+      { fn: 'set_saturation', args: { amt: -100 } },
+      { fn: 'set_contrast', args: { amt: 20 } },
+      { fn: 'set_curve', args: { preset: 's_curve' } },
+    ],
+  },
+];
+
+// User looks file: $PHOTO_AGENT_LOOKS_FILE, or ~/.photo-agent/looks.json next to the presets
+export function userLooksPath(): string {
+  return process.env.PHOTO_AGENT_LOOKS_FILE || path.join(os.homedir(), '.photo-agent', 'looks.json');
+}
+
+// Look names are matched without regard to case, spaces or hyphens ("Teal-Orange mild")
+export function normalizeLookName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+}
+
+// Validate one look definition; calls are validated and clamped like planner calls
+export function parseLook(name: string, input: any): Look {
+  const lookName = normalizeLookName(name);
+  if (!/^[a-z0-9_]+$/.test(lookName)) {
+    throw new Error(`Invalid look name: ${name}`);
+  }
+  if (!Array.isArray(input?.calls) || input.calls.length === 0 || input.calls.length > MAX_LOOK_CALLS) {
+    throw new Error(`Look ${lookName} must have 1-${MAX_LOOK_CALLS} calls`);
+  }
+
+  const calls = input.calls.map((call: any, i: number) => {
+    const valid = LOOK_FNS.includes(call?.fn) ? validateAndClampCall(call) : null;
+    if (!valid) {
+      throw new Error(`Look ${lookName}: call ${i} is not a valid color or tone adjustment`);
+    }
+    return valid as LookCall;
+  });
+
+  return { name: lookName, description: typeof input.description === 'string' ? input.description : '', calls };
+}
+
+// Built-in looks plus the user looks in looks.json ({"name": {"description": ..., "calls": [...]}}).
+// User looks replace built-in looks of the same name; invalid ones are skipped and reported in errors.
+export async function loadLooks(filePath: string = userLooksPath()): Promise<{ looks: Look[]; errors: string[] }> {
+  const looks = new Map(BUILTIN_LOOKS.map((look) => [look.name, look]));
+  const errors: string[] = [];
+
+  let json: any;
+  try {
+    json = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') {
+      errors.push(`${path.basename(filePath)}: ${err.message}`);
+    }
+    return { looks: Array.from(looks.values()), errors };
+  }
+
+  for (const [name, definition] of Object.entries(json ?? {})) {
+    try {
+      const look = parseLook(name, definition);
+      looks.set(look.name, look);
+    } catch (err: any) {
+      errors.push(err.message);
+    }
+  }
+
+  return { looks: Array.from(looks.values()), errors };
+}
+
+export function findLook(looks: Look[], name: string): Look | undefined {
+  const wanted = normalizeLookName(name);
+  return looks.find((look) => look.name === wanted);
+}
+
+// The calls of a look at an intensity in percent: every adjustment is scaled toward neutral,
+// and curves are blended with the identity line
+export function expandLook(look: Look, intensity: number = 100): LookCall[] {
+  const k = Math.max(PLANNER_CLAMPS.lookIntensity.min, Math.min(PLANNER_CLAMPS.lookIntensity.max, intensity)) / 100;
+  const scale = (v: number | undefined, decimals = 0) =>
+    v === undefined ? undefined : Math.round(v * k * 10 ** decimals) / 10 ** decimals;
+  const scalePoints = (points: CurvePoint[] | undefined) =>
+    points?.map(([x, y]): CurvePoint => [x, Math.round((x + (y - x) * k) * 1000) / 1000]);
+
+  return look.calls.map((call): LookCall => {
+    switch (call.fn) {
+      case 'set_white_balance_temp_tint':
+        return { fn: call.fn, args: { temp: scale(call.args.temp)!, tint: scale(call.args.tint)! } };
+      case 'set_exposure':
+        return { fn: call.fn, args: { ev: scale(call.args.ev, 2)! } };
+      case 'set_contrast':
+      case 'set_saturation':
+      case 'set_vibrance':
+        return { fn: call.fn, args: { amt: scale(call.args.amt)! } };
+      case 'set_tone_regions':
+        return {
+          fn: call.fn,
+          args: stripUndefined({
+            highlights: scale(call.args.highlights),
+            shadows: scale(call.args.shadows),
+            whites: scale(call.args.whites),
+            blacks: scale(call.args.blacks),
+          }),
+        };
+      case 'set_hsl':
+        return {
+          fn: call.fn,
+          args: stripUndefined({
+            band: call.args.band,
+            hue: scale(call.args.hue),
+            sat: scale(call.args.sat),
+            lum: scale(call.args.lum),
+          }),
+        };
+      case 'set_curve': {
+        if (k === 1) return call;
+        // Blend the preset's points, with explicit channels overriding it as addCurve does
+        const preset = call.args.preset ? CURVE_PRESETS[call.args.preset] : undefined;
+        return {
+          fn: call.fn,
+          args: stripUndefined({
+            master: scalePoints(call.args.master ?? preset?.master),
+            r: scalePoints(call.args.r ?? preset?.r),
+            g: scalePoints(call.args.g ?? preset?.g),
+            b: scalePoints(call.args.b ?? preset?.b),
+          }),
+        };
+      }
+    }
+  });
+}
+
+function stripUndefined<T extends object>(obj: T): T {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as T;
+}
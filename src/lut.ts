@@ -0,0 +1,201 @@
+// 3D LUTs for the lut op and the bake_lut tool: .cube (Resolve/Adobe) and .3dl (Lustre/Nuke)
+// parsing, a cache of parsed files and .cube output
+
+import fs from 'fs/promises';
+import path from 'path';
+
+export const LUT_EXTENSIONS = ['.cube', '.3dl'];
+
+// Largest grid accepted (129³ entries take 25MB as floats)
+export const MAX_LUT_SIZE = 129;
+
+export interface Lut3D {
+  title?: string;
+  size: number; // grid points per axis
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  table: Float32Array; // size³ RGB triples in .cube order: red changes fastest, then green, then blue
+}
+
+function checkSize(size: number): void {
+  if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+    throw new Error(`Unsupported LUT size ${size} (expected 2-${MAX_LUT_SIZE})`);
+  }
+}
+
+// Parse a .cube file. 1D LUTs are rejected; DOMAIN_MIN/MAX and Resolve's LUT_3D_INPUT_RANGE are kept.
+export function parseCubeLut(text: string): Lut3D {
+  let title: string | undefined;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [keyword, ...rest] = line.split(/\s+/);
+    if (/^[-+.\d]/.test(keyword)) {
+      const rgb = [keyword, ...rest].map(Number);
+      if (rgb.length !== 3 || rgb.some((v) => !Number.isFinite(v))) {
+        throw new Error(`Invalid LUT entry: ${line}`);
+      }
+      values.push(...rgb);
+    } else if (keyword === 'TITLE') {
+      title = line
+        .slice(5)
+        .trim()
+        .replace(/^"(.*)"$/, '$1');
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size = Number(rest[0]);
+      checkSize(size);
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error('1D LUTs are not supported (expected LUT_3D_SIZE)');
+    } else if (keyword === 'DOMAIN_MIN' || keyword === 'DOMAIN_MAX') {
+      const domain = rest.map(Number) as [number, number, number];
+      if (domain.length !== 3 || domain.some((v) => !Number.isFinite(v))) {
+        throw new Error(`Invalid ${keyword}: ${line}`);
+      }
+      if (keyword === 'DOMAIN_MIN') domainMin = domain;
+      else domainMax = domain;
+    } else if (keyword === 'LUT_3D_INPUT_RANGE') {
+      const [min, max] = rest.map(Number);
+      domainMin = [min, min, min];
+      domainMax = [max, max, max];
+    }
+    // Other keywords (LUT_1D_INPUT_RANGE, vendor extensions) do not affect a 3D LUT
+  }
+
+  if (size === 0) {
+    throw new Error('Missing LUT_3D_SIZE');
+  }
+  if (values.length !== size ** 3 * 3) {
+    throw new Error(`Expected ${size ** 3} LUT entries for size ${size}, found ${values.length / 3}`);
+  }
+  if (domainMin.some((min, c) => min >= domainMax[c])) {
+    throw new Error('DOMAIN_MIN must be below DOMAIN_MAX');
+  }
+
+  return { title, size, domainMin, domainMax, table: Float32Array.from(values) };
+}
+
+// Parse a .3dl file: a line with the input mesh (e.g. "0 64 128 ... 1023") followed by integer
+// output triples with blue changing fastest. The output bit depth comes from a Lustre "Mesh"
+// line when there is one, otherwise from the largest value (10, 12 or 16 bits). Other lines that
+// are not all numbers are headers ("3DMESH", "LUT8", "gamma 1.0") and are skipped.
+export function parse3dlLut(text: string): Lut3D {
+  let size = 0;
+  let outputMax = 0;
+  const values: number[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const fields = line.split(/\s+/);
+    if (fields[0] === 'Mesh') {
+      outputMax = 2 ** Number(fields[2]) - 1;
+      continue;
+    }
+    if (!fields.every((field) => /^\d+$/.test(field))) continue;
+
+    const numbers = fields.map(Number);
+    if (size === 0) {
+      size = numbers.length;
+      checkSize(size);
+    } else if (numbers.length === 3) {
+      values.push(...numbers);
+    } else {
+      throw new Error(`Invalid LUT entry: ${line}`);
+    }
+  }
+
+  if (size === 0) {
+    throw new Error('Missing the input mesh line');
+  }
+  if (values.length !== size ** 3 * 3) {
+    throw new Error(`Expected ${size ** 3} LUT entries for size ${size}, found ${values.length / 3}`);
+  }
+
+  if (!outputMax) {
+    const largest = values.reduce((max, v) => Math.max(max, v), 0);
+    outputMax = [1023, 4095, 65535].find((max) => largest <= max) ?? largest;
+  }
+
+  // Reorder from blue-fastest to red-fastest
+  const table = new Float32Array(values.length);
+  for (let r = 0; r < size; r++) {
+    for (let g = 0; g < size; g++) {
+      for (let b = 0; b < size; b++) {
+        const src = ((r * size + g) * size + b) * 3;
+        const dst = ((b * size + g) * size + r) * 3;
+        for (let c = 0; c < 3; c++) table[dst + c] = values[src + c] / outputMax;
+      }
+    }
+  }
+
+  return { size, domainMin: [0, 0, 0], domainMax: [1, 1, 1], table };
+}
+
+// Parse a LUT file by its extension
+export function parseLut(text: string, fileName: string): Lut3D {
+  const ext = path.extname(fileName).toLowerCase();
+  if (ext === '.cube') return parseCubeLut(text);
+  if (ext === '.3dl') return parse3dlLut(text);
+  throw new Error(`Unsupported LUT format: ${ext || fileName} (expected ${LUT_EXTENSIONS.join(' or ')})`);
+}
+
+// Parsed LUTs by absolute path; an entry is reused while the file's mtime and size are unchanged
+const lutCache = new Map<string, { mtimeMs: number; bytes: number; lut: Lut3D }>();
+const LUT_CACHE_SIZE = 8;
+
+// Read and parse a LUT file once. Errors name the file, e.g. "film.cube: Missing LUT_3D_SIZE".
+export async function loadLut(filePath: string): Promise<Lut3D> {
+  const resolved = path.resolve(filePath);
+  let stats;
+  try {
+    stats = await fs.stat(resolved);
+  } catch (err: any) {
+    if (err.code === 'ENOENT') {
+      throw new Error(`LUT not found: ${filePath}`);
+    }
+    throw err;
+  }
+
+  const cached = lutCache.get(resolved);
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.bytes === stats.size) {
+    return cached.lut;
+  }
+
+  let lut: Lut3D;
+  try {
+    lut = parseLut(await fs.readFile(resolved, 'utf-8'), resolved);
+  } catch (err: any) {
+    throw new Error(`${path.basename(resolved)}: ${err.message}`);
+  }
+
+  lutCache.delete(resolved);
+  lutCache.set(resolved, { mtimeMs: stats.mtimeMs, bytes: stats.size, lut });
+  if (lutCache.size > LUT_CACHE_SIZE) {
+    lutCache.delete(lutCache.keys().next().value!);
+  }
+  return lut;
+}
+
+// Write a LUT as a .cube file (6 decimals, DOMAIN lines only when not [0..1])
+export function formatCubeLut(lut: Lut3D): string {
+  const lines: string[] = [];
+  if (lut.title) lines.push(`TITLE "${lut.title.replace(/"/g, "'")}"`);
+  lines.push(`LUT_3D_SIZE ${lut.size}`);
+  if (lut.domainMin.some((v) => v !== 0) || lut.domainMax.some((v) => v !== 1)) {
+    lines.push(`DOMAIN_MIN ${lut.domainMin.join(' ')}`, `DOMAIN_MAX ${lut.domainMax.join(' ')}`);
+  }
+  lines.push('');
+
+  const { table } = lut;
+  for (let i = 0; i < table.length; i += 3) {
+    lines.push(`${table[i].toFixed(6)} ${table[i + 1].toFixed(6)} ${table[i + 2].toFixed(6)}`);
+  }
+  return lines.join('\n') + '\n';
+}
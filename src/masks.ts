@@ -0,0 +1,228 @@
+// Mask ops: polygons and brush strokes in normalized original-image coordinates, and luminance and
+// color ranges and automatic sky/subject/background masks (see autoMask.ts) found from the image's
+// own pixels, combined in order with add/subtract/intersect.
+// Local adjustments and gradients name a mask by op id and only apply where it is painted. Masks
+// are rasterized at the resolution the color ops run at and cached per mask stack and size (and
+// source pixels for ranges), so repeated renders of the same stack reuse them.
+
+import crypto from 'crypto';
+import { EditOp, HslBand, MaskOp, MaskShape } from './editStack.js';
+import { linearRgbToLab } from './colorTemperature.js';
+import { computeAutoMask } from './autoMask.js';
+
+// Vertical samples per pixel row when filling polygons (horizontal coverage is exact)
+const POLYGON_SUBROWS = 4;
+
+// LCh hue of typical colors in each HSL band (sky blue is near 270, foliage near 125), for
+// color ranges picked by band name
+export const BAND_HUES: Record<HslBand, number> = {
+  red: 30,
+  orange: 60,
+  yellow: 95,
+  green: 130,
+  aqua: 195,
+  blue: 270,
+  purple: 310,
+  magenta: 340,
+};
+
+// Linear sRGB pixels of the image before any color op, at the render size; luminance and color
+// ranges and automatic masks select from them, so later ops do not change what a mask covers
+export interface MaskSource {
+  data: Float32Array;
+  channels: number;
+}
+
+export function isMaskOp(op: EditOp): op is MaskOp {
+  return op.op === 'mask';
+}
+
+// Hermite smoothstep between edge0 and edge1
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+// Antialiased even-odd fill of a polygon into out (coverage in [0..1])
+function fillPolygon(out: Float32Array, points: [number, number][], width: number, height: number): void {
+  const xs = points.map(([x]) => x * width);
+  const ys = points.map(([, y]) => y * height);
+  const top = Math.max(0, Math.floor(Math.min(...ys)));
+  const bottom = Math.min(height, Math.ceil(Math.max(...ys)));
+  const crossings: number[] = [];
+
+  for (let row = top; row < bottom; row++) {
+    for (let sub = 0; sub < POLYGON_SUBROWS; sub++) {
+      const sy = row + (sub + 0.5) / POLYGON_SUBROWS;
+
+      // x of each edge crossing this scanline
+      crossings.length = 0;
+      for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        if (ys[i] > sy !== ys[j] > sy) {
+          crossings.push(xs[j] + ((sy - ys[j]) * (xs[i] - xs[j])) / (ys[i] - ys[j]));
+        }
+      }
+      crossings.sort((a, b) => a - b);
+
+      // Add each span's overlap with the pixels it touches
+      for (let k = 0; k + 1 < crossings.length; k += 2) {
+        const left = Math.max(0, crossings[k]);
+        const right = Math.min(width, crossings[k + 1]);
+        for (let x = Math.floor(left); x < right; x++) {
+          const coverage = Math.min(x + 1, right) - Math.max(x, left);
+          out[row * width + x] += coverage / POLYGON_SUBROWS;
+        }
+      }
+    }
+  }
+}
+
+// Paint a brush stroke into out: full strength within hardness percent of the radius of the path,
+// fading to nothing at the radius. Overlapping dabs take the maximum, so a stroke never builds up.
+function paintBrush(
+  out: Float32Array,
+  shape: Extract<MaskShape, { type: 'brush' }>,
+  width: number,
+  height: number
+): void {
+  const radius = shape.radius * Math.min(width, height);
+  const inner = (radius * shape.hardness) / 100;
+  const points = shape.points.map(([x, y]) => [x * width, y * height]);
+  const segments = points.length === 1 ? [[points[0], points[0]]] : points.slice(1).map((p, i) => [points[i], p]);
+
+  for (const [[ax, ay], [bx, by]] of segments) {
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+    const x0 = Math.max(0, Math.floor(Math.min(ax, bx) - radius));
+    const x1 = Math.min(width, Math.ceil(Math.max(ax, bx) + radius));
+    const y0 = Math.max(0, Math.floor(Math.min(ay, by) - radius));
+    const y1 = Math.min(height, Math.ceil(Math.max(ay, by) + radius));
+
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        // Distance from the pixel center to the segment
+        const px = x + 0.5 - ax;
+        const py = y + 0.5 - ay;
+        const t = lengthSq > 0 ? Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSq)) : 0;
+        const distance = Math.hypot(px - t * dx, py - t * dy);
+        if (distance >= radius) continue;
+
+        const value = inner < radius ? 1 - smoothstep(inner, radius, distance) : 1;
+        const i = y * width + x;
+        if (value > out[i]) out[i] = value;
+      }
+    }
+  }
+}
+
+// Select pixels by L* or by LCh hue and chroma, with a smoothstep falloff past the range
+function selectRange(
+  out: Float32Array,
+  shape: Extract<MaskShape, { type: 'luminance' | 'color' }>,
+  source: MaskSource
+): void {
+  const { data, channels } = source;
+  for (let p = 0, i = 0; p < out.length; p++, i += channels) {
+    const [L, a, b] = linearRgbToLab(data[i], data[i + 1], data[i + 2]);
+    if (shape.type === 'luminance') {
+      out[p] = rangeWeight(L, shape.range[0], shape.range[1], shape.falloff);
+    } else {
+      const hue = (Math.atan2(b, a) * 180) / Math.PI;
+      const distance = Math.abs(((hue - shape.hue + 540) % 360) - 180); // Around the hue circle
+      const chroma = Math.hypot(a, b);
+      const chromaWeight = shape.minChroma > 0 ? smoothstep(shape.minChroma / 2, shape.minChroma, chroma) : 1;
+      out[p] = rangeWeight(distance, 0, shape.hueRange, shape.falloff) * chromaWeight;
+    }
+  }
+}
+
+// 1 inside [low, high], fading to 0 over falloff on either side (a hard edge at 0)
+function rangeWeight(value: number, low: number, high: number, falloff: number): number {
+  if (falloff === 0) return value >= low && value <= high ? 1 : 0;
+  return smoothstep(low - falloff, low, value) * (1 - smoothstep(high, high + falloff, value));
+}
+
+// Rasterize a mask at width x height: each shape is drawn on its own and combined with the shapes
+// before it (add = union, subtract = difference, intersect = intersection), starting from nothing.
+// Ranges and automatic masks need the source pixels; without them they select nothing.
+export function rasterizeMask(op: MaskOp, width: number, height: number, source?: MaskSource): Float32Array {
+  const mask = new Float32Array(width * height);
+  const shapeMask = new Float32Array(width * height);
+
+  for (const shape of op.shapes) {
+    shapeMask.fill(0);
+    if (shape.type === 'polygon') {
+      fillPolygon(shapeMask, shape.points, width, height);
+    } else if (shape.type === 'brush') {
+      paintBrush(shapeMask, shape, width, height);
+    } else if (shape.type === 'auto') {
+      if (source) shapeMask.set(computeAutoMask(source, width, height, shape.kind));
+    } else if (source) {
+      selectRange(shapeMask, shape, source);
+    }
+
+    for (let i = 0; i < mask.length; i++) {
+      const value = Math.min(1, shapeMask[i]);
+      if (shape.mode === 'add') {
+        mask[i] = Math.max(mask[i], value);
+      } else if (shape.mode === 'subtract') {
+        mask[i] = Math.min(mask[i], 1 - value);
+      } else {
+        mask[i] = Math.min(mask[i], value);
+      }
+    }
+  }
+
+  return mask;
+}
+
+// Rasterized masks by stack hash and size; a preview and an export of the same stack fit side by side
+const maskCache = new Map<string, Map<string, Float32Array>>();
+const MASK_CACHE_SIZE = 2;
+
+// Values sampled from the source pixels for the cache key of masks that select from them
+const SOURCE_FINGERPRINT_SAMPLES = 4096;
+
+// Shapes that select from the source pixels rather than from their own geometry
+const PIXEL_SHAPES: MaskShape['type'][] = ['luminance', 'color', 'auto'];
+
+// Hash of the mask ops (timestamps do not change the raster)
+export function maskStackHash(masks: MaskOp[]): string {
+  const json = JSON.stringify(masks.map((op) => ({ ...op, createdAt: undefined })));
+  return crypto.createHash('sha256').update(json).digest('hex').substring(0, 16);
+}
+
+// Fingerprint of source pixels: a hash of evenly spaced samples, enough to tell images apart
+// without hashing every pixel on each render
+function sourceFingerprint(source: MaskSource): string {
+  const { data } = source;
+  const step = Math.max(1, Math.floor(data.length / SOURCE_FINGERPRINT_SAMPLES));
+  const samples = new Float32Array(Math.ceil(data.length / step));
+  for (let i = 0, j = 0; i < data.length; i += step, j++) samples[j] = data[i];
+  return crypto.createHash('sha256').update(Buffer.from(samples.buffer)).digest('hex').substring(0, 16);
+}
+
+// Rasterize masks at width x height, keyed by op id. The result is cached, so callers must not
+// modify it; masks with ranges or automatic shapes are also keyed by the source pixels.
+export function rasterizeMasks(
+  masks: MaskOp[],
+  width: number,
+  height: number,
+  source?: MaskSource
+): Map<string, Float32Array> {
+  if (masks.length === 0) return new Map();
+
+  const fromPixels = masks.some((op) => op.shapes.some((shape) => PIXEL_SHAPES.includes(shape.type)));
+  let key = `${maskStackHash(masks)}|${width}x${height}`;
+  if (fromPixels) key += `|${source ? sourceFingerprint(source) : 'no-source'}`;
+  const cached = maskCache.get(key);
+  if (cached) return cached;
+
+  const rasters = new Map(masks.map((op) => [op.id, rasterizeMask(op, width, height, source)]));
+  maskCache.set(key, rasters);
+  if (maskCache.size > MASK_CACHE_SIZE) {
+    maskCache.delete(maskCache.keys().next().value!);
+  }
+  return rasters;
+}
@@ -2,11 +2,13 @@
 // Uses Google's Gemini 2.5 Flash model with structured JSON output
 
 import { GoogleGenAI } from '@google/genai';
-import { Planner, PlannerInput, PlannerOutput, PlannedCall } from './types';
+import { Planner, PlannerInput, PlannerOutput, PlannedCall, PLANNER_CLAMPS } from './types';
 import { MockPlanner } from './mock';
 import { TOOL_CATALOG_DESCRIPTION, PLANNER_RESPONSE_SCHEMA, validateAndClampCall, getClampedValues } from './tools';
 import { NdjsonLogger } from '../common/logger';
 import { withSpan, addSpanEvent, getTraceId } from '../telemetry/tracing';
+import { EXPORT_FORMATS } from '../exportFormats';
+import { BUILTIN_LOOKS } from '../looks';
 
 const logger = new NdjsonLogger('gemini-planner');
 
@@ -27,6 +29,8 @@ export interface PlannerState {
     mime: string;
   };
   stackSummary: string;
+  presets?: string[]; // Names of the saved user presets
+  looks?: { name: string; description: string }[]; // Named looks, built-in and from looks.json
   limits: {
     temp: [number, number];
     ev: [number, number];
@@ -241,7 +245,15 @@ export class GeminiPlanner implements Planner {
         // Phase 7d: All operations are now allowed in vision mode
 
         const validated = validateAndClampCall(normalizedCall);
-        if (validated) {
+        const roiCount = validCalls.filter((c) => c.fn === 'local_adjust').length;
+        const isGradient = (fn?: string) => fn === 'gradient_linear' || fn === 'gradient_radial';
+        const gradientCount = validCalls.filter((c) => isGradient(c.fn)).length;
+        if (validated?.fn === 'local_adjust' && roiCount >= PLANNER_CLAMPS.rois.max) {
+          // Only the first ROIs are kept
+          droppedCalls.push(`local_adjust (more than ${PLANNER_CLAMPS.rois.max} ROIs)`);
+        } else if (isGradient(validated?.fn) && gradientCount >= PLANNER_CLAMPS.gradients.max) {
+          droppedCalls.push(`${validated!.fn} (more than ${PLANNER_CLAMPS.gradients.max} gradients)`);
+        } else if (validated) {
           validCalls.push(validated);
 
           // Check if values were clamped
@@ -418,8 +430,129 @@ Your task is to analyze the user's intent and generate the appropriate sequence
       - Preserves natural skin tones while enhancing other colors
     </usage_notes>
   </tool>
+
+  <tool name="set_curve">
+    <description>Applies a tone curve (monotone spline) to the master RGB curve and/or individual channels</description>
+    <parameters>
+      <param name="preset" type="string" enum="linear,s_curve,strong_s_curve,fade,cross_process" required="false">
+        Named curve preset. Explicit channel points override the preset's channels.
+      </param>
+      <param name="master" type="array[[input,output]]" required="false">
+        Master curve control points, each [input, output] in 0-1. ${PLANNER_CLAMPS.curvePoints.min} to ${PLANNER_CLAMPS.curvePoints.max} points.
+      </param>
+      <param name="r" type="array[[input,output]]" required="false">Red channel curve points</param>
+      <param name="g" type="array[[input,output]]" required="false">Green channel curve points</param>
+      <param name="b" type="array[[input,output]]" required="false">Blue channel curve points</param>
+    </parameters>
+    <usage_notes>
+      - "s-curve" or "filmic contrast" means preset: "s_curve"
+      - "faded blacks" or "matte look" means preset: "fade" (or master [[0,0.08],[1,1]])
+      - "cross processed" means preset: "cross_process"
+      - Prefer set_contrast for simple contrast changes
+    </usage_notes>
+  </tool>
+
+  <tool name="set_tone_regions">
+    <description>Adjusts highlights, shadows, whites and blacks independently using smooth luminance masks</description>
+    <parameters>
+      <param name="highlights" type="number" min="-100" max="100" required="false">
+        Bright tones. Negative recovers detail in skies and bright areas.
+      </param>
+      <param name="shadows" type="number" min="-100" max="100" required="false">
+        Dark tones. Positive opens up shadows without lifting the whole image.
+      </param>
+      <param name="whites" type="number" min="-100" max="100" required="false">Brightest tones (white point)</param>
+      <param name="blacks" type="number" min="-100" max="100" required="false">Darkest tones (black point)</param>
+    </parameters>
+    <usage_notes>
+      - "recover highlights" or "blown sky" means highlights -30 to -50
+      - "open shadows" or "lift shadows" means shadows +30 to +50
+      - "crush blacks" means blacks -20 to -40; "brighter whites" means whites +15 to +30
+      - Prefer this over set_exposure when only part of the tonal range needs changing
+    </usage_notes>
+  </tool>
+
+  <tool name="set_hsl">
+    <description>Adjusts hue, saturation and luminance of one hue band without touching other colors</description>
+    <parameters>
+      <param name="band" type="string" enum="red,orange,yellow,green,aqua,blue,purple,magenta" required="true">
+        Hue band to adjust. Neighbouring bands blend smoothly.
+      </param>
+      <param name="hue" type="number" min="-100" max="100" required="false">Hue shift (±100 = ±30 degrees)</param>
+      <param name="sat" type="number" min="-100" max="100" required="false">Band saturation</param>
+      <param name="lum" type="number" min="-100" max="100" required="false">Band luminance</param>
+    </parameters>
+    <usage_notes>
+      - "deepen the sky" means band blue, sat +10 to +20, lum -10 to -25
+      - "greener foliage" means band green (and yellow), sat +15 to +30
+      - Skin tones live in orange; leave it alone unless asked about skin
+      - Use one call per band
+    </usage_notes>
+  </tool>
 </color_adjustments>
 
+<local_adjustments>
+  <tool name="local_adjust">
+    <description>Adjusts one rectangular region (ROI) of the image with a soft, feathered edge</description>
+    <parameters>
+      <param name="roi" type="array[4]" required="true">
+        Region [x, y, width, height] in 0-1 normalized coordinates of the image as currently shown
+      </param>
+      <param name="invert" type="boolean" required="false">Adjust everything outside the region instead</param>
+      <param name="mask" type="string" enum="sky,subject,background" required="false">Limit the adjustment to the automatically detected sky, subject or background within the region</param>
+      <param name="ev" type="number" min="-3" max="3" required="false">Exposure of the region in stops</param>
+      <param name="contrast" type="number" min="-100" max="100" required="false">Contrast of the region</param>
+      <param name="saturation" type="number" min="-100" max="100" required="false">Saturation of the region</param>
+      <param name="vibrance" type="number" min="-100" max="100" required="false">Vibrance of the region</param>
+    </parameters>
+    <usage_notes>
+      - Use at most ${PLANNER_CLAMPS.rois.max} local_adjust calls per response; each call adds a new region
+      - Without the image, assume a centered subject: roi [0.25, 0.2, 0.5, 0.6]
+      - "brighten the subject" means the subject's roi with ev +0.3
+      - "mute the background" means the subject's roi with invert: true and saturation -20
+      - To follow the subject's outline instead of the rectangle, use roi [0, 0, 1, 1] with mask "subject" (or
+        "background")
+      - Prefer global adjustments when the whole image should change
+    </usage_notes>
+  </tool>
+  <tool name="gradient_linear">
+    <description>Graduated filter: adjustments that are full at the start point and fade out toward the end point</description>
+    <parameters>
+      <param name="start" type="array[2]" required="true">Point [x, y] where the effect is full, in 0-1 normalized coordinates of the image as currently shown</param>
+      <param name="end" type="array[2]" required="true">Point [x, y] where the effect has faded out</param>
+      <param name="mask" type="string" enum="sky,subject,background" required="false">Limit the adjustment to the automatically detected sky, subject or background</param>
+      <param name="ev" type="number" min="-3" max="3" required="false">Exposure change in stops</param>
+      <param name="temp" type="number" min="-100" max="100" required="false">Temperature change, positive = warmer</param>
+      <param name="contrast" type="number" min="-100" max="100" required="false">Contrast change</param>
+      <param name="saturation" type="number" min="-100" max="100" required="false">Saturation change</param>
+    </parameters>
+    <usage_notes>
+      - "darken the sky" / graduated ND: start [0.5, 0], end [0.5, 0.5], mask "sky", ev -0.7 (assumes the horizon near the middle)
+      - The sky mask keeps buildings, trees and mountains that rise into the gradient from darkening; leave it out
+        for a plain graduated filter
+      - Warm a sunset sky: the same gradient with temp +20
+    </usage_notes>
+  </tool>
+  <tool name="gradient_radial">
+    <description>Adjusts a feathered ellipse, or everything outside it</description>
+    <parameters>
+      <param name="center" type="array[2]" required="true">Center [x, y] in 0-1 normalized coordinates of the image as currently shown</param>
+      <param name="radiusX" type="number" min="0.05" max="1" required="true">Horizontal radius, share of the width</param>
+      <param name="radiusY" type="number" min="0.05" max="1" required="false">Vertical radius, share of the height (default radiusX)</param>
+      <param name="invert" type="boolean" required="false">Adjust everything outside the ellipse instead</param>
+      <param name="mask" type="string" enum="sky,subject,background" required="false">Limit the adjustment to the automatically detected sky, subject or background</param>
+      <param name="ev" type="number" min="-3" max="3" required="false">Exposure change in stops</param>
+      <param name="temp" type="number" min="-100" max="100" required="false">Temperature change, positive = warmer</param>
+      <param name="contrast" type="number" min="-100" max="100" required="false">Contrast change</param>
+      <param name="saturation" type="number" min="-100" max="100" required="false">Saturation change</param>
+    </parameters>
+    <usage_notes>
+      - "spotlight the subject": center [0.5, 0.5], radiusX 0.3, radiusY 0.4, invert: true, ev -0.5
+      - Use at most ${PLANNER_CLAMPS.gradients.max} gradient calls per response; each call adds a new gradient
+    </usage_notes>
+  </tool>
+</local_adjustments>
+
 <geometry_adjustments>
   <tool name="set_rotate">
     <description>Rotates the image to straighten horizons or correct tilt</description>
@@ -454,6 +587,36 @@ Your task is to analyze the user's intent and generate the appropriate sequence
   </tool>
 </geometry_adjustments>
 
+<preset_operations>
+  <tool name="apply_preset">
+    <description>Applies a saved user preset (a named set of adjustments) to the image</description>
+    <parameters>
+      <param name="name" type="string" required="true">Preset name, one of the presets in current_state</param>
+    </parameters>
+    <usage_notes>
+      - "use our wedding preset" or "apply the wedding look" means name: "wedding"
+      - Only use names listed as available presets; adjustments after the preset refine it
+    </usage_notes>
+  </tool>
+</preset_operations>
+
+<look_operations>
+  <tool name="apply_look">
+    <description>Applies a named look, which the agent expands into ordinary color and tone adjustments</description>
+    <parameters>
+      <param name="name" type="string" required="true">Look name, one of:
+${this.describeLooks(state)}
+      </param>
+      <param name="intensity" type="number" min="0" max="100" required="false">Strength in percent (default 100)</param>
+    </parameters>
+    <usage_notes>
+      - "apply a mild teal-orange look" means name: "teal_orange_mild"
+      - "a touch of", "subtle" or "mild" without a mild variant means intensity 40-60
+      - Use one apply_look per response; follow it with other calls only for explicit extra changes
+    </usage_notes>
+  </tool>
+</look_operations>
+
 <history_operations>
   <tool name="undo"><description>Undo the last operation</description></tool>
   <tool name="redo"><description>Redo a previously undone operation</description></tool>
@@ -465,8 +628,10 @@ Your task is to analyze the user's intent and generate the appropriate sequence
     <description>Export the edited image to disk</description>
     <parameters>
       <param name="dst" type="string" required="false">Destination file path</param>
-      <param name="format" type="string" enum="jpeg,png" required="false">Output format</param>
-      <param name="quality" type="number" min="1" max="100" required="false">JPEG quality (1-100)</param>
+      <param name="format" type="string" enum="${EXPORT_FORMATS.join(',')}" required="false">Output format (png16 and tiff are 16-bit for print; webp/avif for web)</param>
+      <param name="quality" type="number" min="1" max="100" required="false">Quality for jpeg, webp, avif, heif and jxl (1-100)</param>
+      <param name="effort" type="number" min="0" max="9" required="false">Encoder effort for webp, avif, heif and jxl</param>
+      <param name="lossless" type="boolean" required="false">Lossless webp, avif, heif or jxl</param>
       <param name="overwrite" type="boolean" required="false">Whether to overwrite existing files</param>
     </parameters>
   </tool>
@@ -602,6 +767,7 @@ ${this.buildStateContext(state)}
       state: {
         image: state.image,
         stackSummary: state.stackSummary,
+        ...(state.presets && { presets: state.presets }),
         limits: {
           temp: state.limits.temp,
           ev: state.limits.ev,
@@ -635,11 +801,19 @@ ${this.buildStateContext(state)}
     return JSON.stringify(stateObj);
   }
 
+  // One line per look for the apply_look tool; the built-in looks when the state has none
+  private describeLooks(state?: PlannerState): string {
+    return (state?.looks ?? BUILTIN_LOOKS)
+      .map((look) => `        - ${look.name}: ${look.description}`)
+      .join('\n');
+  }
+
   private buildStateContext(state: PlannerState): string {
     return `
 Current image state:
 - Image: ${state.image.name} (${state.image.w}x${state.image.h}, ${state.image.mime})
 - Current edits: ${state.stackSummary || 'none'}
+- Available presets: ${state.presets?.join(', ') || 'none'}
 - Valid ranges:
   * Temperature: ${state.limits.temp[0]} to ${state.limits.temp[1]}
   * Tint: -100 to 100
@@ -745,8 +919,126 @@ In Phase 7d, you can use the FULL tool catalog to edit images based on visual an
       - Preserves skin tone naturalness
     </vision_notes>
   </tool>
+
+  <tool name="set_curve">
+    <description>Applies a tone curve (monotone spline) to the master RGB curve and/or individual channels</description>
+    <parameters>
+      <param name="preset" type="string" enum="linear,s_curve,strong_s_curve,fade,cross_process" required="false">
+        Named curve preset. Explicit channel points override the preset's channels.
+      </param>
+      <param name="master" type="array[[input,output]]" required="false">
+        Master curve control points, each [input, output] in 0-1. ${PLANNER_CLAMPS.curvePoints.min} to ${PLANNER_CLAMPS.curvePoints.max} points.
+      </param>
+      <param name="r" type="array[[input,output]]" required="false">Red channel curve points</param>
+      <param name="g" type="array[[input,output]]" required="false">Green channel curve points</param>
+      <param name="b" type="array[[input,output]]" required="false">Blue channel curve points</param>
+    </parameters>
+    <vision_notes>
+      - "s-curve" or "filmic contrast" means preset: "s_curve"
+      - "faded blacks" or "matte look" means preset: "fade" (or master [[0,0.08],[1,1]])
+      - "cross processed" means preset: "cross_process"
+      - Prefer set_contrast for simple contrast changes
+    </vision_notes>
+  </tool>
+
+  <tool name="set_tone_regions">
+    <description>Adjusts highlights, shadows, whites and blacks independently using smooth luminance masks</description>
+    <parameters>
+      <param name="highlights" type="number" min="-100" max="100" required="false">
+        Bright tones. Negative recovers detail in skies and bright areas.
+      </param>
+      <param name="shadows" type="number" min="-100" max="100" required="false">
+        Dark tones. Positive opens up shadows without lifting the whole image.
+      </param>
+      <param name="whites" type="number" min="-100" max="100" required="false">Brightest tones (white point)</param>
+      <param name="blacks" type="number" min="-100" max="100" required="false">Darkest tones (black point)</param>
+    </parameters>
+    <vision_notes>
+      - Bright sky or windows without detail: highlights -30 to -60
+      - Faces or subjects lost in shadow: shadows +30 to +50
+      - Hazy image without true black: blacks -15 to -30
+      - Only set the sliders you need; others stay unchanged
+    </vision_notes>
+  </tool>
+
+  <tool name="set_hsl">
+    <description>Adjusts hue, saturation and luminance of one hue band without touching other colors</description>
+    <parameters>
+      <param name="band" type="string" enum="red,orange,yellow,green,aqua,blue,purple,magenta" required="true">
+        Hue band to adjust. Neighbouring bands blend smoothly.
+      </param>
+      <param name="hue" type="number" min="-100" max="100" required="false">Hue shift (±100 = ±30 degrees)</param>
+      <param name="sat" type="number" min="-100" max="100" required="false">Band saturation</param>
+      <param name="lum" type="number" min="-100" max="100" required="false">Band luminance</param>
+    </parameters>
+    <vision_notes>
+      - Pale or washed-out sky: band blue, sat +15, lum -15
+      - Oversaturated skin: band orange, sat -10 to -20
+      - Use one call per band; unmentioned bands stay unchanged
+    </vision_notes>
+  </tool>
 </color_adjustments>
 
+<local_adjustments>
+  <tool name="local_adjust">
+    <description>Adjusts one rectangular region (ROI) of the image with a soft, feathered edge</description>
+    <parameters>
+      <param name="roi" type="array[4]" required="true">
+        Region [x, y, width, height] in 0-1 normalized coordinates of the preview
+      </param>
+      <param name="invert" type="boolean" required="false">Adjust everything outside the region instead</param>
+      <param name="mask" type="string" enum="sky,subject,background" required="false">Limit the adjustment to the automatically detected sky, subject or background within the region</param>
+      <param name="ev" type="number" min="-3" max="3" required="false">Exposure of the region in stops</param>
+      <param name="contrast" type="number" min="-100" max="100" required="false">Contrast of the region</param>
+      <param name="saturation" type="number" min="-100" max="100" required="false">Saturation of the region</param>
+      <param name="vibrance" type="number" min="-100" max="100" required="false">Vibrance of the region</param>
+    </parameters>
+    <vision_notes>
+      - Use at most ${PLANNER_CLAMPS.rois.max} local_adjust calls per response; each call adds a new region
+      - Draw the roi snugly around the subject you see (a face, a person, a building), not the whole frame
+      - "brighten the subject, mute the background": one roi around the subject with ev +0.3, and the same
+        roi with invert: true and saturation -20
+      - Underexposed subject against a bright background: ev +0.3 to +0.6 on the subject only
+      - The agent will map the roi to original image space
+    </vision_notes>
+  </tool>
+  <tool name="gradient_linear">
+    <description>Graduated filter: adjustments that are full at the start point and fade out toward the end point</description>
+    <parameters>
+      <param name="start" type="array[2]" required="true">Point [x, y] where the effect is full, in 0-1 normalized coordinates of the preview</param>
+      <param name="end" type="array[2]" required="true">Point [x, y] where the effect has faded out</param>
+      <param name="mask" type="string" enum="sky,subject,background" required="false">Limit the adjustment to the automatically detected sky, subject or background</param>
+      <param name="ev" type="number" min="-3" max="3" required="false">Exposure change in stops</param>
+      <param name="temp" type="number" min="-100" max="100" required="false">Temperature change, positive = warmer</param>
+      <param name="contrast" type="number" min="-100" max="100" required="false">Contrast change</param>
+      <param name="saturation" type="number" min="-100" max="100" required="false">Saturation change</param>
+    </parameters>
+    <vision_notes>
+      - "darken the sky": start at the top edge, end just below the horizon you see, mask "sky", ev -0.5 to -1
+      - Tilted horizons: put start and end on a line perpendicular to the horizon
+    </vision_notes>
+  </tool>
+  <tool name="gradient_radial">
+    <description>Adjusts a feathered ellipse, or everything outside it</description>
+    <parameters>
+      <param name="center" type="array[2]" required="true">Center [x, y] in 0-1 normalized coordinates of the preview</param>
+      <param name="radiusX" type="number" min="0.05" max="1" required="true">Horizontal radius, share of the width</param>
+      <param name="radiusY" type="number" min="0.05" max="1" required="false">Vertical radius, share of the height (default radiusX)</param>
+      <param name="invert" type="boolean" required="false">Adjust everything outside the ellipse instead</param>
+      <param name="mask" type="string" enum="sky,subject,background" required="false">Limit the adjustment to the automatically detected sky, subject or background</param>
+      <param name="ev" type="number" min="-3" max="3" required="false">Exposure change in stops</param>
+      <param name="temp" type="number" min="-100" max="100" required="false">Temperature change, positive = warmer</param>
+      <param name="contrast" type="number" min="-100" max="100" required="false">Contrast change</param>
+      <param name="saturation" type="number" min="-100" max="100" required="false">Saturation change</param>
+    </parameters>
+    <vision_notes>
+      - "spotlight the subject": center on the subject, radii that cover it, invert: true, ev -0.5
+      - Use at most ${PLANNER_CLAMPS.gradients.max} gradient calls per response; each call adds a new gradient
+      - The agent will map points and radii to original image space
+    </vision_notes>
+  </tool>
+</local_adjustments>
+
 <geometry_adjustments>
   <tool name="set_rotate">
     <description>Rotates the image to straighten horizons or correct tilt</description>
@@ -784,6 +1076,36 @@ In Phase 7d, you can use the FULL tool catalog to edit images based on visual an
   </tool>
 </geometry_adjustments>
 
+<preset_operations>
+  <tool name="apply_preset">
+    <description>Applies a saved user preset (a named set of adjustments) to the image</description>
+    <parameters>
+      <param name="name" type="string" required="true">Preset name, one of the presets in current_state</param>
+    </parameters>
+    <usage_notes>
+      - "use our wedding preset" or "apply the wedding look" means name: "wedding"
+      - Only use names listed as available presets; adjustments after the preset refine it
+    </usage_notes>
+  </tool>
+</preset_operations>
+
+<look_operations>
+  <tool name="apply_look">
+    <description>Applies a named look, which the agent expands into ordinary color and tone adjustments</description>
+    <parameters>
+      <param name="name" type="string" required="true">Look name, one of:
+${this.describeLooks(state)}
+      </param>
+      <param name="intensity" type="number" min="0" max="100" required="false">Strength in percent (default 100)</param>
+    </parameters>
+    <usage_notes>
+      - "apply a mild teal-orange look" means name: "teal_orange_mild"
+      - "a touch of", "subtle" or "mild" without a mild variant means intensity 40-60
+      - Use one apply_look per response; follow it with other calls only for explicit extra changes
+    </usage_notes>
+  </tool>
+</look_operations>
+
 <history_operations>
   <tool name="undo"><description>Undo the last operation</description></tool>
   <tool name="redo"><description>Redo a previously undone operation</description></tool>
@@ -795,8 +1117,10 @@ In Phase 7d, you can use the FULL tool catalog to edit images based on visual an
     <description>Export the edited image to disk</description>
     <parameters>
       <param name="dst" type="string" required="false">Destination file path</param>
-      <param name="format" type="string" enum="jpeg,png" required="false">Output format</param>
-      <param name="quality" type="number" min="1" max="100" required="false">JPEG quality (1-100)</param>
+      <param name="format" type="string" enum="${EXPORT_FORMATS.join(',')}" required="false">Output format (png16 and tiff are 16-bit for print; webp/avif for web)</param>
+      <param name="quality" type="number" min="1" max="100" required="false">Quality for jpeg, webp, avif, heif and jxl (1-100)</param>
+      <param name="effort" type="number" min="0" max="9" required="false">Encoder effort for webp, avif, heif and jxl</param>
+      <param name="lossless" type="boolean" required="false">Lossless webp, avif, heif or jxl</param>
       <param name="overwrite" type="boolean" required="false">Whether to overwrite existing files</param>
     </parameters>
   </tool>
@@ -811,6 +1135,8 @@ In Phase 7d, you can use the FULL tool catalog to edit images based on visual an
 5. Check if horizon or vertical lines need straightening
 6. Consider composition improvements through cropping
 7. Determine if colors need enhancement via saturation/vibrance
+8. Check whether the subject and the background need different treatment (local_adjust,
+   gradient_radial) or the sky needs darkening (gradient_linear)
 </vision_analysis_approach>
 
 ${
@@ -826,7 +1152,7 @@ ${this.buildStateContext(state)}
 - You can use ANY tool from the catalog based on visual analysis
 - Maximum ${this.config.maxCalls} operations per response
 - Operations are applied in order: color adjustments → geometry adjustments → export
-- For coordinates (gray point, crop rect): use the preview image space (0-1 normalized)
+- For coordinates (gray point, crop rect, roi, gradient points and radii): use the preview image space (0-1 normalized)
 - Include export operations if requested by the user
 </output_requirements>`;
   }
@@ -1,4 +1,30 @@
-import { Planner, PlannerInput, PlannerOutput, PlannedCall } from './types';
+import { Planner, PlannerInput, PlannerOutput, PlannedCall, PLANNER_CLAMPS } from './types';
+import { isExportFormat } from '../exportFormats';
+import { BUILTIN_LOOKS, findLook } from '../looks';
+
+// Words that pick a variant of a look ("mild teal-orange" → teal_orange_mild) or scale it (percent)
+const LOOK_INTENSITY_WORDS: Record<string, number> = { subtle: 35, mild: 50, light: 50, strong: 100 };
+
+// Local adjustments of the subject or background: "brighten the subject", "mute the background"
+const LOCAL_VERBS = new Map<string, { ev?: number; saturation?: number }>([
+  ['brighten', { ev: 0.3 }],
+  ['darken', { ev: -0.3 }],
+  ['mute', { saturation: -20 }],
+]);
+
+// Without vision the subject is assumed to be centered
+const SUBJECT_ROI: [number, number, number, number] = [0.25, 0.2, 0.5, 0.6];
+
+// ...and the horizon to be near the middle: "darken the sky" is a graduated filter from the top edge,
+// limited to the automatic sky mask so buildings and trees against it keep their exposure
+const SKY_GRADIENT = {
+  start: [0.5, 0] as [number, number],
+  end: [0.5, 0.5] as [number, number],
+  mask: 'sky' as const,
+};
+
+// "spotlight the subject" darkens everything outside an ellipse around it
+const SPOTLIGHT = { center: [0.5, 0.5] as [number, number], radiusX: 0.3, radiusY: 0.4, invert: true, ev: -0.5 };
 
 export class MockPlanner implements Planner {
   plan(input: PlannerInput): PlannerOutput {
@@ -18,9 +44,19 @@ export class MockPlanner implements Planner {
     let totalEv = 0;
     let totalContrast = 0;
     let totalAngle = 0;
+    const toneRegions: { highlights?: number; shadows?: number; whites?: number; blacks?: number } = {};
+    const addTone = (slider: keyof typeof toneRegions, amount: number) => {
+      toneRegions[slider] = (toneRegions[slider] ?? 0) + amount;
+    };
+
+    // Named looks: "apply a mild teal-orange look" (the look comes first, like a preset)
+    const lookMatch = text.match(/\b(?:apply|use|add)\s+(?:an?\s+|the\s+)?([a-z][\w\s-]*?)\s+look\b/);
+    if (lookMatch) {
+      calls.push(this.planLook(lookMatch[1]));
+    }
 
     // Split text into tokens for processing
-    const tokens = text.split(/[\s,;]+/).filter((t) => t.length > 0);
+    const tokens = (lookMatch ? text.replace(lookMatch[0], ' ') : text).split(/[\s,;]+/).filter((t) => t.length > 0);
     let i = 0;
 
     while (i < tokens.length) {
@@ -51,6 +87,27 @@ export class MockPlanner implements Planner {
         calls.push({ fn: 'set_white_balance_gray', args: { x: 0.5, y: 0.5 } });
         i += 2;
       }
+      // Tonal regions (checked before exposure so "lift shadows" is not read as "lift")
+      else if (token === 'recover' && nextToken === 'highlights') {
+        addTone('highlights', -40);
+        i += 2;
+      } else if ((token === 'open' || token === 'lift') && nextToken === 'shadows') {
+        addTone('shadows', 40);
+        i += 2;
+      } else if (token === 'open' && nextToken === 'up' && nextNextToken === 'shadows') {
+        addTone('shadows', 40);
+        i += 3;
+      } else if (token === 'crush' && nextToken === 'blacks') {
+        addTone('blacks', -30);
+        i += 2;
+      } else if (
+        (token === 'highlights' || token === 'shadows' || token === 'whites' || token === 'blacks') &&
+        nextToken &&
+        this.isNumberWithSign(nextToken)
+      ) {
+        addTone(token, Number(nextToken));
+        i += 2;
+      }
       // Exposure adjustments
       else if (token === 'brighter' || token === 'lift') {
         totalEv += 0.3;
@@ -125,6 +182,42 @@ export class MockPlanner implements Planner {
           i++;
         }
       }
+      // Local adjustments: "brighten the subject", "mute the background", "darken the sky"
+      else if (LOCAL_VERBS.has(token) && this.localTarget(tokens.slice(i + 1, i + 3))) {
+        const target = this.localTarget(tokens.slice(i + 1, i + 3))!;
+        const roiCount = calls.filter((c) => c.fn === 'local_adjust').length;
+        if (target === 'sky') {
+          if (this.gradientCount(calls) < PLANNER_CLAMPS.gradients.max) {
+            calls.push({ fn: 'gradient_linear', args: { ...SKY_GRADIENT, ...LOCAL_VERBS.get(token)! } });
+          } else {
+            notes.push(`Only ${PLANNER_CLAMPS.gradients.max} gradients per request; ignored "${token} ${target}"`);
+          }
+        } else if (roiCount < PLANNER_CLAMPS.rois.max) {
+          const invert = target === 'background' ? { invert: true } : {};
+          calls.push({ fn: 'local_adjust', args: { roi: SUBJECT_ROI, ...invert, ...LOCAL_VERBS.get(token)! } });
+        } else {
+          notes.push(`Only ${PLANNER_CLAMPS.rois.max} local adjustments per request; ignored "${token} ${target}"`);
+        }
+        i += tokens[i + 1] === 'the' ? 3 : 2;
+      }
+      // Spotlight: "spotlight the subject"
+      else if (token === 'spotlight') {
+        if (this.gradientCount(calls) < PLANNER_CLAMPS.gradients.max) {
+          calls.push({ fn: 'gradient_radial', args: SPOTLIGHT });
+        } else {
+          notes.push(`Only ${PLANNER_CLAMPS.gradients.max} gradients per request; ignored "spotlight"`);
+        }
+        i += this.localTarget(tokens.slice(i + 1, i + 3)) ? (tokens[i + 1] === 'the' ? 3 : 2) : 1;
+      }
+      // Presets: "use our wedding preset", "apply preset wedding"
+      else if ((token === 'use' || token === 'apply') && tokens.slice(i + 1, i + 4).includes('preset')) {
+        const presetIdx = tokens.indexOf('preset', i + 1);
+        const name = presetIdx === i + 1 ? tokens[presetIdx + 1] : tokens[presetIdx - 1];
+        if (name) {
+          calls.push({ fn: 'apply_preset', args: { name } });
+        }
+        i = presetIdx === i + 1 ? presetIdx + 2 : presetIdx + 1;
+      }
       // Undo/Redo/Reset
       else if (token === 'undo') {
         calls.push({ fn: 'undo' });
@@ -150,10 +243,17 @@ export class MockPlanner implements Planner {
         // Look for format
         while (i < tokens.length) {
           if (tokens[i] === 'as' && tokens[i + 1]) {
-            if (tokens[i + 1] === 'png' || tokens[i + 1] === 'jpeg' || tokens[i + 1] === 'jpg') {
-              exportArgs.format = tokens[i + 1] === 'jpg' ? 'jpeg' : tokens[i + 1];
+            const format = tokens[i + 1] === 'jpg' ? 'jpeg' : tokens[i + 1] === 'tif' ? 'tiff' : tokens[i + 1];
+            if (isExportFormat(format)) {
+              exportArgs.format = format;
             }
             i += 2;
+          } else if (tokens[i] === 'lossless') {
+            exportArgs.lossless = true;
+            i++;
+          } else if (tokens[i] === 'effort' && tokens[i + 1]) {
+            exportArgs.effort = Number(tokens[i + 1]);
+            i += 2;
           } else if (tokens[i] === 'quality' && tokens[i + 1]) {
             exportArgs.quality = Number(tokens[i + 1]);
             i += 2;
@@ -197,6 +297,9 @@ export class MockPlanner implements Planner {
     if (totalContrast !== 0) {
       finalCalls.push({ fn: 'set_contrast', args: { amt: totalContrast } });
     }
+    if (Object.keys(toneRegions).length > 0) {
+      finalCalls.push({ fn: 'set_tone_regions', args: toneRegions });
+    }
 
     // Add rotation if needed
     if (totalAngle !== 0) {
@@ -255,6 +358,30 @@ export class MockPlanner implements Planner {
     };
   }
 
+  private planLook(phrase: string): PlannedCall {
+    const words = phrase.split(/[\s-]+/);
+    const modifier = words.find((word) => word in LOOK_INTENSITY_WORDS);
+    const base = words.filter((word) => word !== modifier).join('_');
+
+    if (!modifier) {
+      return { fn: 'apply_look', args: { name: base } };
+    }
+    if (findLook(BUILTIN_LOOKS, `${base}_${modifier}`)) {
+      return { fn: 'apply_look', args: { name: `${base}_${modifier}` } };
+    }
+    return { fn: 'apply_look', args: { name: base, intensity: LOOK_INTENSITY_WORDS[modifier] } };
+  }
+
+  // "subject", "background" or "sky" from the words after a local verb ("the subject", "background")
+  private localTarget(words: string[]): 'subject' | 'background' | 'sky' | null {
+    const word = words[0] === 'the' ? words[1] : words[0];
+    return word === 'subject' || word === 'background' || word === 'sky' ? word : null;
+  }
+
+  private gradientCount(calls: PlannedCall[]): number {
+    return calls.filter((c) => c.fn === 'gradient_linear' || c.fn === 'gradient_radial').length;
+  }
+
   private isNumberWithSign(str: string): boolean {
     // Handle numbers with optional + or - prefix, and optional degree symbol
     const cleaned = str.replace(/°$/, '');
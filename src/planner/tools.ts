@@ -2,6 +2,46 @@
 // Exports PlannedCall types as JSON Schema and provides validation utilities
 
 import { PlannedCall, PLANNER_CLAMPS } from './types';
+import { AUTO_MASK_KINDS, CURVE_PRESETS, HSL_BANDS } from '../editStack';
+import { EXPORT_FORMATS, isExportFormat } from '../exportFormats';
+
+const CURVE_PRESET_NAMES = Object.keys(CURVE_PRESETS);
+
+// JSON Schema for a list of curve control points
+function curvePointsSchema(description: string) {
+  return {
+    type: 'array',
+    items: {
+      type: 'array',
+      items: { type: 'number', minimum: PLANNER_CLAMPS.curvePoint.min, maximum: PLANNER_CLAMPS.curvePoint.max },
+      minItems: 2,
+      maxItems: 2,
+    },
+    minItems: PLANNER_CLAMPS.curvePoints.min,
+    maxItems: PLANNER_CLAMPS.curvePoints.max,
+    description,
+  };
+}
+
+// JSON Schema for a tonal region slider
+function toneRegionSchema(description: string) {
+  return {
+    type: 'number',
+    minimum: PLANNER_CLAMPS.toneRegion.min,
+    maximum: PLANNER_CLAMPS.toneRegion.max,
+    description,
+  };
+}
+
+// JSON Schema for an HSL mixer value
+function hslSchema(description: string) {
+  return {
+    type: 'number',
+    minimum: PLANNER_CLAMPS.hsl.min,
+    maximum: PLANNER_CLAMPS.hsl.max,
+    description,
+  };
+}
 
 // JSON Schema definitions for each tool in the catalog
 export const TOOL_SCHEMAS = {
@@ -137,6 +177,67 @@ export const TOOL_SCHEMAS = {
     required: ['fn', 'args'],
   },
 
+  set_curve: {
+    type: 'object',
+    properties: {
+      fn: { type: 'string', enum: ['set_curve'] },
+      args: {
+        type: 'object',
+        properties: {
+          preset: {
+            type: 'string',
+            enum: CURVE_PRESET_NAMES,
+            description: 'Named curve preset; explicit channel points override it',
+          },
+          master: curvePointsSchema('Master (RGB) curve points [[input, output], ...] in 0 to 1'),
+          r: curvePointsSchema('Red channel curve points'),
+          g: curvePointsSchema('Green channel curve points'),
+          b: curvePointsSchema('Blue channel curve points'),
+        },
+      },
+    },
+    required: ['fn', 'args'],
+  },
+
+  set_tone_regions: {
+    type: 'object',
+    properties: {
+      fn: { type: 'string', enum: ['set_tone_regions'] },
+      args: {
+        type: 'object',
+        properties: {
+          highlights: toneRegionSchema('Highlights (-100 to 100); negative recovers bright areas'),
+          shadows: toneRegionSchema('Shadows (-100 to 100); positive opens up dark areas'),
+          whites: toneRegionSchema('Whites (-100 to 100); sets the brightest tones'),
+          blacks: toneRegionSchema('Blacks (-100 to 100); sets the darkest tones'),
+        },
+      },
+    },
+    required: ['fn', 'args'],
+  },
+
+  set_hsl: {
+    type: 'object',
+    properties: {
+      fn: { type: 'string', enum: ['set_hsl'] },
+      args: {
+        type: 'object',
+        properties: {
+          band: {
+            type: 'string',
+            enum: [...HSL_BANDS],
+            description: 'Hue band to adjust',
+          },
+          hue: hslSchema('Hue shift (-100 to 100, ±100 = ±30 degrees)'),
+          sat: hslSchema('Saturation of the band (-100 to 100)'),
+          lum: hslSchema('Luminance of the band (-100 to 100)'),
+        },
+        required: ['band'],
+      },
+    },
+    required: ['fn', 'args'],
+  },
+
   set_rotate: {
     type: 'object',
     properties: {
@@ -182,6 +283,225 @@ export const TOOL_SCHEMAS = {
     required: ['fn', 'args'],
   },
 
+  local_adjust: {
+    type: 'object',
+    properties: {
+      fn: { type: 'string', enum: ['local_adjust'] },
+      args: {
+        type: 'object',
+        properties: {
+          roi: {
+            type: 'array',
+            items: { type: 'number', minimum: 0, maximum: 1 },
+            minItems: 4,
+            maxItems: 4,
+            description: 'Region to adjust [x, y, width, height] in normalized preview coordinates',
+          },
+          invert: {
+            type: 'boolean',
+            description: 'Adjust everything outside the region instead (e.g. the background around a subject)',
+          },
+          ev: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.ev.min,
+            maximum: PLANNER_CLAMPS.ev.max,
+            description: 'Exposure of the region in EV stops',
+          },
+          contrast: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.contrast.min,
+            maximum: PLANNER_CLAMPS.contrast.max,
+            description: 'Contrast of the region (-100 to 100)',
+          },
+          saturation: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.saturation.min,
+            maximum: PLANNER_CLAMPS.saturation.max,
+            description: 'Saturation of the region (-100 to 100)',
+          },
+          vibrance: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.vibrance.min,
+            maximum: PLANNER_CLAMPS.vibrance.max,
+            description: 'Vibrance of the region (-100 to 100)',
+          },
+          mask: {
+            type: 'string',
+            enum: [...AUTO_MASK_KINDS],
+            description: 'Only adjust where the automatic mask of this region is (use roi [0, 0, 1, 1] for all of it)',
+          },
+        },
+        required: ['roi'],
+      },
+    },
+    required: ['fn', 'args'],
+  },
+
+  gradient_linear: {
+    type: 'object',
+    properties: {
+      fn: { type: 'string', enum: ['gradient_linear'] },
+      args: {
+        type: 'object',
+        properties: {
+          start: {
+            type: 'array',
+            items: { type: 'number', minimum: 0, maximum: 1 },
+            minItems: 2,
+            maxItems: 2,
+            description: 'Point [x, y] in normalized preview coordinates where the effect is full',
+          },
+          end: {
+            type: 'array',
+            items: { type: 'number', minimum: 0, maximum: 1 },
+            minItems: 2,
+            maxItems: 2,
+            description: 'Point [x, y] in normalized preview coordinates where the effect has faded out',
+          },
+          ev: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.ev.min,
+            maximum: PLANNER_CLAMPS.ev.max,
+            description: 'Exposure at the start in EV stops',
+          },
+          temp: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.temp.min,
+            maximum: PLANNER_CLAMPS.temp.max,
+            description: 'Temperature at the start (-100 to 100, positive = warmer)',
+          },
+          contrast: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.contrast.min,
+            maximum: PLANNER_CLAMPS.contrast.max,
+            description: 'Contrast at the start (-100 to 100)',
+          },
+          saturation: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.saturation.min,
+            maximum: PLANNER_CLAMPS.saturation.max,
+            description: 'Saturation at the start (-100 to 100)',
+          },
+          mask: {
+            type: 'string',
+            enum: [...AUTO_MASK_KINDS],
+            description: 'Only adjust where the automatic mask of this region is (e.g. sky)',
+          },
+        },
+        required: ['start', 'end'],
+      },
+    },
+    required: ['fn', 'args'],
+  },
+
+  gradient_radial: {
+    type: 'object',
+    properties: {
+      fn: { type: 'string', enum: ['gradient_radial'] },
+      args: {
+        type: 'object',
+        properties: {
+          center: {
+            type: 'array',
+            items: { type: 'number', minimum: 0, maximum: 1 },
+            minItems: 2,
+            maxItems: 2,
+            description: 'Center [x, y] of the ellipse in normalized preview coordinates',
+          },
+          radiusX: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.gradientRadius.min,
+            maximum: PLANNER_CLAMPS.gradientRadius.max,
+            description: 'Horizontal radius as a share of the preview width',
+          },
+          radiusY: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.gradientRadius.min,
+            maximum: PLANNER_CLAMPS.gradientRadius.max,
+            description: 'Vertical radius as a share of the preview height (defaults to radiusX)',
+          },
+          invert: {
+            type: 'boolean',
+            description: 'Adjust everything outside the ellipse instead (e.g. darken around a subject)',
+          },
+          ev: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.ev.min,
+            maximum: PLANNER_CLAMPS.ev.max,
+            description: 'Exposure inside the ellipse in EV stops',
+          },
+          temp: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.temp.min,
+            maximum: PLANNER_CLAMPS.temp.max,
+            description: 'Temperature inside the ellipse (-100 to 100, positive = warmer)',
+          },
+          contrast: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.contrast.min,
+            maximum: PLANNER_CLAMPS.contrast.max,
+            description: 'Contrast inside the ellipse (-100 to 100)',
+          },
+          saturation: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.saturation.min,
+            maximum: PLANNER_CLAMPS.saturation.max,
+            description: 'Saturation inside the ellipse (-100 to 100)',
+          },
+          mask: {
+            type: 'string',
+            enum: [...AUTO_MASK_KINDS],
+            description: 'Only adjust where the automatic mask of this region is (e.g. subject)',
+          },
+        },
+        required: ['center', 'radiusX'],
+      },
+    },
+    required: ['fn', 'args'],
+  },
+
+  apply_preset: {
+    type: 'object',
+    properties: {
+      fn: { type: 'string', enum: ['apply_preset'] },
+      args: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Name of a saved user preset',
+          },
+        },
+        required: ['name'],
+      },
+    },
+    required: ['fn', 'args'],
+  },
+
+  apply_look: {
+    type: 'object',
+    properties: {
+      fn: { type: 'string', enum: ['apply_look'] },
+      args: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Name of a named look, e.g. teal_orange_mild',
+          },
+          intensity: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.lookIntensity.min,
+            maximum: PLANNER_CLAMPS.lookIntensity.max,
+            description: 'Strength of the look in percent (default 100)',
+          },
+        },
+        required: ['name'],
+      },
+    },
+    required: ['fn', 'args'],
+  },
+
   undo: {
     type: 'object',
     properties: {
@@ -219,14 +539,24 @@ export const TOOL_SCHEMAS = {
           },
           format: {
             type: 'string',
-            enum: ['jpeg', 'png'],
-            description: 'Export format',
+            enum: [...EXPORT_FORMATS],
+            description: 'Export format (png16 and tiff are 16-bit)',
           },
           quality: {
             type: 'number',
             minimum: PLANNER_CLAMPS.quality.min,
             maximum: PLANNER_CLAMPS.quality.max,
-            description: 'JPEG quality (1 to 100)',
+            description: 'Quality for jpeg, webp, avif, heif and jxl (1 to 100)',
+          },
+          effort: {
+            type: 'number',
+            minimum: PLANNER_CLAMPS.effort.min,
+            maximum: PLANNER_CLAMPS.effort.max,
+            description: 'Encoder effort for webp, avif, heif and jxl (higher is slower and smaller)',
+          },
+          lossless: {
+            type: 'boolean',
+            description: 'Lossless mode for webp, avif, heif and jxl',
           },
           overwrite: {
             type: 'boolean',
@@ -299,19 +629,50 @@ Available photo editing operations:
    - set_saturation: Adjust saturation amount from -100 to 100 (color intensity)
    - set_vibrance: Adjust vibrance amount from -100 to 100 (smart saturation)
 
-5. Rotate:
+5. Tone Curve:
+   - set_curve: Tone curve with a preset (linear, s_curve, strong_s_curve, fade, cross_process) and/or
+     master/r/g/b control points [[input, output], ...] in 0 to 1
+
+6. Tonal Regions:
+   - set_tone_regions: Adjust highlights, shadows, whites and blacks (-100 to 100 each) without moving
+     the rest of the tonal range (e.g., highlights -40 recovers a bright sky, shadows +40 opens dark areas)
+
+7. HSL Mixer:
+   - set_hsl: Adjust hue (-100 to 100), sat (-100 to 100) and lum (-100 to 100) of one hue band
+     (red, orange, yellow, green, aqua, blue, purple, magenta); use one call per band
+
+8. Rotate:
    - set_rotate: Rotate image by angle in degrees (-45 to 45)
 
-6. Crop:
+9. Crop:
    - set_crop: Set aspect ratio (1:1, 3:2, 4:3, 16:9) or custom rectangle
 
-7. History:
+10. Local Adjustments:
+   - local_adjust: Adjust ev (-3 to 3), contrast, saturation and vibrance (-100 to 100) inside a feathered
+     rectangle roi [x, y, width, height] (0 to 1), or outside it with invert: true; at most
+     ${PLANNER_CLAMPS.rois.max} per request (e.g., "brighten the subject, mute the background")
+   - gradient_linear: Graduated filter with ev (-3 to 3), temp, contrast and saturation (-100 to 100)
+     that is full at the start point [x, y] and fades out toward the end point (e.g., "darken the sky"
+     → start [0.5, 0], end [0.5, 0.5], ev -0.7)
+   - gradient_radial: Feathered ellipse at center [x, y] with radiusX and radiusY (0.05 to 1) and the same
+     adjustments, or outside it with invert: true (e.g., "spotlight the subject"); at most
+     ${PLANNER_CLAMPS.gradients.max} gradients per request
+   - All three take an optional mask (sky, subject or background) that limits them to the region the
+     agent finds in the image (e.g., "darken the sky" → the gradient above with mask: "sky", so buildings
+     and trees against the sky keep their exposure)
+
+11. Presets and Looks:
+   - apply_preset: Apply a saved user preset by name (e.g., "use our wedding preset" → name: "wedding")
+   - apply_look: Apply a named look (e.g., teal_orange_mild, warm_film, moody, bw_classic) with an
+     optional intensity from 0 to 100 percent
+
+12. History:
    - undo: Undo last operation
    - redo: Redo previously undone operation
    - reset: Reset to original image
 
-8. Export:
-   - export_image: Export with optional destination path, format (jpeg/png), quality (1-100), and overwrite flag
+13. Export:
+   - export_image: Export with optional destination path, format (jpeg/png/png16/tiff/webp/avif/heif/jxl), quality (1-100), effort (0-9), lossless, and overwrite flag
 
 IMPORTANT RULES:
 - Use amend-last semantics: if the same type of adjustment already exists, update it rather than adding a new one
@@ -390,6 +751,61 @@ export function validateAndClampCall(call: any): PlannedCall | null {
         };
         break;
 
+      case 'set_curve': {
+        if (!call.args) {
+          return null;
+        }
+        const curveArgs: any = {};
+        if (typeof call.args.preset === 'string' && CURVE_PRESET_NAMES.includes(call.args.preset)) {
+          curveArgs.preset = call.args.preset;
+        }
+        for (const channel of ['master', 'r', 'g', 'b']) {
+          const points = clampCurvePoints(call.args[channel]);
+          if (points) {
+            curveArgs[channel] = points;
+          }
+        }
+        if (Object.keys(curveArgs).length === 0) {
+          return null;
+        }
+        clampedCall.args = curveArgs;
+        break;
+      }
+
+      case 'set_tone_regions': {
+        if (!call.args) {
+          return null;
+        }
+        const toneArgs: any = {};
+        for (const slider of ['highlights', 'shadows', 'whites', 'blacks']) {
+          if (typeof call.args[slider] === 'number') {
+            toneArgs[slider] = clamp(call.args[slider], PLANNER_CLAMPS.toneRegion.min, PLANNER_CLAMPS.toneRegion.max);
+          }
+        }
+        if (Object.keys(toneArgs).length === 0) {
+          return null;
+        }
+        clampedCall.args = toneArgs;
+        break;
+      }
+
+      case 'set_hsl': {
+        if (!call.args || !HSL_BANDS.includes(call.args.band)) {
+          return null;
+        }
+        const hslArgs: any = { band: call.args.band };
+        for (const field of ['hue', 'sat', 'lum']) {
+          if (typeof call.args[field] === 'number') {
+            hslArgs[field] = clamp(call.args[field], PLANNER_CLAMPS.hsl.min, PLANNER_CLAMPS.hsl.max);
+          }
+        }
+        if (Object.keys(hslArgs).length === 1) {
+          return null;
+        }
+        clampedCall.args = hslArgs;
+        break;
+      }
+
       case 'set_rotate':
         if (!call.args || typeof call.args.angleDeg !== 'number') {
           return null;
@@ -416,6 +832,87 @@ export function validateAndClampCall(call: any): PlannedCall | null {
         clampedCall.args = cropArgs;
         break;
 
+      case 'local_adjust': {
+        const roi = call.args?.roi;
+        if (!Array.isArray(roi) || roi.length !== 4 || roi.some((v: any) => typeof v !== 'number')) {
+          return null;
+        }
+        // Keep the ROI inside the image and at least roiSize.min wide and high
+        const minSize = PLANNER_CLAMPS.roiSize.min;
+        const x = clamp(roi[0], 0, 1 - minSize);
+        const y = clamp(roi[1], 0, 1 - minSize);
+        const localArgs: any = { roi: [x, y, clamp(roi[2], minSize, 1 - x), clamp(roi[3], minSize, 1 - y)] };
+        if (call.args.invert === true) {
+          localArgs.invert = true;
+        }
+        // A region without adjustments does nothing
+        if (!clampLocalSliders(call.args, localArgs, ['ev', 'contrast', 'saturation', 'vibrance'])) {
+          return null;
+        }
+        copyAutoMask(call.args, localArgs);
+        clampedCall.args = localArgs;
+        break;
+      }
+
+      case 'gradient_linear': {
+        const start = clampPoint(call.args?.start);
+        const end = clampPoint(call.args?.end);
+        // Coincident points give the gradient no direction
+        if (!start || !end || (start[0] === end[0] && start[1] === end[1])) {
+          return null;
+        }
+        const gradientArgs: any = { start, end };
+        if (!clampLocalSliders(call.args, gradientArgs, ['ev', 'temp', 'contrast', 'saturation'])) {
+          return null;
+        }
+        copyAutoMask(call.args, gradientArgs);
+        clampedCall.args = gradientArgs;
+        break;
+      }
+
+      case 'gradient_radial': {
+        const center = clampPoint(call.args?.center);
+        if (!center || typeof call.args.radiusX !== 'number') {
+          return null;
+        }
+        const { min, max } = PLANNER_CLAMPS.gradientRadius;
+        const radiusX = clamp(call.args.radiusX, min, max);
+        const radiusY = typeof call.args.radiusY === 'number' ? clamp(call.args.radiusY, min, max) : radiusX;
+        const gradientArgs: any = { center, radiusX, radiusY };
+        if (call.args.invert === true) {
+          gradientArgs.invert = true;
+        }
+        if (!clampLocalSliders(call.args, gradientArgs, ['ev', 'temp', 'contrast', 'saturation'])) {
+          return null;
+        }
+        copyAutoMask(call.args, gradientArgs);
+        clampedCall.args = gradientArgs;
+        break;
+      }
+
+      case 'apply_preset':
+        if (!call.args || typeof call.args.name !== 'string' || !call.args.name.trim()) {
+          return null;
+        }
+        clampedCall.args = { name: call.args.name.trim() };
+        break;
+
+      case 'apply_look': {
+        if (!call.args || typeof call.args.name !== 'string' || !call.args.name.trim()) {
+          return null;
+        }
+        const lookArgs: any = { name: call.args.name.trim() };
+        if (typeof call.args.intensity === 'number') {
+          lookArgs.intensity = clamp(
+            call.args.intensity,
+            PLANNER_CLAMPS.lookIntensity.min,
+            PLANNER_CLAMPS.lookIntensity.max
+          );
+        }
+        clampedCall.args = lookArgs;
+        break;
+      }
+
       case 'undo':
       case 'redo':
       case 'reset':
@@ -428,9 +925,9 @@ export function validateAndClampCall(call: any): PlannedCall | null {
           if (typeof call.args.dst === 'string') {
             exportArgs.dst = call.args.dst;
           }
-          if (call.args.format === 'jpeg' || call.args.format === 'png') {
+          if (isExportFormat(call.args.format)) {
             exportArgs.format = call.args.format;
-          } else if (call.args.format && call.args.format !== 'jpeg' && call.args.format !== 'png') {
+          } else if (call.args.format) {
             // Invalid format
             return null;
           }
@@ -440,6 +937,12 @@ export function validateAndClampCall(call: any): PlannedCall | null {
             // Invalid quality type
             return null;
           }
+          if (typeof call.args.effort === 'number') {
+            exportArgs.effort = Math.round(clamp(call.args.effort, PLANNER_CLAMPS.effort.min, PLANNER_CLAMPS.effort.max));
+          }
+          if (typeof call.args.lossless === 'boolean') {
+            exportArgs.lossless = call.args.lossless;
+          }
           if (typeof call.args.overwrite === 'boolean') {
             exportArgs.overwrite = call.args.overwrite;
           }
@@ -496,6 +999,16 @@ export function getClampedValues(original: any, clamped: PlannedCall): Array<{ n
     case 'set_vibrance':
       checkClamped('amt', original.args.amt, (clamped.args as any).amt);
       break;
+    case 'set_tone_regions':
+      for (const slider of ['highlights', 'shadows', 'whites', 'blacks']) {
+        checkClamped(slider, original.args[slider], (clamped.args as any)[slider]);
+      }
+      break;
+    case 'set_hsl':
+      for (const field of ['hue', 'sat', 'lum']) {
+        checkClamped(field, original.args[field], (clamped.args as any)[field]);
+      }
+      break;
     case 'set_rotate':
       checkClamped('angleDeg', original.args.angleDeg, (clamped.args as any).angleDeg);
       break;
@@ -512,9 +1025,36 @@ export function getClampedValues(original: any, clamped: PlannedCall): Array<{ n
         }
       }
       break;
+    case 'local_adjust':
+      for (let i = 0; i < 4; i++) {
+        checkClamped(`roi[${i}]`, original.args.roi[i], (clamped.args as any).roi[i]);
+      }
+      for (const field of ['ev', 'contrast', 'saturation', 'vibrance'].filter((f) => f in clamped.args!)) {
+        checkClamped(field, original.args[field], (clamped.args as any)[field]);
+      }
+      break;
+    case 'gradient_linear':
+    case 'gradient_radial': {
+      const points = clamped.fn === 'gradient_linear' ? ['start', 'end'] : ['center'];
+      for (const point of points) {
+        for (let i = 0; i < 2; i++) {
+          checkClamped(`${point}[${i}]`, original.args[point][i], (clamped.args as any)[point][i]);
+        }
+      }
+      for (const field of ['radiusX', 'radiusY', 'ev', 'temp', 'contrast', 'saturation']) {
+        if (field in clamped.args! && original.args[field] !== undefined) {
+          checkClamped(field, original.args[field], (clamped.args as any)[field]);
+        }
+      }
+      break;
+    }
+    case 'apply_look':
+      checkClamped('intensity', original.args.intensity, (clamped.args as any).intensity);
+      break;
     case 'export_image':
       if (original.args && clamped.args) {
         checkClamped('quality', original.args.quality, (clamped.args as any).quality);
+        checkClamped('effort', original.args.effort, (clamped.args as any).effort);
       }
       break;
   }
@@ -522,6 +1062,63 @@ export function getClampedValues(original: any, clamped: PlannedCall): Array<{ n
   return clamped_values;
 }
 
+// Validate a normalized [x, y] point, clamping it into the image
+function clampPoint(point: any): [number, number] | null {
+  if (!Array.isArray(point) || point.length !== 2 || point.some((v: any) => typeof v !== 'number')) {
+    return null;
+  }
+  return [clamp(point[0], 0, 1), clamp(point[1], 0, 1)];
+}
+
+// Copy the non-zero sliders of a local adjustment or gradient into args, clamped to PLANNER_CLAMPS.
+// Returns false when there are none.
+function clampLocalSliders(
+  source: any,
+  args: any,
+  fields: ('ev' | 'temp' | 'contrast' | 'saturation' | 'vibrance')[]
+): boolean {
+  let found = false;
+  for (const field of fields) {
+    if (typeof source[field] === 'number' && source[field] !== 0) {
+      args[field] = clamp(source[field], PLANNER_CLAMPS[field].min, PLANNER_CLAMPS[field].max);
+      found = true;
+    }
+  }
+  return found;
+}
+
+// Copy the mask of a local adjustment or gradient into args when it names a known automatic mask
+function copyAutoMask(source: any, args: any): void {
+  if (AUTO_MASK_KINDS.includes(source.mask)) {
+    args.mask = source.mask;
+  }
+}
+
+// Validate a list of curve points, clamping values and sorting by input. Points are dropped from
+// the upper end (keeping the last) so that, with the 0 and 1 endpoints addCurve adds when they are
+// missing, the curve stays within the max point count
+function clampCurvePoints(points: any): [number, number][] | null {
+  if (!Array.isArray(points)) {
+    return null;
+  }
+  const valid = points
+    .filter((p: any) => Array.isArray(p) && p.length === 2 && typeof p[0] === 'number' && typeof p[1] === 'number')
+    .map((p: number[]): [number, number] => [
+      clamp(p[0], PLANNER_CLAMPS.curvePoint.min, PLANNER_CLAMPS.curvePoint.max),
+      clamp(p[1], PLANNER_CLAMPS.curvePoint.min, PLANNER_CLAMPS.curvePoint.max),
+    ])
+    .sort((a: [number, number], b: [number, number]) => a[0] - b[0]);
+  if (valid.length < PLANNER_CLAMPS.curvePoints.min) {
+    return null;
+  }
+
+  const endpoints = (valid[0][0] > 0 ? 1 : 0) + (valid[valid.length - 1][0] < 1 ? 1 : 0);
+  while (valid.length + endpoints > PLANNER_CLAMPS.curvePoints.max) {
+    valid.splice(valid.length - 2, 1);
+  }
+  return valid;
+}
+
 function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
 }
\ No newline at end of file
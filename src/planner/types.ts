@@ -1,6 +1,9 @@
 // Planner interface for Phase 7a-7d
 // This contract is stable and will be used by both MockPlanner (7a) and GeminiPlanner (7b-7d)
 
+import { ExportFormat } from '../exportFormats';
+import { AutoMaskKind, MAX_CURVE_POINTS } from '../editStack';
+
 export type PlannedCall =
   | { fn: 'set_white_balance_temp_tint'; args: { temp: number; tint: number } }
   | { fn: 'set_white_balance_gray'; args: { x: number; y: number } }
@@ -8,7 +11,30 @@ export type PlannedCall =
   | { fn: 'set_contrast'; args: { amt: number } }
   | { fn: 'set_saturation'; args: { amt: number } }
   | { fn: 'set_vibrance'; args: { amt: number } }
+  | {
+      fn: 'set_tone_regions';
+      args: { highlights?: number; shadows?: number; whites?: number; blacks?: number };
+    }
+  | {
+      fn: 'set_hsl';
+      args: {
+        band: 'red' | 'orange' | 'yellow' | 'green' | 'aqua' | 'blue' | 'purple' | 'magenta';
+        hue?: number;
+        sat?: number;
+        lum?: number;
+      };
+    }
   | { fn: 'set_rotate'; args: { angleDeg: number } }
+  | {
+      fn: 'set_curve';
+      args: {
+        preset?: 'linear' | 's_curve' | 'strong_s_curve' | 'fade' | 'cross_process';
+        master?: [number, number][];
+        r?: [number, number][];
+        g?: [number, number][];
+        b?: [number, number][];
+      };
+    }
   | {
       fn: 'set_crop';
       args: {
@@ -16,6 +42,46 @@ export type PlannedCall =
         rectNorm?: [number, number, number, number];
       };
     }
+  | {
+      fn: 'local_adjust';
+      args: {
+        roi: [number, number, number, number]; // [x, y, w, h] in preview coordinates
+        invert?: boolean; // adjust outside the ROI
+        ev?: number;
+        contrast?: number;
+        saturation?: number;
+        vibrance?: number;
+        mask?: AutoMaskKind; // only where the automatic mask finds this region
+      };
+    }
+  | {
+      fn: 'gradient_linear';
+      args: {
+        start: [number, number]; // full effect, preview coordinates
+        end: [number, number]; // no effect, preview coordinates
+        ev?: number;
+        temp?: number;
+        contrast?: number;
+        saturation?: number;
+        mask?: AutoMaskKind;
+      };
+    }
+  | {
+      fn: 'gradient_radial';
+      args: {
+        center: [number, number]; // preview coordinates
+        radiusX: number; // share of the preview width
+        radiusY?: number; // share of the preview height, radiusX when missing
+        invert?: boolean; // adjust outside the ellipse
+        ev?: number;
+        temp?: number;
+        contrast?: number;
+        saturation?: number;
+        mask?: AutoMaskKind;
+      };
+    }
+  | { fn: 'apply_preset'; args: { name: string } }
+  | { fn: 'apply_look'; args: { name: string; intensity?: number } }
   | { fn: 'undo' }
   | { fn: 'redo' }
   | { fn: 'reset' }
@@ -23,8 +89,10 @@ export type PlannedCall =
       fn: 'export_image';
       args?: {
         dst?: string;
-        format?: 'jpeg' | 'png';
+        format?: ExportFormat;
         quality?: number;
+        effort?: number; // webp 0-6, avif/heif 0-9, jxl 1-9
+        lossless?: boolean;
         overwrite?: boolean;
       };
     };
@@ -61,7 +129,17 @@ export const PLANNER_CLAMPS = {
   contrast: { min: -100, max: 100 },
   saturation: { min: -100, max: 100 },
   vibrance: { min: -100, max: 100 },
+  toneRegion: { min: -100, max: 100 }, // highlights, shadows, whites, blacks
+  hsl: { min: -100, max: 100 }, // per-band hue, sat, lum
   angleDeg: { min: -45, max: 45 },
   quality: { min: 1, max: 100 },
+  effort: { min: 0, max: 9 }, // encoder effort, further clamped per format on export
   grayPoint: { min: 0, max: 1 }, // x,y coordinates
+  curvePoint: { min: 0, max: 1 }, // curve [input, output] values
+  curvePoints: { min: 2, max: MAX_CURVE_POINTS }, // points per curve channel
+  lookIntensity: { min: 0, max: 100 }, // percent of a named look
+  roiSize: { min: 0.02, max: 1 }, // local_adjust ROI width and height
+  rois: { min: 0, max: 2 }, // local_adjust calls per plan
+  gradientRadius: { min: 0.05, max: 1 }, // gradient_radial radii
+  gradients: { min: 0, max: 2 }, // gradient_linear and gradient_radial calls per plan
 } as const;
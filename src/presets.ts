@@ -0,0 +1,222 @@
+// User presets: named sets of ops saved by :preset save and applied to other images by :preset apply
+// and the planner's apply_preset call. Each preset is a JSON file in the presets directory.
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { EditOp, EditStackManager } from './editStack.js';
+import { EDIT_STACK_VERSION, EditOpSchema } from './editStackSchema.js';
+
+export const PRESET_SUFFIX = '.preset.json';
+
+const PresetSchema = z.object({
+  version: z.number(),
+  name: z.string(),
+  ops: z.array(EditOpSchema),
+  createdAt: z.string(),
+});
+
+export type Preset = z.infer<typeof PresetSchema>;
+
+// Presets directory: $PHOTO_AGENT_PRESETS_DIR, or ~/.photo-agent/presets so presets are shared
+// between sessions and folders
+export function defaultPresetsDir(): string {
+  return process.env.PHOTO_AGENT_PRESETS_DIR || path.join(os.homedir(), '.photo-agent', 'presets');
+}
+
+// An op of the preset that uses a mask the preset does not include (before it), if any. Applying it
+// would adjust the op's whole area.
+function missingMaskRef(ops: EditOp[]): string | undefined {
+  const masks = new Set<string>();
+  for (const op of ops) {
+    if (op.op === 'mask') {
+      masks.add(op.id);
+    } else if ('mask' in op && op.mask !== undefined && !masks.has(op.mask)) {
+      return `${op.id} uses mask ${op.mask}, which is not in the preset`;
+    }
+  }
+  return undefined;
+}
+
+export class PresetStore {
+  constructor(readonly dir: string = defaultPresetsDir()) {}
+
+  // Preset names are case-insensitive, so "Wedding" and "wedding" are the same file
+  private pathFor(name: string): string {
+    if (!/^[\w-]+$/.test(name)) {
+      throw new Error(`Invalid preset name: ${name} (letters, digits, _ or -)`);
+    }
+    return path.join(this.dir, name.toLowerCase() + PRESET_SUFFIX);
+  }
+
+  // Save ops under a name, replacing any preset with that name. Op timestamps and enabled flags are
+  // dropped; callers pass the enabled ops (see selectOps). Throws if a local op's mask is left out.
+  async save(name: string, ops: EditOp[]): Promise<Preset> {
+    const missing = missingMaskRef(ops);
+    if (missing) {
+      throw new Error(`Cannot save preset ${name}: ${missing}`);
+    }
+
+    const preset: Preset = {
+      version: EDIT_STACK_VERSION,
+      name,
+      ops: ops.map(({ createdAt, enabled, ...op }) => op as EditOp),
+      createdAt: new Date().toISOString(),
+    };
+
+    const filePath = this.pathFor(name);
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(preset, null, 2));
+    return preset;
+  }
+
+  // Read and validate a preset; throws if it is missing or invalid
+  async load(name: string): Promise<Preset> {
+    const filePath = this.pathFor(name);
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, 'utf-8');
+    } catch (err: any) {
+      if (err.code === 'ENOENT') {
+        throw new Error(`No preset named ${name}`);
+      }
+      throw err;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      throw new Error(`Invalid preset ${name}: not valid JSON`);
+    }
+
+    const result = PresetSchema.safeParse(json);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const where = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+      throw new Error(`Invalid preset ${name}: ${where}${issue.message}`);
+    }
+    const missing = missingMaskRef(result.data.ops);
+    if (missing) {
+      throw new Error(`Invalid preset ${name}: ${missing}`);
+    }
+    return result.data;
+  }
+
+  // All readable presets, sorted by name; invalid files are skipped
+  async list(): Promise<Preset[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const presets: Preset[] = [];
+    for (const entry of entries.filter((e) => e.endsWith(PRESET_SUFFIX)).sort()) {
+      try {
+        presets.push(await this.load(entry.slice(0, -PRESET_SUFFIX.length)));
+      } catch {
+        // Not a preset we can apply
+      }
+    }
+    return presets;
+  }
+
+  // Delete a preset. Returns false if there is no such preset.
+  async remove(name: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.pathFor(name));
+      return true;
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return false;
+      throw err;
+    }
+  }
+}
+
+// Apply a preset's ops through the add* methods, so each one amends the op of its type like the
+// edit commands do and can be undone. Masks get new ids, and the local ops that use them follow
+// (PresetStore.load rejects presets whose local ops use masks they do not include).
+export function applyPreset(manager: EditStackManager, preset: Preset): void {
+  const maskIds = new Map<string, string>();
+  const maskRef = (id: string | undefined) => (id === undefined ? undefined : maskIds.get(id));
+
+  for (const op of preset.ops) {
+    switch (op.op) {
+      case 'crop':
+        manager.addCrop({ rectNorm: op.rectNorm, angleDeg: op.angleDeg, aspect: op.aspect });
+        break;
+      case 'white_balance':
+        manager.addWhiteBalance({
+          method: op.method,
+          x: op.x,
+          y: op.y,
+          temp: op.temp,
+          tint: op.tint,
+          kelvin: op.kelvin,
+        });
+        break;
+      case 'exposure':
+        manager.addExposure({ ev: op.ev });
+        break;
+      case 'contrast':
+        manager.addContrast({ amt: op.amt });
+        break;
+      case 'saturation':
+        manager.addSaturation({ amt: op.amt });
+        break;
+      case 'vibrance':
+        manager.addVibrance({ amt: op.amt });
+        break;
+      case 'curve':
+        manager.addCurve({ master: op.master, r: op.r, g: op.g, b: op.b });
+        break;
+      case 'levels': {
+        const { inBlack, inWhite, gamma, outBlack, outWhite, r, g, b } = op;
+        manager.addLevels({ inBlack, inWhite, gamma, outBlack, outWhite, r, g, b });
+        break;
+      }
+      case 'tone_regions':
+        manager.addToneRegions({
+          highlights: op.highlights,
+          shadows: op.shadows,
+          whites: op.whites,
+          blacks: op.blacks,
+        });
+        break;
+      case 'hsl':
+        manager.addHsl({ bands: op.bands });
+        break;
+      case 'lut':
+        manager.addLut({ path: op.path, interpolation: op.interpolation, opacity: op.opacity });
+        break;
+      case 'local_adjust': {
+        const { roi, feather, invert, ev, temp, contrast, saturation, vibrance } = op;
+        const mask = maskRef(op.mask);
+        manager.addLocalAdjust({ roi, feather, invert, ev, temp, contrast, saturation, vibrance, mask });
+        break;
+      }
+      case 'gradient_linear': {
+        const { start, end, feather, ev, temp, contrast, saturation } = op;
+        manager.addGradientLinear({ start, end, feather, ev, temp, contrast, saturation, mask: maskRef(op.mask) });
+        break;
+      }
+      case 'gradient_radial': {
+        const { center, radiusX, radiusY, feather, invert, ev, temp, contrast, saturation } = op;
+        const mask = maskRef(op.mask);
+        manager.addGradientRadial({ center, radiusX, radiusY, feather, invert, ev, temp, contrast, saturation, mask });
+        break;
+      }
+      case 'mask': {
+        let maskId: string | undefined;
+        for (const shape of op.shapes) {
+          maskId = manager.addMaskShape(shape, maskId);
+        }
+        maskIds.set(op.id, maskId!);
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,149 @@
+// Mapping between preview and original image coordinates (Phase 7c). Points and shapes picked on
+// the rendered preview (gray points, crop rects, local_adjust ROIs, gradients) go through the
+// inverse of the stack's crop and rotate ops to land on the original image that color ops are
+// applied to.
+
+import { EditStack, activeOps } from './editStack.js';
+
+export type Rect = [number, number, number, number]; // [x, y, w, h] in [0..1]
+
+// Undo the stack's geometry for one point, without clamping
+function unmapPoint(x: number, y: number, stack: Pick<EditStack, 'ops'>): { x: number; y: number } {
+  let mappedX = x;
+  let mappedY = y;
+
+  // Process operations in reverse order (undo transformations)
+  const geometryOps = activeOps(stack.ops)
+    .filter((op: any) => op.op === 'crop')
+    .reverse();
+
+  for (const op of geometryOps) {
+    if (op.op === 'crop') {
+      const cropOp = op as any;
+
+      // Handle rotation inverse
+      if (cropOp.angleDeg) {
+        // Rotate point back by negative angle
+        const angle = (-cropOp.angleDeg * Math.PI) / 180;
+        const centerX = 0.5;
+        const centerY = 0.5;
+
+        // Translate to origin
+        const translatedX = mappedX - centerX;
+        const translatedY = mappedY - centerY;
+
+        // Apply inverse rotation
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const rotatedX = translatedX * cos - translatedY * sin;
+        const rotatedY = translatedX * sin + translatedY * cos;
+
+        // Translate back
+        mappedX = rotatedX + centerX;
+        mappedY = rotatedY + centerY;
+      }
+
+      // Handle crop inverse
+      if (cropOp.rectNorm) {
+        const [cropX, cropY, cropW, cropH] = cropOp.rectNorm;
+
+        // Map from cropped space back to original space
+        mappedX = cropX + mappedX * cropW;
+        mappedY = cropY + mappedY * cropH;
+      }
+    }
+  }
+
+  return { x: mappedX, y: mappedY };
+}
+
+// Map preview coordinates to original image coordinates, accounting for crop and rotation.
+// Points outside the original image are clamped to it.
+export function mapPreviewToOriginal(
+  x: number,
+  y: number,
+  stack: Pick<EditStack, 'ops'>,
+  originalWidth: number,
+  originalHeight: number
+): { x: number; y: number; clamped: boolean } {
+  let { x: mappedX, y: mappedY } = unmapPoint(x, y, stack);
+  let wasClamped = false;
+
+  // Clamp to valid range [0,1]
+  if (mappedX < 0 || mappedX > 1 || mappedY < 0 || mappedY > 1) {
+    wasClamped = true;
+    mappedX = Math.max(0, Math.min(1, mappedX));
+    mappedY = Math.max(0, Math.min(1, mappedY));
+  }
+
+  return { x: mappedX, y: mappedY, clamped: wasClamped };
+}
+
+// Map a preview point given as [x, y] to the original image (see mapPreviewToOriginal)
+export function mapPreviewPointToOriginal(
+  point: [number, number],
+  stack: Pick<EditStack, 'ops'>
+): { point: [number, number]; clamped: boolean } {
+  const mapped = mapPreviewToOriginal(point[0], point[1], stack, 0, 0);
+  return { point: [mapped.x, mapped.y], clamped: mapped.clamped };
+}
+
+// Map a preview rectangle to the original image. All four corners are mapped, so under rotation
+// the result is the bounding box of the rotated rectangle; it is clamped to the image.
+export function mapPreviewRectToOriginal(rect: Rect, stack: Pick<EditStack, 'ops'>): { rect: Rect; clamped: boolean } {
+  const [x, y, w, h] = rect;
+  const corners = [
+    unmapPoint(x, y, stack),
+    unmapPoint(x + w, y, stack),
+    unmapPoint(x, y + h, stack),
+    unmapPoint(x + w, y + h, stack),
+  ];
+  const xs = corners.map((c) => c.x);
+  const ys = corners.map((c) => c.y);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  const right = Math.max(...xs);
+  const bottom = Math.max(...ys);
+
+  const clamp = (v: number) => Math.max(0, Math.min(1, v));
+  const clamped = left < 0 || top < 0 || right > 1 || bottom > 1;
+  return {
+    rect: [clamp(left), clamp(top), clamp(right) - clamp(left), clamp(bottom) - clamp(top)],
+    clamped,
+  };
+}
+
+// Map a preview ellipse (radii as shares of the preview width and height) to the original image.
+// The center is mapped like a point and clamped; each radius is the length of its mapped axis, so
+// it shrinks with the crops in the stack. A rotation keeps the ellipse axis-aligned: each mapped
+// axis becomes the original's x or y radius, whichever it lies closer to, so under a 90° rotation
+// the radii swap.
+export function mapPreviewEllipseToOriginal(
+  center: [number, number],
+  radiusX: number,
+  radiusY: number,
+  stack: Pick<EditStack, 'ops'>
+): { center: [number, number]; radiusX: number; radiusY: number; clamped: boolean } {
+  const [x, y] = center;
+  const mappedCenter = unmapPoint(x, y, stack);
+  const xAxis = unmapPoint(x + radiusX, y, stack);
+  const axisLength = (end: { x: number; y: number }) => Math.hypot(end.x - mappedCenter.x, end.y - mappedCenter.y);
+  const swapped = Math.abs(xAxis.y - mappedCenter.y) > Math.abs(xAxis.x - mappedCenter.x);
+  const mappedX = axisLength(xAxis);
+  const mappedY = axisLength(unmapPoint(x, y + radiusY, stack));
+  const mapped = mapPreviewPointToOriginal(center, stack);
+  return {
+    center: mapped.point,
+    radiusX: swapped ? mappedY : mappedX,
+    radiusY: swapped ? mappedX : mappedY,
+    clamped: mapped.clamped,
+  };
+}
+
+// Intersection area as a share of the smaller rectangle's area (0 = disjoint, 1 = one inside the other)
+export function rectOverlap(a: Rect, b: Rect): number {
+  const width = Math.min(a[0] + a[2], b[0] + b[2]) - Math.max(a[0], b[0]);
+  const height = Math.min(a[1] + a[3], b[1] + b[3]) - Math.max(a[1], b[1]);
+  if (width <= 0 || height <= 0) return 0;
+  return (width * height) / Math.min(a[2] * a[3], b[2] * b[3]);
+}
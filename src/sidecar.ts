@@ -0,0 +1,104 @@
+// Reading and writing .editstack.json sidecars written next to exports and by :stack save
+
+import fs from 'fs/promises';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { EditStack } from './editStack.js';
+import { migrateStack } from './editStackSchema.js';
+
+export const SIDECAR_SUFFIX = '.editstack.json';
+
+// Sidecar path for an image or export file
+export function sidecarPathFor(filePath: string): string {
+  return filePath + SIDECAR_SUFFIX;
+}
+
+// Write a sidecar; render records the export settings when the sidecar belongs to an export
+export async function writeSidecar(
+  sidecarPath: string,
+  stack: EditStack,
+  render?: Record<string, unknown>
+): Promise<void> {
+  const content = {
+    version: stack.version,
+    baseUri: stack.baseUri,
+    ops: stack.ops,
+    createdAt: new Date().toISOString(),
+    ...(render && { render }),
+  };
+  await fs.writeFile(sidecarPath, JSON.stringify(content, null, 2));
+}
+
+// Read and validate a sidecar, upgrading older stack versions; throws if it is missing, not JSON or
+// has invalid ops
+export async function readSidecar(sidecarPath: string): Promise<EditStack> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(sidecarPath, 'utf-8');
+  } catch (err: any) {
+    if (err.code === 'ENOENT') {
+      throw new Error(`Sidecar not found: ${sidecarPath}`);
+    }
+    throw err;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error(`Invalid sidecar ${path.basename(sidecarPath)}: not valid JSON`);
+  }
+
+  try {
+    return migrateStack(json);
+  } catch (err: any) {
+    throw new Error(`Invalid sidecar ${path.basename(sidecarPath)}: ${err.message}`);
+  }
+}
+
+// Find the sidecar for a source image: <image>.editstack.json next to it, otherwise the newest
+// export sidecar in one of exportDirs whose baseUri points at the image
+export async function findSidecar(srcPath: string, exportDirs: string[]): Promise<string | null> {
+  const besideSource = sidecarPathFor(srcPath);
+  if (await exists(besideSource)) {
+    return besideSource;
+  }
+
+  const baseUri = pathToFileURL(srcPath).href;
+  const prefix = `${path.basename(srcPath, path.extname(srcPath))}_`;
+  let newest: { path: string; createdAt: string } | null = null;
+
+  for (const dir of new Set(exportDirs.map((d) => path.resolve(d)))) {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(dir);
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries) {
+      if (!entry.startsWith(prefix) || !entry.endsWith(SIDECAR_SUFFIX)) continue;
+
+      const candidate = path.join(dir, entry);
+      try {
+        const { baseUri: candidateUri, createdAt = '' } = JSON.parse(await fs.readFile(candidate, 'utf-8'));
+        if (candidateUri === baseUri && (!newest || createdAt > newest.createdAt)) {
+          newest = { path: candidate, createdAt };
+        }
+      } catch {
+        // Unreadable sidecars are not candidates
+      }
+    }
+  }
+
+  return newest?.path ?? null;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.stat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+// Generate synthetic fixtures for the automatic mask tests
+const sharp = require('sharp');
+const path = require('path');
+
+const width = 320;
+const height = 240;
+
+// Deterministic noise in [0, 1), so the fixtures are the same on every run
+let seed = 42;
+function noise() {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+}
+
+function mix(from, to, t) {
+  return from.map((v, c) => Math.round(v + (to[c] - v) * t));
+}
+
+// Gradient sky: deep blue at the top fading to pale blue at the horizon (60% down), a dark
+// building that rises into the sky, and noisy green-brown ground below
+async function generateGradientSky() {
+  const data = Buffer.alloc(width * height * 3);
+  const horizon = Math.round(height * 0.6);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let color;
+      if (x >= 220 && x < 260 && y >= 70 && y < horizon) {
+        color = [50 + Math.round(noise() * 40), 45, 40]; // Building with lit windows
+      } else if (y < horizon) {
+        color = mix([40, 90, 170], [170, 200, 230], y / horizon);
+      } else {
+        const grain = noise();
+        color = mix([60, 90, 40], [120, 100, 60], grain);
+      }
+      data.set(color, (y * width + x) * 3);
+    }
+  }
+  await sharp(data, { raw: { width, height, channels: 3 } })
+    .png()
+    .toFile(path.join(__dirname, 'gradient-sky.png'));
+  console.log(`Generated gradient-sky.png (${width}x${height})`);
+}
+
+// Subject: a sharp, colorful checkered disc in the middle of a smooth gray-green background
+async function generateSubject() {
+  const data = Buffer.alloc(width * height * 3);
+  const radius = height * 0.25;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let color;
+      if (Math.hypot(x - width / 2, y - height / 2) < radius) {
+        color = (Math.floor(x / 4) + Math.floor(y / 4)) % 2 === 0 ? [220, 60, 40] : [240, 200, 60];
+      } else {
+        color = mix([110, 120, 110], [140, 150, 130], x / width);
+      }
+      data.set(color, (y * width + x) * 3);
+    }
+  }
+  await sharp(data, { raw: { width, height, channels: 3 } })
+    .png()
+    .toFile(path.join(__dirname, 'subject.png'));
+  console.log(`Generated subject.png (${width}x${height})`);
+}
+
+generateGradientSky()
+  .then(generateSubject)
+  .catch(console.error);
@@ -1,5 +1,15 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { EditStackManager } from '../src/editStack';
+import {
+  EditStackManager,
+  CURVE_PRESETS,
+  CURRENT_SNAPSHOT,
+  HslOp,
+  MAX_CURVE_POINTS,
+  activeOps,
+} from '../src/editStack';
+import { EditOpSchema } from '../src/editStackSchema';
+import { PLANNER_CLAMPS } from '../src/planner/types';
+import { validateAndClampCall } from '../src/planner/tools';
 
 describe('EditStackManager', () => {
   let manager: EditStackManager;
@@ -12,7 +22,7 @@ describe('EditStackManager', () => {
   describe('initialization', () => {
     it('should create empty stack with correct baseUri', () => {
       const stack = manager.getStack();
-      expect(stack.version).toBe(1);
+      expect(stack.version).toBe(2);
       expect(stack.baseUri).toBe(testUri);
       expect(stack.ops).toHaveLength(0);
     });
@@ -348,6 +358,17 @@ describe('EditStackManager', () => {
       const stack = manager.getStack();
       expect(stack.ops).toHaveLength(2);
     });
+
+    it('should add white balance with kelvin and clamp range', () => {
+      manager.addWhiteBalance({ method: 'kelvin', kelvin: 1500, tint: 5 });
+
+      const stack = manager.getStack();
+      const wbOp = stack.ops[0] as any;
+      expect(wbOp.method).toBe('kelvin');
+      expect(wbOp.kelvin).toBe(2000);
+      expect(wbOp.tint).toBe(5);
+      expect(manager.getStackSummary()).toBe('WB(2000K tint 5)');
+    });
   });
 
   describe('exposure operations', () => {
@@ -426,6 +447,402 @@ describe('EditStackManager', () => {
     });
   });
 
+  describe('curve operations', () => {
+    it('should add curve from preset', () => {
+      manager.addCurve({ preset: 's-curve' });
+
+      const stack = manager.getStack();
+      expect(stack.ops).toHaveLength(1);
+      expect(stack.ops[0].op).toBe('curve');
+      const curveOp = stack.ops[0] as any;
+      expect(curveOp.master).toEqual(CURVE_PRESETS.s_curve.master);
+    });
+
+    it('should clamp, sort and pin curve endpoints', () => {
+      manager.addCurve({
+        master: [
+          [0.75, 1.2],
+          [0.25, -0.1],
+        ],
+      });
+
+      const curveOp = manager.getStack().ops[0] as any;
+      expect(curveOp.master).toEqual([
+        [0, 0],
+        [0.25, 0],
+        [0.75, 1],
+        [1, 1],
+      ]);
+    });
+
+    it('should let explicit channels override the preset', () => {
+      manager.addCurve({
+        preset: 'fade',
+        b: [
+          [0, 0.1],
+          [1, 0.9],
+        ],
+      });
+
+      const curveOp = manager.getStack().ops[0] as any;
+      expect(curveOp.master).toEqual(CURVE_PRESETS.fade.master);
+      expect(curveOp.b).toEqual([
+        [0, 0.1],
+        [1, 0.9],
+      ]);
+    });
+
+    it('should amend last curve by default', () => {
+      manager.addCurve({ preset: 's_curve' });
+      manager.addCurve({ preset: 'fade' });
+
+      const stack = manager.getStack();
+      expect(stack.ops).toHaveLength(1);
+      expect((stack.ops[0] as any).master).toEqual(CURVE_PRESETS.fade.master);
+    });
+
+    it('should summarize curve channels', () => {
+      manager.addCurve({
+        master: [
+          [0, 0],
+          [0.5, 0.6],
+          [1, 1],
+        ],
+      });
+
+      expect(manager.getStackSummary()).toBe('Curve(master 3pt)');
+    });
+
+    it('should reject curves with more than MAX_CURVE_POINTS points', () => {
+      const points = (n: number) => Array.from({ length: n }, (_, i): [number, number] => [i / (n - 1), i / (n - 1)]);
+      manager.addCurve({ master: points(MAX_CURVE_POINTS) });
+
+      expect(() => manager.addCurve({ master: points(MAX_CURVE_POINTS + 1) })).toThrow(
+        `A curve has at most ${MAX_CURVE_POINTS} points`
+      );
+      expect(manager.getStackLength()).toBe(1);
+      expect((manager.getStack().ops[0] as any).master).toHaveLength(MAX_CURVE_POINTS);
+      expect(PLANNER_CLAMPS.curvePoints.max).toBe(MAX_CURVE_POINTS);
+      expect(EditOpSchema.safeParse({ id: 'op_01', op: 'curve', master: points(MAX_CURVE_POINTS + 1) }).success).toBe(
+        false
+      );
+    });
+
+    it('should leave room for the endpoints in planner curves', () => {
+      const interior = Array.from({ length: 16 }, (_, i): [number, number] => [(i + 1) / 17, (i + 1) / 17]);
+      const call = validateAndClampCall({ fn: 'set_curve', args: { master: interior } }) as any;
+
+      manager.addCurve(call.args);
+      const master = (manager.getStack().ops[0] as any).master;
+      expect(master).toHaveLength(MAX_CURVE_POINTS);
+      expect(master[0]).toEqual([0, 0]);
+      expect(master[MAX_CURVE_POINTS - 1]).toEqual([1, 1]);
+      expect(master[MAX_CURVE_POINTS - 2]).toEqual(interior[15]);
+    });
+  });
+
+  describe('levels operations', () => {
+    it('should add levels with defaults for missing values', () => {
+      manager.addLevels({ inBlack: 12, inWhite: 240 });
+
+      const stack = manager.getStack();
+      expect(stack.ops).toHaveLength(1);
+      expect(stack.ops[0]).toMatchObject({
+        op: 'levels',
+        inBlack: 12,
+        inWhite: 240,
+        gamma: 1,
+        outBlack: 0,
+        outWhite: 255,
+      });
+    });
+
+    it('should clamp levels and keep the input range open', () => {
+      manager.addLevels({ inBlack: 300, inWhite: 100, gamma: 50 });
+
+      const levelsOp = manager.getStack().ops[0] as any;
+      expect(levelsOp.inBlack).toBe(254);
+      expect(levelsOp.inWhite).toBe(255);
+      expect(levelsOp.gamma).toBe(10);
+    });
+
+    it('should store per-channel levels', () => {
+      manager.addLevels({ b: { inWhite: 230 } });
+
+      const levelsOp = manager.getStack().ops[0] as any;
+      expect(levelsOp.b).toEqual({ inBlack: 0, inWhite: 230, gamma: 1, outBlack: 0, outWhite: 255 });
+      expect(levelsOp.r).toBeUndefined();
+    });
+
+    it('should amend last levels by default', () => {
+      manager.addLevels({ inBlack: 10 });
+      manager.addLevels({ inBlack: 20 });
+
+      const stack = manager.getStack();
+      expect(stack.ops).toHaveLength(1);
+      expect((stack.ops[0] as any).inBlack).toBe(20);
+    });
+
+    it('should summarize levels', () => {
+      manager.addLevels({ inBlack: 12, inWhite: 240, gamma: 1.1, b: { inWhite: 230 } });
+
+      expect(manager.getStackSummary()).toBe('Levels(12-240 γ1.10 [b])');
+    });
+  });
+
+  describe('tone regions operations', () => {
+    it('should add tone regions with unset sliders at zero', () => {
+      manager.addToneRegions({ highlights: -40 });
+
+      const stack = manager.getStack();
+      expect(stack.ops).toHaveLength(1);
+      expect(stack.ops[0]).toMatchObject({ op: 'tone_regions', highlights: -40, shadows: 0, whites: 0, blacks: 0 });
+    });
+
+    it('should clamp tone region sliders', () => {
+      manager.addToneRegions({ shadows: 150, blacks: -150 });
+
+      const toneOp = manager.getStack().ops[0] as any;
+      expect(toneOp.shadows).toBe(100);
+      expect(toneOp.blacks).toBe(-100);
+    });
+
+    it('should keep other sliders when amending', () => {
+      manager.addToneRegions({ highlights: -40 });
+      manager.addToneRegions({ shadows: 30 });
+
+      const stack = manager.getStack();
+      expect(stack.ops).toHaveLength(1);
+      expect(stack.ops[0]).toMatchObject({ highlights: -40, shadows: 30 });
+    });
+
+    it('should summarize non-zero sliders', () => {
+      manager.addToneRegions({ highlights: -40, shadows: 30 });
+
+      expect(manager.getStackSummary()).toBe('Tone(hl -40 sh +30)');
+    });
+  });
+
+  describe('hsl operations', () => {
+    it('should add an hsl band adjustment', () => {
+      manager.addHsl({ bands: { blue: { sat: -20, lum: -10 } } });
+
+      const stack = manager.getStack();
+      expect(stack.ops).toHaveLength(1);
+      expect(stack.ops[0]).toMatchObject({ op: 'hsl', bands: { blue: { hue: 0, sat: -20, lum: -10 } } });
+    });
+
+    it('should keep other bands when amending', () => {
+      manager.addHsl({ bands: { blue: { sat: -20 } } });
+      manager.addHsl({ bands: { orange: { hue: 5 } } });
+      manager.addHsl({ bands: { blue: { lum: -10 } } });
+
+      const stack = manager.getStack();
+      expect(stack.ops).toHaveLength(1);
+      const hslOp = stack.ops[0] as any;
+      expect(hslOp.bands.blue).toEqual({ hue: 0, sat: -20, lum: -10 });
+      expect(hslOp.bands.orange).toEqual({ hue: 5, sat: 0, lum: 0 });
+    });
+
+    it('should clamp values and drop neutral bands', () => {
+      manager.addHsl({ bands: { red: { sat: 150 }, green: { hue: 0 } } });
+
+      const hslOp = manager.getStack().ops[0] as any;
+      expect(hslOp.bands.red.sat).toBe(100);
+      expect(hslOp.bands.green).toBeUndefined();
+    });
+
+    it('should summarize hsl bands', () => {
+      manager.addHsl({ bands: { blue: { sat: -20, lum: -10 } } });
+
+      expect(manager.getStackSummary()).toBe('HSL(blue s-20 l-10)');
+    });
+  });
+
+  describe('lut operations', () => {
+    it('should amend the last lut and clamp opacity', () => {
+      manager.addLut({ path: 'luts/film.cube' });
+      manager.addLut({ path: 'luts/bleach.3dl', opacity: 140 });
+
+      const stack = manager.getStack();
+      expect(stack.ops).toHaveLength(1);
+      expect(stack.ops[0]).toMatchObject({ op: 'lut', path: 'luts/bleach.3dl', opacity: 100 });
+    });
+
+    it('should summarize the lut by file name', () => {
+      manager.addLut({ path: 'luts/film.cube', opacity: 60, interpolation: 'trilinear' });
+
+      expect(manager.getStackSummary()).toBe('LUT(film.cube 60% trilinear)');
+    });
+  });
+
+  describe('local_adjust operations', () => {
+    it('should append each ROI and clamp it to the image', () => {
+      manager.addLocalAdjust({ roi: [0.2, 0.2, 0.4, 0.4], ev: 0.3 });
+      manager.addLocalAdjust({ roi: [0.8, -0.1, 0.5, 0.5], saturation: -140, feather: 0 });
+
+      const stack = manager.getStack();
+      expect(stack.ops).toHaveLength(2);
+      expect(stack.ops[0]).toMatchObject({ op: 'local_adjust', feather: 25, ev: 0.3 });
+      expect(stack.ops[1]).toMatchObject({ roi: [0.8, 0, expect.closeTo(0.2), 0.5], saturation: -100, feather: 0 });
+    });
+
+    it('should number ROIs in the stack summary', () => {
+      manager.addLocalAdjust({ roi: [0.3, 0.2, 0.4, 0.6], ev: 0.3 });
+      manager.addExposure({ ev: 0.5 });
+      manager.addLocalAdjust({ roi: [0.3, 0.2, 0.4, 0.6], saturation: -20, invert: true });
+
+      expect(manager.getStackSummary()).toBe('Local(roi#1 ev +0.3) • EV +0.50 • Local(roi#2 outside saturation -20)');
+    });
+  });
+
+  describe('gradient operations', () => {
+    it('should append gradients and clamp their points and sliders', () => {
+      manager.addGradientLinear({ start: [0.5, -0.2], end: [0.5, 0.5], ev: -0.7, temp: 0 });
+      manager.addGradientRadial({ center: [0.5, 0.5], radiusX: 0.3, radiusY: 2, invert: true, saturation: -140 });
+      manager.addGradientLinear({ start: [0, 0], end: [1, 1], contrast: 20, feather: 40 });
+
+      const stack = manager.getStack();
+      expect(stack.ops).toHaveLength(3);
+      expect(stack.ops[0]).toMatchObject({ start: [0.5, 0], end: [0.5, 0.5], feather: 100, ev: -0.7 });
+      expect(stack.ops[0]).not.toHaveProperty('temp');
+      expect(stack.ops[1]).toMatchObject({ radiusY: 1, feather: 50, invert: true, saturation: -100 });
+    });
+
+    it('should number gradients in the stack summary', () => {
+      manager.addGradientLinear({ start: [0.5, 0], end: [0.5, 0.5], ev: -0.7, temp: -10 });
+      manager.addGradientRadial({ center: [0.5, 0.5], radiusX: 0.3, radiusY: 0.4, invert: true, ev: -0.5 });
+      manager.addGradientLinear({ start: [0.5, 1], end: [0.5, 0.7], ev: 0.3 });
+
+      expect(manager.getStackSummary()).toBe(
+        'Grad(#1 ev -0.7 temp -10) • Radial(#1 outside ev -0.5) • Grad(#2 ev +0.3)'
+      );
+      expect(manager.getLastOpSummary()).toBe('gradient_linear from=[0.50,1.00] to=[0.50,0.70] ev +0.3');
+    });
+  });
+
+  describe('mask operations', () => {
+    const triangle = {
+      type: 'polygon' as const,
+      mode: 'add' as const,
+      points: [
+        [0.1, 0.1],
+        [0.6, -0.2],
+        [0.4, 0.5],
+      ] as [number, number][],
+    };
+
+    it('should start a mask or add shapes to one, clamping points', () => {
+      const id = manager.addMaskShape(triangle);
+      expect(
+        manager.addMaskShape({ type: 'brush', mode: 'subtract', points: [[0.2, 0.2]], radius: 2, hardness: 50 }, id)
+      ).toBe(id);
+
+      const stack = manager.getStack();
+      expect(stack.ops).toHaveLength(1);
+      expect(stack.ops[0]).toMatchObject({ id, op: 'mask' });
+      expect((stack.ops[0] as any).shapes[0].points[1]).toEqual([0.6, 0]);
+      expect((stack.ops[0] as any).shapes[1].radius).toBe(1);
+      expect(manager.getStackSummary()).toBe(`Mask(${id}: polygon 3pt − brush 1pt r1.00)`);
+
+      expect(() => manager.addMaskShape(triangle, 'op_99')).toThrow('No mask op_99');
+      manager.undo();
+      expect((manager.getStack().ops[0] as any).shapes).toHaveLength(1);
+    });
+
+    it('should clamp luminance and color ranges', () => {
+      const id = manager.addMaskShape({ type: 'luminance', mode: 'add', range: [110, 70], falloff: 80 });
+      manager.addMaskShape(
+        { type: 'color', mode: 'intersect', hue: -230, hueRange: 20, falloff: 200, minChroma: 10 },
+        id
+      );
+      manager.addLocalAdjust({ roi: [0, 0, 1, 1], temp: -20, mask: id });
+
+      const shapes = (manager.getStack().ops[0] as any).shapes;
+      expect(shapes[0]).toMatchObject({ range: [70, 100], falloff: 50 });
+      expect(shapes[1]).toMatchObject({ hue: 130, falloff: 180 });
+      expect(manager.getStackSummary()).toBe(
+        `Mask(${id}: luma 70-100 ∩ color h130±20) • Local(roi#1 temp -20 mask ${id})`
+      );
+    });
+
+    it('should find automatic masks to reuse', () => {
+      expect(manager.findAutoMask('sky')).toBeUndefined();
+      const sky = manager.addMaskShape({ type: 'auto', mode: 'add', kind: 'sky' });
+      const subject = manager.addMaskShape({ type: 'auto', mode: 'add', kind: 'subject' });
+      manager.addMaskShape(triangle, subject);
+
+      expect(manager.findAutoMask('sky')).toBe(sky);
+      expect(manager.findAutoMask('subject')).toBeUndefined(); // Refined with a polygon
+      expect(manager.getStackSummary()).toBe(`Mask(${sky}: auto sky) • Mask(${subject}: auto subject + polygon 3pt)`);
+
+      manager.disableOp(sky);
+      expect(manager.findAutoMask('sky')).toBeUndefined();
+    });
+
+    it('should reference masks from local ops and reject unknown ones', () => {
+      const id = manager.addMaskShape(triangle);
+      manager.addLocalAdjust({ roi: [0, 0, 1, 1], ev: 0.3, mask: id });
+      manager.addGradientLinear({ start: [0.5, 0], end: [0.5, 0.5], ev: -0.5, mask: id });
+
+      expect(manager.getStackSummary()).toBe(
+        `Mask(${id}: polygon 3pt) • Local(roi#1 ev +0.3 mask ${id}) • Grad(#1 ev -0.5 mask ${id})`
+      );
+      expect(() =>
+        manager.addGradientRadial({ center: [0.5, 0.5], radiusX: 0.2, radiusY: 0.2, ev: 1, mask: 'op_99' })
+      ).toThrow('No mask op_99');
+      expect(manager.getStackLength()).toBe(3);
+    });
+
+    it('should refuse to remove or disable a mask that local ops use', () => {
+      const id = manager.addMaskShape(triangle);
+      manager.addLocalAdjust({ roi: [0, 0, 1, 1], ev: 0.3, mask: id });
+      const local = manager.getStack().ops[1].id;
+
+      expect(() => manager.removeOp(id)).toThrow(`Cannot remove ${id}: ${local} uses it`);
+      expect(() => manager.disableOp(id)).toThrow(`Cannot disable ${id}: ${local} uses it`);
+      expect(() => manager.updateOp(local, { mask: 'op_99' })).toThrow('No mask op_99');
+      expect(manager.getStackSummary()).toBe(`Mask(${id}: polygon 3pt) • Local(roi#1 ev +0.3 mask ${id})`);
+
+      manager.removeOp(local);
+      expect(manager.removeOp(id)).toBe(true);
+    });
+
+    it('should refuse to disable a used mask through updateOp', () => {
+      const id = manager.addMaskShape(triangle);
+      manager.addLocalAdjust({ roi: [0, 0, 1, 1], ev: 0.3, mask: id });
+      const local = manager.getStack().ops[1].id;
+
+      expect(() => manager.updateOp(id, { enabled: false })).toThrow(`Cannot disable ${id}: ${local} uses it`);
+      expect(manager.getStack().ops[0].enabled).toBeUndefined();
+      expect(manager.updateOp(id, { label: 'Sky' })).toBe(true);
+    });
+
+    it('should point pasted local ops at the pasted masks', () => {
+      manager.addExposure({ ev: 0.5 });
+      manager.pasteOps([
+        { id: 'op_05', op: 'mask', shapes: [triangle] },
+        { id: 'op_06', op: 'local_adjust', roi: [0, 0, 1, 1], feather: 0, ev: 0.3, mask: 'op_05' },
+      ]);
+
+      const ops = manager.getStack().ops as any[];
+      expect(ops[2].mask).toBe(ops[1].id);
+    });
+
+    it('should refuse to paste a local op without its mask', () => {
+      manager.addExposure({ ev: 0.5 });
+      expect(() =>
+        manager.pasteOps([
+          { id: 'op_03', op: 'exposure', ev: 1 },
+          { id: 'op_07', op: 'local_adjust', roi: [0, 0, 1, 1], feather: 0, ev: 0.3, mask: 'op_01' },
+        ])
+      ).toThrow('Cannot paste op_07: its mask op_01 was not copied');
+      expect(manager.getStackSummary()).toBe('EV +0.50');
+      expect(manager.undo()).toBe(true);
+      expect(manager.getStackLength()).toBe(0);
+    });
+  });
+
   describe('mixed operations and amend-last by kind', () => {
     it('should keep different operation types separate', () => {
       manager.addCrop({ angleDeg: 10 });
@@ -518,4 +935,193 @@ describe('EditStackManager', () => {
       expect(manager.getStack().ops[1].op).toBe('exposure');
     });
   });
+
+  describe('restoring ops', () => {
+    it('should replace the stack and continue op IDs after the restored ones', () => {
+      manager.restoreOps([
+        { id: 'op_07', op: 'exposure', ev: 0.5 },
+        { id: 'op_12', op: 'contrast', amt: 20 },
+      ]);
+
+      expect(manager.getStackSummary()).toBe('EV +0.50 • Contrast +20');
+
+      manager.addSaturation({ amt: 10 });
+      expect(manager.getStack().ops[2].id).toBe('op_13');
+    });
+
+    it('should be undoable', () => {
+      manager.addExposure({ ev: 1 });
+      manager.restoreOps([{ id: 'op_01', op: 'contrast', amt: 30 }]);
+
+      expect(manager.undo()).toBe(true);
+      expect(manager.getStack().ops[0].op).toBe('exposure');
+    });
+  });
+
+  describe('op-level editing', () => {
+    beforeEach(() => {
+      manager.addWhiteBalance({ method: 'kelvin', kelvin: 5000 });
+      manager.addExposure({ ev: 0.5 });
+      manager.addContrast({ amt: 20 });
+    });
+
+    it('should disable and re-enable an op', () => {
+      expect(manager.disableOp('op_01')).toBe(true);
+      expect(manager.getStack().ops[0].enabled).toBe(false);
+      expect(manager.getStackSummary()).toBe('WB(5000K tint 0) (off) • EV +0.50 • Contrast +20');
+      expect(activeOps(manager.getStack().ops).map((op) => op.id)).toEqual(['op_02', 'op_03']);
+
+      expect(manager.enableOp('op_01')).toBe(true);
+      expect(manager.getStack().ops[0].enabled).toBeUndefined();
+      expect(manager.disableOp('op_99')).toBe(false);
+    });
+
+    it('should keep a disabled op disabled when amending it', () => {
+      manager.disableOp('op_02');
+      manager.addExposure({ ev: 1 });
+      manager.addCrop({ aspect: '1:1' });
+      manager.disableOp('op_05');
+      manager.addCrop({ aspect: '16:9' });
+
+      expect(manager.getStackSummary()).toBe('WB(5000K tint 0) • EV +1.00 (off) • Contrast +20 • Crop 16:9 (off)');
+      manager.enableOp(manager.getStack().ops[1].id);
+      expect(manager.getStackSummary()).toContain('EV +1.00 • Contrast');
+    });
+
+    it('should remove an op from the middle of the stack', () => {
+      expect(manager.removeOp('op_02')).toBe(true);
+      expect(manager.getStackSummary()).toBe('WB(5000K tint 0) • Contrast +20');
+      expect(manager.removeOp('op_02')).toBe(false);
+    });
+
+    it('should move an op, clamping the position', () => {
+      expect(manager.moveOp('op_03', 0)).toBe(true);
+      expect(manager.getStack().ops.map((op) => op.id)).toEqual(['op_03', 'op_01', 'op_02']);
+
+      manager.moveOp('op_03', 10);
+      expect(manager.getStack().ops.map((op) => op.id)).toEqual(['op_01', 'op_02', 'op_03']);
+    });
+
+    it('should update fields in place and merge nested objects', () => {
+      expect(manager.updateOp('op_01', { kelvin: 6500, label: 'Daylight' })).toBe(true);
+      expect(manager.getStack().ops[0]).toMatchObject({ id: 'op_01', kelvin: 6500, label: 'Daylight' });
+
+      manager.addHsl({ bands: { blue: { sat: -20, lum: -10 } } });
+      manager.updateOp('op_04', { bands: { blue: { sat: -40 } } });
+      expect((manager.getStack().ops[3] as HslOp).bands.blue).toEqual({ hue: 0, sat: -40, lum: -10 });
+    });
+
+    it('should reject invalid updates', () => {
+      expect(() => manager.updateOp('op_03', { amt: 500 })).toThrow('op_03 amt');
+      expect(() => manager.updateOp('op_03', { ev: 1 })).toThrow('has no field ev');
+      expect(() => manager.updateOp('op_03', { op: 'exposure' })).toThrow('Cannot change');
+      expect(manager.getStackSummary()).toBe('WB(5000K tint 0) • EV +0.50 • Contrast +20');
+      expect(manager.updateOp('op_99', { amt: 1 })).toBe(false);
+    });
+
+    it('should undo each op-level edit', () => {
+      manager.disableOp('op_01');
+      manager.moveOp('op_03', 0);
+      manager.updateOp('op_02', { ev: 1 });
+      manager.removeOp('op_01');
+
+      manager.undo();
+      expect(manager.getStackSummary()).toBe('Contrast +20 • WB(5000K tint 0) (off) • EV +1.00');
+      manager.undo();
+      manager.undo();
+      manager.undo();
+      expect(manager.getStackSummary()).toBe('WB(5000K tint 0) • EV +0.50 • Contrast +20');
+    });
+
+    it('should list ops with ids, positions and labels', () => {
+      manager.updateOp('op_02', { label: 'Lift' });
+      manager.disableOp('op_03');
+
+      expect(manager.getOpListing()).toBe(
+        '1. op_01 WB(5000K tint 0)\n2. op_02 EV +0.50 "Lift"\n3. op_03 Contrast +20 (off)'
+      );
+    });
+  });
+
+  describe('seedOps', () => {
+    it('should start from ops without an undo step', () => {
+      manager.addExposure({ ev: 0.5 });
+      const copy = new EditStackManager(testUri);
+      copy.seedOps(manager.getStack().ops);
+
+      expect(copy.getStackSummary()).toBe('EV +0.50');
+      expect(copy.getUndoDepth()).toBe(0);
+      expect(copy.undo()).toBe(false);
+      copy.addContrast({ amt: 20 });
+      expect(copy.getStack().ops[1].id).toBe('op_02');
+    });
+  });
+
+  describe('snapshots', () => {
+    beforeEach(() => {
+      manager.addExposure({ ev: 0.5 });
+      manager.addContrast({ amt: 20 });
+      manager.saveSnapshot('color');
+    });
+
+    it('should save, list and restore snapshots', () => {
+      manager.addSaturation({ amt: -100 });
+      manager.saveSnapshot('bw');
+
+      expect(manager.getSnapshots().map((snapshot) => snapshot.name)).toEqual(['color', 'bw']);
+      expect(manager.restoreSnapshot('color')).toBe(true);
+      expect(manager.getStackSummary()).toBe('EV +0.50 • Contrast +20');
+      expect(manager.restoreSnapshot('missing')).toBe(false);
+
+      // Restoring is undoable
+      manager.undo();
+      expect(manager.getStackSummary()).toBe('EV +0.50 • Contrast +20 • Sat -100');
+    });
+
+    it('should not change a snapshot when the stack changes', () => {
+      manager.addExposure({ ev: 1 });
+      expect(manager.getStackSummary(manager.getSnapshots()[0].ops)).toBe('EV +0.50 • Contrast +20');
+    });
+
+    it('should diff changed, removed, added and reordered ops', () => {
+      manager.addExposure({ ev: 1 }); // amend-last gives the op a new id
+      manager.disableOp('op_02');
+      manager.addVibrance({ amt: 15 });
+      manager.moveOp('op_02', 0);
+
+      expect(manager.diffSnapshots('color', CURRENT_SNAPSHOT)).toEqual([
+        '~ Contrast +20 → Contrast +20 (off)',
+        '~ EV +0.50 → EV +1.00',
+        '+ Vib +15',
+        '↕ exposure, contrast → contrast, exposure',
+      ]);
+      expect(manager.diffSnapshots(CURRENT_SNAPSHOT, 'color')).toContain('- Vib +15');
+    });
+
+    it('should report no differences between identical stacks', () => {
+      expect(manager.diffSnapshots('color', CURRENT_SNAPSHOT)).toEqual([]);
+      expect(() => manager.diffSnapshots('color', 'missing')).toThrow('No snapshot named missing');
+      expect(() => manager.saveSnapshot(CURRENT_SNAPSHOT)).toThrow('reserved');
+    });
+  });
+
+  describe('pasteOps', () => {
+    it('should amend ops of the same type and append the rest as one undoable edit', () => {
+      manager.addExposure({ ev: 0.5 });
+      manager.addContrast({ amt: 20 });
+
+      manager.pasteOps([
+        { id: 'op_07', op: 'exposure', ev: -0.3, createdAt: '2026-01-01T00:00:00Z' },
+        { id: 'op_08', op: 'vibrance', amt: 15 },
+      ]);
+
+      const ops = manager.getStack().ops;
+      expect(manager.getStackSummary()).toBe('EV -0.30 • Contrast +20 • Vib +15');
+      expect(ops.map((op) => op.id)).toEqual(['op_03', 'op_02', 'op_04']);
+      expect(ops[0].createdAt).not.toBe('2026-01-01T00:00:00Z');
+
+      manager.undo();
+      expect(manager.getStackSummary()).toBe('EV +0.50 • Contrast +20');
+    });
+  });
 });
@@ -82,13 +82,12 @@ describe('Phase 6 Integration Tests', () => {
       expect(summary).toContain('Vib +40');
 
       // Apply operations and verify they work
-      const metadata = await sharp(testImagePath).metadata();
       const pipeline = sharp(testImagePath);
       const stack = stackManager.getStack();
 
       const colorOps = stack.ops.filter((op) => op.op === 'saturation' || op.op === 'vibrance');
 
-      const result = await applyColorOperations(pipeline, colorOps as any, metadata);
+      const result = await applyColorOperations(pipeline, colorOps as any);
       const output = await result.raw().toBuffer();
 
       expect(output).toBeDefined();
@@ -154,7 +153,7 @@ describe('Phase 6 Integration Tests', () => {
     it('should improve histogram after auto adjustments', async () => {
       // Get histogram before adjustments
       const beforeStack = {
-        version: 1 as const,
+        version: 2 as const,
         baseUri: 'file://' + testImagePath,
         ops: [],
       };
@@ -165,7 +164,7 @@ describe('Phase 6 Integration Tests', () => {
 
       // Get histogram after adjustments
       const afterStack = {
-        version: 1 as const,
+        version: 2 as const,
         baseUri: 'file://' + testImagePath,
         ops: [adjustments.whiteBalance, adjustments.exposure, adjustments.contrast],
       };
@@ -234,7 +233,7 @@ describe('Phase 6 Integration Tests', () => {
 
       // Get initial histogram
       const beforeStack = {
-        version: 1 as const,
+        version: 2 as const,
         baseUri: 'file://' + clippedPath,
         ops: [],
       };
@@ -246,7 +245,7 @@ describe('Phase 6 Integration Tests', () => {
 
       // Get histogram after auto contrast
       const afterStack = {
-        version: 1 as const,
+        version: 2 as const,
         baseUri: 'file://' + clippedPath,
         ops: [contrastOp],
       };
@@ -276,10 +275,9 @@ describe('Phase 6 Integration Tests', () => {
 
       // Despite the order they were added, they should be applied in the correct order:
       // WB → EV → Contrast → Saturation → Vibrance
-      const metadata = await sharp(testImagePath).metadata();
       const pipeline = sharp(testImagePath);
 
-      const result = await applyColorOperations(pipeline, stack.ops as any, metadata);
+      const result = await applyColorOperations(pipeline, stack.ops as any);
       const output = await result.png().toBuffer();
 
       expect(output).toBeDefined();
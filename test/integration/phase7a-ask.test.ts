@@ -4,6 +4,7 @@ import { JsonRpcPeer } from '../../src/common/jsonrpc';
 import { NdjsonLogger } from '../../src/common/logger';
 import path from 'path';
 import fs from 'fs/promises';
+import os from 'os';
 import { fileURLToPath, pathToFileURL } from 'url';
 
 describe('Phase 7a - :ask Command Integration Tests', () => {
@@ -264,3 +265,59 @@ describe('Phase 7a - :ask Command Integration Tests', () => {
     expect(textUpdate.content.text).toContain('No image loaded');
   });
 });
+
+describe('Phase 7a - :ask across agent runs', () => {
+  const testImageUri = pathToFileURL(path.join(process.cwd(), 'test', 'assets', 'test.jpg')).href;
+  const historyDirs: string[] = [];
+
+  afterAll(async () => {
+    for (const dir of historyDirs) {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  // Start an agent with its own history dir, open the test image and run one :ask; returns the
+  // summary text and the history dir
+  async function askInFreshAgent(text: string): Promise<{ summary: string; historyDir: string }> {
+    const historyDir = await fs.mkdtemp(path.join(os.tmpdir(), 'photo-agent-history-'));
+    historyDirs.push(historyDir);
+    const agentProc = spawn('node', ['dist/cmd/photo-agent.js'], {
+      stdio: ['pipe', 'pipe', 'inherit'],
+      env: { ...process.env, PHOTO_AGENT_HISTORY_DIR: historyDir },
+    });
+
+    try {
+      const peer = new JsonRpcPeer(agentProc.stdout, agentProc.stdin, new NdjsonLogger('test'));
+      await peer.request('initialize', { protocolVersion: 1, clientCapabilities: {} });
+      const { sessionId } = await peer.request('session/new', {
+        cwd: process.cwd(),
+        planner: 'mock',
+        mcpServers: [
+          { name: 'image', command: 'node', args: [path.join(process.cwd(), 'dist/cmd/mcp-image-server.js')], env: {} },
+        ],
+      });
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      await peer.request('session/prompt', { sessionId, prompt: [{ type: 'resource_link', uri: testImageUri }] });
+
+      const updates: any[] = [];
+      peer.on('session/update', (params) => updates.push(params));
+      await peer.request('session/prompt', { sessionId, prompt: [{ type: 'text', text }] });
+      const textUpdate = updates.find((u) => u.sessionUpdate === 'agent_message_chunk' && u.content?.type === 'text');
+      return { summary: textUpdate?.content.text ?? '', historyDir };
+    } finally {
+      agentProc.kill();
+    }
+  }
+
+  it('should give the same result when the same :ask runs again in a new agent', async () => {
+    const first = await askInFreshAgent(':ask warmer');
+    const second = await askInFreshAgent(':ask warmer');
+
+    expect(first.summary).toContain('WB(temp +20');
+    expect(second.summary).toContain('WB(temp +20');
+    expect(second.summary).not.toContain('Recovered');
+
+    // The history journal went to the configured directory
+    expect((await fs.readdir(second.historyDir)).filter((f) => f.endsWith('.jsonl'))).toHaveLength(1);
+  });
+});
@@ -65,11 +65,10 @@ describe('Saturation and Vibrance Export Tests', () => {
       const stackManager = new EditStackManager('file://' + testImagePath);
       stackManager.addSaturation({ amt: 50 });
 
-      const metadata = await sharp(testImagePath).metadata();
       const pipeline = sharp(testImagePath);
       const stack = stackManager.getStack();
 
-      const result = await applyColorOperations(pipeline, stack.ops as any, metadata);
+      const result = await applyColorOperations(pipeline, stack.ops as any);
       const exportBuffer = await result.png().toBuffer();
 
       // The exported image should be different from baseline
@@ -91,11 +90,10 @@ describe('Saturation and Vibrance Export Tests', () => {
       const stackManager = new EditStackManager('file://' + testImagePath);
       stackManager.addSaturation({ amt: -100 });
 
-      const metadata = await sharp(testImagePath).metadata();
       const pipeline = sharp(testImagePath);
       const stack = stackManager.getStack();
 
-      const result = await applyColorOperations(pipeline, stack.ops as any, metadata);
+      const result = await applyColorOperations(pipeline, stack.ops as any);
       const exportBuffer = await result.png().toBuffer();
 
       // Sample some pixels to verify they're grayscale
@@ -120,11 +118,10 @@ describe('Saturation and Vibrance Export Tests', () => {
       const stackManager = new EditStackManager('file://' + testImagePath);
       stackManager.addVibrance({ amt: 60 });
 
-      const metadata = await sharp(testImagePath).metadata();
       const pipeline = sharp(testImagePath);
       const stack = stackManager.getStack();
 
-      const result = await applyColorOperations(pipeline, stack.ops as any, metadata);
+      const result = await applyColorOperations(pipeline, stack.ops as any);
       const exportBuffer = await result.png().toBuffer();
 
       // The exported image should be different from baseline
@@ -148,16 +145,14 @@ describe('Saturation and Vibrance Export Tests', () => {
       const vibManager = new EditStackManager('file://' + testImagePath);
       vibManager.addVibrance({ amt: 50 });
 
-      const metadata = await sharp(testImagePath).metadata();
-
       // Apply saturation
       const satPipeline = sharp(testImagePath);
-      const satResult = await applyColorOperations(satPipeline, satManager.getStack().ops as any, metadata);
+      const satResult = await applyColorOperations(satPipeline, satManager.getStack().ops as any);
       const satBuffer = await satResult.png().toBuffer();
 
       // Apply vibrance
       const vibPipeline = sharp(testImagePath);
-      const vibResult = await applyColorOperations(vibPipeline, vibManager.getStack().ops as any, metadata);
+      const vibResult = await applyColorOperations(vibPipeline, vibManager.getStack().ops as any);
       const vibBuffer = await vibResult.png().toBuffer();
 
       // Both should be different from baseline
@@ -186,11 +181,10 @@ describe('Saturation and Vibrance Export Tests', () => {
       stackManager.addSaturation({ amt: 30 });
       stackManager.addVibrance({ amt: 40 });
 
-      const metadata = await sharp(testImagePath).metadata();
       const pipeline = sharp(testImagePath);
       const stack = stackManager.getStack();
 
-      const result = await applyColorOperations(pipeline, stack.ops as any, metadata);
+      const result = await applyColorOperations(pipeline, stack.ops as any);
       const exportBuffer = await result.png().toBuffer();
 
       // Should be different from baseline
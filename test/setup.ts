@@ -0,0 +1,13 @@
+// Keep each test file's edit history journals in a temp dir of its own, so one run's edits are
+// not recovered by the next run or by another file. Agents spawned by the tests inherit the env.
+import { afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const historyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'photo-agent-history-'));
+process.env.PHOTO_AGENT_HISTORY_DIR = historyDir;
+
+afterAll(() => {
+  fs.rmSync(historyDir, { recursive: true, force: true });
+});
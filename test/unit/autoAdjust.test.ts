@@ -2,7 +2,7 @@ import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import sharp from 'sharp';
 import path from 'path';
 import fs from 'fs/promises';
-import { autoWhiteBalance, autoExposure, autoContrast } from '../../src/autoAdjust';
+import { autoWhiteBalance, autoExposure, autoContrast, grayPointToTempTint } from '../../src/autoAdjust';
 
 describe('Auto adjustments', () => {
   let testImagePath: string;
@@ -64,6 +64,14 @@ describe('Auto adjustments', () => {
       }
     });
 
+    it('should estimate a cool scene illuminant for a blue cast', async () => {
+      const wbOp = await autoWhiteBalance(testImagePath, 'kelvin');
+
+      expect(wbOp.method).toBe('kelvin');
+      expect(wbOp.kelvin).toBe(wbOp.sceneKelvin);
+      expect(wbOp.sceneKelvin).toBeGreaterThan(6500);
+    });
+
     it('should return clamped values', async () => {
       const wbOp = await autoWhiteBalance(testImagePath);
 
@@ -79,6 +87,19 @@ describe('Auto adjustments', () => {
     });
   });
 
+  describe('grayPointToTempTint', () => {
+    it('should warm up a blue gray point and leave a neutral one alone', async () => {
+      const bluePoint = { id: 'op_01', op: 'white_balance' as const, method: 'gray_point' as const, x: 0.15, y: 0.5 };
+      const blue = await grayPointToTempTint(testImagePath, bluePoint);
+      const neutral = await grayPointToTempTint(testImagePath, { ...bluePoint, x: 0.5 });
+
+      expect(blue).toMatchObject({ id: 'op_01', method: 'temp_tint' });
+      expect(blue).not.toHaveProperty('x');
+      expect(blue.temp).toBeGreaterThan(10);
+      expect(Math.abs(neutral.temp!)).toBeLessThan(5);
+    });
+  });
+
   describe('autoExposure', () => {
     it('should target correct median brightness', async () => {
       const evOp = await autoExposure(testImagePath);
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import sharp from 'sharp';
+import { computeAutoMask, maskCoverage } from '../../src/autoMask';
+import { rasterizeMask } from '../../src/masks';
+import { toFloatImage } from '../../src/imageProcessing';
+import { srgbToLinear } from '../../src/colorTemperature';
+import { MaskOp } from '../../src/editStack';
+
+// Synthetic fixtures from test/assets/generate-auto-mask-fixtures.js (320x240): a gradient sky down
+// to a horizon at 60% with a building rising into it, and a checkered disc of radius 60 in the middle
+// of a smooth background
+async function fixture(name: string) {
+  const image = await toFloatImage(sharp(path.join(__dirname, '../assets', name)));
+  return { source: { data: image.data, channels: image.channels }, width: image.width, height: image.height };
+}
+
+// Mask value at normalized coordinates
+function at(mask: Float32Array, width: number, height: number, x: number, y: number): number {
+  return mask[Math.floor(y * height) * width + Math.floor(x * width)];
+}
+
+describe('computeAutoMask', () => {
+  it('should grow the sky down the gradient to the horizon, around the building', async () => {
+    const { source, width, height } = await fixture('gradient-sky.png');
+    const sky = computeAutoMask(source, width, height, 'sky');
+
+    expect(at(sky, width, height, 0.1, 0.05)).toBeCloseTo(1, 2);
+    expect(at(sky, width, height, 0.3, 0.5)).toBeCloseTo(1, 2); // Pale blue just above the horizon
+    expect(at(sky, width, height, 0.75, 0.45)).toBeCloseTo(0, 2); // Building
+    expect(at(sky, width, height, 0.5, 0.8)).toBeCloseTo(0, 2); // Ground
+    expect(maskCoverage(sky)).toBeCloseTo(0.54, 1);
+  });
+
+  it('should find no sky when the top of the image is textured', async () => {
+    const noise = Buffer.alloc(64 * 48 * 3);
+    for (let i = 0; i < noise.length; i++) noise[i] = (i * 7919) % 251;
+    const source = { data: Float32Array.from(noise, (v) => srgbToLinear(v / 255)), channels: 3 };
+
+    expect(maskCoverage(computeAutoMask(source, 64, 48, 'sky'))).toBe(0);
+  });
+
+  it('should select the subject in the middle and the background around it', async () => {
+    const { source, width, height } = await fixture('subject.png');
+    const subject = computeAutoMask(source, width, height, 'subject');
+    const background = computeAutoMask(source, width, height, 'background');
+
+    expect(at(subject, width, height, 0.5, 0.5)).toBeCloseTo(1, 2);
+    expect(at(subject, width, height, 0.55, 0.4)).toBeCloseTo(1, 2);
+    expect(at(subject, width, height, 0.05, 0.05)).toBeCloseTo(0, 2);
+    expect(at(subject, width, height, 0.95, 0.9)).toBeCloseTo(0, 2);
+    expect(maskCoverage(subject)).toBeCloseTo((Math.PI * 60 ** 2) / (width * height), 1);
+
+    for (let i = 0; i < subject.length; i += 97) {
+      expect(background[i]).toBeCloseTo(1 - subject[i], 5);
+    }
+  });
+
+  it('should match the mask rasterized from an auto shape at the same size', async () => {
+    const { source, width, height } = await fixture('gradient-sky.png');
+    const op: MaskOp = { id: 'op_01', op: 'mask', shapes: [{ type: 'auto', mode: 'add', kind: 'sky' }] };
+
+    expect(rasterizeMask(op, width, height, source)).toEqual(computeAutoMask(source, width, height, 'sky'));
+    expect(maskCoverage(rasterizeMask(op, width, height))).toBe(0); // Nothing to select from
+  });
+});
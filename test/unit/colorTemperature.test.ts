@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import {
+  whiteBalanceMatrix,
+  estimateKelvinFromLinearRgb,
+  tempToKelvin,
+  kelvinToTemp,
+  labToKelvin,
+  NEUTRAL_KELVIN,
+} from '../../src/colorTemperature';
+import { applyWhiteBalanceKelvin } from '../../src/imageProcessing';
+import { WhiteBalanceOp } from '../../src/editStack';
+
+function applyMatrix(m: number[][], rgb: number[]): number[] {
+  return m.map((row) => row[0] * rgb[0] + row[1] * rgb[1] + row[2] * rgb[2]);
+}
+
+describe('Color temperature', () => {
+  describe('whiteBalanceMatrix', () => {
+    it('should be identity at the neutral Kelvin with no tint', () => {
+      const m = whiteBalanceMatrix(NEUTRAL_KELVIN, 0);
+      for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+          expect(m[i][j]).toBeCloseTo(i === j ? 1 : 0, 6);
+        }
+      }
+    });
+
+    it('should cool the image for a tungsten scene', () => {
+      const [r, , b] = applyMatrix(whiteBalanceMatrix(3200, 0), [0.5, 0.5, 0.5]);
+      expect(b).toBeGreaterThan(r);
+    });
+
+    it('should warm the image for a shade scene', () => {
+      const [r, , b] = applyMatrix(whiteBalanceMatrix(10000, 0), [0.5, 0.5, 0.5]);
+      expect(r).toBeGreaterThan(b);
+    });
+
+    it('should add magenta for positive tint', () => {
+      const [r, g, b] = applyMatrix(whiteBalanceMatrix(NEUTRAL_KELVIN, 50), [0.5, 0.5, 0.5]);
+      expect(g).toBeLessThan(r);
+      expect(g).toBeLessThan(b);
+    });
+  });
+
+  describe('estimateKelvinFromLinearRgb', () => {
+    it('should estimate ~6500K with no tint for neutral gray', () => {
+      const { kelvin, tint } = estimateKelvinFromLinearRgb(0.2, 0.2, 0.2);
+      expect(Math.abs(kelvin - NEUTRAL_KELVIN)).toBeLessThan(50);
+      expect(tint).toBe(0);
+    });
+
+    it('should estimate lower Kelvin for warm and higher for cool casts', () => {
+      expect(estimateKelvinFromLinearRgb(0.3, 0.2, 0.12).kelvin).toBeLessThan(5000);
+      expect(estimateKelvinFromLinearRgb(0.15, 0.2, 0.3).kelvin).toBeGreaterThan(8000);
+    });
+
+    it('should report positive tint for a green cast', () => {
+      expect(estimateKelvinFromLinearRgb(0.18, 0.24, 0.18).tint).toBeGreaterThan(0);
+    });
+  });
+
+  describe('slider conversions', () => {
+    it('should round-trip temp and Kelvin', () => {
+      expect(tempToKelvin(0)).toBeCloseTo(NEUTRAL_KELVIN, 6);
+      expect(kelvinToTemp(tempToKelvin(40))).toBeCloseTo(40, 6);
+      expect(tempToKelvin(50)).toBeGreaterThan(NEUTRAL_KELVIN);
+    });
+
+    it('should estimate Kelvin from Lab means', () => {
+      expect(Math.abs(labToKelvin(50, 0, 0) - NEUTRAL_KELVIN)).toBeLessThan(50);
+      expect(labToKelvin(50, 0, -10)).toBeGreaterThan(NEUTRAL_KELVIN);
+      expect(labToKelvin(50, 5, 20)).toBeLessThan(NEUTRAL_KELVIN);
+    });
+  });
+
+  describe('applyWhiteBalanceKelvin', () => {
+    it('should cool a gray image for a 3200K scene', async () => {
+      const input = sharp(Buffer.from([128, 128, 128]), { raw: { width: 1, height: 1, channels: 3 } });
+      const op: WhiteBalanceOp = { id: 'op_01', op: 'white_balance', method: 'kelvin', kelvin: 3200, tint: 0 };
+      const { data } = await (await applyWhiteBalanceKelvin(input, op)).raw().toBuffer({ resolveWithObject: true });
+      expect(data[2]).toBeGreaterThan(data[0]);
+    });
+
+    it('should leave pixels unchanged at the neutral Kelvin', async () => {
+      const input = sharp(Buffer.from([200, 120, 60]), { raw: { width: 1, height: 1, channels: 3 } });
+      const op: WhiteBalanceOp = { id: 'op_01', op: 'white_balance', method: 'kelvin', kelvin: 6500, tint: 0 };
+      const { data } = await (await applyWhiteBalanceKelvin(input, op)).raw().toBuffer({ resolveWithObject: true });
+      expect(Array.from(data)).toEqual([200, 120, 60]);
+    });
+  });
+});
@@ -2,67 +2,16 @@
 
 import { describe, it, expect } from 'vitest';
 
-// Mock the mapping function for testing
-// In production, this would be imported from photo-agent.ts
-function mapPreviewToOriginal(
-  x: number,
-  y: number,
-  stack: any,
-  originalWidth: number,
-  originalHeight: number
-): { x: number; y: number; clamped: boolean } {
-  let mappedX = x;
-  let mappedY = y;
-  let wasClamped = false;
-
-  // Process operations in reverse order (undo transformations)
-  const geometryOps = stack.ops.filter((op: any) => op.op === 'crop').reverse();
-
-  for (const op of geometryOps) {
-    if (op.op === 'crop') {
-      const cropOp = op as any;
-
-      // Handle rotation inverse
-      if (cropOp.angleDeg) {
-        // Rotate point back by negative angle
-        const angle = (-cropOp.angleDeg * Math.PI) / 180;
-        const centerX = 0.5;
-        const centerY = 0.5;
-
-        // Translate to origin
-        const translatedX = mappedX - centerX;
-        const translatedY = mappedY - centerY;
-
-        // Apply inverse rotation
-        const cos = Math.cos(angle);
-        const sin = Math.sin(angle);
-        const rotatedX = translatedX * cos - translatedY * sin;
-        const rotatedY = translatedX * sin + translatedY * cos;
-
-        // Translate back
-        mappedX = rotatedX + centerX;
-        mappedY = rotatedY + centerY;
-      }
-
-      // Handle crop inverse
-      if (cropOp.rectNorm) {
-        const [cropX, cropY, cropW, cropH] = cropOp.rectNorm;
-
-        // Map from cropped space back to original space
-        mappedX = cropX + mappedX * cropW;
-        mappedY = cropY + mappedY * cropH;
-      }
-    }
-  }
-
-  // Clamp to valid range [0,1]
-  if (mappedX < 0 || mappedX > 1 || mappedY < 0 || mappedY > 1) {
-    wasClamped = true;
-    mappedX = Math.max(0, Math.min(1, mappedX));
-    mappedY = Math.max(0, Math.min(1, mappedY));
-  }
-
-  return { x: mappedX, y: mappedY, clamped: wasClamped };
+import {
+  mapPreviewEllipseToOriginal,
+  mapPreviewRectToOriginal,
+  mapPreviewToOriginal as mapPoint,
+  rectOverlap,
+} from '../../src/roi';
+
+// Stacks in these tests only have the geometry fields of their crop ops
+function mapPreviewToOriginal(x: number, y: number, stack: any, originalWidth: number, originalHeight: number) {
+  return mapPoint(x, y, stack, originalWidth, originalHeight);
 }
 
 describe('Coordinate Mapping', () => {
@@ -399,4 +348,83 @@ describe('Coordinate Mapping', () => {
       expect(result.y).toBeCloseTo(0.3, 1);
     });
   });
+
+  describe('ROI rectangles', () => {
+    it('should map a ROI through a crop', () => {
+      const stack: any = { ops: [{ op: 'crop', rectNorm: [0.2, 0.1, 0.5, 0.8] }] };
+      const { rect, clamped } = mapPreviewRectToOriginal([0.5, 0.5, 0.5, 0.25], stack);
+
+      expect(rect[0]).toBeCloseTo(0.45);
+      expect(rect[1]).toBeCloseTo(0.5);
+      expect(rect[2]).toBeCloseTo(0.25);
+      expect(rect[3]).toBeCloseTo(0.2);
+      expect(clamped).toBe(false);
+    });
+
+    it('should take the bounding box of a rotated ROI', () => {
+      const stack: any = { ops: [{ op: 'crop', angleDeg: 90 }] };
+      const { rect } = mapPreviewRectToOriginal([0.6, 0.4, 0.3, 0.2], stack);
+
+      // A 90° turn about the center swaps width and height
+      expect(rect[2]).toBeCloseTo(0.2);
+      expect(rect[3]).toBeCloseTo(0.3);
+    });
+
+    it('should clamp a ROI that leaves the image under rotation and crop', () => {
+      const stack: any = {
+        ops: [
+          { op: 'crop', rectNorm: [0.5, 0.5, 0.5, 0.5] },
+          { op: 'crop', angleDeg: 30 },
+        ],
+      };
+      const { rect, clamped } = mapPreviewRectToOriginal([0, 0, 1, 1], stack);
+
+      expect(clamped).toBe(true);
+      expect(rect[0] + rect[2]).toBeLessThanOrEqual(1);
+      expect(rect[1] + rect[3]).toBeLessThanOrEqual(1);
+    });
+
+    it('should skip disabled crops', () => {
+      const stack: any = { ops: [{ op: 'crop', rectNorm: [0.5, 0.5, 0.5, 0.5], enabled: false }] };
+      const { rect } = mapPreviewRectToOriginal([0.1, 0.1, 0.2, 0.2], stack);
+      rect.forEach((v, i) => expect(v).toBeCloseTo([0.1, 0.1, 0.2, 0.2][i]));
+    });
+
+    it('should measure the overlap of two ROIs', () => {
+      expect(rectOverlap([0, 0, 0.5, 0.5], [0.5, 0.5, 0.5, 0.5])).toBe(0);
+      expect(rectOverlap([0, 0, 1, 1], [0.25, 0.25, 0.5, 0.5])).toBe(1);
+      expect(rectOverlap([0, 0, 0.5, 0.5], [0.25, 0, 0.5, 0.5])).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('Gradient ellipses', () => {
+    it('should scale radii with the crop', () => {
+      const stack: any = { ops: [{ op: 'crop', rectNorm: [0.2, 0.1, 0.5, 0.8] }] };
+      const mapped = mapPreviewEllipseToOriginal([0.5, 0.5], 0.2, 0.25, stack);
+
+      expect(mapped.center[0]).toBeCloseTo(0.45);
+      expect(mapped.center[1]).toBeCloseTo(0.5);
+      expect(mapped.radiusX).toBeCloseTo(0.1);
+      expect(mapped.radiusY).toBeCloseTo(0.2);
+      expect(mapped.clamped).toBe(false);
+    });
+
+    it('should keep radii through a rotation', () => {
+      const stack: any = { ops: [{ op: 'crop', angleDeg: 30 }] };
+      const mapped = mapPreviewEllipseToOriginal([0.5, 0.5], 0.2, 0.3, stack);
+
+      expect(mapped.radiusX).toBeCloseTo(0.2);
+      expect(mapped.radiusY).toBeCloseTo(0.3);
+    });
+
+    it('should swap radii under a quarter turn', () => {
+      for (const angleDeg of [90, 270, -90]) {
+        const stack: any = { ops: [{ op: 'crop', angleDeg }] };
+        const mapped = mapPreviewEllipseToOriginal([0.5, 0.5], 0.3, 0.1, stack);
+
+        expect(mapped.radiusX).toBeCloseTo(0.1);
+        expect(mapped.radiusY).toBeCloseTo(0.3);
+      }
+    });
+  });
 });
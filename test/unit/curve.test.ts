@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { buildCurveLut, applyCurve } from '../../src/imageProcessing';
+import { CurveOp, CURVE_PRESETS } from '../../src/editStack';
+import { solidImage } from './solidImage';
+
+describe('Tone curve', () => {
+  describe('buildCurveLut', () => {
+    it('should produce identity for a linear curve', () => {
+      const lut = buildCurveLut([
+        [0, 0],
+        [1, 1],
+      ]);
+      for (let i = 0; i < 256; i++) {
+        expect(lut[i]).toBe(i);
+      }
+    });
+
+    it('should be monotone without overshoot', () => {
+      const lut = buildCurveLut(CURVE_PRESETS.strong_s_curve.master!);
+      for (let i = 1; i < 256; i++) {
+        expect(lut[i]).toBeGreaterThanOrEqual(lut[i - 1]);
+      }
+      expect(lut[0]).toBe(0);
+      expect(lut[255]).toBe(255);
+    });
+
+    it('should pass through control points', () => {
+      const lut = buildCurveLut([
+        [0, 0],
+        [0.5, 0.75],
+        [1, 1],
+      ]);
+      expect(Math.abs(lut[128] - 192)).toBeLessThanOrEqual(2);
+    });
+
+    it('should support 16-bit LUT size', () => {
+      const lut = buildCurveLut(
+        [
+          [0, 0],
+          [1, 1],
+        ],
+        65536
+      );
+      expect(lut.length).toBe(65536);
+      expect(lut[65535]).toBe(65535);
+      expect(lut[32768]).toBe(32768);
+    });
+  });
+
+  describe('applyCurve', () => {
+    it('should darken shadows and brighten highlights with an S-curve', async () => {
+      const op: CurveOp = { id: 'test_curve', op: 'curve', master: CURVE_PRESETS.s_curve.master };
+
+      const dark = await (await applyCurve(solidImage(50, 50, 50), op)).raw().toBuffer();
+      const light = await (await applyCurve(solidImage(200, 200, 200), op)).raw().toBuffer();
+
+      expect(dark[0]).toBeLessThan(50);
+      expect(light[0]).toBeGreaterThan(200);
+    });
+
+    it('should apply per-channel curves independently', async () => {
+      const op: CurveOp = {
+        id: 'test_curve',
+        op: 'curve',
+        b: [
+          [0, 0],
+          [0.5, 0.25],
+          [1, 1],
+        ],
+      };
+
+      const output = await (await applyCurve(solidImage(128, 128, 128), op)).raw().toBuffer();
+
+      expect(Math.abs(output[0] - 128)).toBeLessThan(2);
+      expect(Math.abs(output[1] - 128)).toBeLessThan(2);
+      expect(output[2]).toBeLessThan(80);
+    });
+
+    it('should leave the image untouched when no channels are set', async () => {
+      const op: CurveOp = { id: 'test_curve', op: 'curve' };
+      const output = await (await applyCurve(solidImage(10, 120, 240), op)).raw().toBuffer();
+      expect(Array.from(output.slice(0, 3))).toEqual([10, 120, 240]);
+    });
+  });
+});
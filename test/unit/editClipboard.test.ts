@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { CropOp, EditOp } from '../../src/editStack';
+import { matchesGlob, remapCrop, selectOps } from '../../src/editClipboard';
+
+describe('Edit clipboard', () => {
+  const ops: EditOp[] = [
+    { id: 'op_01', op: 'crop', rectNorm: [0.1, 0.1, 0.5, 0.5] },
+    { id: 'op_02', op: 'white_balance', method: 'temp_tint', temp: 20, tint: 0 },
+    { id: 'op_03', op: 'exposure', ev: 0.5 },
+    { id: 'op_04', op: 'contrast', amt: 10, enabled: false },
+    { id: 'op_05', op: 'vibrance', amt: 15 },
+  ];
+
+  it('should select enabled ops by type or group', () => {
+    expect(selectOps(ops).map((op) => op.id)).toEqual(['op_01', 'op_02', 'op_03', 'op_05']);
+    expect(selectOps(ops, ['wb', 'exposure']).map((op) => op.id)).toEqual(['op_02', 'op_03']);
+    expect(selectOps(ops, ['tone']).map((op) => op.id)).toEqual(['op_03']);
+    expect(selectOps(ops, ['color']).map((op) => op.id)).toEqual(['op_02', 'op_05']);
+    expect(() => selectOps(ops, ['sharpen'])).toThrow('Unknown op type or group: sharpen');
+  });
+
+  it('should copy the masks that selected local ops use', () => {
+    const masked: EditOp[] = [
+      ...ops,
+      { id: 'op_06', op: 'mask', shapes: [{ type: 'auto', mode: 'add', kind: 'sky' }] },
+      { id: 'op_07', op: 'mask', shapes: [{ type: 'auto', mode: 'add', kind: 'subject' }] },
+      { id: 'op_08', op: 'local_adjust', roi: [0, 0, 1, 1], feather: 0, ev: -0.5, mask: 'op_06' },
+    ];
+
+    expect(selectOps(masked, ['local_adjust']).map((op) => op.id)).toEqual(['op_06', 'op_08']);
+    expect(selectOps(masked, ['exposure']).map((op) => op.id)).toEqual(['op_03']);
+  });
+
+  it('should keep a crop unchanged on an image of the same shape', () => {
+    const crop: CropOp = { id: 'op_01', op: 'crop', rectNorm: [0.1, 0.2, 0.5, 0.4], angleDeg: 2 };
+    const remapped = remapCrop(crop, { width: 3000, height: 2000 }, { width: 1500, height: 1000 });
+
+    expect(remapped.angleDeg).toBe(2);
+    remapped.rectNorm!.forEach((v, i) => expect(v).toBeCloseTo(crop.rectNorm![i]));
+  });
+
+  it('should keep the crop aspect and relative size on another aspect', () => {
+    // Full-height square crop of a 3:2 landscape, pasted onto a 2:3 portrait
+    const crop: CropOp = { id: 'op_01', op: 'crop', rectNorm: [1 / 6, 0, 2 / 3, 1], aspect: '1:1' };
+    const [x, y, w, h] = remapCrop(crop, { width: 3000, height: 2000 }, { width: 2000, height: 3000 }).rectNorm!;
+
+    expect((w * 2000) / (h * 3000)).toBeCloseTo(1);
+    expect(w).toBeCloseTo(1);
+    expect(x).toBeCloseTo(0);
+    expect(y).toBeCloseTo(1 / 6);
+  });
+
+  it('should keep remapped crops inside the image', () => {
+    const crop: CropOp = { id: 'op_01', op: 'crop', rectNorm: [0.7, 0.6, 0.3, 0.4] };
+    const [x, y, w, h] = remapCrop(crop, { width: 1000, height: 1000 }, { width: 1000, height: 2000 }).rectNorm!;
+
+    expect(x + w).toBeLessThanOrEqual(1 + 1e-9);
+    expect(y + h).toBeLessThanOrEqual(1 + 1e-9);
+    expect((w * 1000) / (h * 2000)).toBeCloseTo(0.75);
+  });
+
+  it('should match file names against globs', () => {
+    expect(matchesGlob('IMG_2041.JPG', 'img_20*.jpg')).toBe(true);
+    expect(matchesGlob('IMG_2041.jpg', 'IMG_204?.jpg')).toBe(true);
+    expect(matchesGlob('IMG_2041.jpg', '*.png')).toBe(false);
+    expect(matchesGlob('a+b.jpg', 'a+b.jpg')).toBe(true);
+  });
+});
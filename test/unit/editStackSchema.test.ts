@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { EditStackManager } from '../../src/editStack';
+import {
+  EDIT_STACK_JSON_SCHEMA,
+  EDIT_STACK_VERSION,
+  EditOpSchema,
+  EditStackSchema,
+  migrateStack,
+} from '../../src/editStackSchema';
+
+describe('Edit stack schema', () => {
+  const baseUri = 'file:///photos/portrait.jpg';
+
+  it('should upgrade v1 stacks to the current version', () => {
+    const v1 = {
+      version: 1,
+      baseUri,
+      ops: [
+        { id: 'op_01', op: 'exposure', ev: 0.5 },
+        { id: 'op_02', op: 'crop', rectNorm: [0.1, 0.1, 0.8, 0.8] },
+      ],
+    };
+
+    const stack = migrateStack(v1);
+    expect(stack.version).toBe(EDIT_STACK_VERSION);
+    expect(stack.ops).toEqual(v1.ops);
+    expect(EditStackSchema.safeParse(stack).success).toBe(true);
+  });
+
+  it('should keep the v2 op fields', () => {
+    const op = {
+      id: 'op_01',
+      op: 'contrast',
+      amt: 20,
+      enabled: false,
+      label: 'Punch',
+      createdAt: '2026-01-01T00:00:00Z',
+    };
+    expect(migrateStack({ version: 2, baseUri, ops: [op] }).ops[0]).toEqual(op);
+  });
+
+  it('should report the first invalid field', () => {
+    expect(() => migrateStack({ version: 2, baseUri, ops: [{ id: 'op_01', op: 'exposure', ev: 9 }] })).toThrow(
+      'ops.0.ev'
+    );
+    expect(() => migrateStack({ version: 3, baseUri, ops: [] })).toThrow('Unsupported edit stack version');
+    expect(() => migrateStack({ version: 2, baseUri, ops: [{ id: 'op_01', op: 'blur' }] })).toThrow('ops.0.op');
+  });
+
+  it('should validate every op the manager creates', () => {
+    const manager = new EditStackManager(baseUri);
+    manager.addCrop({ aspect: '1:1', rectNorm: [0, 0.1, 1, 0.8] });
+    manager.addWhiteBalance({ method: 'kelvin', kelvin: 5000 });
+    manager.addExposure({ ev: 0.3 });
+    manager.addContrast({ amt: 10 });
+    manager.addSaturation({ amt: 5 });
+    manager.addVibrance({ amt: 15 });
+    manager.addCurve({ preset: 's_curve' });
+    manager.addLevels({ inBlack: 10, r: { gamma: 1.1 } });
+    manager.addToneRegions({ highlights: -30 });
+    manager.addHsl({ bands: { blue: { sat: -20 } } });
+    manager.addLut({ path: 'luts/film.cube', opacity: 60 });
+
+    const stack = manager.getStack();
+    expect(EditStackSchema.parse(stack)).toEqual(stack);
+    expect(stack.ops.every((op) => typeof op.createdAt === 'string')).toBe(true);
+  });
+
+  it('should list every op in the generated JSON schema', () => {
+    const ops = (EDIT_STACK_JSON_SCHEMA as any).properties.ops.items.anyOf;
+    const names = ops.map((op: any) => op.properties.op.const);
+
+    expect(names).toEqual(EditOpSchema.options.map((option) => option.shape.op.value));
+    expect(EDIT_STACK_JSON_SCHEMA.required).toEqual(['version', 'baseUri', 'ops']);
+  });
+});
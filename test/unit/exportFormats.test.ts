@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EXPORT_FORMATS,
+  isExportFormat,
+  defaultExtension,
+  formatFromPath,
+  extensionMatchesFormat,
+  clampEffort,
+} from '../../src/exportFormats';
+
+describe('Export formats', () => {
+  it('should give every format a default extension', () => {
+    expect(EXPORT_FORMATS.map(defaultExtension)).toEqual([
+      '.jpg',
+      '.png',
+      '.png',
+      '.tif',
+      '.webp',
+      '.avif',
+      '.heic',
+      '.jxl',
+    ]);
+  });
+
+  it('should recognize format names', () => {
+    expect(isExportFormat('avif')).toBe(true);
+    expect(isExportFormat('gif')).toBe(false);
+    expect(isExportFormat(undefined)).toBe(false);
+  });
+
+  it('should infer the format from a destination path', () => {
+    expect(formatFromPath('Export/hero.WEBP')).toBe('webp');
+    expect(formatFromPath('/tmp/print.tiff')).toBe('tiff');
+    expect(formatFromPath('final.jpeg')).toBe('jpeg');
+    expect(formatFromPath('final.png')).toBe('png');
+    expect(formatFromPath('notes.txt')).toBeUndefined();
+    expect(formatFromPath('.hidden')).toBeUndefined();
+  });
+
+  it('should match extensions against formats case-insensitively', () => {
+    expect(extensionMatchesFormat('a/b/photo.JPG', 'jpeg')).toBe(true);
+    expect(extensionMatchesFormat('photo.png', 'png16')).toBe(true);
+    expect(extensionMatchesFormat('photo.heif', 'heif')).toBe(true);
+    expect(extensionMatchesFormat('photo.jpg', 'avif')).toBe(false);
+    expect(extensionMatchesFormat('photo', 'jpeg')).toBe(false);
+  });
+
+  it('should clamp effort to each format range', () => {
+    expect(clampEffort('webp', 9)).toBe(6);
+    expect(clampEffort('jxl', 0)).toBe(1);
+    expect(clampEffort('avif')).toBe(4);
+    expect(clampEffort('jpeg', 5)).toBeUndefined();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EXPORT_RECIPES,
+  resizeTarget,
+  parseResizeSpec,
+  formatResizeSpec,
+  parseExportRecipe,
+} from '../../src/exportRecipes';
+
+describe('Export resizing', () => {
+  it('should scale the long or short edge and keep the aspect ratio', () => {
+    expect(resizeTarget(6000, 4000, { mode: 'long_edge', size: 2048 })).toEqual({
+      width: 2048,
+      height: 1365,
+      fit: 'fill',
+    });
+    expect(resizeTarget(4000, 6000, { mode: 'short_edge', size: 1080 })).toEqual({
+      width: 1080,
+      height: 1620,
+      fit: 'fill',
+    });
+  });
+
+  it('should scale to a megapixel budget or a percentage', () => {
+    const mp = resizeTarget(6000, 4000, { mode: 'megapixels', megapixels: 6 });
+    expect(mp.width * mp.height).toBeCloseTo(6e6, -4);
+    expect(resizeTarget(6000, 4000, { mode: 'percent', percent: 25 })).toMatchObject({ width: 1500, height: 1000 });
+  });
+
+  it('should never upscale', () => {
+    expect(resizeTarget(800, 600, { mode: 'long_edge', size: 2048 })).toMatchObject({ width: 800, height: 600 });
+    expect(resizeTarget(800, 600, { mode: 'percent', percent: 200 })).toMatchObject({ width: 800, height: 600 });
+  });
+
+  it('should pass exact sizes through with their fit mode', () => {
+    expect(resizeTarget(6000, 4000, { mode: 'exact', width: 1080, height: 1080, fit: 'cover' })).toEqual({
+      width: 1080,
+      height: 1080,
+      fit: 'cover',
+    });
+  });
+
+  it('should parse the --resize syntax', () => {
+    expect(parseResizeSpec('2048')).toEqual({ mode: 'long_edge', size: 2048 });
+    expect(parseResizeSpec('long:2048')).toEqual({ mode: 'long_edge', size: 2048 });
+    expect(parseResizeSpec('short:1080')).toEqual({ mode: 'short_edge', size: 1080 });
+    expect(parseResizeSpec('1080x1350')).toEqual({ mode: 'exact', width: 1080, height: 1350, fit: 'cover' });
+    expect(parseResizeSpec('1080x1080:contain')).toEqual({
+      mode: 'exact',
+      width: 1080,
+      height: 1080,
+      fit: 'contain',
+    });
+    expect(parseResizeSpec('12MP')).toEqual({ mode: 'megapixels', megapixels: 12 });
+    expect(parseResizeSpec('50%')).toEqual({ mode: 'percent', percent: 50 });
+  });
+
+  it('should reject invalid resize values', () => {
+    expect(() => parseResizeSpec('big')).toThrow('Invalid resize');
+    expect(() => parseResizeSpec('0')).toThrow('positive');
+    expect(() => parseResizeSpec('100x100:stretch')).toThrow('Invalid resize fit');
+  });
+
+  it('should describe resize specs', () => {
+    expect(formatResizeSpec({ mode: 'long_edge', size: 2048 })).toBe('2048px long edge');
+    expect(formatResizeSpec({ mode: 'exact', width: 1080, height: 1080, fit: 'cover' })).toBe('1080×1080 cover');
+  });
+});
+
+describe('Export recipes', () => {
+  it('should ship a delivery recipe with web, instagram and print renditions', () => {
+    const delivery = EXPORT_RECIPES.delivery;
+    expect(delivery.renditions.map((r) => r.name)).toEqual(['web', 'instagram', 'print']);
+    expect(delivery.renditions[0]).toMatchObject({ format: 'jpeg', resize: { mode: 'long_edge', size: 2048 } });
+    expect(delivery.renditions[2]).toMatchObject({ format: 'tiff' });
+    expect(delivery.renditions[2].resize).toBeUndefined();
+  });
+
+  it('should parse recipes with string and object resize specs', () => {
+    const recipe = parseExportRecipe(
+      {
+        name: 'client',
+        renditions: [
+          { name: 'thumb', format: 'webp', quality: 80, resize: '512', sharpen: 'low' },
+          { name: 'hero', format: 'avif', resize: { mode: 'exact', width: 1920, height: 1080 } },
+        ],
+      },
+      'fallback'
+    );
+
+    expect(recipe.name).toBe('client');
+    expect(recipe.renditions[0]).toEqual({
+      name: 'thumb',
+      format: 'webp',
+      quality: 80,
+      resize: { mode: 'long_edge', size: 512 },
+      sharpen: 'low',
+    });
+    expect(recipe.renditions[1].resize).toEqual({ mode: 'exact', width: 1920, height: 1080, fit: 'cover' });
+  });
+
+  it('should fall back to the given name', () => {
+    expect(parseExportRecipe({ renditions: [{ name: 'full', format: 'png' }] }, 'client').name).toBe('client');
+  });
+
+  it('should reject invalid recipes', () => {
+    expect(() => parseExportRecipe({})).toThrow('renditions');
+    expect(() => parseExportRecipe({ renditions: [{ name: 'a b', format: 'jpeg' }] })).toThrow('name');
+    expect(() => parseExportRecipe({ renditions: [{ name: 'web', format: 'gif' }] })).toThrow('unsupported format');
+    expect(() =>
+      parseExportRecipe({
+        renditions: [
+          { name: 'web', format: 'jpeg' },
+          { name: 'web', format: 'png' },
+        ],
+      })
+    ).toThrow('duplicate');
+    expect(() => parseExportRecipe({ renditions: [{ name: 'web', format: 'jpeg', sharpen: 'max' }] })).toThrow(
+      'sharpen'
+    );
+    expect(() =>
+      parseExportRecipe({ renditions: [{ name: 'web', format: 'jpeg', resize: { mode: 'long_edge' } }] })
+    ).toThrow('invalid resize');
+  });
+});
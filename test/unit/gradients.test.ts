@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { applyColorOperations, applyGradientLinear, applyGradientRadial } from '../../src/imageProcessing';
+import { GradientLinearOp, GradientRadialOp } from '../../src/editStack';
+import { at, gray } from './grayImage';
+
+describe('gradient_linear', () => {
+  // Graduated filter from the top edge to the middle, like an ND filter over the sky
+  const op: GradientLinearOp = {
+    id: 'op_01',
+    op: 'gradient_linear',
+    start: [0.5, 0],
+    end: [0.5, 0.5],
+    feather: 100,
+    ev: -1,
+  };
+
+  it('should fade from full effect at the start to none at the end', async () => {
+    const data = await (await applyGradientLinear(gray(), op)).raw().toBuffer();
+    const column = [0, 6, 12, 18, 24, 30, 40].map((y) => at(data, 50, y));
+
+    expect(column[0]).toBeLessThan(80); // Close to -1 EV at the top
+    for (let i = 1; i < column.length; i++) {
+      expect(column[i]).toBeGreaterThanOrEqual(column[i - 1]);
+    }
+    expect(column[5]).toBe(100); // Past the end point
+    expect(at(data, 0, 12)).toBe(at(data, 99, 12)); // Rows are uniform for a vertical gradient
+  });
+
+  it('should cut at the midpoint without feather', async () => {
+    const data = await (await applyGradientLinear(gray(), { ...op, feather: 0 })).raw().toBuffer();
+    expect(at(data, 50, 11)).toBeLessThan(80);
+    expect(at(data, 50, 13)).toBe(100);
+  });
+
+  it('should warm with temp', async () => {
+    const data = await (await applyGradientLinear(gray(), { ...op, ev: undefined, temp: 50 })).raw().toBuffer();
+    const i = 50 * 3;
+    expect(data[i]).toBeGreaterThan(data[i + 2]); // Red above blue at the start
+    expect(at(data, 50, 40)).toBe(100);
+  });
+});
+
+describe('gradient_radial', () => {
+  const op: GradientRadialOp = {
+    id: 'op_01',
+    op: 'gradient_radial',
+    center: [0.5, 0.5],
+    radiusX: 0.2,
+    radiusY: 0.4,
+    feather: 0,
+    ev: 1,
+  };
+
+  it('should adjust inside the ellipse', async () => {
+    // 20px by 20px radii around (50, 25)
+    const data = await (await applyGradientRadial(gray(), op)).raw().toBuffer();
+    expect(at(data, 50, 25)).toBeGreaterThan(130);
+    expect(at(data, 65, 25)).toBeGreaterThan(130);
+    expect(at(data, 75, 25)).toBe(100);
+    expect(at(data, 64, 39)).toBe(100); // Inside the bounding box, outside the ellipse
+  });
+
+  it('should soften the edge over the feather and adjust outside when inverted', async () => {
+    const soft = await (await applyGradientRadial(gray(), { ...op, feather: 50 })).raw().toBuffer();
+    const ramp = [50, 58, 62, 66, 70].map((x) => at(soft, x, 25));
+    for (let i = 1; i < ramp.length; i++) {
+      expect(ramp[i]).toBeLessThanOrEqual(ramp[i - 1]);
+    }
+    expect(ramp[2]).toBeGreaterThan(100);
+    expect(ramp[2]).toBeLessThan(ramp[0]);
+
+    const spotlight = await (await applyGradientRadial(gray(), { ...op, invert: true, ev: -1 })).raw().toBuffer();
+    expect(at(spotlight, 50, 25)).toBe(100);
+    expect(at(spotlight, 5, 5)).toBeLessThan(80);
+  });
+
+  it('should run in stack order with the global ops', async () => {
+    const ops = [
+      { id: 'op_01', op: 'exposure' as const, ev: -1 },
+      { ...op, id: 'op_02' },
+    ];
+    const data = await (await applyColorOperations(gray(), ops)).raw().toBuffer();
+    expect(at(data, 50, 25)).toBe(100); // +1 EV inside cancels the global -1 EV
+    expect(at(data, 5, 5)).toBeLessThan(80);
+  });
+});
@@ -0,0 +1,16 @@
+// Shared fixture of the local adjustment, gradient and mask tests: a small flat gray image, and
+// lookups into its renders and mask rasters
+import sharp from 'sharp';
+
+export const WIDTH = 100;
+export const HEIGHT = 50;
+
+// Flat mid-gray image
+export function gray(): sharp.Sharp {
+  return sharp(Buffer.alloc(WIDTH * HEIGHT * 3, 100), { raw: { width: WIDTH, height: HEIGHT, channels: 3 } });
+}
+
+// Red channel of an 8-bit RGB render, or the value of a mask raster, at pixel (x, y)
+export function at(data: Buffer | Float32Array, x: number, y: number): number {
+  return data instanceof Float32Array ? data[y * WIDTH + x] : data[(y * WIDTH + x) * 3];
+}
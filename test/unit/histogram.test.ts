@@ -2,7 +2,13 @@ import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import sharp from 'sharp';
 import path from 'path';
 import fs from 'fs/promises';
-import { computeHistogram, generateSparkline, formatHistogramDisplay } from '../../src/histogram';
+import {
+  computeHistogram,
+  computeAutoLevels,
+  generateSparkline,
+  formatHistogramDisplay,
+  HistogramData,
+} from '../../src/histogram';
 import { EditStack } from '../../src/editStack';
 
 describe('Histogram computation', () => {
@@ -76,7 +82,7 @@ describe('Histogram computation', () => {
   describe('computeHistogram', () => {
     it('should return histogram with correct structure', async () => {
       const editStack: EditStack = {
-        version: 1,
+        version: 2,
         baseUri: 'file://' + testImagePath,
         ops: [],
       };
@@ -101,7 +107,7 @@ describe('Histogram computation', () => {
 
     it('should detect clipping correctly', async () => {
       const editStack: EditStack = {
-        version: 1,
+        version: 2,
         baseUri: 'file://' + clippedImagePath,
         ops: [],
       };
@@ -119,7 +125,7 @@ describe('Histogram computation', () => {
 
     it('should apply edit stack before computing histogram', async () => {
       const editStack: EditStack = {
-        version: 1,
+        version: 2,
         baseUri: 'file://' + testImagePath,
         ops: [
           {
@@ -131,7 +137,7 @@ describe('Histogram computation', () => {
       };
 
       const histogramBefore = await computeHistogram(testImagePath, {
-        version: 1,
+        version: 2,
         baseUri: 'file://' + testImagePath,
         ops: [],
       });
@@ -148,7 +154,7 @@ describe('Histogram computation', () => {
 
     it('should normalize histogram values to 0-100', async () => {
       const editStack: EditStack = {
-        version: 1,
+        version: 2,
         baseUri: 'file://' + testImagePath,
         ops: [],
       };
@@ -166,6 +172,55 @@ describe('Histogram computation', () => {
     });
   });
 
+  describe('computeAutoLevels', () => {
+    const histWithClip = (clip: HistogramData['hist']['clip']): HistogramData => ({
+      hist: { luma: [], r: [], g: [], b: [], clip },
+    });
+
+    it('should use black and white points when nothing clips', () => {
+      const levels = computeAutoLevels(histWithClip({ lowPct: 0, highPct: 0, blackPoint: 20, whitePoint: 230 }));
+      expect(levels).toEqual({ inBlack: 20, inWhite: 230 });
+    });
+
+    it('should leave already clipped ends alone', () => {
+      const levels = computeAutoLevels(histWithClip({ lowPct: 33, highPct: 0, blackPoint: 0, whitePoint: 200 }));
+      expect(levels).toEqual({ inBlack: 0, inWhite: 200 });
+    });
+
+    it('should not stretch nearly flat images', () => {
+      const levels = computeAutoLevels(histWithClip({ lowPct: 0, highPct: 0, blackPoint: 120, whitePoint: 130 }));
+      expect(levels).toEqual({ inBlack: 0, inWhite: 255 });
+    });
+
+    it('should derive points from a low contrast image', async () => {
+      const lowContrastPath = path.join(process.cwd(), 'test-low-contrast.png');
+      const buffer = Buffer.alloc(100 * 10 * 3);
+      for (let i = 0; i < buffer.length; i += 3) {
+        const value = 60 + Math.floor(((i / 3) % 100) * 1.3); // 60..188
+        buffer[i] = value;
+        buffer[i + 1] = value;
+        buffer[i + 2] = value;
+      }
+      await sharp(buffer, { raw: { width: 100, height: 10, channels: 3 } })
+        .png()
+        .toFile(lowContrastPath);
+
+      try {
+        const histogram = await computeHistogram(lowContrastPath, {
+          version: 2,
+          baseUri: 'file://' + lowContrastPath,
+          ops: [],
+        });
+        const levels = computeAutoLevels(histogram);
+
+        expect(levels.inBlack).toBe(60);
+        expect(levels.inWhite).toBe(188);
+      } finally {
+        await fs.unlink(lowContrastPath);
+      }
+    });
+  });
+
   describe('generateSparkline', () => {
     it('should generate sparkline with correct length', () => {
       const data = new Array(64).fill(0).map((_, i) => i);
@@ -203,7 +258,7 @@ describe('Histogram computation', () => {
   describe('formatHistogramDisplay', () => {
     it('should format histogram data as text display', async () => {
       const editStack: EditStack = {
-        version: 1,
+        version: 2,
         baseUri: 'file://' + testImagePath,
         ops: [],
       };
@@ -223,7 +278,7 @@ describe('Histogram computation', () => {
 
     it('should include sparklines for each channel', async () => {
       const editStack: EditStack = {
-        version: 1,
+        version: 2,
         baseUri: 'file://' + testImagePath,
         ops: [],
       };
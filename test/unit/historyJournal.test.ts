@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EditStackManager } from '../../src/editStack';
+import { HistoryJournal, replayJournal } from '../../src/historyJournal';
+
+describe('History journal', () => {
+  const uri = 'file:///photos/portrait.jpg';
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should replay edits, undo and redo', () => {
+    const state = replayJournal([
+      { type: 'edit', ops: [{ id: 'op_01', op: 'exposure', ev: 0.5 }], opCounter: 1 },
+      { type: 'edit', ops: [{ id: 'op_02', op: 'contrast', amt: 10 }], opCounter: 2 },
+      { type: 'undo' },
+      { type: 'undo' },
+      { type: 'redo' },
+      { type: 'undo' },
+      { type: 'undo' }, // nothing left to undo
+    ]);
+
+    expect(state.ops).toEqual([]);
+    expect(state.undo).toEqual([]);
+    expect(state.redo).toHaveLength(2);
+    expect(state.opCounter).toBe(2);
+  });
+
+  it('should restore a manager with its undo/redo history after a restart', () => {
+    const journal = HistoryJournal.forImage(dir, uri);
+    const manager = new EditStackManager(uri);
+    expect(manager.attachJournal(journal)).toBe(false);
+
+    manager.addExposure({ ev: 0.5 });
+    manager.addContrast({ amt: 20 });
+    manager.addSaturation({ amt: 10 });
+    manager.undo();
+
+    const restored = new EditStackManager(uri);
+    expect(restored.attachJournal(HistoryJournal.forImage(dir, uri))).toBe(true);
+    expect(restored.getStack()).toEqual(manager.getStack());
+    expect(restored.getUndoDepth()).toBe(2);
+
+    // Redo still works, and new ops do not reuse IDs
+    expect(restored.redo()).toBe(true);
+    expect(restored.getStackSummary()).toBe('EV +0.50 • Contrast +20 • Sat +10');
+    restored.addVibrance({ amt: 15 });
+    expect(restored.getStack().ops[3].id).toBe('op_04');
+  });
+
+  it('should keep one journal per image', () => {
+    const a = HistoryJournal.forImage(dir, uri);
+    const b = HistoryJournal.forImage(dir, 'file:///photos/landscape.jpg');
+    expect(a.filePath).not.toBe(b.filePath);
+    expect(HistoryJournal.forImage(dir, uri).filePath).toBe(a.filePath);
+  });
+
+  it('should journal virtual copies next to the image and find them again', () => {
+    const master = new EditStackManager(uri);
+    master.attachJournal(HistoryJournal.forImage(dir, uri));
+    master.addExposure({ ev: 0.5 });
+
+    const copy = new EditStackManager(uri);
+    copy.attachJournal(HistoryJournal.forCopy(dir, uri, 'bw'));
+    copy.seedOps(master.getStack().ops);
+    copy.addSaturation({ amt: -100 });
+    HistoryJournal.forCopy(dir, uri, 'warm').compact({ ops: [], undo: [], redo: [], opCounter: 0 });
+    expect(HistoryJournal.copiesOf(dir, uri)).toEqual(['bw', 'warm']);
+    expect(HistoryJournal.copiesOf(dir, 'file:///photos/landscape.jpg')).toEqual([]);
+
+    const restored = new EditStackManager(uri);
+    restored.attachJournal(HistoryJournal.forCopy(dir, uri, 'bw'));
+    expect(restored.getStackSummary()).toBe('EV +0.50 • Sat -100');
+    expect(restored.getUndoDepth()).toBe(1);
+
+    HistoryJournal.forCopy(dir, uri, 'warm').remove();
+    expect(HistoryJournal.copiesOf(dir, uri)).toEqual(['bw']);
+  });
+
+  it('should ignore a torn last line from a crash mid-write', () => {
+    const journal = HistoryJournal.forImage(dir, uri);
+    const manager = new EditStackManager(uri);
+    manager.attachJournal(journal);
+    manager.addExposure({ ev: 1 });
+    fs.appendFileSync(journal.filePath, '{"type":"edit","ops":[{"id":"op_0');
+
+    const restored = new EditStackManager(uri);
+    restored.attachJournal(HistoryJournal.forImage(dir, uri));
+    expect(restored.getStackSummary()).toBe('EV +1.00');
+  });
+
+  it('should reject invalid ops and upgrade journals written before versions', () => {
+    const journal = HistoryJournal.forImage(dir, uri);
+    fs.writeFileSync(
+      journal.filePath,
+      '{"type":"edit","ops":[{"id":"op_01","op":"exposure","ev":0.5}],"opCounter":1}\n'
+    );
+    expect(journal.read()?.ops).toEqual([{ id: 'op_01', op: 'exposure', ev: 0.5 }]);
+
+    fs.appendFileSync(
+      journal.filePath,
+      '{"type":"edit","ops":[{"id":"op_02","op":"exposure","ev":9}],"opCounter":2}\n'
+    );
+    const manager = new EditStackManager(uri);
+    expect(() => manager.attachJournal(journal)).toThrow(/line 2: ops\.0\.ev: Too big/);
+
+    // Set aside, the image starts a fresh journal
+    journal.setAside();
+    expect(fs.existsSync(`${journal.filePath}.invalid`)).toBe(true);
+    expect(manager.attachJournal(journal)).toBe(false);
+    manager.addContrast({ amt: 10 });
+    expect(fs.readFileSync(journal.filePath, 'utf-8')).toMatch(/^\{"type":"edit","version":2,/);
+  });
+
+  it('should compact past the size cap and keep the most recent undo states', () => {
+    const options = { maxBytes: 4096, maxUndo: 5 };
+    const journal = HistoryJournal.forImage(dir, uri, options);
+    const manager = new EditStackManager(uri);
+    manager.attachJournal(journal);
+
+    for (let i = 1; i <= 100; i++) {
+      manager.addExposure({ ev: i / 100 });
+    }
+
+    expect(fs.statSync(journal.filePath).size).toBeLessThanOrEqual(4096);
+    expect(fs.readFileSync(journal.filePath, 'utf-8')).toMatch(/^\{"type":"base"/);
+
+    const restored = new EditStackManager(uri);
+    restored.attachJournal(HistoryJournal.forImage(dir, uri, options));
+    expect(restored.getStack()).toEqual(manager.getStack());
+    expect(manager.getUndoDepth()).toBe(100);
+    expect(restored.getUndoDepth()).toBeLessThan(100);
+    expect(restored.undo()).toBe(true);
+    expect(restored.getStackSummary()).toBe('EV +0.99');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { applyHsl, hslBandWeights } from '../../src/imageProcessing';
+import { HslOp } from '../../src/editStack';
+
+// One pixel per color: sky blue, skin orange, neutral gray
+function swatches(): sharp.Sharp {
+  const buffer = Buffer.from([70, 130, 200, 220, 160, 120, 128, 128, 128]);
+  return sharp(buffer, { raw: { width: 3, height: 1, channels: 3 } });
+}
+
+describe('HSL mixer', () => {
+  describe('hslBandWeights', () => {
+    it('should sum to 1 for every hue', () => {
+      for (let hue = 0; hue < 360; hue += 7) {
+        const total = hslBandWeights(hue).reduce((sum, w) => sum + w, 0);
+        expect(total).toBeCloseTo(1, 6);
+      }
+    });
+
+    it('should give full weight at band centers', () => {
+      expect(hslBandWeights(0)[0]).toBe(1); // red
+      expect(hslBandWeights(240)[5]).toBe(1); // blue
+    });
+
+    it('should blend neighbouring bands between centers', () => {
+      const weights = hslBandWeights(210); // between aqua (180) and blue (240)
+      expect(weights[4]).toBeCloseTo(0.5, 6);
+      expect(weights[5]).toBeCloseTo(0.5, 6);
+      expect(weights[0]).toBe(0);
+    });
+
+    it('should wrap magenta into red', () => {
+      const weights = hslBandWeights(330);
+      expect(weights[7]).toBeCloseTo(0.5, 6);
+      expect(weights[0]).toBeCloseTo(0.5, 6);
+    });
+  });
+
+  describe('applyHsl', () => {
+    it('should deepen blue without touching skin or gray', async () => {
+      const op: HslOp = { id: 'test_hsl', op: 'hsl', bands: { blue: { hue: 0, sat: 20, lum: -30 } } };
+      const output = await (await applyHsl(swatches(), op)).raw().toBuffer();
+
+      // Sky got darker
+      expect(output[0] + output[1] + output[2]).toBeLessThan(70 + 130 + 200);
+      // Skin and gray unchanged
+      expect(Array.from(output.slice(3, 6))).toEqual([220, 160, 120]);
+      expect(Array.from(output.slice(6, 9))).toEqual([128, 128, 128]);
+    });
+
+    it('should desaturate a band', async () => {
+      const op: HslOp = { id: 'test_hsl', op: 'hsl', bands: { blue: { hue: 0, sat: -100, lum: 0 } } };
+      const output = await (await applyHsl(swatches(), op)).raw().toBuffer();
+
+      // Sky pixel (hue ~213°) mostly blue band, so it loses most of its chroma
+      const chroma = Math.max(output[0], output[1], output[2]) - Math.min(output[0], output[1], output[2]);
+      expect(chroma).toBeLessThan(130 / 2);
+    });
+
+    it('should shift hue', async () => {
+      const buffer = Buffer.from([255, 0, 0]);
+      const pipeline = sharp(buffer, { raw: { width: 1, height: 1, channels: 3 } });
+      const op: HslOp = { id: 'test_hsl', op: 'hsl', bands: { red: { hue: 100, sat: 0, lum: 0 } } };
+      const output = await (await applyHsl(pipeline, op)).raw().toBuffer();
+
+      // Red shifted 30° towards orange
+      expect(output[0]).toBe(255);
+      expect(output[1]).toBeGreaterThan(120);
+      expect(output[2]).toBe(0);
+    });
+  });
+});
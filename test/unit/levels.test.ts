@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { buildLevelsLut, applyLevels } from '../../src/imageProcessing';
+import { LevelsOp, DEFAULT_LEVELS } from '../../src/editStack';
+import { solidImage } from './solidImage';
+
+describe('Levels', () => {
+  describe('buildLevelsLut', () => {
+    it('should produce identity for default levels', () => {
+      const lut = buildLevelsLut(DEFAULT_LEVELS);
+      for (let i = 0; i < 256; i++) {
+        expect(lut[i]).toBe(i);
+      }
+    });
+
+    it('should map input black/white points to the output range', () => {
+      const lut = buildLevelsLut({ inBlack: 20, inWhite: 200, gamma: 1, outBlack: 10, outWhite: 245 });
+
+      expect(lut[0]).toBe(10);
+      expect(lut[20]).toBe(10);
+      expect(lut[200]).toBe(245);
+      expect(lut[255]).toBe(245);
+      expect(Math.abs(lut[110] - 128)).toBeLessThanOrEqual(1);
+    });
+
+    it('should brighten midtones with gamma above 1', () => {
+      const lut = buildLevelsLut({ ...DEFAULT_LEVELS, gamma: 2 });
+
+      expect(lut[128]).toBeGreaterThan(170);
+      expect(lut[0]).toBe(0);
+      expect(lut[255]).toBe(255);
+    });
+
+    it('should scale 8-bit points for 16-bit LUTs', () => {
+      const lut = buildLevelsLut({ ...DEFAULT_LEVELS, inWhite: 128 }, 65536);
+
+      expect(lut.length).toBe(65536);
+      expect(lut[65535]).toBe(65535);
+      expect(Math.abs(lut[16448] - 32768)).toBeLessThan(300);
+    });
+  });
+
+  describe('applyLevels', () => {
+    it('should set a true white point', async () => {
+      const op: LevelsOp = { id: 'test_levels', op: 'levels', ...DEFAULT_LEVELS, inWhite: 230 };
+
+      const output = await (await applyLevels(solidImage(230, 240, 200), op)).raw().toBuffer();
+
+      expect(output[0]).toBe(255);
+      expect(output[1]).toBe(255);
+      expect(output[2]).toBeGreaterThan(200);
+    });
+
+    it('should apply per-channel levels before the master', async () => {
+      const op: LevelsOp = {
+        id: 'test_levels',
+        op: 'levels',
+        ...DEFAULT_LEVELS,
+        b: { ...DEFAULT_LEVELS, outWhite: 128 },
+      };
+
+      const output = await (await applyLevels(solidImage(255, 255, 255), op)).raw().toBuffer();
+
+      expect(output[0]).toBe(255);
+      expect(output[1]).toBe(255);
+      expect(output[2]).toBe(128);
+    });
+  });
+});
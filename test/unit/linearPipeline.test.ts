@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import {
+  toFloatImage,
+  fromFloatImage,
+  applyColorOperations,
+  applyColorOperationsFloat,
+  ColorOp,
+} from '../../src/imageProcessing';
+import { srgbToLinear } from '../../src/colorTemperature';
+
+// Mid-gray patches: 18% linear gray (sRGB 118), sRGB 128, and a darker 9% gray (sRGB 85)
+const PATCHES = [118, 128, 85];
+
+function patches(): sharp.Sharp {
+  const buffer = Buffer.from(PATCHES.flatMap((v) => [v, v, v]));
+  return sharp(buffer, { raw: { width: PATCHES.length, height: 1, channels: 3 } });
+}
+
+const plusOneEv: ColorOp[] = [{ id: 'op_01', op: 'exposure', ev: 1 }];
+
+describe('Linear-light pipeline', () => {
+  it('should decode 8-bit sRGB to linear light', async () => {
+    const image = await toFloatImage(patches());
+    expect(image.encoding).toBe('linear');
+    expect(image.data[0]).toBeCloseTo(0.1812, 4);
+    expect(image.data[3]).toBeCloseTo(0.2159, 4);
+    expect(image.data[6]).toBeCloseTo(0.0908, 4);
+  });
+
+  it('should round-trip 8-bit values exactly when no op changes them', async () => {
+    const input = Buffer.from(Array.from({ length: 256 * 3 }, (_, i) => Math.floor(i / 3)));
+    const pipeline = sharp(input, { raw: { width: 256, height: 1, channels: 3 } });
+    const output = await fromFloatImage(await toFloatImage(pipeline))
+      .raw()
+      .toBuffer();
+    expect(Array.from(output)).toEqual(Array.from(input));
+  });
+
+  it('should double linear values of mid-gray patches at +1 EV (float)', async () => {
+    const image = await toFloatImage(patches());
+    const before = Array.from(image.data);
+    applyColorOperationsFloat(image, plusOneEv);
+
+    for (let i = 0; i < before.length; i++) {
+      expect(image.data[i]).toBeCloseTo(before[i] * 2, 6);
+    }
+  });
+
+  it('should double linear values of mid-gray patches at +1 EV (8-bit output)', async () => {
+    const output = await (await applyColorOperations(patches(), plusOneEv)).raw().toBuffer();
+
+    // Golden 8-bit values: 18% gray (sRGB 118) → 36% gray (sRGB 162)
+    expect(output[0]).toBe(162);
+    expect(output[3]).toBe(176);
+    expect(output[6]).toBe(118);
+
+    PATCHES.forEach((v, p) => {
+      const doubled = 2 * srgbToLinear(v / 255);
+      expect(Math.abs(srgbToLinear(output[p * 3] / 255) - doubled) / doubled).toBeLessThan(0.01);
+    });
+  });
+
+  it('should halve linear values at -1 EV', async () => {
+    const output = await (await applyColorOperations(patches(), [{ id: 'op_01', op: 'exposure', ev: -1 }]))
+      .raw()
+      .toBuffer();
+
+    // 18% gray → 9% gray, sRGB 85
+    expect(output[0]).toBe(85);
+  });
+
+  it('should keep linear middle gray fixed under contrast', async () => {
+    const output = await (await applyColorOperations(patches(), [{ id: 'op_01', op: 'contrast', amt: 50 }]))
+      .raw()
+      .toBuffer();
+
+    expect(output[0]).toBe(118);
+    expect(output[6]).toBeLessThan(85); // Darker than middle gray moves down
+    expect(output[3]).toBeGreaterThan(128); // Brighter than middle gray moves up
+  });
+
+  describe('16-bit mode', () => {
+    // Smooth 16-bit sky-like ramp: 256 steps spanning only 64 8-bit codes
+    function ramp16(): sharp.Sharp {
+      const samples = new Uint16Array(256 * 3);
+      for (let x = 0; x < 256; x++) {
+        samples.fill(30000 + x * 64, x * 3, x * 3 + 3);
+      }
+      return sharp(samples, { raw: { width: 256, height: 1, channels: 3 } }).toColourspace('rgb16');
+    }
+
+    async function distinctLevels(pipeline: sharp.Sharp): Promise<number> {
+      const png = await pipeline.png().toBuffer();
+      expect((await sharp(png).metadata()).depth).toBe('ushort');
+      const { data } = await sharp(png)
+        .toColourspace('rgb16')
+        .raw({ depth: 'ushort' })
+        .toBuffer({ resolveWithObject: true });
+      return new Set(new Uint16Array(data.buffer, data.byteOffset, data.length / 2)).size;
+    }
+
+    it('should encode 16 bits per channel', async () => {
+      const output = fromFloatImage(await toFloatImage(patches()), 16);
+      const png = await output.png().toBuffer();
+      expect((await sharp(png).metadata()).depth).toBe('ushort');
+    });
+
+    it('should keep a 16-bit gradient smooth through several edits', async () => {
+      const ops: ColorOp[] = [
+        { id: 'op_01', op: 'exposure', ev: -0.7 },
+        { id: 'op_02', op: 'contrast', amt: 25 },
+        { id: 'op_03', op: 'saturation', amt: 10 },
+      ];
+
+      const levels16 = await distinctLevels(await applyColorOperations(ramp16(), ops, 16));
+      const output8 = await (await applyColorOperations(ramp16(), ops, 8)).raw().toBuffer();
+
+      // Every input step survives in 16-bit; 8-bit collapses the ramp into a few bands
+      expect(levels16).toBe(256);
+      expect(new Set(output8).size).toBeLessThan(80);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { applyColorOperations, applyLocalAdjust } from '../../src/imageProcessing';
+import { LocalAdjustOp } from '../../src/editStack';
+import { at, gray } from './grayImage';
+
+async function render(op: LocalAdjustOp): Promise<Buffer> {
+  return (await applyLocalAdjust(gray(), op)).raw().toBuffer();
+}
+
+describe('local_adjust', () => {
+  const op: LocalAdjustOp = { id: 'op_01', op: 'local_adjust', roi: [0.2, 0.2, 0.4, 0.6], feather: 0, ev: 1 };
+
+  it('should adjust only inside a hard-edged ROI', async () => {
+    const data = await render(op);
+
+    expect(at(data, 40, 25)).toBeGreaterThan(130); // +1 EV inside
+    expect(at(data, 20, 10)).toBeGreaterThan(130); // First pixel of the ROI
+    expect(at(data, 19, 25)).toBe(100);
+    expect(at(data, 60, 25)).toBe(100);
+    expect(at(data, 40, 9)).toBe(100);
+  });
+
+  it('should fade the adjustment across the feather', async () => {
+    // Shorter ROI side is 30px, so a 50% feather is 15px centered on the edge at x = 20
+    const data = await render({ ...op, feather: 50 });
+    const ramp = [10, 14, 18, 22, 26, 30].map((x) => at(data, x, 25));
+
+    expect(ramp[0]).toBe(100);
+    for (let i = 1; i < ramp.length; i++) {
+      expect(ramp[i]).toBeGreaterThanOrEqual(ramp[i - 1]);
+    }
+    expect(ramp[2]).toBeGreaterThan(100);
+    expect(ramp[3]).toBeLessThan(at(data, 40, 25));
+  });
+
+  it('should adjust outside the ROI when inverted', async () => {
+    const data = await render({ ...op, invert: true, ev: undefined, saturation: -100, contrast: -50 });
+    expect(at(data, 40, 25)).toBe(100);
+    expect(at(data, 5, 5)).not.toBe(100);
+  });
+
+  it('should leave the image alone without adjustments', async () => {
+    const data = await render({ ...op, ev: 0 });
+    expect(data.every((v) => v === 100)).toBe(true);
+  });
+
+  it('should run in stack order with the global ops', async () => {
+    const ops = [
+      { id: 'op_01', op: 'exposure' as const, ev: 0.5 },
+      { ...op, ev: -0.5 },
+    ];
+    const data = await (await applyColorOperations(gray(), ops)).raw().toBuffer();
+    expect(at(data, 40, 25)).toBe(100); // The local -0.5 EV cancels the global +0.5 EV
+    expect(at(data, 5, 5)).toBeGreaterThan(100);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { EditStackManager } from '../../src/editStack';
+import { BUILTIN_LOOKS, MAX_LOOK_CALLS, expandLook, findLook, loadLooks, parseLook } from '../../src/looks';
+
+describe('Named looks', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'looks-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should define valid built-in looks of at most 6 calls', () => {
+    for (const look of BUILTIN_LOOKS) {
+      expect(parseLook(look.name, look)).toEqual(look);
+      expect(look.calls.length).toBeLessThanOrEqual(MAX_LOOK_CALLS);
+    }
+  });
+
+  it('should find looks by loose names', () => {
+    expect(findLook(BUILTIN_LOOKS, 'Teal-Orange mild')?.name).toBe('teal_orange_mild');
+    expect(findLook(BUILTIN_LOOKS, 'sepia')).toBeUndefined();
+  });
+
+  it('should scale every adjustment by the intensity', () => {
+    const look = parseLook('test', {
+      calls: [
+        { fn: 'set_white_balance_temp_tint', args: { temp: 10, tint: -5 } },
+        { fn: 'set_exposure', args: { ev: 0.35 } },
+        { fn: 'set_tone_regions', args: { highlights: -30 } },
+        { fn: 'set_hsl', args: { band: 'blue', hue: -25, sat: 10 } },
+        { fn: 'set_curve', args: { preset: 's_curve' } },
+      ],
+    });
+
+    expect(expandLook(look)).toEqual(look.calls);
+    expect(expandLook(look, 50)).toEqual([
+      { fn: 'set_white_balance_temp_tint', args: { temp: 5, tint: -2 } },
+      { fn: 'set_exposure', args: { ev: 0.18 } },
+      { fn: 'set_tone_regions', args: { highlights: -15 } },
+      { fn: 'set_hsl', args: { band: 'blue', hue: -12, sat: 5 } },
+      {
+        fn: 'set_curve',
+        args: {
+          master: [
+            [0, 0],
+            [0.25, 0.225],
+            [0.75, 0.775],
+            [1, 1],
+          ],
+        },
+      },
+    ]);
+  });
+
+  it('should land a look as at most 6 ops', () => {
+    const manager = new EditStackManager('file:///photos/a.jpg');
+    const look = findLook(BUILTIN_LOOKS, 'teal_orange_mild')!;
+    for (const call of expandLook(look, 50)) {
+      if (call.fn === 'set_hsl') {
+        const { band, ...adjustment } = call.args;
+        manager.addHsl({ bands: { [band]: adjustment } });
+      } else if (call.fn === 'set_white_balance_temp_tint') {
+        manager.addWhiteBalance({ method: 'temp_tint', ...call.args });
+      } else if (call.fn === 'set_contrast') {
+        manager.addContrast(call.args);
+      } else if (call.fn === 'set_saturation') {
+        manager.addSaturation(call.args);
+      } else if (call.fn === 'set_vibrance') {
+        manager.addVibrance(call.args);
+      }
+    }
+
+    expect(manager.getStackLength()).toBeLessThanOrEqual(MAX_LOOK_CALLS);
+  });
+
+  it('should merge user looks and report invalid ones', async () => {
+    const filePath = path.join(dir, 'looks.json');
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({
+        'Golden Hour': { description: 'Warm evening light', calls: [{ fn: 'set_vibrance', args: { amt: 15 } }] },
+        moody: { description: 'My moody', calls: [{ fn: 'set_exposure', args: { ev: -0.5 } }] },
+        geometry: { calls: [{ fn: 'set_crop', args: { aspect: '1:1' } }] },
+        huge: { calls: Array(7).fill({ fn: 'set_contrast', args: { amt: 5 } }) },
+      })
+    );
+
+    const { looks, errors } = await loadLooks(filePath);
+    expect(findLook(looks, 'golden_hour')?.description).toBe('Warm evening light');
+    expect(findLook(looks, 'moody')?.description).toBe('My moody');
+    expect(looks).toHaveLength(BUILTIN_LOOKS.length + 1);
+    expect(errors).toEqual([
+      'Look geometry: call 0 is not a valid color or tone adjustment',
+      'Look huge must have 1-6 calls',
+    ]);
+
+    expect((await loadLooks(path.join(dir, 'missing.json'))).looks).toEqual(BUILTIN_LOOKS);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { Lut3D, formatCubeLut, loadLut, parse3dlLut, parseCubeLut } from '../../src/lut';
+import { applyColorOperations, applyLut, bakeLut, sampleLut } from '../../src/imageProcessing';
+import { LutOp } from '../../src/editStack';
+
+// .cube text for a LUT given as a function of encoded RGB
+function cube(size: number, fn: (r: number, g: number, b: number) => [number, number, number]): string {
+  const lines = [`TITLE "test"`, `LUT_3D_SIZE ${size}`];
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        lines.push(fn(r / (size - 1), g / (size - 1), b / (size - 1)).join(' '));
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+const invert = (r: number, g: number, b: number): [number, number, number] => [1 - r, 1 - g, 1 - b];
+
+// One pixel per color: sky blue, skin orange, mid gray
+function swatches(): sharp.Sharp {
+  const buffer = Buffer.from([70, 130, 200, 220, 160, 120, 128, 128, 128]);
+  return sharp(buffer, { raw: { width: 3, height: 1, channels: 3 } });
+}
+
+describe('3D LUTs', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'lut-test-'));
+    await fs.writeFile(path.join(dir, 'invert.cube'), cube(5, invert));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('parseCubeLut', () => {
+    it('should read the title, size and entries in red-fastest order', () => {
+      const lut = parseCubeLut(cube(2, (r, g, b) => [r, g, b]));
+      expect(lut.title).toBe('test');
+      expect(lut.size).toBe(2);
+      expect(Array.from(lut.table.slice(3, 6))).toEqual([1, 0, 0]);
+      expect(Array.from(lut.table.slice(6, 9))).toEqual([0, 1, 0]);
+    });
+
+    it('should keep the input domain', () => {
+      const lut = parseCubeLut(`DOMAIN_MIN 0 0 0\nDOMAIN_MAX 2 2 2\n${cube(2, invert)}`);
+      expect(lut.domainMax).toEqual([2, 2, 2]);
+    });
+
+    it('should reject 1D and incomplete LUTs', () => {
+      expect(() => parseCubeLut('LUT_1D_SIZE 2\n0 0 0\n1 1 1')).toThrow('1D LUTs are not supported');
+      expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0 0')).toThrow('Expected 8 LUT entries');
+      expect(() => parseCubeLut('0 0 0')).toThrow('Missing LUT_3D_SIZE');
+    });
+  });
+
+  describe('parse3dlLut', () => {
+    it('should reorder blue-fastest entries and scale by the output depth', () => {
+      // Lustre headers, 2-point mesh, 12-bit output, blue changes fastest
+      const lines = ['3DMESH', 'Mesh 1 12', '0 1023'];
+      for (let r = 0; r < 2; r++) {
+        for (let g = 0; g < 2; g++) {
+          for (let b = 0; b < 2; b++) lines.push(`${r * 4095} ${g * 4095} ${b * 4095}`);
+        }
+      }
+      const lut = parse3dlLut(lines.join('\n'));
+
+      expect(lut.size).toBe(2);
+      expect(Array.from(lut.table.slice(3, 6))).toEqual([1, 0, 0]); // (r=1, g=0, b=0) in .cube order
+      expect(Array.from(lut.table.slice(12, 15))).toEqual([0, 0, 1]);
+    });
+  });
+
+  describe('sampleLut', () => {
+    const lut = parseCubeLut(cube(5, (r, g, b) => [r * r, g, Math.sqrt(b)]));
+
+    it('should hit grid points exactly with both interpolations', () => {
+      const out = [0, 0, 0];
+      for (const interpolation of ['trilinear', 'tetrahedral'] as const) {
+        sampleLut(lut, 0.5, 0.25, 1, interpolation, out);
+        expect(out[0]).toBeCloseTo(0.25, 6);
+        expect(out[1]).toBeCloseTo(0.25, 6);
+        expect(out[2]).toBeCloseTo(1, 6);
+      }
+    });
+
+    it('should reproduce an identity LUT between grid points', () => {
+      const identity = parseCubeLut(cube(3, (r, g, b) => [r, g, b]));
+      const out = [0, 0, 0];
+      for (const interpolation of ['trilinear', 'tetrahedral'] as const) {
+        sampleLut(identity, 0.3, 0.7, 0.15, interpolation, out);
+        expect(out[0]).toBeCloseTo(0.3, 6);
+        expect(out[1]).toBeCloseTo(0.7, 6);
+        expect(out[2]).toBeCloseTo(0.15, 6);
+      }
+    });
+
+    it('should keep neutrals neutral with tetrahedral interpolation', () => {
+      // Channel crosstalk away from the gray axis, identity on it
+      const crosstalk = parseCubeLut(
+        cube(3, (r, g, b) => [(r + g + b) / 3 + (r - g) / 2, (r + g + b) / 3, (r + g + b) / 3])
+      );
+      const out = [0, 0, 0];
+      sampleLut(crosstalk, 0.4, 0.4, 0.4, 'tetrahedral', out);
+      expect(out[0]).toBeCloseTo(0.4, 6);
+      expect(out[1]).toBeCloseTo(0.4, 6);
+    });
+  });
+
+  describe('loadLut', () => {
+    it('should parse a file once and reuse it', async () => {
+      const filePath = path.join(dir, 'invert.cube');
+      const first = await loadLut(filePath);
+      expect(await loadLut(filePath)).toBe(first);
+    });
+
+    it('should name the file in errors', async () => {
+      await fs.writeFile(path.join(dir, 'broken.cube'), 'LUT_3D_SIZE 2\n0 0 0');
+      await expect(loadLut(path.join(dir, 'broken.cube'))).rejects.toThrow('broken.cube: Expected 8 LUT entries');
+      await expect(loadLut(path.join(dir, 'missing.cube'))).rejects.toThrow('LUT not found');
+      await fs.writeFile(path.join(dir, 'grade.csp'), '');
+      await expect(loadLut(path.join(dir, 'grade.csp'))).rejects.toThrow('Unsupported LUT format: .csp');
+    });
+  });
+
+  describe('lut op', () => {
+    it('should apply a LUT and blend it by opacity', async () => {
+      const op: LutOp = { id: 'op_01', op: 'lut', path: path.join(dir, 'invert.cube'), opacity: 100 };
+      const inverted = await (await applyLut(swatches(), op)).raw().toBuffer();
+      expect(Array.from(inverted.slice(0, 3))).toEqual([185, 125, 55]);
+
+      const half = await (await applyLut(swatches(), { ...op, opacity: 50 })).raw().toBuffer();
+      expect(Array.from(half.slice(6, 9))).toEqual([128, 128, 128]);
+      expect(Math.abs(half[0] - (70 + 185) / 2)).toBeLessThanOrEqual(1);
+    });
+
+    it('should run in stack order with the other color ops', async () => {
+      const ops = [
+        { id: 'op_01', op: 'saturation' as const, amt: -100 },
+        { id: 'op_02', op: 'lut' as const, path: path.join(dir, 'invert.cube'), opacity: 100 },
+      ];
+      const output = await (await applyColorOperations(swatches(), ops)).raw().toBuffer();
+      expect(output[0]).toBe(output[1]); // Gray before the inversion, so gray after it
+    });
+  });
+
+  describe('bakeLut', () => {
+    it('should bake color ops into a LUT that reproduces them', async () => {
+      const ops = [
+        { id: 'op_01', op: 'exposure' as const, ev: 0.5 },
+        { id: 'op_02', op: 'hsl' as const, bands: { blue: { hue: 0, sat: -40, lum: 0 } } },
+      ];
+      const lut = await bakeLut(ops, 33, 'grade');
+      const direct = await (await applyColorOperations(swatches(), ops)).raw().toBuffer();
+      const viaLut = await (
+        await applyLut(swatches(), {
+          id: 'op_03',
+          op: 'lut',
+          path: await writeLut(dir, 'grade.cube', lut),
+          opacity: 100,
+        })
+      )
+        .raw()
+        .toBuffer();
+
+      for (let i = 0; i < direct.length; i++) {
+        expect(Math.abs(viaLut[i] - direct[i])).toBeLessThanOrEqual(2);
+      }
+    });
+
+    it('should write a .cube file the parser reads back', async () => {
+      const lut = await bakeLut([], 2, 'identity');
+      const text = formatCubeLut(lut);
+      expect(text.startsWith('TITLE "identity"\nLUT_3D_SIZE 2\n')).toBe(true);
+      expect(parseCubeLut(text).table).toEqual(lut.table);
+    });
+  });
+});
+
+async function writeLut(dir: string, name: string, lut: Lut3D): Promise<string> {
+  const filePath = path.join(dir, name);
+  await fs.writeFile(filePath, formatCubeLut(lut));
+  return filePath;
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { BAND_HUES, MaskSource, rasterizeMask, rasterizeMasks } from '../../src/masks';
+import { applyColorOperations } from '../../src/imageProcessing';
+import { srgbToLinear } from '../../src/colorTemperature';
+import { LocalAdjustOp, MaskOp } from '../../src/editStack';
+import { HEIGHT, WIDTH, at, gray } from './grayImage';
+
+// Vertical stripes of equal width in the given 8-bit sRGB colors
+function stripes(...colors: [number, number, number][]): Buffer {
+  const data = Buffer.alloc(WIDTH * HEIGHT * 3);
+  for (let i = 0; i < WIDTH * HEIGHT; i++) {
+    const color = colors[Math.floor(((i % WIDTH) * colors.length) / WIDTH)];
+    data.set(color, i * 3);
+  }
+  return data;
+}
+
+// The linear pixels range shapes select from
+function source(data: Buffer): MaskSource {
+  return { data: Float32Array.from(data, (v) => srgbToLinear(v / 255)), channels: 3 };
+}
+
+// Left half of the image as a polygon
+const LEFT_HALF: MaskOp['shapes'][number] = {
+  type: 'polygon',
+  mode: 'add',
+  points: [
+    [0, 0],
+    [0.5, 0],
+    [0.5, 1],
+    [0, 1],
+  ],
+};
+
+const mask = (...shapes: MaskOp['shapes']): MaskOp => ({ id: 'op_01', op: 'mask', shapes });
+
+describe('rasterizeMask', () => {
+  it('should fill polygons with antialiased edges', () => {
+    const raster = rasterizeMask(mask(LEFT_HALF), WIDTH, HEIGHT);
+    expect(at(raster, 10, 25)).toBeCloseTo(1, 6);
+    expect(at(raster, 49, 0)).toBeCloseTo(1, 6);
+    expect(at(raster, 50, 25)).toBe(0);
+
+    // Diagonal edge from the top left to the bottom right: about half of each pixel on it
+    const triangle = rasterizeMask(
+      mask({
+        type: 'polygon',
+        mode: 'add',
+        points: [
+          [0, 0],
+          [1, 1],
+          [0, 1],
+        ],
+      }),
+      HEIGHT,
+      HEIGHT
+    );
+    expect(triangle[20 * HEIGHT + 20]).toBeCloseTo(0.5, 1);
+    expect(triangle[30 * HEIGHT + 5]).toBeCloseTo(1, 6);
+  });
+
+  it('should paint brush strokes with a soft edge past the hardness', () => {
+    // Horizontal stroke along y = 25 with a 10px radius, full strength within 5px
+    const raster = rasterizeMask(
+      mask({
+        type: 'brush',
+        mode: 'add',
+        points: [
+          [0.2, 0.5],
+          [0.8, 0.5],
+        ],
+        radius: 0.2,
+        hardness: 50,
+      }),
+      WIDTH,
+      HEIGHT
+    );
+    expect(at(raster, 50, 25)).toBe(1);
+    expect(at(raster, 50, 29)).toBe(1);
+    expect(at(raster, 50, 32)).toBeGreaterThan(0);
+    expect(at(raster, 50, 32)).toBeLessThan(1);
+    expect(at(raster, 50, 36)).toBe(0);
+    expect(at(raster, 5, 25)).toBe(0); // Past the rounded end
+  });
+
+  it('should combine shapes with add, subtract and intersect in order', () => {
+    const rightHalf = { ...LEFT_HALF, points: LEFT_HALF.points.map(([x, y]) => [x + 0.5, y] as [number, number]) };
+    const topHalf = {
+      ...LEFT_HALF,
+      points: [
+        [0, 0],
+        [1, 0],
+        [1, 0.5],
+        [0, 0.5],
+      ] as [number, number][],
+    };
+
+    const union = rasterizeMask(mask(LEFT_HALF, rightHalf), WIDTH, HEIGHT);
+    expect(at(union, 80, 40)).toBeCloseTo(1, 6);
+
+    const difference = rasterizeMask(mask(LEFT_HALF, { ...topHalf, mode: 'subtract' }), WIDTH, HEIGHT);
+    expect(at(difference, 10, 10)).toBeCloseTo(0, 6);
+    expect(at(difference, 10, 40)).toBeCloseTo(1, 6);
+
+    const intersection = rasterizeMask(mask(LEFT_HALF, { ...topHalf, mode: 'intersect' }), WIDTH, HEIGHT);
+    expect(at(intersection, 10, 10)).toBeCloseTo(1, 6);
+    expect(at(intersection, 10, 40)).toBeCloseTo(0, 6);
+    expect(at(intersection, 80, 10)).toBeCloseTo(0, 6);
+  });
+
+  it('should select a luminance range with a smooth falloff', () => {
+    // L* of about 16, 66 and 93
+    const pixels = source(stripes([40, 40, 40], [160, 160, 160], [235, 235, 235]));
+    const raster = rasterizeMask(
+      mask({ type: 'luminance', mode: 'add', range: [70, 100], falloff: 10 }),
+      WIDTH,
+      HEIGHT,
+      pixels
+    );
+    expect(at(raster, 10, 25)).toBe(0);
+    expect(at(raster, 50, 25)).toBeGreaterThan(0);
+    expect(at(raster, 50, 25)).toBeLessThan(1);
+    expect(at(raster, 90, 25)).toBe(1);
+
+    const hard = rasterizeMask(
+      mask({ type: 'luminance', mode: 'add', range: [70, 100], falloff: 0 }),
+      WIDTH,
+      HEIGHT,
+      pixels
+    );
+    expect(at(hard, 50, 25)).toBe(0);
+  });
+
+  it('should select a hue range and leave grays out', () => {
+    const pixels = source(stripes([60, 160, 50], [70, 130, 200], [128, 128, 128]));
+    const hues = (hue: number) => mask({ type: 'color', mode: 'add', hue, hueRange: 20, falloff: 20, minChroma: 10 });
+    const greens = rasterizeMask(hues(BAND_HUES.green), WIDTH, HEIGHT, pixels);
+    expect(at(greens, 10, 25)).toBe(1);
+    expect(at(greens, 50, 25)).toBe(0);
+    expect(at(greens, 90, 25)).toBe(0);
+    expect(at(rasterizeMask(hues(BAND_HUES.blue), WIDTH, HEIGHT, pixels), 50, 25)).toBe(1);
+
+    // Nothing is selected without the source pixels
+    expect(rasterizeMask(hues(BAND_HUES.green), WIDTH, HEIGHT).every((v) => v === 0)).toBe(true);
+  });
+});
+
+describe('rasterizeMasks', () => {
+  it('should reuse rasters for the same masks and size', () => {
+    const first = rasterizeMasks([mask(LEFT_HALF)], WIDTH, HEIGHT);
+    expect(rasterizeMasks([{ ...mask(LEFT_HALF), createdAt: '2026-01-01T00:00:00Z' }], WIDTH, HEIGHT)).toBe(first);
+    expect(rasterizeMasks([mask(LEFT_HALF)], WIDTH / 2, HEIGHT / 2)).not.toBe(first);
+    expect(first.get('op_01')).toHaveLength(WIDTH * HEIGHT);
+  });
+
+  it('should key masks with ranges by the source pixels', () => {
+    const highlights = [mask({ type: 'luminance', mode: 'add', range: [70, 100], falloff: 10 })];
+    const dark = rasterizeMasks(highlights, WIDTH, HEIGHT, source(stripes([40, 40, 40])));
+    const bright = rasterizeMasks(highlights, WIDTH, HEIGHT, source(stripes([235, 235, 235])));
+    expect(bright).not.toBe(dark);
+    expect(at(dark.get('op_01')!, 10, 25)).toBe(0);
+    expect(at(bright.get('op_01')!, 10, 25)).toBe(1);
+    expect(rasterizeMasks(highlights, WIDTH, HEIGHT, source(stripes([235, 235, 235])))).toBe(bright);
+  });
+});
+
+describe('masked local ops', () => {
+  const local: LocalAdjustOp = { id: 'op_02', op: 'local_adjust', roi: [0, 0, 1, 1], feather: 0, ev: 1, mask: 'op_01' };
+
+  it('should only adjust where the mask is painted', async () => {
+    const data = await (await applyColorOperations(gray(), [local], 8, [mask(LEFT_HALF)])).raw().toBuffer();
+    expect(data[(25 * WIDTH + 10) * 3]).toBeGreaterThan(130);
+    expect(data[(25 * WIDTH + 80) * 3]).toBe(100);
+  });
+
+  it('should select ranges from the pixels before any op', async () => {
+    // Cool down only the highlights; brightening the left stripe first does not pull it in
+    const image = sharp(stripes([100, 100, 100], [200, 200, 200]), {
+      raw: { width: WIDTH, height: HEIGHT, channels: 3 },
+    });
+    const boost: LocalAdjustOp = { id: 'op_02', op: 'local_adjust', roi: [0, 0, 0.5, 1], feather: 0, ev: 2 };
+    const cool: LocalAdjustOp = { ...local, id: 'op_03', ev: undefined, temp: -50 };
+    const highlights = mask({ type: 'luminance', mode: 'add', range: [70, 100], falloff: 10 });
+    const data = await (await applyColorOperations(image, [boost, cool], 8, [highlights])).raw().toBuffer();
+
+    const boosted = (25 * WIDTH + 10) * 3;
+    expect(data[boosted]).toBeGreaterThan(180);
+    expect(data[boosted + 2]).toBe(data[boosted]);
+    const highlight = (25 * WIDTH + 90) * 3;
+    expect(data[highlight + 2]).toBeGreaterThan(data[highlight]);
+  });
+
+  it('should skip a local op whose mask is missing or disabled', async () => {
+    const data = await (await applyColorOperations(gray(), [local])).raw().toBuffer();
+    expect(data[(25 * WIDTH + 10) * 3]).toBe(100);
+    expect(data[(25 * WIDTH + 80) * 3]).toBe(100);
+  });
+});
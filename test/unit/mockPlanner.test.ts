@@ -127,6 +127,30 @@ describe('MockPlanner', () => {
     });
   });
 
+  describe('Tone Regions', () => {
+    it('should parse recover highlights and open shadows', () => {
+      const result = planner.plan({ text: 'recover highlights, open shadows' });
+      expect(result.calls).toHaveLength(1);
+      expect(result.calls[0]).toEqual({
+        fn: 'set_tone_regions',
+        args: { highlights: -40, shadows: 40 },
+      });
+    });
+
+    it('should not treat lift shadows as exposure', () => {
+      const result = planner.plan({ text: 'lift shadows' });
+      expect(result.calls).toEqual([{ fn: 'set_tone_regions', args: { shadows: 40 } }]);
+    });
+
+    it('should parse slider values', () => {
+      const result = planner.plan({ text: 'whites +15 blacks -20' });
+      expect(result.calls[0]).toEqual({
+        fn: 'set_tone_regions',
+        args: { whites: 15, blacks: -20 },
+      });
+    });
+  });
+
   describe('Crop and Aspect Ratios', () => {
     it('should parse square crop', () => {
       const result = planner.plan({ text: 'crop square' });
@@ -174,6 +198,66 @@ describe('MockPlanner', () => {
     });
   });
 
+  describe('Presets', () => {
+    it('should parse preset names before or after the word preset', () => {
+      expect(planner.plan({ text: 'use our wedding preset' }).calls).toEqual([
+        { fn: 'apply_preset', args: { name: 'wedding' } },
+      ]);
+      expect(planner.plan({ text: 'apply preset film-warm' }).calls).toEqual([
+        { fn: 'apply_preset', args: { name: 'film-warm' } },
+      ]);
+    });
+
+    it('should parse named looks with their variants or intensity', () => {
+      expect(planner.plan({ text: 'apply a mild teal-orange look' }).calls).toEqual([
+        { fn: 'apply_look', args: { name: 'teal_orange_mild' } },
+      ]);
+      expect(planner.plan({ text: 'use a subtle warm film look, brighter' }).calls).toEqual([
+        { fn: 'apply_look', args: { name: 'warm_film', intensity: 35 } },
+        { fn: 'set_exposure', args: { ev: 0.3 } },
+      ]);
+    });
+
+    it('should apply the preset before other adjustments', () => {
+      const result = planner.plan({ text: 'warmer, use the wedding preset' });
+      expect(result.calls.map((call) => call.fn)).toEqual(['apply_preset', 'set_white_balance_temp_tint']);
+      expect(result.notes).toEqual([]);
+    });
+  });
+
+  describe('Local Adjustments', () => {
+    it('should plan subject and background ROIs', () => {
+      expect(planner.plan({ text: 'brighten the subject, mute the background' }).calls).toEqual([
+        { fn: 'local_adjust', args: { roi: [0.25, 0.2, 0.5, 0.6], ev: 0.3 } },
+        { fn: 'local_adjust', args: { roi: [0.25, 0.2, 0.5, 0.6], invert: true, saturation: -20 } },
+      ]);
+    });
+
+    it('should plan at most two ROIs', () => {
+      const result = planner.plan({ text: 'brighten the subject, mute the background, darken background' });
+      expect(result.calls).toHaveLength(2);
+      expect(result.notes).toContain('Only 2 local adjustments per request; ignored "darken background"');
+    });
+  });
+
+  describe('Gradients', () => {
+    it('should plan a graduated filter for the sky and a spotlight', () => {
+      expect(planner.plan({ text: 'darken the sky and spotlight the subject' }).calls).toEqual([
+        { fn: 'gradient_linear', args: { start: [0.5, 0], end: [0.5, 0.5], mask: 'sky', ev: -0.3 } },
+        {
+          fn: 'gradient_radial',
+          args: { center: [0.5, 0.5], radiusX: 0.3, radiusY: 0.4, invert: true, ev: -0.5 },
+        },
+      ]);
+    });
+
+    it('should plan at most two gradients', () => {
+      const result = planner.plan({ text: 'darken the sky, mute the sky, spotlight' });
+      expect(result.calls).toHaveLength(2);
+      expect(result.notes).toContain('Only 2 gradients per request; ignored "spotlight"');
+    });
+  });
+
   describe('Undo/Redo/Reset', () => {
     it('should parse undo', () => {
       const result = planner.plan({ text: 'undo' });
@@ -221,6 +305,14 @@ describe('MockPlanner', () => {
       });
     });
 
+    it('should parse export with web format options', () => {
+      const result = planner.plan({ text: 'export as webp lossless effort 6' });
+      expect(result.calls[0]).toEqual({
+        fn: 'export_image',
+        args: { format: 'webp', lossless: true, effort: 6 },
+      });
+    });
+
     it('should parse export with overwrite', () => {
       const result = planner.plan({ text: 'export to test.jpg overwrite' });
       expect(result.calls).toHaveLength(1);
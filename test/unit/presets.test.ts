@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { EditOp, EditStackManager } from '../../src/editStack';
+import { PresetStore, applyPreset } from '../../src/presets';
+
+describe('User presets', () => {
+  let dir: string;
+  let store: PresetStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'presets-'));
+    store = new PresetStore(path.join(dir, 'presets'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should save, list and remove presets', async () => {
+    const source = new EditStackManager('file:///photos/a.jpg');
+    source.addExposure({ ev: 0.5 });
+    source.addVibrance({ amt: 15 });
+
+    await store.save('Wedding', source.getStack().ops);
+    await store.save('film', [{ id: 'op_01', op: 'contrast', amt: -10 }]);
+
+    const presets = await store.list();
+    expect(presets.map((preset) => preset.name)).toEqual(['film', 'Wedding']);
+    expect(presets[1].ops.every((op) => op.createdAt === undefined)).toBe(true);
+    expect((await store.load('wedding')).name).toBe('Wedding');
+
+    expect(await store.remove('WEDDING')).toBe(true);
+    expect(await store.remove('wedding')).toBe(false);
+    await expect(store.load('wedding')).rejects.toThrow('No preset named wedding');
+  });
+
+  it('should apply presets as undoable edits that amend existing ops', async () => {
+    await store.save('warm', [
+      { id: 'op_01', op: 'white_balance', method: 'temp_tint', temp: 30, tint: 5 },
+      { id: 'op_02', op: 'exposure', ev: 0.3 },
+      { id: 'op_03', op: 'tone_regions', highlights: -40, shadows: 20, whites: 0, blacks: 0 },
+    ]);
+
+    const manager = new EditStackManager('file:///photos/b.jpg');
+    manager.addExposure({ ev: -1 });
+    manager.addContrast({ amt: 20 });
+    applyPreset(manager, await store.load('warm'));
+
+    expect(manager.getStackSummary()).toBe('EV +0.30 • Contrast +20 • WB(temp 30 tint 5) • Tone(hl -40 sh +20)');
+    manager.undo();
+    manager.undo();
+    manager.undo();
+    expect(manager.getStackSummary()).toBe('EV -1.00 • Contrast +20');
+  });
+
+  it('should reject invalid names and preset files', async () => {
+    await expect(store.save('../escape', [])).rejects.toThrow('Invalid preset name');
+
+    await fs.mkdir(store.dir, { recursive: true });
+    await fs.writeFile(path.join(store.dir, 'broken.preset.json'), '{ nope');
+    await fs.writeFile(
+      path.join(store.dir, 'bad.preset.json'),
+      JSON.stringify({ version: 2, name: 'bad', ops: [{ id: 'op_01', op: 'exposure', ev: 9 }], createdAt: '' })
+    );
+
+    await expect(store.load('broken')).rejects.toThrow('not valid JSON');
+    await expect(store.load('bad')).rejects.toThrow('Invalid preset bad: ops.0.ev');
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should reject presets with local ops whose masks are left out', async () => {
+    const masked: EditOp = { id: 'op_02', op: 'local_adjust', roi: [0, 0, 1, 1], feather: 0, ev: 0.3, mask: 'op_01' };
+    await expect(store.save('sky', [masked])).rejects.toThrow(
+      'Cannot save preset sky: op_02 uses mask op_01, which is not in the preset'
+    );
+
+    await fs.mkdir(store.dir, { recursive: true });
+    await fs.writeFile(
+      path.join(store.dir, 'old.preset.json'),
+      JSON.stringify({ version: 2, name: 'old', ops: [masked], createdAt: '' })
+    );
+    await expect(store.load('old')).rejects.toThrow('Invalid preset old: op_02 uses mask op_01');
+
+    const mask: EditOp = { id: 'op_01', op: 'mask', shapes: [{ type: 'auto', mode: 'add', kind: 'sky' }] };
+    await store.save('sky', [mask, masked]);
+    const manager = new EditStackManager('file:///photos/b.jpg');
+    applyPreset(manager, await store.load('sky'));
+    expect(manager.getStackSummary()).toBe('Mask(op_01: auto sky) • Local(roi#1 ev +0.3 mask op_01)');
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import sharp from 'sharp';
-import { applySaturation, applyVibrance } from '../../src/imageProcessing';
+import { applySaturation, applyVibrance, skinHueWeight } from '../../src/imageProcessing';
 import { SaturationOp, VibranceOp } from '../../src/editStack';
 
 describe('Saturation operations', () => {
@@ -28,7 +28,7 @@ describe('Saturation operations', () => {
         amt: 50, // Increase saturation by 50%
       };
 
-      const result = applySaturation(pipeline, op);
+      const result = await applySaturation(pipeline, op);
       const output = await result.raw().toBuffer();
 
       // Gray pixels should remain gray
@@ -67,7 +67,7 @@ describe('Saturation operations', () => {
         amt: 50,
       };
 
-      const result = applySaturation(pipeline, op);
+      const result = await applySaturation(pipeline, op);
       const output = await result.raw().toBuffer();
 
       // Check that saturation increased (more color difference)
@@ -103,7 +103,7 @@ describe('Saturation operations', () => {
         amt: -50, // Decrease saturation
       };
 
-      const result = applySaturation(pipeline, op);
+      const result = await applySaturation(pipeline, op);
       const output = await result.raw().toBuffer();
 
       // Check that saturation decreased (less color difference)
@@ -139,7 +139,7 @@ describe('Saturation operations', () => {
         amt: -100, // Full desaturation (grayscale)
       };
 
-      const result = applySaturation(pipeline, op);
+      const result = await applySaturation(pipeline, op);
       const output = await result.raw().toBuffer();
 
       // Should be grayscale
@@ -239,5 +239,96 @@ describe('Saturation operations', () => {
         expect(Math.abs(r - 128)).toBeLessThan(5);
       }
     });
+
+    it('should move skin-hue pixels less than other muted pixels', async () => {
+      // Same saturation (S = 70/210), skin tone vs muted blue
+      const testBuffer = Buffer.from([210, 170, 140, 140, 170, 210]);
+
+      const pipeline = sharp(testBuffer, {
+        raw: {
+          width: 2,
+          height: 1,
+          channels: 3,
+        },
+      });
+
+      const op: VibranceOp = {
+        id: 'test_vib',
+        op: 'vibrance',
+        amt: 80,
+      };
+
+      const result = await applyVibrance(pipeline, op);
+      const output = await result.raw().toBuffer();
+
+      // Chroma (max - min) before was 70 for both pixels
+      const skinChange = output[0] - output[2] - 70;
+      const blueChange = output[5] - output[3] - 70;
+
+      expect(skinChange).toBeGreaterThan(0);
+      expect(blueChange).toBeGreaterThan(skinChange * 2);
+    });
+
+    it('should reduce muted colors more than saturated ones with negative amount', async () => {
+      const testBuffer = Buffer.from([100, 140, 100, 0, 200, 0]);
+
+      const pipeline = sharp(testBuffer, {
+        raw: {
+          width: 2,
+          height: 1,
+          channels: 3,
+        },
+      });
+
+      const op: VibranceOp = {
+        id: 'test_vib',
+        op: 'vibrance',
+        amt: -50,
+      };
+
+      const result = await applyVibrance(pipeline, op);
+      const output = await result.raw().toBuffer();
+
+      // Relative chroma loss: muted green loses more than vivid green
+      const mutedLoss = 1 - (output[1] - output[0]) / 40;
+      const vividLoss = 1 - (output[4] - output[3]) / 200;
+
+      expect(mutedLoss).toBeGreaterThan(0);
+      expect(vividLoss).toBeLessThan(mutedLoss);
+    });
+
+    it('should keep luminance while adding vibrance', async () => {
+      const testBuffer = Buffer.from([150, 160, 190]);
+
+      const pipeline = sharp(testBuffer, {
+        raw: {
+          width: 1,
+          height: 1,
+          channels: 3,
+        },
+      });
+
+      const op: VibranceOp = {
+        id: 'test_vib',
+        op: 'vibrance',
+        amt: 100,
+      };
+
+      const result = await applyVibrance(pipeline, op);
+      const output = await result.raw().toBuffer();
+
+      const lumaBefore = 0.2126 * 150 + 0.7152 * 160 + 0.0722 * 190;
+      const lumaAfter = 0.2126 * output[0] + 0.7152 * output[1] + 0.0722 * output[2];
+      expect(Math.abs(lumaAfter - lumaBefore)).toBeLessThan(1.5);
+    });
+  });
+
+  describe('skinHueWeight', () => {
+    it('should peak at the skin hue and vanish away from it', () => {
+      expect(skinHueWeight(25)).toBe(1);
+      expect(skinHueWeight(35)).toBeGreaterThan(0);
+      expect(skinHueWeight(120)).toBe(0);
+      expect(skinHueWeight(240)).toBe(0);
+    });
   });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { TOOL_SCHEMAS, validateAndClampCall } from '../../src/planner/tools';
+import { TOOL_SCHEMAS, getClampedValues, validateAndClampCall } from '../../src/planner/tools';
 import { PlannedCall } from '../../src/planner/types';
 
 describe('Schema round-trip validation', () => {
@@ -10,7 +10,13 @@ describe('Schema round-trip validation', () => {
         'set_white_balance_gray',
         'set_exposure',
         'set_contrast',
+        'set_tone_regions',
         'set_crop',
+        'local_adjust',
+        'gradient_linear',
+        'gradient_radial',
+        'apply_preset',
+        'apply_look',
         'undo',
         'redo',
         'reset',
@@ -113,6 +119,61 @@ describe('Schema round-trip validation', () => {
       expect(validated).not.toBeNull();
       expect((validated as any)?.args?.rectNorm).toEqual([0, 1, 0.5, 0.5]); // Clamped to 0-1
     });
+
+    it('should keep local_adjust ROIs inside the image', () => {
+      const validated = validateAndClampCall({
+        fn: 'local_adjust',
+        args: { roi: [0.7, -0.2, 0.6, 0.001], saturation: -140, invert: true },
+      });
+      expect(validated).toEqual({
+        fn: 'local_adjust',
+        args: { roi: [0.7, 0, expect.closeTo(0.3), 0.02], saturation: -100, invert: true },
+      });
+    });
+
+    it('should clamp gradient points and radii', () => {
+      expect(
+        validateAndClampCall({ fn: 'gradient_linear', args: { start: [0.5, -0.1], end: [0.5, 0.6], ev: -4 } })
+      ).toEqual({ fn: 'gradient_linear', args: { start: [0.5, 0], end: [0.5, 0.6], ev: -3 } });
+
+      const radial = { fn: 'gradient_radial', args: { center: [0.5, 0.5], radiusX: 0.01, temp: 30, invert: true } };
+      const validated = validateAndClampCall(radial);
+      expect(validated).toEqual({
+        fn: 'gradient_radial',
+        args: { center: [0.5, 0.5], radiusX: 0.05, radiusY: 0.05, invert: true, temp: 30 },
+      });
+      expect(getClampedValues(radial as any, validated!)).toEqual([
+        { name: 'gradient_radial.radiusX', from: 0.01, to: 0.05 },
+      ]);
+    });
+
+    it('should keep known automatic masks and drop others', () => {
+      const sky = { fn: 'gradient_linear', args: { start: [0.5, 0], end: [0.5, 0.5], mask: 'sky', ev: -0.5 } };
+      expect(validateAndClampCall(sky)).toEqual(sky);
+
+      const validated = validateAndClampCall({
+        fn: 'local_adjust',
+        args: { roi: [0, 0, 1, 1], mask: 'op_01', ev: 0.3 },
+      });
+      expect(validated).toEqual({ fn: 'local_adjust', args: { roi: [0, 0, 1, 1], ev: 0.3 } });
+    });
+  });
+
+  describe('Export formats', () => {
+    it('should accept web and print formats with effort and lossless', () => {
+      const validated = validateAndClampCall({
+        fn: 'export_image',
+        args: { format: 'avif', quality: 60, effort: 12, lossless: false },
+      });
+      expect(validated).toEqual({
+        fn: 'export_image',
+        args: { format: 'avif', quality: 60, effort: 9, lossless: false },
+      });
+
+      for (const format of ['webp', 'heif', 'jxl', 'tiff', 'png16']) {
+        expect((validateAndClampCall({ fn: 'export_image', args: { format } }) as any)?.args?.format).toBe(format);
+      }
+    });
   });
 
   describe('Error cases', () => {
@@ -122,6 +183,12 @@ describe('Schema round-trip validation', () => {
         { fn: 'set_white_balance_temp_tint', args: { temp: 50, tint: '0' } }, // String tint
         { fn: 'set_crop', args: { aspect: 100 } }, // Number instead of string
         { fn: 'export_image', args: { quality: '95' } }, // String instead of number
+        { fn: 'apply_preset', args: { name: ' ' } }, // Blank preset name
+        { fn: 'apply_look', args: { intensity: 50 } }, // Missing look name
+        { fn: 'local_adjust', args: { roi: [0.2, 0.2, 0.5], ev: 0.3 } }, // ROI needs four numbers
+        { fn: 'local_adjust', args: { roi: [0.2, 0.2, 0.5, 0.5], ev: 0 } }, // No adjustment
+        { fn: 'gradient_linear', args: { start: [0.5, 0.5], end: [0.5, 0.5], ev: -0.5 } }, // No direction
+        { fn: 'gradient_radial', args: { center: [0.5, 0.5], ev: 0.3 } }, // Missing radius
       ];
 
       for (const call of invalidCalls) {
@@ -133,7 +200,7 @@ describe('Schema round-trip validation', () => {
     it('should reject operations with invalid enum values', () => {
       const invalidCalls = [
         { fn: 'set_crop', args: { aspect: '5:4' } }, // Invalid aspect ratio
-        { fn: 'export_image', args: { format: 'webp' } }, // Unsupported format
+        { fn: 'export_image', args: { format: 'gif' } }, // Unsupported format
       ];
 
       for (const call of invalidCalls) {
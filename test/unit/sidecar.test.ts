@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { EditStack } from '../../src/editStack';
+import { findSidecar, readSidecar, sidecarPathFor, writeSidecar } from '../../src/sidecar';
+
+describe('Edit stack sidecars', () => {
+  let dir: string;
+  let srcPath: string;
+  let stack: EditStack;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sidecar-'));
+    srcPath = path.join(dir, 'photo.jpg');
+    stack = {
+      version: 2,
+      baseUri: pathToFileURL(srcPath).href,
+      ops: [
+        { id: 'op_01', op: 'exposure', ev: 0.5 },
+        { id: 'op_02', op: 'hsl', bands: { blue: { hue: 0, sat: -20, lum: 0 } } },
+      ],
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip an edit stack with render settings', async () => {
+    const sidecarPath = sidecarPathFor(path.join(dir, 'photo_edit.jpg'));
+    await writeSidecar(sidecarPath, stack, { format: 'jpeg', quality: 90 });
+
+    expect(sidecarPath).toBe(path.join(dir, 'photo_edit.jpg.editstack.json'));
+    expect(await readSidecar(sidecarPath)).toEqual(stack);
+
+    const raw = JSON.parse(await fs.readFile(sidecarPath, 'utf-8'));
+    expect(raw.render).toEqual({ format: 'jpeg', quality: 90 });
+    expect(raw.createdAt).toBeDefined();
+  });
+
+  it('should reject sidecars with invalid ops', async () => {
+    const sidecarPath = path.join(dir, 'bad.editstack.json');
+    await fs.writeFile(sidecarPath, JSON.stringify({ ...stack, ops: [{ id: 'op_01', op: 'exposure', ev: 9 }] }));
+
+    await expect(readSidecar(sidecarPath)).rejects.toThrow('ops.0.ev');
+  });
+
+  it('should upgrade v1 sidecars', async () => {
+    const sidecarPath = path.join(dir, 'old.editstack.json');
+    await fs.writeFile(sidecarPath, JSON.stringify({ ...stack, version: 1 }));
+
+    expect(await readSidecar(sidecarPath)).toEqual(stack);
+  });
+
+  it('should reject sidecars that are not JSON or missing', async () => {
+    const sidecarPath = path.join(dir, 'broken.editstack.json');
+    await fs.writeFile(sidecarPath, '{ nope');
+
+    await expect(readSidecar(sidecarPath)).rejects.toThrow('not valid JSON');
+    await expect(readSidecar(path.join(dir, 'missing.editstack.json'))).rejects.toThrow('Sidecar not found');
+  });
+
+  it('should prefer the sidecar next to the source', async () => {
+    const exportDir = path.join(dir, 'Export');
+    await fs.mkdir(exportDir);
+    await writeSidecar(sidecarPathFor(path.join(exportDir, 'photo_edit.jpg')), stack);
+    await writeSidecar(sidecarPathFor(srcPath), stack);
+
+    expect(await findSidecar(srcPath, [exportDir])).toBe(sidecarPathFor(srcPath));
+  });
+
+  it('should find the newest export sidecar for the source', async () => {
+    const exportDir = path.join(dir, 'Export');
+    await fs.mkdir(exportDir);
+
+    const older = { ...stack, createdAt: '2024-01-01T00:00:00.000Z' };
+    const newer = { ...stack, createdAt: '2024-06-01T00:00:00.000Z' };
+    const otherImage = { ...newer, baseUri: pathToFileURL(path.join(dir, 'photo2.jpg')).href };
+    await fs.writeFile(path.join(exportDir, 'photo_web.jpg.editstack.json'), JSON.stringify(older));
+    await fs.writeFile(path.join(exportDir, 'photo_edit.jpg.editstack.json'), JSON.stringify(newer));
+    await fs.writeFile(path.join(exportDir, 'photo_x.jpg.editstack.json'), JSON.stringify(otherImage));
+
+    expect(await findSidecar(srcPath, [exportDir, path.join(dir, 'missing')])).toBe(
+      path.join(exportDir, 'photo_edit.jpg.editstack.json')
+    );
+  });
+
+  it('should return null when there is no sidecar', async () => {
+    expect(await findSidecar(srcPath, [path.join(dir, 'Export')])).toBeNull();
+  });
+});
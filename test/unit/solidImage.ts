@@ -0,0 +1,13 @@
+// Shared fixture of the curve and levels tests: a tiny image of one 8-bit sRGB color
+import sharp from 'sharp';
+
+// 3x3 image filled with (r, g, b)
+export function solidImage(r: number, g: number, b: number): sharp.Sharp {
+  const buffer = Buffer.alloc(3 * 3 * 3);
+  for (let i = 0; i < buffer.length; i += 3) {
+    buffer[i] = r;
+    buffer[i + 1] = g;
+    buffer[i + 2] = b;
+  }
+  return sharp(buffer, { raw: { width: 3, height: 3, channels: 3 } });
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { applyToneRegions, toneRegionWeights } from '../../src/imageProcessing';
+import { ToneRegionsOp } from '../../src/editStack';
+
+// 256x1 gray ramp from black to white
+function grayRamp(): sharp.Sharp {
+  const buffer = Buffer.alloc(256 * 3);
+  for (let x = 0; x < 256; x++) {
+    buffer[x * 3] = x;
+    buffer[x * 3 + 1] = x;
+    buffer[x * 3 + 2] = x;
+  }
+  return sharp(buffer, { raw: { width: 256, height: 1, channels: 3 } });
+}
+
+function toneOp(sliders: Partial<ToneRegionsOp>): ToneRegionsOp {
+  return { id: 'test_tone', op: 'tone_regions', highlights: 0, shadows: 0, whites: 0, blacks: 0, ...sliders };
+}
+
+describe('Tone regions', () => {
+  describe('toneRegionWeights', () => {
+    it('should weight each region in its part of the luminance range', () => {
+      expect(toneRegionWeights(0).blacks).toBe(1);
+      expect(toneRegionWeights(0.25).shadows).toBeGreaterThan(0.9);
+      expect(toneRegionWeights(0.8).highlights).toBeGreaterThan(0.9);
+      expect(toneRegionWeights(1).whites).toBe(1);
+    });
+
+    it('should keep shadows out of highlights and vice versa', () => {
+      expect(toneRegionWeights(0.9).shadows).toBe(0);
+      expect(toneRegionWeights(0.2).highlights).toBe(0);
+    });
+
+    it('should change smoothly with luminance', () => {
+      for (let i = 1; i <= 100; i++) {
+        const a = toneRegionWeights((i - 1) / 100);
+        const b = toneRegionWeights(i / 100);
+        expect(Math.abs(a.highlights - b.highlights)).toBeLessThan(0.1);
+        expect(Math.abs(a.shadows - b.shadows)).toBeLessThan(0.1);
+      }
+    });
+  });
+
+  describe('applyToneRegions', () => {
+    it('should recover highlights without touching shadows', async () => {
+      const output = await (await applyToneRegions(grayRamp(), toneOp({ highlights: -100 }))).raw().toBuffer();
+
+      expect(output[200 * 3]).toBeLessThan(190);
+      expect(output[50 * 3]).toBe(50);
+    });
+
+    it('should open shadows without touching highlights', async () => {
+      const output = await (await applyToneRegions(grayRamp(), toneOp({ shadows: 100 }))).raw().toBuffer();
+
+      expect(output[64 * 3]).toBeGreaterThan(100);
+      expect(output[220 * 3]).toBe(220);
+      expect(output[0]).toBe(0);
+    });
+
+    it('should preserve hue when scaling colored pixels', async () => {
+      const buffer = Buffer.from([60, 30, 15]);
+      const pipeline = sharp(buffer, { raw: { width: 1, height: 1, channels: 3 } });
+      const output = await (await applyToneRegions(pipeline, toneOp({ shadows: 60 }))).raw().toBuffer();
+
+      expect(output[0]).toBeGreaterThan(60);
+      expect(output[0] / output[1]).toBeCloseTo(2, 1);
+      expect(output[1] / output[2]).toBeCloseTo(2, 1);
+    });
+
+    it('should keep the ramp monotone', async () => {
+      const output = await (await applyToneRegions(grayRamp(), toneOp({ highlights: -100, shadows: 100 })))
+        .raw()
+        .toBuffer();
+
+      for (let x = 1; x < 256; x++) {
+        expect(output[x * 3]).toBeGreaterThanOrEqual(output[(x - 1) * 3]);
+      }
+    });
+  });
+});